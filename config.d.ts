@@ -0,0 +1,22 @@
+﻿export interface ConfigLoadOptions {
+	/**
+		* Directory where the configuration files are located (`app.dir.project` is used if no other value is provided, or `process.cwd()`, if `app.run()` has not been called yet).
+		*/
+	projectDir?: string | null;
+	/**
+		* Name of the current environment, used to load the environment-specific file (`process.env.NODE_ENV` is used if no other value is provided, or `"development"`, if `NODE_ENV` is not set).
+		*/
+	env?: string | null;
+	/**
+		* Base name of the configuration files (`"teem.config"` is used if no other value is provided).
+		*/
+	fileName?: string | null;
+	/**
+		* Prefix of the environment variables (`"TEEM_"` is used if no other value is provided).
+		*/
+	envPrefix?: string | null;
+}
+/**
+	* Loads the configuration, merging (from the lowest to the highest priority) `defaults`, the file `teem.config.json` (or `.js`/`.cjs`), the file `teem.config.{env}.json` (or `.js`/`.cjs`) and the environment variables.
+	*/
+export declare function loadConfig(defaults: any, options: ConfigLoadOptions, defaultProjectDir: string): Promise<any>;
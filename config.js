@@ -0,0 +1,311 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.loadConfig = loadConfig;
+const fs = require("fs");
+const path = require("path");
+const validation_1 = require("./validation");
+const string = { type: "string" };
+const int = { type: "int" };
+const boolean = { type: "boolean" };
+const any = { type: "any" };
+const stringArray = { type: "array", items: string };
+// Only the fields that can actually be represented in JSON files or in
+// environment variables are described in detail. All other fields accept any
+// value (such as functions, which can only be provided by .js files).
+const configSchema = {
+	root: string,
+	staticRoot: string,
+	localIp: string,
+	port: { type: "int", min: 0, max: 65535 },
+	sqlConfig: {
+		type: "object",
+		envName: "sql",
+		properties: {
+			host: string,
+			port: int,
+			socketPath: string,
+			user: string,
+			password: string,
+			database: string,
+			charset: string,
+			timezone: string,
+			connectionLimit: { type: "int", min: 1 },
+			queueLimit: { type: "int", min: 0 },
+			connectTimeout: { type: "int", min: 0 },
+			multipleStatements: boolean,
+			dateStrings: boolean,
+			supportBigNumbers: boolean,
+			bigNumberStrings: boolean
+		}
+	},
+	migrateOnStart: boolean,
+	enableDynamicCompression: boolean,
+	disableStaticFiles: boolean,
+	disableViews: boolean,
+	disableRoutes: boolean,
+	disableCookies: boolean,
+	disableRequestId: boolean,
+	log: {
+		type: "object",
+		properties: {
+			level: { type: "string", enum: ["trace", "debug", "info", "warn", "error", "fatal", "silent"] },
+			format: { type: "string", enum: ["json", "pretty"] },
+			write: any,
+			disableAccessLog: boolean
+		}
+	},
+	metrics: {
+		type: "object",
+		booleanOrObject: true,
+		properties: {
+			route: string,
+			buckets: { type: "array", items: { type: "number", min: 0 } }
+		}
+	},
+	health: {
+		type: "object",
+		booleanOrObject: true,
+		properties: {
+			livenessRoute: string,
+			readinessRoute: string,
+			timeoutMs: { type: "int", min: 1 },
+			maxEventLoopLagMs: { type: "int", min: 1 },
+			shutdownDelayMs: { type: "int", min: 0 }
+		}
+	},
+	session: {
+		type: "object",
+		properties: {
+			secret: any,
+			store: any,
+			cookieName: string,
+			maxAge: { type: "int", min: 1 },
+			secure: boolean,
+			sameSite: { type: "string", enum: ["strict", "lax", "none"] },
+			domain: string,
+			fileDir: string,
+			tableName: string
+		}
+	},
+	csrf: {
+		type: "object",
+		booleanOrObject: true,
+		properties: {
+			mode: { type: "string", enum: ["session", "doubleSubmit"] },
+			fieldName: string,
+			headerName: string,
+			cookieName: string
+		}
+	},
+	rateLimit: {
+		type: "object",
+		properties: {
+			windowMs: { type: "int", min: 1 },
+			max: { type: "int", min: 1 },
+			key: any,
+			store: any,
+			tableName: string
+		}
+	},
+	cors: {
+		type: "object",
+		booleanOrObject: true,
+		properties: {
+			origin: any,
+			methods: stringArray,
+			allowedHeaders: stringArray,
+			exposedHeaders: stringArray,
+			credentials: boolean,
+			maxAge: { type: "int", min: 0 }
+		}
+	},
+	securityHeaders: {
+		type: "object",
+		booleanOrObject: true,
+		properties: {
+			hsts: any,
+			contentTypeOptions: boolean,
+			referrerPolicy: any,
+			frameOptions: any,
+			contentSecurityPolicy: any,
+			contentSecurityPolicyReportOnly: boolean
+		}
+	},
+	disableBodyParser: boolean,
+	disableFormData: boolean,
+	disableNoCacheHeader: boolean,
+	mainModuleDir: string,
+	projectDir: string,
+	staticFilesDir: string,
+	viewsDir: string,
+	routesDir: stringArray,
+	migrationsDir: string,
+	staticFilesConfig: { type: "object" },
+	viewsCacheSize: { type: "int", min: 0 },
+	bodyParserLimit: { type: "int", min: 0 },
+	logRoutesToConsole: boolean,
+	openApiRoute: string,
+	openApiFile: string,
+	openApiInfo: { type: "object" },
+	useClassNamesAsRoutes: boolean,
+	allMethodsRoutesAllByDefault: boolean,
+	allMethodsRoutesHiddenByDefault: boolean,
+	returnValueAsResponse: boolean,
+	watchRoutes: boolean,
+	onInit: any,
+	onBeforeRoute: any,
+	onAfterRoute: any,
+	onFinish: any,
+	onShutdown: any,
+	shutdownTimeout: { type: "int", min: 0 },
+	disableShutdownSignals: boolean,
+	https: {
+		type: "object",
+		properties: {
+			key: any,
+			cert: any,
+			ca: any,
+			passphrase: string,
+			http2: boolean,
+			redirectPort: { type: "int", min: 0, max: 65535 }
+		}
+	},
+	isApiRequest: any,
+	authenticate: any,
+	loginRoute: string,
+	authRequiredByDefault: boolean,
+	errorHandler: any,
+	htmlErrorHandler: any
+};
+function isPlainObject(value) {
+	return (!!value && (typeof value) === "object" && !Array.isArray(value) && !Buffer.isBuffer(value));
+}
+function merge(target, source) {
+	for (let name in source) {
+		const value = source[name];
+		if (value === undefined)
+			continue;
+		// Arrays and all other values replace the previous ones, while objects are merged.
+		if (isPlainObject(value) && isPlainObject(target[name]))
+			target[name] = merge(Object.assign({}, target[name]), value);
+		else
+			target[name] = (isPlainObject(value) ? merge({}, value) : value);
+	}
+	return target;
+}
+function toEnvName(name) {
+	return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+async function loadFile(dir, baseName, source) {
+	for (let extension of [".json", ".js", ".cjs"]) {
+		const file = path.join(dir, baseName + extension);
+		if (!fs.existsSync(file))
+			continue;
+		let value;
+		if (extension === ".json") {
+			try {
+				value = JSON.parse(await fs.promises.readFile(file, "utf8"));
+			}
+			catch (ex) {
+				throw new Error(`Error parsing configuration file ${file}: ${ex.message}`);
+			}
+		}
+		else {
+			value = require(file);
+			if (value && value.__esModule && ("default" in value))
+				value = value.default;
+			if ((typeof value) === "function")
+				value = await Promise.resolve(value());
+		}
+		if (!isPlainObject(value))
+			throw new Error(`Configuration file ${file} must contain an object`);
+		source.push(file);
+		return value;
+	}
+	return null;
+}
+function readEnv(schema, prefix, env, target, source) {
+	for (let name in schema) {
+		const field = schema[name], envName = prefix + toEnvName(field.envName || name);
+		if (field.type === "object" && field.properties) {
+			if (field.booleanOrObject && env[envName] !== undefined) {
+				target[name] = env[envName];
+				source.push(envName);
+			}
+			const nested = {};
+			readEnv(field.properties, envName + "_", env, nested, source);
+			if (Object.keys(nested).length)
+				target[name] = merge(isPlainObject(target[name]) ? target[name] : {}, nested);
+			continue;
+		}
+		const value = env[envName];
+		if (value === undefined)
+			continue;
+		switch (field.type) {
+			case "string":
+			case "number":
+			case "int":
+			case "boolean":
+				target[name] = value;
+				source.push(envName);
+				break;
+			case "array":
+				target[name] = (value ? value.split(",").map((item) => item.trim()) : []);
+				source.push(envName);
+				break;
+		}
+	}
+}
+function validateConfig(schema, config) {
+	const errors = [], validationSchema = {};
+	for (let name in config) {
+		const field = schema[name];
+		if (!field) {
+			errors.push({ field: name, message: "is not a valid configuration option" });
+			continue;
+		}
+		if (field.booleanOrObject) {
+			const value = config[name];
+			if ((typeof value) === "boolean" || value === null || value === undefined)
+				continue;
+			if ((typeof value) === "string") {
+				switch (value.toLowerCase()) {
+					case "true":
+					case "1":
+						config[name] = true;
+						continue;
+					case "false":
+					case "0":
+						config[name] = false;
+						continue;
+				}
+			}
+			if (!isPlainObject(value)) {
+				errors.push({ field: name, message: "must be a boolean or an object" });
+				continue;
+			}
+		}
+		validationSchema[name] = field;
+	}
+	errors.push.apply(errors, (0, validation_1.validate)(validationSchema, config));
+	return errors;
+}
+/**
+	* Loads the configuration, merging (from the lowest to the highest priority) `defaults`, the file `teem.config.json` (or `.js`/`.cjs`), the file `teem.config.{env}.json` (or `.js`/`.cjs`) and the environment variables.
+	*/
+async function loadConfig(defaults, options, defaultProjectDir) {
+	const projectDir = (options.projectDir || defaultProjectDir || process.cwd()), env = (options.env || process.env.NODE_ENV || "development"), fileName = (options.fileName || "teem.config"), envPrefix = (options.envPrefix || "TEEM_"), source = [], config = merge({}, defaults || {});
+	const baseFile = await loadFile(projectDir, fileName, source);
+	if (baseFile)
+		merge(config, baseFile);
+	const envFile = await loadFile(projectDir, fileName + "." + env, source);
+	if (envFile)
+		merge(config, envFile);
+	const envConfig = {};
+	readEnv(configSchema, envPrefix, process.env, envConfig, source);
+	merge(config, envConfig);
+	const errors = validateConfig(configSchema, config);
+	if (errors.length)
+		throw new Error("Invalid configuration" + (source.length ? (" (loaded from " + source.join(", ") + ")") : "") + ":\n" + errors.map((error) => `- ${error.field}: ${error.message}`).join("\n"));
+	return config;
+}
@@ -0,0 +1,56 @@
+﻿import express = require("express");
+export interface CorsConfig {
+	/**
+		* Origins allowed to access the routes (`"*"` is used if no other value is provided, allowing all origins).
+		*
+		* - `"*"`: all origins are allowed
+		* - String: only the given origin is allowed, such as `"https://app.example.com"`
+		* - Array: only the origins in the array are allowed
+		* - Function: called with the `Origin` header of each request, must return `true` if the origin is allowed
+		*
+		* When `credentials` is `true`, the actual origin of the request is sent in the `Access-Control-Allow-Origin` header, instead of `*`.
+		*/
+	origin?: string | string[] | ((origin: string, req: express.Request) => boolean) | null;
+	/**
+		* HTTP methods allowed in preflight responses (the methods of all routes sharing the same path are used if no other value is provided).
+		*/
+	methods?: string[] | null;
+	/**
+		* Headers allowed in preflight responses (the headers listed in the `Access-Control-Request-Headers` header of the request are used if no other value is provided).
+		*/
+	allowedHeaders?: string[] | null;
+	/**
+		* Headers the browser is allowed to expose to scripts, sent in the `Access-Control-Expose-Headers` header.
+		*/
+	exposedHeaders?: string[] | null;
+	/**
+		* Indicates whether the browser may send cookies and other credentials along with the requests (`false` is used if no other value is provided).
+		*/
+	credentials?: boolean | null;
+	/**
+		* Amount of seconds during which the browser may cache preflight responses, sent in the `Access-Control-Max-Age` header.
+		*/
+	maxAge?: number | null;
+}
+export interface CorsOptions {
+	anyOrigin: boolean;
+	isOriginAllowed: (origin: string, req: express.Request) => boolean;
+	methods: string | null;
+	allowedHeaders: string | null;
+	exposedHeaders: string | null;
+	credentials: boolean;
+	maxAge: string | null;
+}
+export declare function createCorsOptions(corsConfig: CorsConfig): CorsOptions;
+/**
+	* Creates a middleware that adds the CORS headers to the responses of regular (non-preflight) requests.
+	*/
+export declare function createCorsMiddleware(options: CorsOptions): Function;
+/**
+	* Creates a handler that answers the preflight requests of a path, using the options of the route that handles the method requested by the browser.
+	*
+	* `optionsByMethod` is indexed by the uppercase HTTP method.
+	*/
+export declare function createCorsPreflightHandler(optionsByMethod: {
+	[method: string]: CorsOptions;
+}): Function;
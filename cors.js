@@ -0,0 +1,101 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createCorsOptions = createCorsOptions;
+exports.createCorsMiddleware = createCorsMiddleware;
+exports.createCorsPreflightHandler = createCorsPreflightHandler;
+function joinList(list) {
+	return ((list && list.length) ? list.join(", ") : null);
+}
+function createCorsOptions(corsConfig) {
+	const origin = corsConfig.origin;
+	let anyOrigin = false, isOriginAllowed;
+	if (!origin || origin === "*") {
+		anyOrigin = true;
+		isOriginAllowed = function () { return true; };
+	}
+	else if ((typeof origin) === "function") {
+		isOriginAllowed = origin;
+	}
+	else if (Array.isArray(origin)) {
+		const origins = {};
+		for (let i = origin.length - 1; i >= 0; i--)
+			origins[origin[i]] = true;
+		isOriginAllowed = function (origin) { return (origins[origin] === true); };
+	}
+	else if ((typeof origin) === "string") {
+		isOriginAllowed = function (o) { return (o === origin); };
+	}
+	else {
+		throw new Error("Invalid value for config.cors.origin");
+	}
+	const maxAge = parseInt(corsConfig.maxAge);
+	return {
+		anyOrigin,
+		isOriginAllowed,
+		methods: joinList(corsConfig.methods && corsConfig.methods.map((method) => method.toUpperCase())),
+		allowedHeaders: joinList(corsConfig.allowedHeaders),
+		exposedHeaders: joinList(corsConfig.exposedHeaders),
+		credentials: !!corsConfig.credentials,
+		maxAge: ((isNaN(maxAge) || maxAge < 0) ? null : maxAge.toString())
+	};
+}
+function setOriginHeaders(options, req, res) {
+	const origin = req.headers.origin;
+	if (options.anyOrigin && !options.credentials) {
+		res.setHeader("Access-Control-Allow-Origin", "*");
+		return true;
+	}
+	// The response depends on the origin of the request, so caches must take it into account.
+	res.vary("Origin");
+	if (!origin || !options.isOriginAllowed(origin, req))
+		return false;
+	res.setHeader("Access-Control-Allow-Origin", origin);
+	if (options.credentials)
+		res.setHeader("Access-Control-Allow-Credentials", "true");
+	return true;
+}
+/**
+	* Creates a middleware that adds the CORS headers to the responses of regular (non-preflight) requests.
+	*/
+function createCorsMiddleware(options) {
+	return function (req, res, next) {
+		if (req.headers.origin && setOriginHeaders(options, req, res) && options.exposedHeaders)
+			res.setHeader("Access-Control-Expose-Headers", options.exposedHeaders);
+		next();
+	};
+}
+/**
+	* Creates a handler that answers the preflight requests of a path, using the options of the route that handles the method requested by the browser.
+	*
+	* `optionsByMethod` is indexed by the uppercase HTTP method.
+	*/
+function createCorsPreflightHandler(optionsByMethod) {
+	const methods = Object.keys(optionsByMethod).sort().join(", ");
+	return function (req, res) {
+		const requestMethod = req.headers["access-control-request-method"];
+		if (!requestMethod) {
+			// A regular OPTIONS request, not sent by the browser.
+			res.setHeader("Allow", methods);
+			res.status(204).end();
+			return;
+		}
+		const options = optionsByMethod[requestMethod.toUpperCase()];
+		if (options && setOriginHeaders(options, req, res)) {
+			res.setHeader("Access-Control-Allow-Methods", options.methods || methods);
+			if (options.allowedHeaders) {
+				res.setHeader("Access-Control-Allow-Headers", options.allowedHeaders);
+			}
+			else {
+				const requestHeaders = req.headers["access-control-request-headers"];
+				res.vary("Access-Control-Request-Headers");
+				if (requestHeaders)
+					res.setHeader("Access-Control-Allow-Headers", requestHeaders);
+			}
+			if (options.maxAge)
+				res.setHeader("Access-Control-Max-Age", options.maxAge);
+		}
+		// When the origin is not allowed, the response is sent without the headers above,
+		// so the browser does not perform the actual request.
+		res.status(204).end();
+	};
+}
@@ -0,0 +1,165 @@
+import express = require("express");
+
+export interface CorsConfig {
+	/**
+	 * Origins allowed to access the routes (`"*"` is used if no other value is provided, allowing all origins).
+	 * 
+	 * - `"*"`: all origins are allowed
+	 * - String: only the given origin is allowed, such as `"https://app.example.com"`
+	 * - Array: only the origins in the array are allowed
+	 * - Function: called with the `Origin` header of each request, must return `true` if the origin is allowed
+	 * 
+	 * When `credentials` is `true`, the actual origin of the request is sent in the `Access-Control-Allow-Origin` header, instead of `*`.
+	 */
+	origin?: string | string[] | ((origin: string, req: express.Request) => boolean) | null;
+
+	/**
+	 * HTTP methods allowed in preflight responses (the methods of all routes sharing the same path are used if no other value is provided).
+	 */
+	methods?: string[] | null;
+
+	/**
+	 * Headers allowed in preflight responses (the headers listed in the `Access-Control-Request-Headers` header of the request are used if no other value is provided).
+	 */
+	allowedHeaders?: string[] | null;
+
+	/**
+	 * Headers the browser is allowed to expose to scripts, sent in the `Access-Control-Expose-Headers` header.
+	 */
+	exposedHeaders?: string[] | null;
+
+	/**
+	 * Indicates whether the browser may send cookies and other credentials along with the requests (`false` is used if no other value is provided).
+	 */
+	credentials?: boolean | null;
+
+	/**
+	 * Amount of seconds during which the browser may cache preflight responses, sent in the `Access-Control-Max-Age` header.
+	 */
+	maxAge?: number | null;
+}
+
+export interface CorsOptions {
+	anyOrigin: boolean;
+	isOriginAllowed: (origin: string, req: express.Request) => boolean;
+	methods: string | null;
+	allowedHeaders: string | null;
+	exposedHeaders: string | null;
+	credentials: boolean;
+	maxAge: string | null;
+}
+
+function joinList(list: string[] | null | undefined): string | null {
+	return ((list && list.length) ? list.join(", ") : null);
+}
+
+export function createCorsOptions(corsConfig: CorsConfig): CorsOptions {
+	const origin = corsConfig.origin;
+
+	let anyOrigin = false,
+		isOriginAllowed: (origin: string, req: express.Request) => boolean;
+
+	if (!origin || origin === "*") {
+		anyOrigin = true;
+		isOriginAllowed = function () { return true; };
+	} else if ((typeof origin) === "function") {
+		isOriginAllowed = origin as (origin: string, req: express.Request) => boolean;
+	} else if (Array.isArray(origin)) {
+		const origins: { [origin: string]: boolean } = {};
+		for (let i = origin.length - 1; i >= 0; i--)
+			origins[origin[i]] = true;
+		isOriginAllowed = function (origin: string) { return (origins[origin] === true); };
+	} else if ((typeof origin) === "string") {
+		isOriginAllowed = function (o: string) { return (o === origin); };
+	} else {
+		throw new Error("Invalid value for config.cors.origin");
+	}
+
+	const maxAge = parseInt(corsConfig.maxAge as any);
+
+	return {
+		anyOrigin,
+		isOriginAllowed,
+		methods: joinList(corsConfig.methods && corsConfig.methods.map((method) => method.toUpperCase())),
+		allowedHeaders: joinList(corsConfig.allowedHeaders),
+		exposedHeaders: joinList(corsConfig.exposedHeaders),
+		credentials: !!corsConfig.credentials,
+		maxAge: ((isNaN(maxAge) || maxAge < 0) ? null : maxAge.toString())
+	};
+}
+
+function setOriginHeaders(options: CorsOptions, req: express.Request, res: express.Response): boolean {
+	const origin = req.headers.origin;
+
+	if (options.anyOrigin && !options.credentials) {
+		res.setHeader("Access-Control-Allow-Origin", "*");
+		return true;
+	}
+
+	// The response depends on the origin of the request, so caches must take it into account.
+	res.vary("Origin");
+
+	if (!origin || !options.isOriginAllowed(origin, req))
+		return false;
+
+	res.setHeader("Access-Control-Allow-Origin", origin);
+
+	if (options.credentials)
+		res.setHeader("Access-Control-Allow-Credentials", "true");
+
+	return true;
+}
+
+/**
+ * Creates a middleware that adds the CORS headers to the responses of regular (non-preflight) requests.
+ */
+export function createCorsMiddleware(options: CorsOptions): Function {
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		if (req.headers.origin && setOriginHeaders(options, req, res) && options.exposedHeaders)
+			res.setHeader("Access-Control-Expose-Headers", options.exposedHeaders);
+
+		next();
+	};
+}
+
+/**
+ * Creates a handler that answers the preflight requests of a path, using the options of the route that handles the method requested by the browser.
+ * 
+ * `optionsByMethod` is indexed by the uppercase HTTP method.
+ */
+export function createCorsPreflightHandler(optionsByMethod: { [method: string]: CorsOptions }): Function {
+	const methods = Object.keys(optionsByMethod).sort().join(", ");
+
+	return function (req: express.Request, res: express.Response): void {
+		const requestMethod = req.headers["access-control-request-method"];
+
+		if (!requestMethod) {
+			// A regular OPTIONS request, not sent by the browser.
+			res.setHeader("Allow", methods);
+			res.status(204).end();
+			return;
+		}
+
+		const options = optionsByMethod[requestMethod.toUpperCase()];
+
+		if (options && setOriginHeaders(options, req, res)) {
+			res.setHeader("Access-Control-Allow-Methods", options.methods || methods);
+
+			if (options.allowedHeaders) {
+				res.setHeader("Access-Control-Allow-Headers", options.allowedHeaders);
+			} else {
+				const requestHeaders = req.headers["access-control-request-headers"];
+				res.vary("Access-Control-Request-Headers");
+				if (requestHeaders)
+					res.setHeader("Access-Control-Allow-Headers", requestHeaders);
+			}
+
+			if (options.maxAge)
+				res.setHeader("Access-Control-Max-Age", options.maxAge);
+		}
+
+		// When the origin is not allowed, the response is sent without the headers above,
+		// so the browser does not perform the actual request.
+		res.status(204).end();
+	};
+}
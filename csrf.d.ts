@@ -0,0 +1,30 @@
+﻿export interface CsrfConfig {
+	/**
+		* How tokens are stored (`"session"` is used if `config.session` is provided, `"doubleSubmit"` is used otherwise).
+		*
+		* - `"session"`: a single token is stored in the session of each user (requires `config.session`)
+		* - `"doubleSubmit"`: the token is stored in a cookie, and the value sent along with the request must match the value of the cookie
+		*/
+	mode?: "session" | "doubleSubmit" | null;
+	/**
+		* Name of the field, in urlencoded or `multipart/form-data` bodies, that carries the token (`"_csrf"` is used if no other value is provided).
+		*/
+	fieldName?: string | null;
+	/**
+		* Name of the header that carries the token, used by requests made from JavaScript (`"x-csrf-token"` is used if no other value is provided).
+		*/
+	headerName?: string | null;
+	/**
+		* Name of the cookie that stores the token when `mode` is `"doubleSubmit"` (`"teem.csrf"` is used if no other value is provided).
+		*
+		* The cookie is not `HttpOnly`, so it can be read by JavaScript code in order to fill the header.
+		*/
+	cookieName?: string | null;
+}
+/**
+	* Creates the middleware that exposes the token of the current request through the function `res.locals.csrfToken()`, as well as the middleware that verifies the token of requests with a body.
+	*/
+export declare function createCsrfMiddleware(csrfConfig: CsrfConfig, sessionEnabled: boolean, root: string): {
+	token: Function;
+	verify: Function;
+};
@@ -0,0 +1,83 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createCsrfMiddleware = createCsrfMiddleware;
+const crypto = require("crypto");
+const errors_1 = require("./errors");
+const session_1 = require("./session");
+// Property of the session where the token is stored.
+const sessionKey = "_csrf";
+function createToken() {
+	return crypto.randomBytes(24).toString("hex");
+}
+function isValidToken(token) {
+	return ((typeof token) === "string" && /^[0-9a-f]{48}$/.test(token));
+}
+function tokensMatch(a, b) {
+	return (a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b)));
+}
+function createOptions(csrfConfig, sessionEnabled, root) {
+	const mode = (csrfConfig.mode || (sessionEnabled ? "session" : "doubleSubmit"));
+	if (mode !== "session" && mode !== "doubleSubmit")
+		throw new Error(`Invalid value for config.csrf.mode: "${mode}"`);
+	if (mode === "session" && !sessionEnabled)
+		throw new Error("config.csrf.mode is \"session\", but config.session has not been provided");
+	return {
+		session: (mode === "session"),
+		fieldName: (csrfConfig.fieldName || "_csrf"),
+		headerName: (csrfConfig.headerName || "x-csrf-token").toLowerCase(),
+		cookieName: (csrfConfig.cookieName || "teem.csrf"),
+		path: (root || "/")
+	};
+}
+function currentToken(options, req) {
+	const token = (options.session ? (req.session && req.session[sessionKey]) : (0, session_1.readCookie)(req, options.cookieName));
+	return (isValidToken(token) ? token : null);
+}
+/**
+	* Creates the middleware that exposes the token of the current request through the function `res.locals.csrfToken()`, as well as the middleware that verifies the token of requests with a body.
+	*/
+function createCsrfMiddleware(csrfConfig, sessionEnabled, root) {
+	const options = createOptions(csrfConfig, sessionEnabled, root);
+	const token = function (req, res, next) {
+		let token = null;
+		// Tokens are only created when they are actually used (such as by a view
+		// containing a form), so that regular pages do not create sessions or cookies.
+		// A function is used instead of a getter, because Express copies all the
+		// properties of res.locals every time a view is rendered.
+		res.locals.csrfToken = function () {
+			if (token)
+				return token;
+			token = currentToken(options, req);
+			if (token)
+				return token;
+			token = createToken();
+			if (options.session) {
+				req.session[sessionKey] = token;
+			}
+			else if (!res.headersSent) {
+				(0, session_1.appendSetCookie)(res, options.cookieName + "=" + token + "; Path=" + options.path + "; SameSite=Lax" + (req.secure ? "; Secure" : ""));
+			}
+			return token;
+		};
+		next();
+	};
+	const verify = function (req, res, next) {
+		switch (req.method) {
+			case "GET":
+			case "HEAD":
+			case "OPTIONS":
+				next();
+				return;
+		}
+		const expected = currentToken(options, req), received = ((req.body && req.body[options.fieldName]) || req.headers[options.headerName]);
+		if (!expected || !isValidToken(received) || !tokensMatch(expected, received)) {
+			next(new errors_1.Forbidden("Invalid CSRF token"));
+			return;
+		}
+		// The token must not reach the method as if it were regular data.
+		if (req.body && req.body[options.fieldName])
+			delete req.body[options.fieldName];
+		next();
+	};
+	return { token, verify };
+}
@@ -0,0 +1,139 @@
+import crypto = require("crypto");
+import express = require("express");
+import { Forbidden } from "./errors";
+import { appendSetCookie, readCookie } from "./session";
+
+export interface CsrfConfig {
+	/**
+	 * How tokens are stored (`"session"` is used if `config.session` is provided, `"doubleSubmit"` is used otherwise).
+	 * 
+	 * - `"session"`: a single token is stored in the session of each user (requires `config.session`)
+	 * - `"doubleSubmit"`: the token is stored in a cookie, and the value sent along with the request must match the value of the cookie
+	 */
+	mode?: "session" | "doubleSubmit" | null;
+
+	/**
+	 * Name of the field, in urlencoded or `multipart/form-data` bodies, that carries the token (`"_csrf"` is used if no other value is provided).
+	 */
+	fieldName?: string | null;
+
+	/**
+	 * Name of the header that carries the token, used by requests made from JavaScript (`"x-csrf-token"` is used if no other value is provided).
+	 */
+	headerName?: string | null;
+
+	/**
+	 * Name of the cookie that stores the token when `mode` is `"doubleSubmit"` (`"teem.csrf"` is used if no other value is provided).
+	 * 
+	 * The cookie is not `HttpOnly`, so it can be read by JavaScript code in order to fill the header.
+	 */
+	cookieName?: string | null;
+}
+
+interface CsrfOptions {
+	session: boolean;
+	fieldName: string;
+	headerName: string;
+	cookieName: string;
+	path: string;
+}
+
+// Property of the session where the token is stored.
+const sessionKey = "_csrf";
+
+function createToken(): string {
+	return crypto.randomBytes(24).toString("hex");
+}
+
+function isValidToken(token: any): boolean {
+	return ((typeof token) === "string" && /^[0-9a-f]{48}$/.test(token));
+}
+
+function tokensMatch(a: string, b: string): boolean {
+	return (a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b)));
+}
+
+function createOptions(csrfConfig: CsrfConfig, sessionEnabled: boolean, root: string): CsrfOptions {
+	const mode = (csrfConfig.mode || (sessionEnabled ? "session" : "doubleSubmit"));
+
+	if (mode !== "session" && mode !== "doubleSubmit")
+		throw new Error(`Invalid value for config.csrf.mode: "${mode}"`);
+
+	if (mode === "session" && !sessionEnabled)
+		throw new Error("config.csrf.mode is \"session\", but config.session has not been provided");
+
+	return {
+		session: (mode === "session"),
+		fieldName: (csrfConfig.fieldName || "_csrf"),
+		headerName: (csrfConfig.headerName || "x-csrf-token").toLowerCase(),
+		cookieName: (csrfConfig.cookieName || "teem.csrf"),
+		path: (root || "/")
+	};
+}
+
+function currentToken(options: CsrfOptions, req: express.Request): string | null {
+	const token = (options.session ? ((req as any).session && (req as any).session[sessionKey]) : readCookie(req, options.cookieName));
+	return (isValidToken(token) ? token : null);
+}
+
+/**
+ * Creates the middleware that exposes the token of the current request through the function `res.locals.csrfToken()`, as well as the middleware that verifies the token of requests with a body.
+ */
+export function createCsrfMiddleware(csrfConfig: CsrfConfig, sessionEnabled: boolean, root: string): { token: Function, verify: Function } {
+	const options = createOptions(csrfConfig, sessionEnabled, root);
+
+	const token = function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		let token: string | null = null;
+
+		// Tokens are only created when they are actually used (such as by a view
+		// containing a form), so that regular pages do not create sessions or cookies.
+		// A function is used instead of a getter, because Express copies all the
+		// properties of res.locals every time a view is rendered.
+		res.locals.csrfToken = function (): string {
+			if (token)
+				return token;
+
+			token = currentToken(options, req);
+			if (token)
+				return token;
+
+			token = createToken();
+
+			if (options.session) {
+				(req as any).session[sessionKey] = token;
+			} else if (!res.headersSent) {
+				appendSetCookie(res, options.cookieName + "=" + token + "; Path=" + options.path + "; SameSite=Lax" + (req.secure ? "; Secure" : ""));
+			}
+
+			return token;
+		};
+
+		next();
+	};
+
+	const verify = function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		switch (req.method) {
+			case "GET":
+			case "HEAD":
+			case "OPTIONS":
+				next();
+				return;
+		}
+
+		const expected = currentToken(options, req),
+			received = ((req.body && req.body[options.fieldName]) || req.headers[options.headerName]);
+
+		if (!expected || !isValidToken(received) || !tokensMatch(expected, received)) {
+			next(new Forbidden("Invalid CSRF token"));
+			return;
+		}
+
+		// The token must not reach the method as if it were regular data.
+		if (req.body && req.body[options.fieldName])
+			delete req.body[options.fieldName];
+
+		next();
+	};
+
+	return { token, verify };
+}
@@ -0,0 +1,88 @@
+﻿import type { ValidationFieldError } from "./validation";
+export declare class HttpError extends Error {
+	/**
+		* HTTP status code of the response sent to the client.
+		*/
+	status: number;
+	/**
+		* URI identifying the type of the problem (`"about:blank"` is used if no other value is provided).
+		*
+		* Refer to https://www.rfc-editor.org/rfc/rfc7807#section-3.1 for more information.
+		*/
+	type: string;
+	/**
+		* Optional extension members to be added to the `application/problem+json` body sent to the client.
+		*
+		* Members named `type`, `title`, `status`, `detail` and `instance` are ignored.
+		*/
+	extensions: any;
+	constructor(status: number, message?: string, extensions?: any, type?: string);
+}
+export declare class BadRequest extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class Unauthorized extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class Forbidden extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class NotFound extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class Conflict extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class TooManyRequests extends HttpError {
+	constructor(message?: string, extensions?: any, type?: string);
+}
+export declare class ValidationError extends BadRequest {
+	/**
+		* All the problems found during the validation.
+		*
+		* `errors` is also sent to the client as an extension member of the `application/problem+json` body.
+		*/
+	errors: ValidationFieldError[];
+	constructor(message: string, errors: ValidationFieldError[], extensions?: any, type?: string);
+}
+export interface ErrorClasses {
+	/**
+		* Base class of all the error classes below, which can be used to produce responses with any other status code, such as `new app.errors.HttpError(429, "Slow down")`.
+		*/
+	HttpError: typeof HttpError;
+	/**
+		* Error with status `400`.
+		*/
+	BadRequest: typeof BadRequest;
+	/**
+		* Error with status `401`.
+		*/
+	Unauthorized: typeof Unauthorized;
+	/**
+		* Error with status `403`.
+		*/
+	Forbidden: typeof Forbidden;
+	/**
+		* Error with status `404`.
+		*/
+	NotFound: typeof NotFound;
+	/**
+		* Error with status `409`.
+		*/
+	Conflict: typeof Conflict;
+	/**
+		* Error with status `429`.
+		*/
+	TooManyRequests: typeof TooManyRequests;
+	/**
+		* Error with status `400`, carrying the details of all the fields that failed validation in its `errors` property.
+		*/
+	ValidationError: typeof ValidationError;
+}
+export declare const errorClasses: ErrorClasses;
+/**
+	* Creates an RFC 7807 problem details object describing `err`.
+	*
+	* `err` does not need to be an instance of `HttpError`: any object with the properties `message`, `status`, `extensions` or `errors` is accepted. The property `type` is only used for instances of `HttpError`, as other errors (such as the ones produced by body-parser) use it for other purposes.
+	*/
+export declare function createProblem(err: any, status: number, instance: string): any;
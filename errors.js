@@ -0,0 +1,103 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.errorClasses = exports.ValidationError = exports.TooManyRequests = exports.Conflict = exports.NotFound = exports.Forbidden = exports.Unauthorized = exports.BadRequest = exports.HttpError = void 0;
+exports.createProblem = createProblem;
+const http = require("http");
+class HttpError extends Error {
+	constructor(status, message, extensions, type) {
+		super(message || http.STATUS_CODES[status] || "Unknown error");
+		this.name = new.target.name;
+		this.status = status;
+		this.type = (type || "about:blank");
+		this.extensions = (extensions || null);
+	}
+}
+exports.HttpError = HttpError;
+class BadRequest extends HttpError {
+	constructor(message, extensions, type) {
+		super(400, message, extensions, type);
+	}
+}
+exports.BadRequest = BadRequest;
+class Unauthorized extends HttpError {
+	constructor(message, extensions, type) {
+		super(401, message, extensions, type);
+	}
+}
+exports.Unauthorized = Unauthorized;
+class Forbidden extends HttpError {
+	constructor(message, extensions, type) {
+		super(403, message, extensions, type);
+	}
+}
+exports.Forbidden = Forbidden;
+class NotFound extends HttpError {
+	constructor(message, extensions, type) {
+		super(404, message, extensions, type);
+	}
+}
+exports.NotFound = NotFound;
+class Conflict extends HttpError {
+	constructor(message, extensions, type) {
+		super(409, message, extensions, type);
+	}
+}
+exports.Conflict = Conflict;
+class TooManyRequests extends HttpError {
+	constructor(message, extensions, type) {
+		super(429, message, extensions, type);
+	}
+}
+exports.TooManyRequests = TooManyRequests;
+class ValidationError extends BadRequest {
+	constructor(message, errors, extensions, type) {
+		super(message, extensions, type);
+		this.errors = errors;
+	}
+}
+exports.ValidationError = ValidationError;
+exports.errorClasses = {
+	HttpError,
+	BadRequest,
+	Unauthorized,
+	Forbidden,
+	NotFound,
+	Conflict,
+	TooManyRequests,
+	ValidationError
+};
+const reservedMembers = {
+	type: true,
+	title: true,
+	status: true,
+	detail: true,
+	instance: true
+};
+/**
+	* Creates an RFC 7807 problem details object describing `err`.
+	*
+	* `err` does not need to be an instance of `HttpError`: any object with the properties `message`, `status`, `extensions` or `errors` is accepted. The property `type` is only used for instances of `HttpError`, as other errors (such as the ones produced by body-parser) use it for other purposes.
+	*/
+function createProblem(err, status, instance) {
+	const problem = {
+		type: ((err instanceof HttpError && err.type) ? err.type : "about:blank"),
+		title: (http.STATUS_CODES[status] || "Unknown error"),
+		status
+	};
+	if (err && err.message)
+		problem.detail = err.message;
+	if (instance)
+		problem.instance = instance;
+	if (err) {
+		const extensions = err.extensions;
+		if (extensions && (typeof extensions) === "object") {
+			for (let name in extensions) {
+				if (!reservedMembers[name])
+					problem[name] = extensions[name];
+			}
+		}
+		if (Array.isArray(err.errors))
+			problem.errors = err.errors;
+	}
+	return problem;
+}
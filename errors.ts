@@ -0,0 +1,176 @@
+import http = require("http");
+import type { ValidationFieldError } from "./validation";
+
+export class HttpError extends Error {
+	/**
+	 * HTTP status code of the response sent to the client.
+	 */
+	public status: number;
+
+	/**
+	 * URI identifying the type of the problem (`"about:blank"` is used if no other value is provided).
+	 * 
+	 * Refer to https://www.rfc-editor.org/rfc/rfc7807#section-3.1 for more information.
+	 */
+	public type: string;
+
+	/**
+	 * Optional extension members to be added to the `application/problem+json` body sent to the client.
+	 * 
+	 * Members named `type`, `title`, `status`, `detail` and `instance` are ignored.
+	 */
+	public extensions: any;
+
+	public constructor(status: number, message?: string, extensions?: any, type?: string) {
+		super(message || http.STATUS_CODES[status] || "Unknown error");
+		this.name = new.target.name;
+		this.status = status;
+		this.type = (type || "about:blank");
+		this.extensions = (extensions || null);
+	}
+}
+
+export class BadRequest extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(400, message, extensions, type);
+	}
+}
+
+export class Unauthorized extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(401, message, extensions, type);
+	}
+}
+
+export class Forbidden extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(403, message, extensions, type);
+	}
+}
+
+export class NotFound extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(404, message, extensions, type);
+	}
+}
+
+export class Conflict extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(409, message, extensions, type);
+	}
+}
+
+export class TooManyRequests extends HttpError {
+	public constructor(message?: string, extensions?: any, type?: string) {
+		super(429, message, extensions, type);
+	}
+}
+
+export class ValidationError extends BadRequest {
+	/**
+	 * All the problems found during the validation.
+	 * 
+	 * `errors` is also sent to the client as an extension member of the `application/problem+json` body.
+	 */
+	public errors: ValidationFieldError[];
+
+	public constructor(message: string, errors: ValidationFieldError[], extensions?: any, type?: string) {
+		super(message, extensions, type);
+		this.errors = errors;
+	}
+}
+
+export interface ErrorClasses {
+	/**
+	 * Base class of all the error classes below, which can be used to produce responses with any other status code, such as `new app.errors.HttpError(429, "Slow down")`.
+	 */
+	HttpError: typeof HttpError;
+
+	/**
+	 * Error with status `400`.
+	 */
+	BadRequest: typeof BadRequest;
+
+	/**
+	 * Error with status `401`.
+	 */
+	Unauthorized: typeof Unauthorized;
+
+	/**
+	 * Error with status `403`.
+	 */
+	Forbidden: typeof Forbidden;
+
+	/**
+	 * Error with status `404`.
+	 */
+	NotFound: typeof NotFound;
+
+	/**
+	 * Error with status `409`.
+	 */
+	Conflict: typeof Conflict;
+
+	/**
+	 * Error with status `429`.
+	 */
+	TooManyRequests: typeof TooManyRequests;
+
+	/**
+	 * Error with status `400`, carrying the details of all the fields that failed validation in its `errors` property.
+	 */
+	ValidationError: typeof ValidationError;
+}
+
+export const errorClasses: ErrorClasses = {
+	HttpError,
+	BadRequest,
+	Unauthorized,
+	Forbidden,
+	NotFound,
+	Conflict,
+	TooManyRequests,
+	ValidationError
+};
+
+const reservedMembers: { [name: string]: boolean } = {
+	type: true,
+	title: true,
+	status: true,
+	detail: true,
+	instance: true
+};
+
+/**
+ * Creates an RFC 7807 problem details object describing `err`.
+ * 
+ * `err` does not need to be an instance of `HttpError`: any object with the properties `message`, `status`, `extensions` or `errors` is accepted. The property `type` is only used for instances of `HttpError`, as other errors (such as the ones produced by body-parser) use it for other purposes.
+ */
+export function createProblem(err: any, status: number, instance: string): any {
+	const problem: any = {
+		type: ((err instanceof HttpError && err.type) ? err.type : "about:blank"),
+		title: (http.STATUS_CODES[status] || "Unknown error"),
+		status
+	};
+
+	if (err && err.message)
+		problem.detail = err.message;
+
+	if (instance)
+		problem.instance = instance;
+
+	if (err) {
+		const extensions = err.extensions;
+		if (extensions && (typeof extensions) === "object") {
+			for (let name in extensions) {
+				if (!reservedMembers[name])
+					problem[name] = extensions[name];
+			}
+		}
+
+		if (Array.isArray(err.errors))
+			problem.errors = err.errors;
+	}
+
+	return problem;
+}
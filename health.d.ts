@@ -0,0 +1,73 @@
+﻿export interface HealthConfig {
+	/**
+		* Route of the liveness endpoint (`"/healthz"` is used if no other value is provided).
+		*
+		* The liveness endpoint only runs the checks registered with `{ liveness: true }`, along with the built-in event loop check.
+		*/
+	livenessRoute?: string | null;
+	/**
+		* Route of the readiness endpoint (`"/readyz"` is used if no other value is provided).
+		*
+		* The readiness endpoint runs all the checks, and always fails while the app is shutting down.
+		*/
+	readinessRoute?: string | null;
+	/**
+		* Maximum amount of milliseconds each check is allowed to take before being considered failed (`5000` is used if no other value is provided).
+		*/
+	timeoutMs?: number | null;
+	/**
+		* Maximum event loop lag, in milliseconds, before the built-in event loop check fails (`1000` is used if no other value is provided).
+		*/
+	maxEventLoopLagMs?: number | null;
+	/**
+		* Amount of milliseconds `app.stop()` waits, while the readiness endpoint fails, before it stops accepting new connections (`0` is used if no other value is provided).
+		*
+		* This gives the load balancer time to notice the app is no longer ready, and to stop sending new requests to it, before the server is actually closed.
+		*/
+	shutdownDelayMs?: number | null;
+}
+export interface HealthCheckOptions {
+	/**
+		* Indicates whether the check is also executed by the liveness endpoint (`false` is used if no other value is provided).
+		*
+		* Liveness checks should only fail when restarting the process is the only way to recover, so checks of external resources, such as databases, should usually not be liveness checks.
+		*/
+	liveness?: boolean | null;
+}
+export interface HealthMethods {
+	/**
+		* Registers a check, executed by the health endpoints enabled by `config.health`.
+		*
+		* The check fails if `check` throws an exception, if the promise it returns is rejected, or if it takes longer than `config.health.timeoutMs`. Otherwise, the value it returns (if any) is sent as the `details` of the check.
+		*
+		* The error of a failed check is not sent to the client, as the endpoints are not authenticated, but it is written to `app.log`.
+		*
+		* Registering a check with the same name of an existing check replaces the existing check.
+		*
+		* @param name Name of the check, used in the output of the endpoints.
+		* @param check Function that performs the check.
+		* @param options Optional settings of the check.
+		*/
+	register(name: string, check: () => any, options?: HealthCheckOptions): void;
+	/**
+		* Removes a check previously registered with `app.health.register()`.
+		*
+		* @param name Name of the check.
+		*/
+	unregister(name: string): void;
+}
+export declare const healthMethods: HealthMethods;
+export interface Health {
+	liveness: Function;
+	readiness: Function;
+	shutdownDelayMs: number;
+	close(): void;
+}
+/**
+	* Creates the handlers of the health endpoints, along with the built-in checks.
+	*
+	* `builtInChecks` contains the checks that depend on the configuration of the app (such as the database check).
+	*/
+export declare function createHealth(healthConfig: HealthConfig, builtInChecks: {
+	[name: string]: () => any;
+}, isShuttingDown: () => boolean): Health;
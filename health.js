@@ -0,0 +1,117 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.healthMethods = void 0;
+exports.createHealth = createHealth;
+const log_1 = require("./log");
+const healthChecks = new Map();
+const healthLog = log_1.log.child({ type: "health" });
+exports.healthMethods = {
+	register: function (name, check, options) {
+		if (!name)
+			throw new Error("Missing check name");
+		if ((typeof check) !== "function")
+			throw new Error(`Invalid function for the check "${name}"`);
+		healthChecks.set(name, { check, liveness: !!(options && options.liveness) });
+	},
+	unregister: function (name) {
+		healthChecks.delete(name);
+	}
+};
+async function runCheck(name, check, timeoutMs) {
+	const start = Date.now();
+	let timeout = null;
+	try {
+		const details = await Promise.race([
+			Promise.resolve().then(check),
+			new Promise(function (resolve, reject) {
+				timeout = setTimeout(function () {
+					reject(new Error("Timeout"));
+				}, timeoutMs);
+			})
+		]);
+		const result = { status: "ok", durationMs: Date.now() - start };
+		if (details !== undefined)
+			result.details = details;
+		return result;
+	}
+	catch (ex) {
+		// Errors may contain details such as user names, hosts or paths.
+		healthLog.warn(`Health check "${name}" failed`, { check: name, err: ex });
+		return { status: "error", durationMs: Date.now() - start };
+	}
+	finally {
+		if (timeout)
+			clearTimeout(timeout);
+	}
+}
+/**
+	* Creates the handlers of the health endpoints, along with the built-in checks.
+	*
+	* `builtInChecks` contains the checks that depend on the configuration of the app (such as the database check).
+	*/
+function createHealth(healthConfig, builtInChecks, isShuttingDown) {
+	let timeoutMs = parseInt(healthConfig.timeoutMs);
+	if (isNaN(timeoutMs) || timeoutMs <= 0)
+		timeoutMs = 5000;
+	let maxEventLoopLagMs = parseInt(healthConfig.maxEventLoopLagMs);
+	if (isNaN(maxEventLoopLagMs) || maxEventLoopLagMs <= 0)
+		maxEventLoopLagMs = 1000;
+	let shutdownDelayMs = parseInt(healthConfig.shutdownDelayMs);
+	if (isNaN(shutdownDelayMs) || shutdownDelayMs < 0)
+		shutdownDelayMs = 0;
+	// The lag is measured as how late a timer fires, compared to when it was
+	// supposed to fire.
+	const lagInterval = 500;
+	let eventLoopLag = 0, expected = Date.now() + lagInterval, lagTimer = setInterval(function () {
+		const now = Date.now();
+		eventLoopLag = Math.max(0, now - expected);
+		expected = now + lagInterval;
+	}, lagInterval);
+	lagTimer.unref();
+	const eventLoopCheck = {
+		check: function () {
+			if (eventLoopLag > maxEventLoopLagMs)
+				throw new Error(`Event loop lag of ${eventLoopLag}ms`);
+			return { lagMs: eventLoopLag };
+		},
+		liveness: true
+	};
+	const respond = async function (res, liveness) {
+		const checks = { eventLoop: eventLoopCheck };
+		if (!liveness) {
+			for (let name in builtInChecks)
+				checks[name] = { check: builtInChecks[name], liveness: false };
+		}
+		for (let [name, healthCheck] of healthChecks) {
+			if (!liveness || healthCheck.liveness)
+				checks[name] = healthCheck;
+		}
+		const names = Object.keys(checks), results = await Promise.all(names.map((name) => runCheck(name, checks[name].check, timeoutMs))), output = { status: "ok", checks: {} };
+		for (let i = 0; i < names.length; i++) {
+			output.checks[names[i]] = results[i];
+			if (results[i].status !== "ok")
+				output.status = "error";
+		}
+		if (!liveness && isShuttingDown()) {
+			output.status = "error";
+			output.shuttingDown = true;
+		}
+		res.setHeader("Cache-Control", "no-store");
+		res.status(output.status === "ok" ? 200 : 503).json(output);
+	};
+	return {
+		liveness: function (req, res, next) {
+			respond(res, true).catch(next);
+		},
+		readiness: function (req, res, next) {
+			respond(res, false).catch(next);
+		},
+		shutdownDelayMs,
+		close: function () {
+			if (lagTimer) {
+				clearInterval(lagTimer);
+				lagTimer = null;
+			}
+		}
+	};
+}
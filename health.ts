@@ -0,0 +1,226 @@
+import express = require("express");
+import { log } from "./log";
+
+export interface HealthConfig {
+	/**
+	 * Route of the liveness endpoint (`"/healthz"` is used if no other value is provided).
+	 * 
+	 * The liveness endpoint only runs the checks registered with `{ liveness: true }`, along with the built-in event loop check.
+	 */
+	livenessRoute?: string | null;
+
+	/**
+	 * Route of the readiness endpoint (`"/readyz"` is used if no other value is provided).
+	 * 
+	 * The readiness endpoint runs all the checks, and always fails while the app is shutting down.
+	 */
+	readinessRoute?: string | null;
+
+	/**
+	 * Maximum amount of milliseconds each check is allowed to take before being considered failed (`5000` is used if no other value is provided).
+	 */
+	timeoutMs?: number | null;
+
+	/**
+	 * Maximum event loop lag, in milliseconds, before the built-in event loop check fails (`1000` is used if no other value is provided).
+	 */
+	maxEventLoopLagMs?: number | null;
+
+	/**
+	 * Amount of milliseconds `app.stop()` waits, while the readiness endpoint fails, before it stops accepting new connections (`0` is used if no other value is provided).
+	 * 
+	 * This gives the load balancer time to notice the app is no longer ready, and to stop sending new requests to it, before the server is actually closed.
+	 */
+	shutdownDelayMs?: number | null;
+}
+
+export interface HealthCheckOptions {
+	/**
+	 * Indicates whether the check is also executed by the liveness endpoint (`false` is used if no other value is provided).
+	 * 
+	 * Liveness checks should only fail when restarting the process is the only way to recover, so checks of external resources, such as databases, should usually not be liveness checks.
+	 */
+	liveness?: boolean | null;
+}
+
+export interface HealthMethods {
+	/**
+	 * Registers a check, executed by the health endpoints enabled by `config.health`.
+	 * 
+	 * The check fails if `check` throws an exception, if the promise it returns is rejected, or if it takes longer than `config.health.timeoutMs`. Otherwise, the value it returns (if any) is sent as the `details` of the check.
+	 * 
+	 * The error of a failed check is not sent to the client, as the endpoints are not authenticated, but it is written to `app.log`.
+	 * 
+	 * Registering a check with the same name of an existing check replaces the existing check.
+	 * 
+	 * @param name Name of the check, used in the output of the endpoints.
+	 * @param check Function that performs the check.
+	 * @param options Optional settings of the check.
+	 */
+	register(name: string, check: () => any, options?: HealthCheckOptions): void;
+
+	/**
+	 * Removes a check previously registered with `app.health.register()`.
+	 * 
+	 * @param name Name of the check.
+	 */
+	unregister(name: string): void;
+}
+
+interface HealthCheck {
+	check: () => any;
+	liveness: boolean;
+}
+
+interface CheckResult {
+	status: "ok" | "error";
+	durationMs: number;
+	details?: any;
+}
+
+const healthChecks = new Map<string, HealthCheck>();
+
+const healthLog = log.child({ type: "health" });
+
+export const healthMethods: HealthMethods = {
+	register: function (name: string, check: () => any, options?: HealthCheckOptions): void {
+		if (!name)
+			throw new Error("Missing check name");
+
+		if ((typeof check) !== "function")
+			throw new Error(`Invalid function for the check "${name}"`);
+
+		healthChecks.set(name, { check, liveness: !!(options && options.liveness) });
+	},
+
+	unregister: function (name: string): void {
+		healthChecks.delete(name);
+	}
+};
+
+async function runCheck(name: string, check: () => any, timeoutMs: number): Promise<CheckResult> {
+	const start = Date.now();
+
+	let timeout: NodeJS.Timeout | null = null;
+
+	try {
+		const details = await Promise.race([
+			Promise.resolve().then(check),
+			new Promise(function (resolve, reject) {
+				timeout = setTimeout(function () {
+					reject(new Error("Timeout"));
+				}, timeoutMs);
+			})
+		]);
+
+		const result: CheckResult = { status: "ok", durationMs: Date.now() - start };
+		if (details !== undefined)
+			result.details = details;
+		return result;
+	} catch (ex: any) {
+		// Errors may contain details such as user names, hosts or paths.
+		healthLog.warn(`Health check "${name}" failed`, { check: name, err: ex });
+		return { status: "error", durationMs: Date.now() - start };
+	} finally {
+		if (timeout)
+			clearTimeout(timeout);
+	}
+}
+
+export interface Health {
+	liveness: Function;
+	readiness: Function;
+	shutdownDelayMs: number;
+	close(): void;
+}
+
+/**
+ * Creates the handlers of the health endpoints, along with the built-in checks.
+ * 
+ * `builtInChecks` contains the checks that depend on the configuration of the app (such as the database check).
+ */
+export function createHealth(healthConfig: HealthConfig, builtInChecks: { [name: string]: () => any }, isShuttingDown: () => boolean): Health {
+	let timeoutMs = parseInt(healthConfig.timeoutMs as any);
+	if (isNaN(timeoutMs) || timeoutMs <= 0)
+		timeoutMs = 5000;
+
+	let maxEventLoopLagMs = parseInt(healthConfig.maxEventLoopLagMs as any);
+	if (isNaN(maxEventLoopLagMs) || maxEventLoopLagMs <= 0)
+		maxEventLoopLagMs = 1000;
+
+	let shutdownDelayMs = parseInt(healthConfig.shutdownDelayMs as any);
+	if (isNaN(shutdownDelayMs) || shutdownDelayMs < 0)
+		shutdownDelayMs = 0;
+
+	// The lag is measured as how late a timer fires, compared to when it was
+	// supposed to fire.
+	const lagInterval = 500;
+	let eventLoopLag = 0,
+		expected = Date.now() + lagInterval,
+		lagTimer: NodeJS.Timeout | null = setInterval(function () {
+			const now = Date.now();
+			eventLoopLag = Math.max(0, now - expected);
+			expected = now + lagInterval;
+		}, lagInterval);
+	lagTimer.unref();
+
+	const eventLoopCheck: HealthCheck = {
+		check: function (): any {
+			if (eventLoopLag > maxEventLoopLagMs)
+				throw new Error(`Event loop lag of ${eventLoopLag}ms`);
+			return { lagMs: eventLoopLag };
+		},
+		liveness: true
+	};
+
+	const respond = async function (res: express.Response, liveness: boolean): Promise<void> {
+		const checks: { [name: string]: HealthCheck } = { eventLoop: eventLoopCheck };
+
+		if (!liveness) {
+			for (let name in builtInChecks)
+				checks[name] = { check: builtInChecks[name], liveness: false };
+		}
+
+		for (let [name, healthCheck] of healthChecks) {
+			if (!liveness || healthCheck.liveness)
+				checks[name] = healthCheck;
+		}
+
+		const names = Object.keys(checks),
+			results = await Promise.all(names.map((name) => runCheck(name, checks[name].check, timeoutMs))),
+			output: any = { status: "ok", checks: {} };
+
+		for (let i = 0; i < names.length; i++) {
+			output.checks[names[i]] = results[i];
+			if (results[i].status !== "ok")
+				output.status = "error";
+		}
+
+		if (!liveness && isShuttingDown()) {
+			output.status = "error";
+			output.shuttingDown = true;
+		}
+
+		res.setHeader("Cache-Control", "no-store");
+		res.status(output.status === "ok" ? 200 : 503).json(output);
+	};
+
+	return {
+		liveness: function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+			respond(res, true).catch(next);
+		},
+
+		readiness: function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+			respond(res, false).catch(next);
+		},
+
+		shutdownDelayMs,
+
+		close: function (): void {
+			if (lagTimer) {
+				clearInterval(lagTimer);
+				lagTimer = null;
+			}
+		}
+	};
+}
@@ -4,11 +4,13 @@ module.exports = {
 	sep: "/",
 	reg: /\\/g,
 	importJs: false,
+	reload: false,
 
 	cleanUp: function () {
 		delete this["sep"];
 		delete this["reg"];
 		delete this["importJs"];
+		delete this["reload"];
 		delete this["cleanUp"];
 		delete this["importFile"];
 	},
@@ -20,6 +22,9 @@ module.exports = {
 		// https://v8.dev/features/dynamic-import
 		// https://techsparx.com/nodejs/esnext/dynamic-import.html
 		if ((isJs && !this.importJs) || lcase.endsWith(".cjs")) {
+			if (this.reload)
+				delete require.cache[absolutePath];
+
 			try {
 				return Promise.resolve(require(absolutePath));
 			} catch (ex) {
@@ -37,6 +42,7 @@ module.exports = {
 			src = "/" + src.replace(/\\/g, "/");
 		src = encodeURI(src);
 
-		return import("file://" + src);
+		// ES modules cannot be removed from the cache, so a new URL is used instead.
+		return import("file://" + src + (this.reload ? ("?t=" + Date.now()) : ""));
 	}
 };
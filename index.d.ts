@@ -1,11 +1,29 @@
 ﻿import express = require("express");
 import fs = require("fs");
+import http = require("http");
+import https = require("https");
+import { ConfigLoadOptions as CLO } from "./config";
+import { ErrorClasses, HttpError as HE, ValidationError as VE } from "./errors";
 import { UploadedFile as UF } from "./fileSystem";
+import { HealthCheckOptions as HCO, HealthConfig as HC, HealthMethods } from "./health";
+import { LogConfig as LC, LogLevel as LL, Logger as Lg } from "./log";
+import { OpenApiInfo as OAI } from "./openApi";
+import { ViewResult as VR, RedirectResult as RR, StatusResult as SR, ResultHelpers } from "./result";
+import { Schema as S, SchemaField as SF, ValidationFieldError as VFE } from "./validation";
 import { RequestOptions, CommonResponse as CommonRes, JSONResponse as JSONRes, StringResponse as StringRes, BufferResponse as BufferRes } from "./request";
+import type { CorsConfig as CConfig } from "./cors";
+import type { CsrfConfig as CsrfConf } from "./csrf";
 import type { PoolOptions } from "mysql2";
+import type { MetricsConfig as MConfig } from "./metrics";
+import type { MigrationInfo as MI, MigrationMethods as MM } from "./migrations";
+import type { CompiledQuery as CQ, DeleteQuery as DQ, InsertQuery as IQ, SelectQuery as SQ, UpdateQuery as UQ, WhereConditions as WC } from "./queryBuilder";
+import type { HstsConfig as HConfig, SecurityHeadersConfig as SHConfig } from "./securityHeaders";
+import type { RateLimitConfig as RLConfig, RateLimitHit as RLHit, RateLimitOptions as RLOptions, RateLimitStore as RLStore } from "./rateLimit";
+import type { Http2SecureServer } from "http2";
 import type { ServeStaticOptions } from "serve-static";
+import type { Session as Sess, SessionConfig as SessConfig, SessionStore as SessStore, SessionStoreEntry as SessStoreEntry } from "./session";
 import type { URL } from "url";
-import type { SqlInterface } from "./sql";
+import type { SqlBatchResult as SBR, SqlBatchStatement as SBS, SqlInterface, SqlPreparedStatement as SPS, SqlWarning as SW } from "./sql";
 declare namespace app {
 	interface JSONResponse extends JSONRes {
 	}
@@ -18,9 +36,171 @@ declare namespace app {
 	interface UploadedFiles {
 		[fieldname: string]: UploadedFile;
 	}
+	interface Schema extends S {
+	}
+	interface SchemaField extends SF {
+	}
+	interface ValidationFieldError extends VFE {
+	}
+	interface OpenApiInfo extends OAI {
+	}
+	interface HttpError extends HE {
+	}
+	interface ValidationError extends VE {
+	}
+	interface ViewResult extends VR {
+	}
+	interface RedirectResult extends RR {
+	}
+	interface StatusResult extends SR {
+	}
+	interface HttpsConfig {
+		/**
+			* Private key of the server, in PEM format.
+			*
+			* If a string is provided, it is considered to be the path of the file containing the key, relative to `app.dir.project` (absolute paths are also accepted).
+			*/
+		key: string | Buffer;
+		/**
+			* Certificate chain of the server, in PEM format.
+			*
+			* If a string is provided, it is considered to be the path of the file containing the certificate chain, relative to `app.dir.project` (absolute paths are also accepted).
+			*/
+		cert: string | Buffer;
+		/**
+			* Optional trusted CA certificates, in PEM format.
+			*
+			* Strings are considered to be paths of files, just like in `key` and `cert`.
+			*/
+		ca?: string | Buffer | (string | Buffer)[] | null;
+		/**
+			* Optional passphrase used to decrypt the private key.
+			*/
+		passphrase?: string | null;
+		/**
+			* Enables HTTP/2.
+			*
+			* Clients that do not support HTTP/2 are still served using HTTP/1.1 over TLS.
+			*
+			* Express.js 4 was not designed to work with Node.js's HTTP/2 compatibility API, so, internally, its request and response objects are adapted to work on top of `http2.Http2ServerRequest` and `http2.Http2ServerResponse`. Third-party middleware that access the underlying socket directly might not work with HTTP/2 requests.
+			*
+			* Refer to https://nodejs.org/api/http2.html#compatibility-api for more information.
+			*/
+		http2?: boolean | null;
+		/**
+			* TCP port of an additional plain HTTP server, which redirects all requests to the HTTPS server using status `301`.
+			*
+			* If a value is not provided, the additional server is not created.
+			*
+			* The additional server uses the same IP address as the main server (`app.localIp`).
+			*/
+		redirectPort?: number | null;
+	}
+	interface RouteInfo {
+		/**
+			* HTTP method accepted by the route, in lower case, such as `"get"`, `"post"` or `"all"`.
+			*/
+		httpMethod: string;
+		/**
+			* Full route, such as `/api/sales/order/m1` or `/user/edit/:id` (`app.root` is not included).
+			*/
+		route: string;
+		/**
+			* Absolute path of the file where the route was found.
+			*/
+		file: string;
+		/**
+			* Name of the class (or function) that produced the route, or an empty string `""` if the route was produced by a plain object.
+			*/
+		className: string;
+		/**
+			* Name of the method that produced the route.
+			*/
+		methodName: string;
+		/**
+			* Amount of middleware functions executed before the method, including the ones automatically added by the framework, such as body parsers and validators.
+			*/
+		middlewareCount: number;
+		/**
+			* Indicates whether the route was marked with the `@app.route.formData()` decorator.
+			*/
+		formData: boolean;
+		/**
+			* Indicates whether the route requires an authenticated user (refer to `app.auth` for more information).
+			*/
+		authRequired: boolean;
+		/**
+			* Roles accepted by the route, as specified by `@app.auth.roles()`, or `null` if any authenticated user is accepted (or if the route does not require authentication).
+			*/
+		roles: string[] | null;
+		/**
+			* Indicates whether the route verifies the CSRF token of the requests (refer to `config.csrf` for more information).
+			*/
+		csrf: boolean;
+		/**
+			* Indicates whether the route sends CORS headers (refer to `config.cors` for more information).
+			*/
+		cors: boolean;
+	}
+	interface ConfigLoadOptions extends CLO {
+	}
+	interface CorsConfig extends CConfig {
+	}
+	interface CsrfConfig extends CsrfConf {
+	}
+	interface MetricsConfig extends MConfig {
+	}
+	interface MigrationInfo extends MI {
+	}
+	interface MigrationMethods extends MM {
+	}
+	interface RateLimitConfig extends RLConfig {
+	}
+	interface RateLimitHit extends RLHit {
+	}
+	interface RateLimitOptions extends RLOptions {
+	}
+	interface RateLimitStore extends RLStore {
+	}
+	interface HstsConfig extends HConfig {
+	}
+	interface SecurityHeadersConfig extends SHConfig {
+	}
+	interface Session extends Sess {
+	}
+	interface SessionConfig extends SessConfig {
+	}
+	interface SessionStore extends SessStore {
+	}
+	interface SessionStoreEntry extends SessStoreEntry {
+	}
 	interface Request extends express.Request {
 		uploadedFiles?: UploadedFiles;
 		uploadedFilesArray?: UploadedFile[];
+		/**
+			* Id of the current request, taken from the `X-Request-Id` header sent by the client (or by a proxy), or created by teem if the header is missing or is invalid.
+			*
+			* The id is also sent back to the client in the `X-Request-Id` header, and is added to the entries of the access log and to the entries of errors logged by teem.
+			*
+			* `req.id` is not available when `config.disableRequestId` is `true`.
+			*/
+		id?: string;
+		/**
+			* Session of the current request.
+			*
+			* `req.session` is only available when `config.session` is provided.
+			*
+			* Refer to `config.session` for more information.
+			*/
+		session?: Session;
+		/**
+			* User of the current request, as returned by `config.authenticate`.
+			*
+			* `req.user` is `null` when the request is not authenticated, and `undefined` when `config.authenticate` is not provided.
+			*
+			* Refer to `app.auth` for more information.
+			*/
+		user?: any;
 	}
 	interface Response extends express.Response {
 	}
@@ -28,6 +208,44 @@ declare namespace app {
 	}
 	interface Sql extends SqlInterface {
 	}
+	interface SqlWarning extends SW {
+	}
+	interface SqlPreparedStatement extends SPS {
+	}
+	interface SqlBatchStatement extends SBS {
+	}
+	interface SqlBatchResult extends SBR {
+	}
+	interface CompiledQuery extends CQ {
+	}
+	interface SelectQuery<T> extends SQ<T> {
+	}
+	interface InsertQuery extends IQ {
+	}
+	interface UpdateQuery extends UQ {
+	}
+	interface DeleteQuery extends DQ {
+	}
+	interface WhereConditions extends WC {
+	}
+	/**
+		* Types accepted by the `@app.route.param()` decorator.
+		*
+		* - `"int"`: an integer number, such as `123` or `-45` (the value in `req.params` is converted into a `number`)
+		* - `"float"`: any finite number, such as `1.5` or `-2e3` (the value in `req.params` is converted into a `number`)
+		* - `"boolean"`: `true`, `false`, `1` or `0` (the value in `req.params` is converted into a `boolean`)
+		* - `"string"`: any non-empty string (the value in `req.params` is not converted)
+		*/
+	type RouteParamType = "int" | "float" | "boolean" | "string";
+	type LogLevel = LL;
+	interface HealthCheckOptions extends HCO {
+	}
+	interface HealthConfig extends HC {
+	}
+	interface LogConfig extends LC {
+	}
+	interface Logger extends Lg {
+	}
 	interface Config {
 		/**
 			* The root path where this app is located in the actual server, in case the server hosts several apps in a single domain.
@@ -91,6 +309,14 @@ declare namespace app {
 			* Refer to https://www.npmjs.com/package/mysql2#using-connection-pools for more information on the available options.
 			*/
 		sqlConfig?: PoolOptions | null;
+		/**
+			* Applies all pending migrations from `app.dir.migrations` during `app.run()`, right after the MySQL connection pool is created, before any routes are registered (`config.sqlConfig` must be provided).
+			*
+			* If a migration fails, `app.run()` fails as well.
+			*
+			* Refer to `app.migrations` for more information.
+			*/
+		migrateOnStart?: boolean | null;
 		/**
 			* Enables the compression of all responses produced by routes and middleware functions (static files are not affected by this flag, as they are not compressed by default).
 			*
@@ -143,6 +369,212 @@ declare namespace app {
 			* Refer to https://www.npmjs.com/package/cookie-parser for more information.
 			*/
 		disableCookies?: boolean | null;
+		/**
+			* Disables the middleware that sets `req.id` and sends the `X-Request-Id` header.
+			*/
+		disableRequestId?: boolean | null;
+		/**
+			* Configures `app.log` and enables the access log.
+			*
+			* For example:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     log: {
+			*         level: "debug",
+			*         format: "json"
+			*     }
+			* });
+			* ```
+			*
+			* Even if `config.log` is not provided, `app.log` is still available (using the default settings), and errors with status `500` or greater, handled by teem, are still logged. The access log, on the other hand, is only enabled when `config.log` is provided.
+			*
+			* Refer to `app.LogConfig` for more information on the available options.
+			*/
+		log?: app.LogConfig | null;
+		/**
+			* Serves metrics about the app using the Prometheus text format.
+			*
+			* If `true` is provided, the default settings are used, and the metrics are served at the route `/metrics`. Refer to `app.MetricsConfig` for more information on the available options.
+			*
+			* The following metrics are available:
+			*
+			* - `http_requests_total` and `http_request_duration_seconds`: requests handled by the app, labeled by HTTP method, route pattern (such as `/user/:id`, or an empty string if the request did not reach a route) and status code
+			* - `sql_queries_total` and `sql_query_duration_seconds`: statements executed by `query()` and `scalar()`, labeled by method and result (`success` or `error`)
+			* - `sql_pool_connections`, `sql_pool_connections_in_use` and `sql_pool_queue_length`: usage of the connection pool (only when `config.sqlConfig` is provided)
+			* - `http_client_requests_total` and `http_client_request_duration_seconds`: requests sent by `app.request`, labeled by HTTP method, host and status code (or `error`, if no response was received)
+			* - `process_resident_memory_bytes`: resident memory size of the process
+			*
+			* The route is not protected in any way, so access to it should be restricted by other means, such as by a reverse proxy.
+			*/
+		metrics?: app.MetricsConfig | boolean | null;
+		/**
+			* Enables the liveness (`/healthz`) and readiness (`/readyz`) endpoints, used by load balancers and orchestrators.
+			*
+			* If `true` is provided, the default settings are used. Refer to `app.HealthConfig` for more information on the available options.
+			*
+			* Both endpoints respond with status `200` when all of their checks succeed, or with status `503` otherwise, along with a JSON body such as:
+			*
+			* ```json
+			* {
+			*     "status": "ok",
+			*     "checks": {
+			*         "eventLoop": { "status": "ok", "durationMs": 0, "details": { "lagMs": 2 } },
+			*         "mysql": { "status": "ok", "durationMs": 3 },
+			*         "fileSystem": { "status": "ok", "durationMs": 0 }
+			*     }
+			* }
+			* ```
+			*
+			* The built-in checks are:
+			*
+			* - `eventLoop`: fails when the event loop lag exceeds `config.health.maxEventLoopLagMs` (liveness and readiness)
+			* - `mysql`: executes `SELECT 1` using `app.sql.connect()`, only when `config.sqlConfig` is provided (readiness)
+			* - `fileSystem`: verifies whether `app.dir.project`, used by `app.fileSystem`, is writable (readiness)
+			*
+			* Additional checks can be registered with `app.health.register()`. The readiness endpoint also fails while the app is shutting down (after `app.stop()` has been called), which can be combined with `config.health.shutdownDelayMs` so that load balancers stop sending new requests before the server is closed.
+			*
+			* The endpoints are handled before all other middleware, so they are not affected by sessions, authentication, rate limits, the access log or metrics. Just like all other routes, their paths do not include `app.root`, which allows them to be reached directly by the load balancer.
+			*/
+		health?: app.HealthConfig | boolean | null;
+		/**
+			* Enables sessions, exposing the session of each request through `req.session`.
+			*
+			* For example:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     session: {
+			*         secret: "a long and random secret",
+			*         store: "mysql"
+			*     }
+			* });
+			* ```
+			*
+			* And then, in a route:
+			*
+			* ```ts
+			* class User {
+			*     '@'app.http.post()
+			*     public async login(req: app.Request, res: app.Response) {
+			*         const user = await checkCredentials(req.body.email, req.body.password);
+			*         await req.session!.regenerate();
+			*         req.session!.userId = user.id;
+			*         res.redirect(app.root + "/");
+			*     }
+			*
+			*     '@'app.http.post()
+			*     public async logout(req: app.Request, res: app.Response) {
+			*         await req.session!.destroy();
+			*         res.redirect(app.root + "/");
+			*     }
+			* }
+			* ```
+			*
+			* The session cookie only contains the session id, signed using `config.session.secret`, and is created only when some data is stored in the session. It is `HttpOnly`, uses `SameSite=Lax` and `Secure` (for requests made over HTTPS) by default.
+			*
+			* Sessions are automatically stored at the end of each request, before the response is sent.
+			*
+			* The @ character MUST NOT be placed between '' in the actual code.
+			*
+			* Refer to `app.SessionConfig` for more information on the available options.
+			*/
+		session?: app.SessionConfig | null;
+		/**
+			* Enables CSRF protection, verifying a token on all routes that accept at least one of the HTTP methods `DELETE`, `PATCH`, `POST` or `PUT` (or that use `@app.http.all()`).
+			*
+			* If `true` is provided, the default settings are used. Refer to `app.CsrfConfig` for more information on the available options.
+			*
+			* The token of the current request is available to the views through the function `csrfToken()` (or `res.locals.csrfToken()`, which only creates a new token when called), and must be sent back to the server, either in a field of urlencoded / `multipart/form-data` bodies, or in a header:
+			*
+			* ```html
+			* <form method="post" action="<%- root %>/user/create">
+			*     <input type="hidden" name="_csrf" value="<%= csrfToken() %>" />
+			*     ...
+			* </form>
+			* ```
+			*
+			* When the token is missing or is invalid, the method is not executed and an error with status `403` is produced. Requests made with the HTTP methods `GET`, `HEAD` and `OPTIONS` are never verified.
+			*
+			* Use `@app.route.noCsrf()` in order to disable the verification for specific methods, such as API methods that are authenticated with bearer tokens.
+			*/
+		csrf?: app.CsrfConfig | boolean | null;
+		/**
+			* Limits the amount of requests each client can make to the routes that were automatically created, and configures where the counters used by `@app.route.rateLimit()` are stored.
+			*
+			* For example, to accept at most 300 requests per minute from each IP address:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     rateLimit: {
+			*         windowMs: 60000,
+			*         max: 300,
+			*         store: "mysql"
+			*     }
+			* });
+			* ```
+			*
+			* The global limit is only applied if a value is provided in `config.rateLimit.max`, and it is verified before any specific limits set with `@app.route.rateLimit()`.
+			*
+			* All responses to limited requests carry the headers `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`. When the limit is exceeded, the request is not processed, the header `Retry-After` is added and an error with status `429` is produced.
+			*
+			* Refer to `app.RateLimitConfig` for more information on the available options.
+			*/
+		rateLimit?: app.RateLimitConfig | null;
+		/**
+			* Enables CORS on all routes that were automatically created, so that they can be called by pages served from other origins.
+			*
+			* For example, to allow a single-page application served from another origin to call the routes, sending cookies along with the requests:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     cors: {
+			*         origin: ["https://app.example.com"],
+			*         credentials: true,
+			*         maxAge: 600
+			*     }
+			* });
+			* ```
+			*
+			* If `true` is provided, the default settings are used, allowing all origins. Refer to `app.CorsConfig` for more information on the available options.
+			*
+			* Preflight requests (`OPTIONS` requests sent by the browser) are automatically answered for all paths with at least one CORS-enabled route, unless a route marked with `@app.http.options()` or `@app.http.all()` already exists for the path.
+			*
+			* Use `@app.route.cors()` in order to override these settings, or to enable/disable CORS, for specific methods.
+			*/
+		cors?: app.CorsConfig | boolean | null;
+		/**
+			* Sends a few HTTP headers along with all responses (including static files) in order to enable security features of the browsers.
+			*
+			* If `true` is provided, the default settings are used, and the actual headers sent are:
+			*
+			* ```
+			* Content-Security-Policy: default-src 'self'; base-uri 'self'; font-src 'self' https: data:; form-action 'self'; frame-ancestors 'self'; img-src 'self' data:; object-src 'none'; script-src 'self' 'nonce-...'; style-src 'self' https: 'unsafe-inline'
+			* Referrer-Policy: no-referrer
+			* Strict-Transport-Security: max-age=15552000; includeSubDomains (only for requests made over HTTPS)
+			* X-Content-Type-Options: nosniff
+			* X-Frame-Options: SAMEORIGIN
+			* ```
+			*
+			* A new nonce is generated for each request, and is available to the views as `cspNonce` (through `res.locals.cspNonce`), so that inline scripts are still allowed to run:
+			*
+			* ```html
+			* <script nonce="<%= cspNonce %>">
+			*     ...
+			* </script>
+			* ```
+			*
+			* Refer to `app.SecurityHeadersConfig` for more information on the available options.
+			*/
+		securityHeaders?: app.SecurityHeadersConfig | boolean | null;
 		/**
 			* Disables JSON and urlencoded middleware functions.
 			*
@@ -242,6 +674,14 @@ declare namespace app {
 			* If `config.disableRoutes` is `true`, `app.dir.routes` will be `[]` and the routing will not be automatically configured, regardless of the value provided in `config.routesDir`.
 			*/
 		routesDir?: string[] | null;
+		/**
+			* The app's migrations directory.
+			*
+			* If a value is not provided in `config.migrationsDir`, `app.dir.mainModule + "/migrations"` is used.
+			*
+			* Refer to `app.migrations` for more information.
+			*/
+		migrationsDir?: string | null;
 		/**
 			* Configuration used to create `express.static()` middleware, responsible for serving static files.
 			*
@@ -292,6 +732,32 @@ declare namespace app {
 			* Useful for debugging purposes.
 			*/
 		logRoutesToConsole?: boolean | null;
+		/**
+			* Route where the OpenAPI 3 document, describing all routes that were automatically created, is served as JSON.
+			*
+			* If a value is not provided in `config.openApiRoute`, the document is not served.
+			*
+			* Just like the routes created from `app.dir.routes`, `config.openApiRoute` must not include `app.root`. For example, if `config.root` is `"/app1"` and `config.openApiRoute` is `"/api/openapi.json"`, the document will be accessible from the URL `http://example.com/app1/api/openapi.json`.
+			*
+			* The document includes the route parameters declared with `@app.route.param()`, the schemas declared with `@app.route.body()` / `@app.route.query()` and the summaries declared with `@app.route.summary()`.
+			*
+			* Refer to https://spec.openapis.org/oas/v3.0.3 for more information on the OpenAPI Specification.
+			*/
+		openApiRoute?: string | null;
+		/**
+			* Path, relative to `app.dir.project`, of the file where the OpenAPI 3 document, describing all routes that were automatically created, is written to during setup.
+			*
+			* If a value is not provided in `config.openApiFile`, the document is not written to disk.
+			*
+			* Refer to `config.openApiRoute` for more information.
+			*/
+		openApiFile?: string | null;
+		/**
+			* Information used to fill the `info` object of the OpenAPI 3 document.
+			*
+			* `config.openApiInfo` is ignored if neither `config.openApiRoute` nor `config.openApiFile` are provided.
+			*/
+		openApiInfo?: app.OpenApiInfo | null;
 		/**
 			* Flag that indicates if class names are to be used, instead of the filename, the generate a route.
 			*/
@@ -312,6 +778,24 @@ declare namespace app {
 			* If `config.allMethodsRoutesHiddenByDefault` is `true`, `config.allMethodsRoutesAllByDefault` will be ignored.
 			*/
 		allMethodsRoutesHiddenByDefault?: boolean | null;
+		/**
+			* Makes the values returned by all route methods be sent as responses, as if all of them had been marked with the `@app.route.returns()` decorator.
+			*
+			* Refer to `@app.route.returns()` for more information.
+			*/
+		returnValueAsResponse?: boolean | null;
+		/**
+			* Enables watching `app.dir.routes` for changes, in order to reload the routes without restarting the process (intended for development only).
+			*
+			* When a `.js`, `.cjs` or `.mjs` file is created, changed or deleted inside `app.dir.routes`, that file is imported again and all of its routes are recreated, while the other routes, the MySQL connection pool and everything else are kept intact.
+			*
+			* The new routes are checked for conflicts just like during setup. If a conflict or any other error is found (such as a syntax error in the changed file), the error is logged to the console and the previous routes are kept until the error is fixed.
+			*
+			* Only the route files themselves are imported again. Changes to other modules imported by the route files still require a restart.
+			*
+			* Since ECMAScript modules cannot be removed from Node.js's module cache, each reload of a `.mjs` file (or of a `.js` file in a project using ECMAScript modules) keeps the previous version of the module in memory. That is why `config.watchRoutes` should never be used in production.
+			*/
+		watchRoutes?: boolean | null;
 		/**
 			* Function that is executed before any middleware functions are registered.
 			*
@@ -407,10 +891,139 @@ declare namespace app {
 			* Refer to https://socket.io for more information on the Socket.IO framework.
 			*/
 		onFinish?: (() => Promise<void> | void) | null;
+		/**
+			* Function that is executed while the app is being stopped by `app.stop()`, or by one of the signals `SIGTERM` and `SIGINT`.
+			*
+			* The stop process is executed in the following order:
+			*
+			* - [The server stops accepting new connections]
+			* - [In-flight requests and open `app.sql.connect()` callbacks are given `config.shutdownTimeout` milliseconds to finish]
+			* - config.onShutdown()
+			* - [The MySQL connection pool is closed]
+			*
+			* Since the connection pool is closed only after `config.onShutdown` is executed, `app.sql.connect()` can still be used inside `config.onShutdown`.
+			*/
+		onShutdown?: (() => Promise<void> | void) | null;
+		/**
+			* Maximum amount of time, in milliseconds, given to in-flight requests and to open `app.sql.connect()` callbacks to finish when the app is being stopped.
+			*
+			* Connections still open after that time are forcibly closed.
+			*
+			* If a value is not provided, `10000` is used (10 seconds).
+			*/
+		shutdownTimeout?: number | null;
+		/**
+			* Disables the automatic handling of the signals `SIGTERM` and `SIGINT`.
+			*
+			* By default, when one of those signals is received, `app.stop()` is called, and the process exits after the app has been stopped. If a second signal is received while the app is being stopped, the process exits immediately.
+			*/
+		disableShutdownSignals?: boolean | null;
+		/**
+			* Makes `app.run()` create an HTTPS server (or an HTTP/2 server, if `config.https.http2` is `true`), instead of a plain HTTP server.
+			*
+			* For example:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     port: 443,
+			*     https: {
+			*         key: "certs/server.key",
+			*         cert: "certs/server.crt",
+			*         redirectPort: 80
+			*     }
+			* });
+			* ```
+			*
+			* When `key`, `cert` and `ca` are provided as paths, those files are watched, and the server starts using the new certificates as soon as they change on disk, without a restart (useful when certificates are renewed automatically).
+			*
+			* `config.https` is ignored if a function is provided to `config.onFinish`.
+			*
+			* Refer to `app.HttpsConfig` for more information on the available options.
+			*/
+		https?: app.HttpsConfig | null;
+		/**
+			* Function used to determine whether a request was made to an API, in which case errors are returned to the client as `application/problem+json` bodies, instead of HTML pages or plain text.
+			*
+			* When `config.isApiRequest` is not provided, requests made to routes containing the string `/api/`, or requests with `application/json` or `application/problem+json` in the `accept` header, are considered API requests.
+			*
+			* For example:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     isApiRequest: function (req: app.Request) {
+			*         return req.path.startsWith("/v1/");
+			*     }
+			* });
+			* ```
+			*/
+		isApiRequest?: ((req: app.Request) => boolean) | null;
+		/**
+			* Function used to determine the user of each request, which is stored in `req.user`.
+			*
+			* It must return the user (or a `Promise` resolved with the user), or `null` / `undefined` when the request is not authenticated.
+			*
+			* If the user has a property `roles`, containing an array of strings (or a single string), it is used by the `@app.auth.roles()` decorator.
+			*
+			* For example:
+			*
+			* ```ts
+			* app.run({
+			*     ... // Other options
+			*
+			*     authenticate: async function (req: app.Request) {
+			*         return (req.session!.userId ? await findUser(req.session!.userId) : null);
+			*     }
+			* });
+			* ```
+			*
+			* `config.authenticate` is executed before all routes that were automatically created, and must be provided if any `app.auth` decorators are used.
+			*
+			* Refer to `app.auth` for more information.
+			*/
+		authenticate?: ((req: app.Request) => any) | null;
+		/**
+			* Route where HTML requests are redirected to when they require an authenticated user but are not authenticated (API requests always receive an error with status `401`, instead).
+			*
+			* If a value is not provided in `config.loginRoute`, an error with status `401` is produced for all requests.
+			*
+			* Just like the routes created from `app.dir.routes`, `config.loginRoute` must not include `app.root`.
+			*
+			* Refer to `config.isApiRequest` and to `app.auth` for more information.
+			*/
+		loginRoute?: string | null;
+		/**
+			* Makes all routes require an authenticated user, as if all classes had been marked with the `@app.auth.required()` decorator.
+			*
+			* Use `@app.auth.anonymous()` to allow unauthenticated access to specific classes or methods.
+			*
+			* Refer to `app.auth` for more information.
+			*/
+		authRequiredByDefault?: boolean | null;
 		/**
 			* Function responsible for returning a response to the client in case of errors.
 			*
-			* When `config.errorHandler` is not provided, a JSON string with the error message is returned for requests made to routes containing the string `/api/` or for requests with `application/json` in the `accept` header, or a simple HTML page in other cases.
+			* When `config.errorHandler` is not provided, an RFC 7807 `application/problem+json` body is returned for API requests (refer to `config.isApiRequest`), or a simple HTML page in other cases.
+			*
+			* The problem+json body contains the members `type`, `title`, `status`, `detail` (the error message) and `instance` (the requested URL), along with the extension members of the error. For example, the body of a `new app.errors.Conflict("The e-mail is already in use", { field: "email" })` is:
+			*
+			* ```json
+			* {
+			*     "type": "about:blank",
+			*     "title": "Conflict",
+			*     "status": 409,
+			*     "detail": "The e-mail is already in use",
+			*     "instance": "/user/create",
+			*     "field": "email"
+			* }
+			* ```
+			*
+			* Errors produced by the `@app.route.body()` and `@app.route.query()` decorators are instances of `app.errors.ValidationError`, have a property `errors`, containing an array of `app.ValidationFieldError`, and are always returned as a problem+json body (with the extension member `errors`) when `config.errorHandler` is not provided.
+			*
+			* Refer to `app.errors` for more information on the available error classes.
 			*
 			* The function provided to `config.errorHandler` must have the following signature `(err: any, req: app.Request, res: app.Response, next: app.NextFunction)`.
 			*
@@ -434,7 +1047,7 @@ declare namespace app {
 			*
 			* The function provided to `config.htmlErrorHandler` must have the following signature `(err: any, req: app.Request, res: app.Response, next: app.NextFunction)`.
 			*
-			* Even if a function is provided to `config.htmlErrorHandler`, it is not called for requests made to routes containing the string `/api/` or for requests with `application/json` in the `accept` header.
+			* Even if a function is provided to `config.htmlErrorHandler`, it is not called for API requests (refer to `config.isApiRequest`), nor for errors produced by the `@app.route.body()` and `@app.route.query()` decorators.
 			*
 			* If a full error handler is provided in `config.errorHandler`, `config.htmlErrorHandler` is ignored.
 			*
@@ -945,38 +1558,258 @@ interface RouteDecorators {
 		* }
 		* ```
 		*
-		* The @ character MUST NOT be placed between '' in the actual code.
-		*
-		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		*
+		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		*
+		* @param routeFullClassRoute Full path to be used to prefix the routes created by the class' methods.
+		*/
+	fullClassRoute(routeFullClassRoute: string): ClassDecorator;
+	/**
+		* Specifies the full path to be used as the method's route, overriding everything else.
+		*
+		* If this decorator is not used, the concatenation of current class' route prefix + the method name is used as the route.
+		*
+		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		*
+		* ```ts
+		* class Order {
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		*
+		* But if the `@app.route.fullMethodRoute("/my/custom/method/route")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/my/custom/method/route`.
+		*
+		* ```ts
+		* class Order {
+		*     '@'app.route.fullMethodRoute("/my/custom/method/route")
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		*
+		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		*
+		* @param routeFullMethodRoute Full path to be used as the method's route.
+		*/
+	fullMethodRoute(routeFullMethodRoute: string): MethodDecorator;
+	/**
+		* Specifies the name to be used when composing the class' route prefix.
+		*
+		* If this decorator is not used, either the actual name of the class or the current file name is used to create the class' route prefix (depending on the setting `config.useClassNamesAsRoutes`).
+		*
+		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		*
+		* ```ts
+		* class Order {
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		*
+		* But if the `@app.route.className("newName")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/api/sales/newName/m1` (ignoring the setting `config.useClassNamesAsRoutes`).
+		*
+		* ```ts
+		* '@'app.route.className("newName")
+		* class Order {
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* The `@app.route.fullClassRoute` decorator overrides this one.
+		*
+		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		*
+		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		*
+		* @param routeClassName Name to be used when composing the class' route prefix.
+		*/
+	className(routeClassName: string): ClassDecorator;
+	/**
+		* Specifies the name to be used when composing the method's route.
+		*
+		* If this decorator is not used, the actual method's name is used to create route.
+		*
+		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		*
+		* ```ts
+		* class Order {
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		*
+		* But if the `@app.route.methodName("myMethod")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/api/sales/order/myMethod` (or `/api/sales/Order/myMethod` if the setting `config.useClassNamesAsRoutes` is `true` or `xxx/myMethod` if either `@app.route.fullClassRoute()` or  `@app.route.className()` decorator is used on class `Order`).
+		*
+		* ```ts
+		* class Order {
+		*     '@'app.route.methodName("myMethod")
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* The `@app.route.fullMethodRoute` decorator overrides this one.
+		*
+		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		*
+		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		*
+		* @param routeClassName Name to be used when composing the class' route prefix.
+		*/
+	methodName(routeMethodName: string): MethodDecorator;
+	/**
+		* Specifies one or more middleware functions to be used with the method's route.
+		*
+		* For example, to add a single middleware:
+		*
+		* ```ts
+		* class Order {
+		*     '@'app.route.middleware(myMiddleware())
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* When adding two or more middleware functions, they will be executed in the same order they were passed:
+		*
+		* ```ts
+		* class Order {
+		*     '@'app.route.middleware(firstMiddleware(), secondMiddleware(), thridMiddleware())
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to https://expressjs.com/en/guide/using-middleware.html for more information on middleware.
+		*
+		* @param middleware One or more middleware functions to be used with the method's route.
+		*/
+	middleware(...middleware: any[]): MethodDecorator;
+	/**
+		* Specifies one or more middleware functions to be used with the routes of all of the class' methods.
+		*
+		* For example:
+		*
+		* ```ts
+		* '@'app.route.classMiddleware(adminMiddleware(), auditMiddleware())
+		* class Order {
+		*     '@'app.route.middleware(myMiddleware())
+		*     public m1(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		*
+		*     public m2(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The middleware functions specified for the class are executed in the same order they were passed, before the middleware functions specified with `@app.route.middleware()`. In the example above, `adminMiddleware()` and `auditMiddleware()` are executed before both methods, while `myMiddleware()` is executed only before `Order.m1()`, right after `auditMiddleware()`.
+		*
+		* Middleware functions can also be applied to all routes produced by the files inside a directory of `app.dir.routes` (including its subdirectories), by creating a file named `_middleware.js` (or `_middleware.cjs` / `_middleware.mjs`) inside that directory. That file must export a middleware function, or an array of middleware functions:
+		*
+		* ```ts
+		* // routes/admin/_middleware.js
+		* export = [adminMiddleware(), auditMiddleware()];
+		* ```
+		*
+		* `_middleware.js` files do not produce routes, and the middleware functions they export are executed before the ones of the subdirectories, which are executed before the ones specified with `@app.route.classMiddleware()`.
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to https://expressjs.com/en/guide/using-middleware.html for more information on middleware.
+		*
+		* @param middleware One or more middleware functions to be used with the routes of all of the class' methods.
+		*/
+	classMiddleware(...middleware: any[]): ClassDecorator;
+	/**
+		* Disables the verification of the CSRF token for the method's route, when `config.csrf` is provided.
+		*
+		* For example:
+		*
+		* ```ts
+		* class Api {
+		*     '@'app.http.post()
+		*     '@'app.route.noCsrf()
+		*     public webhook(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* Only methods whose requests cannot be forged by other websites (such as methods authenticated by bearer tokens, instead of cookies) should use this decorator.
 		*
-		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		* The @ character MUST NOT be placed between '' in the actual code.
 		*
-		* @param routeFullClassRoute Full path to be used to prefix the routes created by the class' methods.
+		* Refer to `config.csrf` for more information.
 		*/
-	fullClassRoute(routeFullClassRoute: string): ClassDecorator;
+	noCsrf(): MethodDecorator;
 	/**
-		* Specifies the full path to be used as the method's route, overriding everything else.
-		*
-		* If this decorator is not used, the concatenation of current class' route prefix + the method name is used as the route.
+		* Limits the amount of requests each client can make to the method's route.
 		*
-		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		* For example, to accept at most 5 login attempts per minute from each IP address:
 		*
 		* ```ts
-		* class Order {
-		*     public m1(req: app.Request, res: app.Response) {
+		* class Account {
+		*     '@'app.http.post()
+		*     '@'app.route.rateLimit({ windowMs: 60000, max: 5 })
+		*     public login(req: app.Request, res: app.Response) {
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		* Each route has its own counters, which are stored according to `config.rateLimit.store`. The limit is verified before anything else, even before `app.auth` decorators.
 		*
-		* But if the `@app.route.fullMethodRoute("/my/custom/method/route")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/my/custom/method/route`.
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `config.rateLimit` for more information.
+		*
+		* @param options Options of the limit (refer to `app.RateLimitOptions` for more information).
+		*/
+	rateLimit(options: app.RateLimitOptions): MethodDecorator;
+	/**
+		* Enables, disables or overrides the CORS settings of the method's route.
+		*
+		* If `options` is not provided, or if `true` is provided, CORS is enabled using the settings in `config.cors` (or the default settings, if `config.cors` is not provided).
+		*
+		* If `false` is provided, CORS is disabled for the route, even if `config.cors` is provided.
+		*
+		* If an object is provided, its settings are merged with the settings in `config.cors`:
 		*
 		* ```ts
-		* class Order {
-		*     '@'app.route.fullMethodRoute("/my/custom/method/route")
-		*     public m1(req: app.Request, res: app.Response) {
+		* class Product {
+		*     '@'app.route.cors({ origin: "*", credentials: false })
+		*     public list(req: app.Request, res: app.Response) {
 		*         ...
 		*     }
 		* }
@@ -984,123 +1817,194 @@ interface RouteDecorators {
 		*
 		* The @ character MUST NOT be placed between '' in the actual code.
 		*
-		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
-		*
-		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		* Refer to `config.cors` for more information.
 		*
-		* @param routeFullMethodRoute Full path to be used as the method's route.
+		* @param options Settings of the route (refer to `app.CorsConfig` for more information).
 		*/
-	fullMethodRoute(routeFullMethodRoute: string): MethodDecorator;
+	cors(options?: app.CorsConfig | boolean): MethodDecorator;
 	/**
-		* Specifies the name to be used when composing the class' route prefix.
-		*
-		* If this decorator is not used, either the actual name of the class or the current file name is used to create the class' route prefix (depending on the setting `config.useClassNamesAsRoutes`).
+		* Adds a route parameter to the method's route, converting and validating its value before the method is executed.
 		*
-		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/user.js`.
 		*
 		* ```ts
-		* class Order {
-		*     public m1(req: app.Request, res: app.Response) {
+		* class User {
+		*     '@'app.route.param("id", "int")
+		*     public edit(req: app.Request, res: app.Response) {
+		*         // req.params.id is a number here
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		* Method `User.edit()` produces the route `/user/edit/:id`, instead of `/user/edit`.
 		*
-		* But if the `@app.route.className("newName")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/api/sales/newName/m1` (ignoring the setting `config.useClassNamesAsRoutes`).
+		* When two or more parameters are used, they are added to the route in the same order they were declared:
 		*
 		* ```ts
-		* '@'app.route.className("newName")
-		* class Order {
-		*     public m1(req: app.Request, res: app.Response) {
+		* class User {
+		*     '@'app.route.param("id", "int")
+		*     '@'app.route.param("tab")
+		*     public edit(req: app.Request, res: app.Response) {
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* The @ character MUST NOT be placed between '' in the actual code.
+		* The method above produces the route `/user/edit/:id/:tab`.
 		*
-		* The `@app.route.fullClassRoute` decorator overrides this one.
+		* If the route already contains the parameter, such as when `@app.route.methodName("edit/:id")` or `@app.route.fullMethodRoute("/user/:id/edit")` are used, the parameter is not added again, but its value is still converted and validated.
 		*
-		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		* If the value received in the request cannot be converted into `type`, the method is not executed and an error with status `400` is passed along to the error handler.
 		*
-		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		* The @ character MUST NOT be placed between '' in the actual code.
 		*
-		* @param routeClassName Name to be used when composing the class' route prefix.
+		* Refer to `app.RouteParamType` for more information on the available types.
+		*
+		* @param name Name of the parameter, as it will appear in `req.params` (only letters, digits and `_` are allowed).
+		* @param type Type of the parameter (`"string"` is used if no other value is provided).
 		*/
-	className(routeClassName: string): ClassDecorator;
+	param(name: string, type?: app.RouteParamType): MethodDecorator;
 	/**
-		* Specifies the name to be used when composing the method's route.
+		* Validates the body of the request against the given schema before the method is executed.
 		*
-		* If this decorator is not used, the actual method's name is used to create route.
+		* In order to make this feature work, the route must accept at least one of the HTTP methods `DELETE`, `PATCH`, `POST` or `PUT`, and `config.disableBodyParser` must not be `true` (unless the `@app.route.formData()` decorator is also used).
 		*
-		* For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/api/sales/order.js`.
+		* For example:
 		*
 		* ```ts
-		* class Order {
-		*     public m1(req: app.Request, res: app.Response) {
+		* class User {
+		*     '@'app.http.post()
+		*     '@'app.route.body({
+		*         name: { type: "string", required: true, max: 100 },
+		*         age: { type: "int", min: 0 },
+		*         role: { type: "string", enum: ["admin", "user"] },
+		*         address: {
+		*             type: "object",
+		*             properties: {
+		*                 zip: { type: "string", required: true }
+		*             }
+		*         },
+		*         tags: { type: "array", items: { type: "string" } }
+		*     })
+		*     public create(req: app.Request, res: app.Response) {
+		*         // req.body.age is a number here (or undefined)
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* By default, method `Order.m1()` produces the route `/api/sales/order/m1` (or `/api/sales/Order/m1` if the setting `config.useClassNamesAsRoutes` is `true`).
+		* Since urlencoded bodies only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted, and `req.body` is updated with the converted values.
 		*
-		* But if the `@app.route.methodName("myMethod")` decorator were used, as in the example below, method `Order.m1()` would produce the route `/api/sales/order/myMethod` (or `/api/sales/Order/myMethod` if the setting `config.useClassNamesAsRoutes` is `true` or `xxx/myMethod` if either `@app.route.fullClassRoute()` or  `@app.route.className()` decorator is used on class `Order`).
+		* If the body does not satisfy the schema, the method is not executed and an error with status `400` is passed along to the error handler. That error has a property `errors`, containing one `app.ValidationFieldError` for each offending field.
+		*
+		* When `config.errorHandler` is not provided, the client receives a JSON object in the form below:
+		*
+		* ```json
+		* {
+		*     "message": "Invalid request body",
+		*     "errors": [
+		*         { "field": "name", "message": "is required" },
+		*         { "field": "address.zip", "message": "is required" }
+		*     ]
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `app.SchemaField` for more information on the available settings.
+		*
+		* @param schema Schema describing the fields of the body.
+		*/
+	body(schema: app.Schema): MethodDecorator;
+	/**
+		* Validates the query string of the request against the given schema before the method is executed.
+		*
+		* For example:
 		*
 		* ```ts
-		* class Order {
-		*     '@'app.route.methodName("myMethod")
-		*     public m1(req: app.Request, res: app.Response) {
+		* class User {
+		*     '@'app.route.query({
+		*         page: { type: "int", required: true, min: 1 },
+		*         order: { type: "string", enum: ["name", "date"] }
+		*     })
+		*     public list(req: app.Request, res: app.Response) {
+		*         // req.query.page is a number here
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* The @ character MUST NOT be placed between '' in the actual code.
+		* Since query strings only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted, and `req.query` is updated with the converted values.
 		*
-		* The `@app.route.fullMethodRoute` decorator overrides this one.
+		* If the query string does not satisfy the schema, the method is not executed and an error with status `400` is passed along to the error handler, just like what happens with `@app.route.body()`.
 		*
-		* Express.js's route parameters can be used (refer to http://expressjs.com/en/guide/routing.html for more information on that).
+		* The @ character MUST NOT be placed between '' in the actual code.
 		*
-		* When in doubt, set `config.logRoutesToConsole` to `true` to list all the routes produced during setup.
+		* Refer to `app.SchemaField` for more information on the available settings.
 		*
-		* @param routeClassName Name to be used when composing the class' route prefix.
+		* @param schema Schema describing the fields of the query string.
 		*/
-	methodName(routeMethodName: string): MethodDecorator;
+	query(schema: app.Schema): MethodDecorator;
 	/**
-		* Specifies one or more middleware functions to be used with the method's route.
+		* Specifies a summary, and optionally a longer description, of the method's route, to be used in the OpenAPI 3 document.
 		*
-		* For example, to add a single middleware:
+		* For example:
 		*
 		* ```ts
-		* class Order {
-		*     '@'app.route.middleware(myMiddleware())
-		*     public m1(req: app.Request, res: app.Response) {
+		* class User {
+		*     '@'app.route.summary("Lists all users", "Users are sorted by name.")
+		*     public list(req: app.Request, res: app.Response) {
 		*         ...
 		*     }
 		* }
 		* ```
 		*
-		* When adding two or more middleware functions, they will be executed in the same order they were passed:
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `config.openApiRoute` for more information.
+		*
+		* @param summary Short summary of what the route does.
+		* @param description Optional longer description of the route.
+		*/
+	summary(summary: string, description?: string): MethodDecorator;
+	/**
+		* Makes the value returned by the method (or the value the returned promise resolves to) be sent as the response, so that the method does not need to call `res.json()`, `res.render()`, `res.send()`...
+		*
+		* For example:
 		*
 		* ```ts
-		* class Order {
-		*     '@'app.route.middleware(firstMiddleware(), secondMiddleware(), thridMiddleware())
-		*     public m1(req: app.Request, res: app.Response) {
-		*         ...
+		* class User {
+		*     '@'app.route.returns()
+		*     public async list(req: app.Request, res: app.Response) {
+		*         return await app.sql.connect(async (sql) => {
+		*             return await sql.query("select id, name from user");
+		*         });
+		*     }
+		*
+		*     '@'app.route.returns()
+		*     public edit(req: app.Request, res: app.Response) {
+		*         return app.result.view("user/edit", { title: "Edit user" });
 		*     }
 		* }
 		* ```
 		*
-		* The @ character MUST NOT be placed between '' in the actual code.
+		* The returned value is sent according to its type:
 		*
-		* Refer to https://expressjs.com/en/guide/using-middleware.html for more information on middleware.
+		* - `undefined`: nothing is sent, as the method is expected to have already responded (or to have called `next()`)
+		* - String: sent as `text/html` if it starts with `<`, or as `text/plain` otherwise (unless the `Content-Type` header has already been set)
+		* - `Buffer`: sent as binary data
+		* - Stream: piped to the response, as binary data (unless the `Content-Type` header has already been set)
+		* - Results created by `app.result.view()`, `app.result.redirect()` and `app.result.status()`: refer to `app.result` for more information
+		* - Anything else (objects, arrays, numbers, booleans and `null`): sent as JSON
 		*
-		* @param middleware One or more middleware functions to be used with the method's route.
+		* If the response has already been sent by the time the method returns, the returned value is ignored.
+		*
+		* Use `config.returnValueAsResponse` in order to apply this behavior to all route methods.
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
 		*/
-	middleware(...middleware: any[]): MethodDecorator;
+	returns(): MethodDecorator;
 	/**
 		* Indicates that data (and possibly files) is sent to the server through this route with `multipart/form-data` encoding.
 		*
@@ -1409,6 +2313,83 @@ interface HttpDecorators {
 		*/
 	hidden(): MethodDecorator;
 }
+interface AuthDecorators {
+	/**
+		* Informs the class' methods (or the method) can only be executed by authenticated users.
+		*
+		* For example:
+		*
+		* ```ts
+		* '@'app.auth.required()
+		* class Order {
+		*     public m1(req: app.Request, res: app.Response) {
+		*         // req.user is the user returned by config.authenticate
+		*         ...
+		*     }
+		*
+		*     '@'app.auth.anonymous()
+		*     public m2(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* When a request is not authenticated, the method is not executed: API requests receive an error with status `401`, while HTML requests are redirected to `config.loginRoute` (refer to `config.isApiRequest`).
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `config.authenticate` for more information.
+		*/
+	required(): ClassDecorator & MethodDecorator;
+	/**
+		* Informs the class' methods (or the method) can only be executed by authenticated users with at least one of the given roles (implies `@app.auth.required()`).
+		*
+		* For example:
+		*
+		* ```ts
+		* '@'app.auth.roles("admin")
+		* class User {
+		*     public list(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		*
+		*     '@'app.auth.roles("admin", "manager")
+		*     public view(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* Roles specified on a method replace the roles specified on its class.
+		*
+		* The roles of the user are obtained from the property `roles` of `req.user`. When the user is authenticated, but has none of the given roles, the method is not executed and an error with status `403` is produced.
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `config.authenticate` for more information.
+		*
+		* @param roles One or more roles accepted by the route(s).
+		*/
+	roles(...roles: string[]): ClassDecorator & MethodDecorator;
+	/**
+		* Informs the class' methods (or the method) can be executed by unauthenticated users, overriding `config.authRequiredByDefault` and the `app.auth` decorators used on the class.
+		*
+		* For example:
+		*
+		* ```ts
+		* '@'app.auth.required()
+		* class Account {
+		*     '@'app.auth.anonymous()
+		*     public login(req: app.Request, res: app.Response) {
+		*         ...
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*/
+	anonymous(): ClassDecorator & MethodDecorator;
+}
 interface RequestMethods {
 	/**
 		* Provides basic methods to send data and receive JSON objects from remote servers.
@@ -1423,6 +2404,32 @@ interface RequestMethods {
 		*/
 	buffer: BufferRequest;
 }
+interface ConfigMethods {
+	/**
+		* Loads the configuration of the app, to be passed to `app.run()`, merging the following sources (from the lowest to the highest priority):
+		*
+		* - `defaults`
+		* - The file `teem.config.json` (or `teem.config.js`/`teem.config.cjs`, which may export either an object or a function returning an object/a `Promise`)
+		* - The file `teem.config.{env}.json` (or `.js`/`.cjs`), where `{env}` is `options.env`, such as `teem.config.production.json`
+		* - Environment variables starting with `TEEM_`, named after the path of the option in upper snake case, such as `TEEM_PORT`, `TEEM_DISABLE_VIEWS` or `TEEM_LOG_LEVEL` (`config.sqlConfig` uses `SQL` instead, such as `TEEM_SQL_HOST`)
+		*
+		* Objects are merged property by property, while all other values, including arrays, replace the previous ones. Arrays in environment variables are separated by commas, such as `TEEM_ROUTES_DIR=routes,admin/routes`, and options such as `config.cors`, which accept either a boolean or an object, can be enabled with values like `TEEM_CORS=true`.
+		*
+		* Options that can only be functions (or other non-JSON values) can only be provided by `defaults` or by `.js` files.
+		*
+		* The resulting configuration is validated against `app.Config`, with strings being converted to numbers and booleans as necessary. If any invalid (or unknown) options are found, an `Error` listing all of them is thrown.
+		*
+		* For example:
+		*
+		* ```ts
+		* app.config.load({ port: 3000 }).then(app.run);
+		* ```
+		*
+		* @param defaults Optional configuration with the lowest priority.
+		* @param options Optional settings controlling where the configuration is loaded from.
+		*/
+	load(defaults?: app.Config | null, options?: app.ConfigLoadOptions | null): Promise<app.Config>;
+}
 interface Directories {
 	/**
 		* The initial working directory, obtained by calling `process.cwd()` at the beginning of the setup process.
@@ -1490,6 +2497,14 @@ interface Directories {
 		* The values in `app.dir.routes` do not end with a slash (`\` in Windows or `/` in Linux/Mac), even if the values provided in `config.routesDir` do.
 		*/
 	routes: string[];
+	/**
+		* The app's migrations directory, used by `app.migrations`.
+		*
+		* If a value is not provided in `config.migrationsDir`, `app.dir.mainModule + "/migrations"` is used.
+		*
+		* `app.dir.migrations` does not end with a slash (`\` in Windows or `/` in Linux/Mac).
+		*/
+	migrations: string;
 }
 interface App {
 	/**
@@ -1526,6 +2541,14 @@ interface App {
 		* Refer to https://www.typescriptlang.org/docs/handbook/decorators.html for more information on decorators.
 		*/
 	http: HttpDecorators;
+	/**
+		* Decorators used to specify which classes and methods require an authenticated user.
+		*
+		* These decorators can be used both on classes and on methods, and require `config.authenticate` to be provided.
+		*
+		* Refer to `config.authenticate` for more information.
+		*/
+	auth: AuthDecorators;
 	/**
 		* The root path where this app is located in the actual server, in case the server hosts several apps in a single domain.
 		*
@@ -1579,6 +2602,14 @@ interface App {
 		* The actual Express.js app.
 		*/
 	express: express.Express;
+	/**
+		* The server created by `app.run()`.
+		*
+		* `app.server` is an `https.Server` if `config.https` is provided, an `http2.Http2SecureServer` if `config.https.http2` is `true`, or an `http.Server` otherwise.
+		*
+		* If a function is provided to `config.onFinish`, `app.server` will be `null`, as `app.run()` does not create the server in that case.
+		*/
+	server: http.Server | https.Server | Http2SecureServer | null;
 	/**
 		* Provides basic `Promise` wrappers around common file system operations, with relatives paths using `app.dir.project` as the base directory.
 		*
@@ -1589,6 +2620,99 @@ interface App {
 		* Provides basic methods to send and receive data from remote servers.
 		*/
 	request: RequestMethods;
+	/**
+		* Helpers used to create special values to be returned by route methods marked with `@app.route.returns()` (or by all route methods, if `config.returnValueAsResponse` is `true`).
+		*
+		* Refer to `@app.route.returns()` for more information.
+		*/
+	result: ResultHelpers;
+	/**
+		* Error classes that can be thrown by route methods (or passed to `next()`) in order to produce responses with the corresponding status codes.
+		*
+		* For example:
+		*
+		* ```ts
+		* class User {
+		*     '@'app.route.param("id", "int")
+		*     public async view(req: app.Request, res: app.Response) {
+		*         const user = await findUser(req.params.id);
+		*         if (!user)
+		*             throw new app.errors.NotFound("User not found");
+		*         res.json(user);
+		*     }
+		* }
+		* ```
+		*
+		* The @ character MUST NOT be placed between '' in the actual code.
+		*
+		* Refer to `config.errorHandler` for more information on how errors are returned to the client.
+		*/
+	errors: ErrorClasses;
+	/**
+		* Loads the configuration of the app from files and environment variables.
+		*
+		* Refer to `app.config.load()` for more information.
+		*/
+	config: ConfigMethods;
+	/**
+		* Registers the checks executed by the health endpoints enabled by `config.health`.
+		*
+		* For example:
+		*
+		* ```ts
+		* app.health.register("redis", async () => {
+		*     await redisClient.ping();
+		* });
+		* ```
+		*
+		* Refer to `config.health` for more information.
+		*/
+	health: HealthMethods;
+	/**
+		* Applies, reverts and lists the database migrations stored in `app.dir.migrations` (`config.sqlConfig` must be provided to `app.run()`).
+		*
+		* Migrations are files whose names start with their version, followed by their name, such as `001_create_user.sql` or `20240115_add_user_email.js`, and are applied in ascending order of version:
+		*
+		* - `.sql` files contain statements separated by semicolons (or by the separator set with the `DELIMITER` command), and can be reverted by a file with the same name ending in `.down.sql`, such as `001_create_user.down.sql`
+		* - `.js`/`.cjs` files export the functions `up(sql)` and (optionally) `down(sql)`, which receive an `app.Sql` object
+		*
+		* The applied migrations are recorded in the table `teem_migration`, which is automatically created if it does not exist, along with checksums of their files, so that changes to migrations already applied are detected.
+		*
+		* Migrations can be applied automatically during `app.run()` by setting `config.migrateOnStart` to `true`. They can also be applied by a separate script, such as:
+		*
+		* ```ts
+		* app.run({
+		*     sqlConfig: { ... },
+		*     disableRoutes: true,
+		*     onFinish: async () => {
+		*         const command = process.argv[2];
+		*         if (command === "up")
+		*             console.log(await app.migrations.up());
+		*         else if (command === "down")
+		*             console.log(await app.migrations.down());
+		*         else
+		*             console.table(await app.migrations.status());
+		*         await app.stop();
+		*     }
+		* });
+		* ```
+		*/
+	migrations: app.MigrationMethods;
+	/**
+		* Structured logger, configured by `config.log`.
+		*
+		* For example:
+		*
+		* ```ts
+		* app.log.info("User created", { userId: user.id });
+		*
+		* const billingLog = app.log.child({ module: "billing" });
+		* billingLog.error("Payment failed", { err, requestId: req.id });
+		* ```
+		*
+		* Refer to `config.log` for more information.
+		*/
+	log: app.Logger;
 	/**
 		* Provides a way to connect to the database, as specified by `config.sqlConfig`, by calling `app.sql.connect()`.
 		*
@@ -1603,6 +2727,30 @@ interface App {
 		* Refer to https://www.npmjs.com/package/multer for more information on the package options and use cases.
 		*/
 	multer: any;
+	/**
+		* The OpenAPI 3 document describing all routes that were automatically created.
+		*
+		* If neither `config.openApiRoute` nor `config.openApiFile` are provided, `app.openApiDocument` will be `null`.
+		*/
+	openApiDocument: any;
+	/**
+		* Returns the list of all routes that were automatically created, sorted by route and by HTTP method.
+		*
+		* The list is empty until `app.run()` finishes creating the routes.
+		*
+		* A new array, containing new objects, is returned every time `app.routes()` is called, so changing it does not affect the actual routes.
+		*/
+	routes(): app.RouteInfo[];
+	/**
+		* Returns the list of all routes that were automatically created, as returned by `app.routes()`, formatted as a string.
+		*
+		* When `format` is `"json"`, the string contains the JSON representation of the array returned by `app.routes()`.
+		*
+		* When `format` is `"text"`, the string contains one route per line, in the form `get - /user/edit/:id - User.edit`, followed by ` - auth` for routes that require authentication, or by ` - auth(admin, manager)` for routes that require specific roles. Since file paths are not included, the text format is suitable for comparing the routes produced by different releases of the app, even when they are deployed to different directories.
+		*
+		* @param format Format of the resulting string (`"text"` is used if no other value is provided).
+		*/
+	dumpRoutes(format?: "json" | "text"): string;
 	/**
 		* Returns the directory of the current file.
 		*
@@ -1654,6 +2802,18 @@ interface App {
 		* @param config Optional settings used to configure the routes, paths and so on.
 		*/
 	run(config?: app.Config): Promise<void>;
+	/**
+		* Gracefully stops the app.
+		*
+		* The server created by `app.run()` stops accepting new connections, and in-flight requests and open `app.sql.connect()` callbacks are given `config.shutdownTimeout` milliseconds to finish. After that, `config.onShutdown` is executed and the MySQL connection pool is closed.
+		*
+		* Calling `app.stop()` more than once returns the same `Promise` object.
+		*
+		* If a function is provided to `config.onFinish`, the server created inside that function must be closed manually (for example, inside `config.onShutdown`), but in-flight requests are still awaited.
+		*
+		* @returns A `Promise` object that will be resolved when the app has been completely stopped.
+		*/
+	stop(): Promise<void>;
 }
 declare const app: App;
 export = app;
@@ -1,8 +1,17 @@
 ﻿"use strict";
 const express = require("express");
 const fs = require("fs");
+const http = require("http");
+const https = require("https");
 const path = require("path");
+const config_1 = require("./config");
+const errors_1 = require("./errors");
 const fileSystem_1 = require("./fileSystem");
+const health_1 = require("./health");
+const log_1 = require("./log");
+const openApi_1 = require("./openApi");
+const result_1 = require("./result");
+const validation_1 = require("./validation");
 const request_1 = require("./request");
 /** @internal */
 function httpGeneric(method) {
@@ -14,6 +23,28 @@ function httpGeneric(method) {
 	};
 }
 /** @internal */
+function authGeneric(required, roles, anonymous) {
+	return function (target, propertyKey, descriptor) {
+		const f = ((propertyKey === undefined) ? target : (target[propertyKey] || target));
+		if (required)
+			f["authRequired"] = true;
+		if (roles) {
+			// Class decorators must not change the roles inherited from a base class.
+			f["authRoles"] = (Object.prototype.hasOwnProperty.call(f, "authRoles") ? f["authRoles"] : []).concat(roles);
+		}
+		if (anonymous)
+			f["authAnonymous"] = true;
+	};
+}
+/** @internal */
+function extractRouteAuth(f) {
+	const required = !!f["authRequired"], roles = f["authRoles"] || null, anonymous = !!f["authAnonymous"];
+	delete f["authRequired"];
+	delete f["authRoles"];
+	delete f["authAnonymous"];
+	return ((required || roles || anonymous) ? { required, roles, anonymous } : null);
+}
+/** @internal */
 function extractCallingFile() {
 	// https://github.com/v8/v8/wiki/Stack%20Trace%20API#customizing-stack-traces
 	// https://v8.dev/docs/stack-trace-api#customizing-stack-traces
@@ -39,7 +70,12 @@ function extractCallingFile() {
 	return fileName;
 }
 /** @internal */
-function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, obj, thisArg) {
+function hasRouteParam(route, name) {
+	// Route parameter names are validated beforehand, so they do not need to be escaped.
+	return (new RegExp("(^|/):" + name + "(\\?|\\(|/|$)")).test(route);
+}
+/** @internal */
+function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, obj, thisArg) {
 	const names = Object.getOwnPropertyNames(obj);
 	for (let i = names.length - 1; i >= 0; i--) {
 		const n = names[i];
@@ -47,20 +83,61 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 			continue;
 		const f = obj[n];
 		if (f && (typeof f) === "function") {
-			let fullMethodRoute = f["routeFullMethodRoute"], routeMethodName = f["routeMethodName"], routeMiddleware = f["routeMiddleware"], routeMiddlewareWithBody = null, httpMethods = f["httpMethods"];
-			const httpHidden = f["httpHidden"], routeFormData = parseInt(f["routeFormData"]);
+			let fullMethodRoute = f["routeFullMethodRoute"], routeMethodName = f["routeMethodName"], routeMiddleware = f["routeMiddleware"], routeMiddlewareWithBody = null, routeParamMiddleware = null, routeQueryMiddleware = null, httpMethods = f["httpMethods"];
+			const httpHidden = f["httpHidden"], routeFormData = f["routeFormData"], routeParams = f["routeParams"], routeBodySchema = f["routeBodySchema"], routeQuerySchema = f["routeQuerySchema"], routeSummary = f["routeSummary"], routeDescription = f["routeDescription"], returnValueAsResponse = !!(f["routeReturns"] || config.returnValueAsResponse), methodAuth = extractRouteAuth(f), routeNoCsrf = !!f["routeNoCsrf"], routeRateLimit = f["routeRateLimit"], routeCors = f["routeCors"];
 			delete f["routeFullMethodRoute"];
 			delete f["routeMethodName"];
 			delete f["routeMiddleware"];
+			delete f["routeParams"];
+			delete f["routeBodySchema"];
+			delete f["routeQuerySchema"];
+			delete f["routeSummary"];
+			delete f["routeDescription"];
+			delete f["routeReturns"];
+			delete f["routeNoCsrf"];
+			delete f["routeRateLimit"];
+			delete f["routeCors"];
 			delete f["httpMethods"];
 			delete f["httpHidden"];
 			delete f["routeFormData"];
 			if (httpHidden || (config.allMethodsRoutesHiddenByDefault && (!httpMethods || !httpMethods.length)))
 				continue;
+			if (classMiddleware)
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? classMiddleware.concat(routeMiddleware) : classMiddleware.slice());
 			if (f.length > 3)
 				throw new Error(`Function "${f.name}", in file ${absolutePath}, should have 3 parameters at most`);
+			let authRequired = !!config.authRequiredByDefault, authRoles = null;
+			if (methodAuth && methodAuth.anonymous) {
+				authRequired = false;
+			}
+			else {
+				if (classAuth) {
+					if (classAuth.anonymous)
+						authRequired = false;
+					if (classAuth.required)
+						authRequired = true;
+					if (classAuth.roles)
+						authRoles = classAuth.roles;
+				}
+				if (methodAuth) {
+					if (methodAuth.required)
+						authRequired = true;
+					if (methodAuth.roles)
+						authRoles = methodAuth.roles;
+				}
+				if (authRoles)
+					authRequired = true;
+			}
+			if ((authRequired || methodAuth || classAuth) && !config.authenticate)
+				throw new Error(`app.auth decorators or config.authRequiredByDefault are being used on function "${f.name}", in file ${absolutePath}, but config.authenticate has not been provided`);
 			if (routeFormData && config.disableFormData)
 				throw new Error(`config.disableFormData is true and app.route.formData() is being used on function "${f.name}", in file ${absolutePath}`);
+			if (routeBodySchema)
+				(0, validation_1.checkSchema)(routeBodySchema, "");
+			if (routeQuerySchema) {
+				(0, validation_1.checkSchema)(routeQuerySchema, "");
+				routeQueryMiddleware = createValidationMiddleware("query", "Invalid query string", routeQuerySchema);
+			}
 			if (fullMethodRoute) {
 				if (!fullMethodRoute.startsWith("/"))
 					fullMethodRoute = "/" + fullMethodRoute;
@@ -79,11 +156,27 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 			}
 			if (fullMethodRoute.length > 1 && fullMethodRoute.endsWith("/"))
 				fullMethodRoute = fullMethodRoute.substr(0, fullMethodRoute.length - 1);
+			if (routeParams && routeParams.length) {
+				for (let p = 0; p < routeParams.length; p++) {
+					const routeParam = routeParams[p];
+					if (!routeParam.name || !/^\w+$/.test(routeParam.name))
+						throw new Error(`Invalid route parameter name "${routeParam.name}" used for the class method "${n}" in file ${absolutePath}`);
+					if (!routeParamConverters[routeParam.type])
+						throw new Error(`Invalid route parameter type "${routeParam.type}" used for the class method "${n}" in file ${absolutePath}`);
+					for (let p2 = p - 1; p2 >= 0; p2--) {
+						if (routeParams[p2].name === routeParam.name)
+							throw new Error(`Duplicate route parameter "${routeParam.name}" used for the class method "${n}" in file ${absolutePath}`);
+					}
+					if (!hasRouteParam(fullMethodRoute, routeParam.name))
+						fullMethodRoute += (fullMethodRoute.endsWith("/") ? ":" : "/:") + routeParam.name;
+				}
+				routeParamMiddleware = createRouteParamMiddleware(routeParams);
+			}
 			if (!httpMethods || !httpMethods.length)
 				httpMethods = [config.allMethodsRoutesAllByDefault ? "all" : "get"];
 			else if (httpMethods.length > 1)
 				httpMethods.sort();
-			let all = false, canHandleBody = false;
+			let all = false, canHandleBody = false, csrf = false;
 			for (let m = httpMethods.length - 1; m >= 0; m--) {
 				if (m > 0 && httpMethods[m] === httpMethods[m - 1]) {
 					httpMethods.splice(m, 1);
@@ -106,9 +199,22 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 			}
 			if (canHandleBody) {
 				if (routeFormData)
-					routeMiddlewareWithBody = [createFormDataMiddleware(routeFormData)];
+					routeMiddlewareWithBody = [createFormDataMiddleware(parseInt(routeFormData))];
 				else if (!config.disableBodyParser)
 					routeMiddlewareWithBody = [jsonBodyParserMiddleware, urlencodedBodyParserMiddleware];
+				if (csrfVerifyMiddleware && !routeNoCsrf) {
+					// The token could be in the body, so it is verified after parsing the body, but before validating it.
+					if (!routeMiddlewareWithBody)
+						routeMiddlewareWithBody = [csrfVerifyMiddleware];
+					else
+						routeMiddlewareWithBody.push(csrfVerifyMiddleware);
+					csrf = true;
+				}
+				if (routeBodySchema) {
+					if (!routeMiddlewareWithBody)
+						throw new Error(`config.disableBodyParser is true and app.route.body() is being used on function "${f.name}", in file ${absolutePath}, without app.route.formData()`);
+					routeMiddlewareWithBody.push(createValidationMiddleware("body", "Invalid request body", routeBodySchema));
+				}
 				if (routeMiddleware && routeMiddleware.length) {
 					if (!routeMiddlewareWithBody)
 						routeMiddlewareWithBody = routeMiddleware;
@@ -119,12 +225,62 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 			else if (routeFormData) {
 				throw new Error(`app.route.formData() is being used on function "${f.name}", in file ${absolutePath}, without at least one of the required app.http decorators: all, delete, patch, post or put`);
 			}
+			else if (routeBodySchema) {
+				throw new Error(`app.route.body() is being used on function "${f.name}", in file ${absolutePath}, without at least one of the required app.http decorators: all, delete, patch, post or put`);
+			}
+			if (routeQueryMiddleware) {
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [routeQueryMiddleware].concat(routeMiddleware) : [routeQueryMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [routeQueryMiddleware].concat(routeMiddlewareWithBody) : [routeQueryMiddleware]);
+			}
+			if (routeParamMiddleware) {
+				// Route parameters must be validated before anything else, even before parsing the body.
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [routeParamMiddleware].concat(routeMiddleware) : [routeParamMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [routeParamMiddleware].concat(routeMiddlewareWithBody) : [routeParamMiddleware]);
+			}
+			if (authRequired) {
+				// Unauthenticated requests must not even reach the validation of route parameters.
+				const authMiddleware = createAuthMiddleware(config, authRoles);
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [authMiddleware].concat(routeMiddleware) : [authMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [authMiddleware].concat(routeMiddlewareWithBody) : [authMiddleware]);
+			}
+			if (routeRateLimit) {
+				const rateLimitMiddleware = require("./rateLimit").createRateLimitMiddleware(getRateLimitStore(config), routeRateLimit, fullMethodRoute + ":");
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [rateLimitMiddleware].concat(routeMiddleware) : [rateLimitMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [rateLimitMiddleware].concat(routeMiddlewareWithBody) : [rateLimitMiddleware]);
+			}
+			let corsOptions = null;
+			if (routeCors !== false && (routeCors || config.cors)) {
+				// CORS headers must be sent even when the request is rejected by the middleware above.
+				const cors = require("./cors");
+				corsOptions = cors.createCorsOptions(Object.assign({}, ((typeof config.cors) === "object") ? config.cors : null, ((typeof routeCors) === "object") ? routeCors : null));
+				const corsMiddleware = cors.createCorsMiddleware(corsOptions);
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [corsMiddleware].concat(routeMiddleware) : [corsMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [corsMiddleware].concat(routeMiddlewareWithBody) : [corsMiddleware]);
+			}
 			if (all) {
 				routes.push({
 					absolutePath,
+					className,
+					methodName: n,
 					route: fullMethodRoute,
 					httpMethod: "all",
 					routeMiddleware: routeMiddlewareWithBody,
+					routeParams: (routeParams || null),
+					routeBodySchema: (routeBodySchema || null),
+					routeQuerySchema: (routeQuerySchema || null),
+					routeFormData: !!routeFormData,
+					summary: (routeSummary || null),
+					description: (routeDescription || null),
+					returnValueAsResponse,
+					authRequired,
+					authRoles,
+					csrf,
+					cors: corsOptions,
 					boundUserHandler: f.bind(thisArg)
 				});
 			}
@@ -142,9 +298,22 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 					}
 					routes.push({
 						absolutePath,
+						className,
+						methodName: n,
 						route: fullMethodRoute,
 						httpMethod: httpMethods[m],
 						routeMiddleware: (canHandleBody ? routeMiddlewareWithBody : routeMiddleware),
+						routeParams: (routeParams || null),
+						routeBodySchema: (canHandleBody ? (routeBodySchema || null) : null),
+						routeQuerySchema: (routeQuerySchema || null),
+						routeFormData: (canHandleBody && !!routeFormData),
+						summary: (routeSummary || null),
+						description: (routeDescription || null),
+						returnValueAsResponse,
+						authRequired,
+						authRoles,
+						csrf: (canHandleBody && csrf),
+						cors: corsOptions,
 						boundUserHandler
 					});
 				}
@@ -153,10 +322,10 @@ function extractRoutesFromObject(config, validHttpMethods, prefix, routes, absol
 	}
 	const proto = Object.getPrototypeOf(obj);
 	if (proto !== Function.prototype && proto !== Object.prototype)
-		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, proto, thisArg);
+		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, proto, thisArg);
 }
 /** @internal */
-function extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, f) {
+function extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, f) {
 	if (("routeFullClassRoute" in f)) {
 		prefix = f["routeFullClassRoute"];
 		if (!prefix) {
@@ -183,18 +352,25 @@ function extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, rou
 				prefix += name;
 		}
 	}
+	let classMiddleware = f["routeClassMiddleware"];
 	delete f["routeFullClassRoute"];
 	delete f["routeClassName"];
+	delete f["routeClassMiddleware"];
+	if (dirMiddleware && dirMiddleware.length)
+		classMiddleware = ((classMiddleware && classMiddleware.length) ? dirMiddleware.concat(classMiddleware) : dirMiddleware);
+	const className = ((((typeof f) === "function") && f.name) || ""), classAuth = extractRouteAuth(f);
+	if (!classMiddleware || !classMiddleware.length)
+		classMiddleware = null;
 	// Static methods or object functions
-	extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, f, f);
+	extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, f, f);
 	if ((typeof f) === "function") {
 		// Instance methods
 		const i = new f();
-		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, i, i);
+		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, i, i);
 	}
 }
 /** @internal */
-async function extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name) {
+async function extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name, dirMiddleware) {
 	const r = await importer.importFile(absolutePath);
 	if (!r)
 		throw new Error(`File ${absolutePath} does not export a valid object/class/function`);
@@ -206,38 +382,75 @@ async function extractRoutesFromFile(config, validHttpMethods, prefix, routes, i
 				for (let n in r) {
 					const f = r[n];
 					if (f && (typeof f) === "function")
-						extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, f);
+						extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, f);
 				}
 			}
 			else {
-				extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, r);
+				extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, r);
 			}
 			break;
 		case "function":
 			// Class or function + prototype
-			extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, r);
+			extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, r);
 			break;
 		default:
 			throw new Error(`File ${absolutePath} exports a value of type ${(typeof r)} which is not supported`);
 	}
 }
 /** @internal */
-async function extractRoutesFromDir(config, validHttpMethods, prefix, routes, importer, dir) {
+function isDirMiddlewareFile(name) {
+	const lcaseName = name.toLowerCase();
+	return (lcaseName === "_middleware.js" || lcaseName === "_middleware.cjs" || lcaseName === "_middleware.mjs");
+}
+/** @internal */
+async function extractDirMiddleware(importer, dir, names, parentMiddleware) {
+	for (let i = names.length - 1; i >= 0; i--) {
+		if (!isDirMiddlewareFile(names[i]))
+			continue;
+		const absolutePath = path.join(dir, names[i]);
+		let r = await importer.importFile(absolutePath);
+		// ES modules
+		if (r && (typeof r) === "object" && !Array.isArray(r) && ("default" in r))
+			r = r.default;
+		const middleware = (Array.isArray(r) ? r : [r]);
+		for (let m = middleware.length - 1; m >= 0; m--) {
+			if (!middleware[m] || (typeof middleware[m]) !== "function")
+				throw new Error(`File ${absolutePath} must export a middleware function or an array of middleware functions`);
+		}
+		return (parentMiddleware ? parentMiddleware.concat(middleware) : middleware);
+	}
+	return parentMiddleware;
+}
+/** @internal */
+async function extractDirMiddlewareFromPath(importer, routesDir, dir) {
+	// Collects the middleware functions of all directories between routesDir and dir, inclusive.
+	const relativeDir = path.relative(routesDir, dir), parts = (relativeDir ? relativeDir.split(path.sep) : []);
+	let currentDir = routesDir, middleware = await extractDirMiddleware(importer, currentDir, fs.readdirSync(currentDir), null);
+	for (let i = 0; i < parts.length; i++) {
+		currentDir = path.join(currentDir, parts[i]);
+		middleware = await extractDirMiddleware(importer, currentDir, fs.readdirSync(currentDir), middleware);
+	}
+	return middleware;
+}
+/** @internal */
+async function extractRoutesFromDir(config, validHttpMethods, prefix, routes, importer, dir, parentMiddleware) {
 	const names = fs.readdirSync(dir);
 	if (!names)
 		return;
+	const dirMiddleware = await extractDirMiddleware(importer, dir, names, parentMiddleware);
 	for (let i = names.length - 1; i >= 0; i--) {
 		const name = names[i], lcaseName = name.toLowerCase();
 		let absolutePath;
-		if ((lcaseName.endsWith(".js") || lcaseName.endsWith(".cjs") || lcaseName.endsWith(".mjs")) && !fs.statSync(absolutePath = path.join(dir, name)).isDirectory()) {
-			await extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name.substr(0, name.length - 3));
+		if (isRouteFile(lcaseName) && !fs.statSync(absolutePath = path.join(dir, name)).isDirectory()) {
+			if (!isDirMiddlewareFile(lcaseName))
+				await extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name.substr(0, name.length - 3), dirMiddleware);
 			names.splice(i, 1);
 		}
 	}
 	for (let i = names.length - 1; i >= 0; i--) {
 		const name = names[i], absolutePath = path.join(dir, name);
 		if (fs.statSync(absolutePath).isDirectory())
-			await extractRoutesFromDir(config, validHttpMethods, prefix + name + "/", routes, importer, absolutePath);
+			await extractRoutesFromDir(config, validHttpMethods, prefix + name + "/", routes, importer, absolutePath, dirMiddleware);
 	}
 }
 // I tested the five techniques below in Node 12, and the resulting
@@ -290,10 +503,23 @@ async function extractRoutesFromDir(config, validHttpMethods, prefix, routes, im
 //	};
 //}
 /** @internal */
-function createRegularHandler(boundUserHandler) {
+function createRegularHandler(boundUserHandler, returnValueAsResponse) {
 	// Express.js checks the handler's length to determine if it is a regular handler,
 	// or an error handler. For a handler to be considered an error handler, it
 	// must at most 3 parameters.
+	if (returnValueAsResponse)
+		return function (req, res, next) {
+			try {
+				const r = boundUserHandler(req, res, next);
+				if (r && (typeof r.then) === "function")
+					Promise.resolve(r).then(function (value) { (0, result_1.sendResult)(value, res, next); }).catch(next);
+				else
+					(0, result_1.sendResult)(r, res, next);
+			}
+			catch (ex) {
+				next(ex);
+			}
+		};
 	return function (req, res, next) {
 		try {
 			const r = boundUserHandler(req, res, next);
@@ -322,6 +548,82 @@ function createErrorHandler(boundUserHandler) {
 	};
 }
 /** @internal */
+function createRouteParamMiddleware(routeParams) {
+	const names = routeParams.map((p) => p.name), converters = routeParams.map((p) => routeParamConverters[p.type]);
+	return function (req, res, next) {
+		const params = req.params;
+		for (let i = names.length - 1; i >= 0; i--) {
+			const value = params[names[i]];
+			// Optional parameters, such as :id?, could be missing.
+			if (value === undefined)
+				continue;
+			const convertedValue = converters[i](value);
+			if (convertedValue === undefined) {
+				next(new errors_1.errorClasses.BadRequest(`Invalid value for route parameter "${names[i]}"`));
+				return;
+			}
+			params[names[i]] = convertedValue;
+		}
+		next();
+	};
+}
+/** @internal */
+function getRateLimitStore(config) {
+	if (!rateLimitStore)
+		rateLimitStore = require("./rateLimit").createRateLimitStore(config.rateLimit || {}, sqlModule ? sqlModule.Sql : null);
+	return rateLimitStore;
+}
+/** @internal */
+function getMigrationMethods() {
+	if (!migrationMethods) {
+		if (!sqlModule)
+			throw new Error("Migrations require config.sqlConfig to be provided to app.run()");
+		// Only require our migrations module if it is actually going to be used.
+		migrationMethods = require("./migrations").createMigrationMethods(sqlModule.Sql, app.dir.migrations);
+	}
+	return migrationMethods;
+}
+/** @internal */
+function createAuthMiddleware(config, roles) {
+	const loginRoute = (config.loginRoute ? (config.loginRoute.startsWith("/") ? config.loginRoute : ("/" + config.loginRoute)) : null);
+	return function (req, res, next) {
+		const user = req.user;
+		if (!user) {
+			if (loginRoute && !isApiRequest(req))
+				res.redirect(app.root + loginRoute);
+			else
+				next(new errors_1.errorClasses.Unauthorized());
+			return;
+		}
+		if (roles) {
+			const userRoles = user.roles;
+			let authorized = false;
+			for (let i = roles.length - 1; i >= 0; i--) {
+				if (Array.isArray(userRoles) ? (userRoles.indexOf(roles[i]) >= 0) : (userRoles === roles[i])) {
+					authorized = true;
+					break;
+				}
+			}
+			if (!authorized) {
+				next(new errors_1.errorClasses.Forbidden());
+				return;
+			}
+		}
+		next();
+	};
+}
+/** @internal */
+function createValidationMiddleware(source, message, schema) {
+	return function (req, res, next) {
+		const errors = (0, validation_1.validate)(schema, req[source]);
+		if (errors.length) {
+			next(new errors_1.errorClasses.ValidationError(message, errors));
+			return;
+		}
+		next();
+	};
+}
+/** @internal */
 function createFormDataMiddleware(limitFileSize) {
 	if (!cachedFormDataMiddleware)
 		cachedFormDataMiddleware = {};
@@ -376,24 +678,394 @@ function createFormDataMiddleware(limitFileSize) {
 	return middleware;
 }
 /** @internal */
-function registerRoutes(appExpress, routes) {
+function sortAndCheckRoutes(routes, reservedRoutes) {
+	routes.sort((a, b) => (a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
+	for (let i = routes.length - 1; i > 0; i--) {
+		const r1 = routes[i], r2 = routes[i - 1];
+		if (r1.route === r2.route && (r1.httpMethod === "all" || r2.httpMethod === "all" || r1.httpMethod === r2.httpMethod))
+			throw new Error(`Conflicting route "${routes[i].httpMethod} ${routes[i].route}" in files ${routes[i].absolutePath} and ${routes[i - 1].absolutePath}`);
+	}
+	for (let i = routes.length - 1; i >= 0; i--) {
+		const route = routes[i], reservedBy = reservedRoutes[route.route];
+		if (reservedBy && (route.httpMethod === "all" || route.httpMethod === "get"))
+			throw new Error(`Conflicting route "${route.httpMethod} ${route.route}" in file ${route.absolutePath} and ${reservedBy}`);
+	}
+}
+/** @internal */
+function updateRouteInfo(config, routes) {
+	if (app.openApiDocument)
+		app.openApiDocument = (0, openApi_1.createOpenApiDocument)(config.openApiInfo, app.root, routes);
+	routeTable = routes.map((route) => ({
+		httpMethod: route.httpMethod,
+		route: route.route,
+		file: route.absolutePath,
+		className: route.className,
+		methodName: route.methodName,
+		middlewareCount: (route.routeMiddleware ? route.routeMiddleware.length : 0),
+		formData: route.routeFormData,
+		authRequired: route.authRequired,
+		roles: (route.authRoles ? route.authRoles.slice() : null),
+		csrf: route.csrf,
+		cors: !!route.cors
+	}));
+}
+/** @internal */
+function createRouter(routes) {
+	const router = express.Router();
+	registerRoutes(router, routes);
+	return router;
+}
+/** @internal */
+function isRouteFile(name) {
+	const lcaseName = name.toLowerCase();
+	return (lcaseName.endsWith(".js") || lcaseName.endsWith(".cjs") || lcaseName.endsWith(".mjs"));
+}
+/** @internal */
+function watchRouteDir(watcher, dir) {
+	if (watcher.fsWatchers[dir])
+		return;
+	// fs.watch() with { recursive: true } is not supported on all platforms/versions,
+	// so each directory is watched separately.
+	const fsWatcher = fs.watch(dir, function (eventType, filename) {
+		if (!filename)
+			return;
+		watcher.pendingPaths[path.join(dir, filename.toString())] = true;
+		// Editors usually produce several events for a single save.
+		if (watcher.pendingTimeout)
+			clearTimeout(watcher.pendingTimeout);
+		watcher.pendingTimeout = setTimeout(function () {
+			watcher.pendingTimeout = null;
+			watcher.reloadPromise = watcher.reloadPromise.then(() => reloadRoutes(watcher));
+		}, 200);
+	});
+	fsWatcher.on("error", function () {
+		// The directory has probably been deleted.
+		fsWatcher.close();
+		if (watcher.fsWatchers[dir] === fsWatcher)
+			delete watcher.fsWatchers[dir];
+	});
+	watcher.fsWatchers[dir] = fsWatcher;
+	const names = fs.readdirSync(dir);
+	for (let i = 0; i < names.length; i++) {
+		const absolutePath = path.join(dir, names[i]);
+		if (fs.statSync(absolutePath).isDirectory())
+			watchRouteDir(watcher, absolutePath);
+	}
+}
+/** @internal */
+async function reloadRoutes(watcher) {
+	const pendingPaths = watcher.pendingPaths, config = watcher.config;
+	watcher.pendingPaths = {};
+	let routes = watcher.routes, changed = false;
+	try {
+		const absolutePaths = [];
+		for (let absolutePath in pendingPaths) {
+			// Changing a _middleware.js file affects the entire directory.
+			if (isDirMiddlewareFile(path.basename(absolutePath)))
+				absolutePath = path.dirname(absolutePath);
+			if (absolutePaths.indexOf(absolutePath) < 0)
+				absolutePaths.push(absolutePath);
+		}
+		for (let p = 0; p < absolutePaths.length; p++) {
+			const absolutePath = absolutePaths[p];
+			let routesDir = null;
+			for (let i = watcher.routesDir.length - 1; i >= 0; i--) {
+				if (absolutePath === watcher.routesDir[i] || absolutePath.startsWith(watcher.routesDir[i] + path.sep)) {
+					routesDir = watcher.routesDir[i];
+					break;
+				}
+			}
+			if (!routesDir)
+				continue;
+			const stats = (fs.existsSync(absolutePath) ? fs.statSync(absolutePath) : null), isDirectory = (stats ? stats.isDirectory() : false), dirPrefix = absolutePath + path.sep;
+			if (!isDirectory && !isRouteFile(absolutePath) && (stats || !watcher.fsWatchers[absolutePath]))
+				continue;
+			// Remove all routes produced by the file, or by all files inside the directory,
+			// and then create them again.
+			routes = routes.filter((route) => (route.absolutePath !== absolutePath && !route.absolutePath.startsWith(dirPrefix)));
+			changed = true;
+			if (!stats) {
+				for (let dir in watcher.fsWatchers) {
+					if (dir === absolutePath || dir.startsWith(dirPrefix)) {
+						watcher.fsWatchers[dir].close();
+						delete watcher.fsWatchers[dir];
+					}
+				}
+				continue;
+			}
+			const relativeDir = path.relative(routesDir, isDirectory ? absolutePath : path.dirname(absolutePath)), prefix = (relativeDir ? ("/" + relativeDir.split(path.sep).join("/") + "/") : "/");
+			const parentMiddleware = ((absolutePath === routesDir) ? null : await extractDirMiddlewareFromPath(watcher.importer, routesDir, path.dirname(absolutePath)));
+			if (isDirectory) {
+				watchRouteDir(watcher, absolutePath);
+				await extractRoutesFromDir(config, watcher.validHttpMethods, prefix, routes, watcher.importer, absolutePath, parentMiddleware);
+			}
+			else {
+				const name = path.basename(absolutePath);
+				await extractRoutesFromFile(config, watcher.validHttpMethods, prefix, routes, watcher.importer, absolutePath, name.substr(0, name.length - 3), parentMiddleware);
+			}
+		}
+		if (!changed)
+			return;
+		sortAndCheckRoutes(routes, watcher.reservedRoutes);
+	}
+	catch (ex) {
+		// Keep the current routes until the error is fixed.
+		app.log.error("Error reloading routes", { err: ex });
+		return;
+	}
+	updateRouteInfo(config, routes);
+	watcher.routes = routes;
+	watcher.router = createRouter(routes);
+	if (config.logRoutesToConsole)
+		console.log(`Routes reloaded (${routes.length} routes)`);
+}
+/** @internal */
+function registerRoutes(router, routes) {
+	let preflights = null;
 	for (let i = 0; i < routes.length; i++) {
-		const route = routes[i], m = appExpress[route.httpMethod];
+		const route = routes[i], m = router[route.httpMethod];
 		if (!m)
 			throw new Error("Invalid HTTP method: " + route.httpMethod);
+		if (route.cors || route.httpMethod === "options" || route.httpMethod === "all") {
+			if (!preflights)
+				preflights = {};
+			// Paths already handling OPTIONS requests are marked with null.
+			if (route.httpMethod === "options" || route.httpMethod === "all") {
+				preflights[route.route] = null;
+			}
+			else if (preflights[route.route] !== null) {
+				const optionsByMethod = (preflights[route.route] || (preflights[route.route] = {}));
+				optionsByMethod[route.httpMethod.toUpperCase()] = route.cors;
+			}
+		}
 		if (route.routeMiddleware && route.routeMiddleware.length) {
 			const args = [route.route];
 			args.push.apply(args, route.routeMiddleware);
-			args.push(createRegularHandler(route.boundUserHandler));
-			m.apply(appExpress, args);
+			args.push(createRegularHandler(route.boundUserHandler, route.returnValueAsResponse));
+			m.apply(router, args);
 		}
 		else {
-			m.call(appExpress, route.route, createRegularHandler(route.boundUserHandler));
+			m.call(router, route.route, createRegularHandler(route.boundUserHandler, route.returnValueAsResponse));
+		}
+	}
+	if (preflights) {
+		for (let route in preflights) {
+			const optionsByMethod = preflights[route];
+			if (optionsByMethod)
+				router.options(route, require("./cors").createCorsPreflightHandler(optionsByMethod));
 		}
 	}
 }
 // Private Middleware
 /** @internal */
+function readHttpsFile(value) {
+	return (Buffer.isBuffer(value) ? value : fs.readFileSync(path.resolve(app.dir.project, value)));
+}
+/** @internal */
+function loadHttpsOptions(httpsConfig) {
+	const options = {
+		key: readHttpsFile(httpsConfig.key),
+		cert: readHttpsFile(httpsConfig.cert)
+	};
+	if (httpsConfig.ca)
+		options.ca = (Array.isArray(httpsConfig.ca) ? httpsConfig.ca.map(readHttpsFile) : readHttpsFile(httpsConfig.ca));
+	if (httpsConfig.passphrase)
+		options.passphrase = httpsConfig.passphrase;
+	return options;
+}
+/** @internal */
+function watchHttpsFiles(httpsConfig, server) {
+	const files = [];
+	if ((typeof httpsConfig.key) === "string")
+		files.push(httpsConfig.key);
+	if ((typeof httpsConfig.cert) === "string")
+		files.push(httpsConfig.cert);
+	if (httpsConfig.ca) {
+		const ca = (Array.isArray(httpsConfig.ca) ? httpsConfig.ca : [httpsConfig.ca]);
+		for (let i = 0; i < ca.length; i++) {
+			if ((typeof ca[i]) === "string")
+				files.push(ca[i]);
+		}
+	}
+	let timeout = null;
+	const reload = function () {
+		// The key and the certificate are usually replaced one after the other.
+		if (timeout)
+			clearTimeout(timeout);
+		timeout = setTimeout(function () {
+			timeout = null;
+			try {
+				server.setSecureContext(loadHttpsOptions(httpsConfig));
+			}
+			catch (ex) {
+				app.log.error("Error reloading the certificates", { err: ex });
+			}
+		}, 1000);
+	};
+	for (let i = 0; i < files.length; i++) {
+		const absolutePath = path.resolve(app.dir.project, files[i]);
+		fs.watchFile(absolutePath, { persistent: false, interval: 5000 }, reload);
+		watchedHttpsFiles.push(absolutePath);
+	}
+}
+/** @internal */
+function unwatchHttpsFiles() {
+	for (let i = watchedHttpsFiles.length - 1; i >= 0; i--)
+		fs.unwatchFile(watchedHttpsFiles[i]);
+	watchedHttpsFiles = [];
+}
+/** @internal */
+function createHttp2Handler(appExpress) {
+	const http2 = require("http2"), expressRequest = Object.getPrototypeOf(appExpress.request), expressResponse = Object.getPrototypeOf(appExpress.response), http2Request = Object.create(http2.Http2ServerRequest.prototype, Object.getOwnPropertyDescriptors(expressRequest)), http2Response = Object.create(http2.Http2ServerResponse.prototype, Object.getOwnPropertyDescriptors(expressResponse)), get = expressRequest.get;
+	// HTTP/2 requests carry the host in the :authority pseudo-header.
+	http2Request.get = http2Request.header = function (name) {
+		if ((typeof name) === "string" && name.toLowerCase() === "host")
+			return (this.headers.host || this.authority);
+		return get.call(this, name);
+	};
+	const request = Object.create(http2Request, { app: { configurable: true, enumerable: true, writable: true, value: appExpress } }), response = Object.create(http2Response, { app: { configurable: true, enumerable: true, writable: true, value: appExpress } });
+	return function (req, res) {
+		if (req.httpVersionMajor < 2) {
+			appExpress(req, res);
+			return;
+		}
+		// Express.js replaces the prototypes of req and res with app.request and
+		// app.response synchronously, during the first steps of app.handle(), so it
+		// is safe to temporarily replace them here.
+		const originalRequest = appExpress.request, originalResponse = appExpress.response;
+		appExpress.request = request;
+		appExpress.response = response;
+		try {
+			appExpress(req, res);
+		}
+		finally {
+			appExpress.request = originalRequest;
+			appExpress.response = originalResponse;
+		}
+	};
+}
+/** @internal */
+function startServer(config) {
+	return new Promise(function (resolve, reject) {
+		try {
+			const appExpress = app.express, httpsConfig = config.https, activeRequests = new Map();
+			let server, redirect = null, sessions = null;
+			if (!httpsConfig) {
+				server = http.createServer(appExpress);
+			}
+			else {
+				const options = loadHttpsOptions(httpsConfig);
+				if (httpsConfig.http2) {
+					options.allowHTTP1 = true;
+					server = require("http2").createSecureServer(options, createHttp2Handler(appExpress));
+					const currentSessions = new Set();
+					server.on("session", function (session) {
+						currentSessions.add(session);
+						session.once("close", function () {
+							currentSessions.delete(session);
+						});
+					});
+					sessions = currentSessions;
+				}
+				else {
+					server = https.createServer(options, appExpress);
+				}
+				watchHttpsFiles(httpsConfig, server);
+				if (httpsConfig.redirectPort) {
+					const port = app.port;
+					redirect = http.createServer(function (req, res) {
+						const host = (req.headers.host || app.localIp || "localhost").replace(/:\d+$/, "");
+						res.writeHead(301, {
+							"Connection": "close",
+							"Location": "https://" + host + ((port === 443) ? "" : (":" + port)) + (req.url || "/")
+						});
+						res.end();
+					});
+				}
+			}
+			// Keep track of the connections, in order to be able to close idle
+			// keep-alive connections during shutdown.
+			server.on(httpsConfig ? "secureConnection" : "connection", function (socket) {
+				activeRequests.set(socket, 0);
+				socket.once("close", function () {
+					activeRequests.delete(socket);
+				});
+			});
+			server.on("request", function (req, res) {
+				// HTTP/2 streams are handled by their sessions.
+				if (req.httpVersionMajor >= 2)
+					return;
+				const socket = req.socket;
+				activeRequests.set(socket, (activeRequests.get(socket) || 0) + 1);
+				res.once("finish", function () {
+					const count = (activeRequests.get(socket) || 1) - 1;
+					activeRequests.set(socket, count);
+					if (!count && shutdownPromise)
+						socket.end();
+				});
+			});
+			server.once("close", function () {
+				activeRequests.clear();
+			});
+			// The servers are only exposed after all of them are listening. If any of
+			// them fails, the others are closed, so that nothing keeps the process alive.
+			const servers = (redirect ? [server, redirect] : [server]), listeningServers = [];
+			let failed = false;
+			const listenError = function (err) {
+				if (failed)
+					return;
+				failed = true;
+				for (let i = listeningServers.length - 1; i >= 0; i--)
+					listeningServers[i].close();
+				unwatchHttpsFiles();
+				reject(err);
+			};
+			const listen = function (target, port) {
+				target.once("error", listenError);
+				target.listen(port, app.localIp, function () {
+					target.removeListener("error", listenError);
+					if (failed) {
+						target.close();
+						return;
+					}
+					listeningServers.push(target);
+					if (listeningServers.length === servers.length) {
+						serverSockets = activeRequests;
+						serverSessions = sessions;
+						redirectServer = redirect;
+						app.server = server;
+						resolve();
+					}
+				});
+			};
+			listen(server, app.port);
+			if (redirect && httpsConfig)
+				listen(redirect, httpsConfig.redirectPort);
+		}
+		catch (ex) {
+			unwatchHttpsFiles();
+			reject(ex);
+		}
+	});
+}
+/** @internal */
+function trackInFlightRequests(req, res, next) {
+	let finished = false;
+	inFlightRequests++;
+	const finish = function () {
+		if (finished)
+			return;
+		finished = true;
+		inFlightRequests--;
+	};
+	res.once("finish", finish);
+	res.once("close", finish);
+	// The connection header is not allowed in HTTP/2.
+	if (shutdownPromise && req.httpVersionMajor < 2)
+		res.setHeader("Connection", "close");
+	next();
+}
+/** @internal */
 function removeCacheHeader(req, res, next) {
 	res.header("Cache-Control", "private, no-cache, no-store, must-revalidate");
 	res.header("Expires", "-1");
@@ -402,17 +1074,30 @@ function removeCacheHeader(req, res, next) {
 }
 /** @internal */
 function notFoundHandler(req, res, next) {
-	next({
-		message: "Not found",
-		status: 404
-	});
+	next(new errors_1.errorClasses.NotFound("Not found"));
+}
+/** @internal */
+function defaultIsApiRequest(req) {
+	const accept = req.headers.accept;
+	return (req.path.indexOf("/api/") >= 0 || (!!accept && (accept.indexOf("application/json") >= 0 || accept.indexOf("application/problem+json") >= 0)));
+}
+/** @internal */
+function sendProblem(err, req, res) {
+	res.type("application/problem+json").json((0, errors_1.createProblem)(err, err.status, req.originalUrl));
+}
+/** @internal */
+function logError(err, req) {
+	// Errors with status below 500 are part of the regular flow of the app.
+	if (err.status >= 500)
+		app.log.error(err.message || "Internal error", { requestId: req.id, method: req.method, url: req.originalUrl, status: err.status, err });
 }
 /** @internal */
 function errorHandlerWithCustomHtmlError(err, req, res, next) {
 	err.status = (parseInt(err.status) || 500);
 	res.status(err.status);
-	if (req.path.indexOf("/api/") >= 0 || (req.headers.accept && req.headers.accept.indexOf("application/json") >= 0))
-		res.json(err.message || (err.status === 404 ? "Not found" : "Internal error"));
+	logError(err, req);
+	if (Array.isArray(err.errors) || isApiRequest(req))
+		sendProblem(err, req, res);
 	else
 		htmlErrorHandler(err, req, res, next);
 }
@@ -420,16 +1105,74 @@ function errorHandlerWithCustomHtmlError(err, req, res, next) {
 function errorHandlerWithoutCustomHtmlError(err, req, res, next) {
 	err.status = (parseInt(err.status) || 500);
 	res.status(err.status);
-	if (req.path.indexOf("/api/") >= 0 || (req.headers.accept && req.headers.accept.indexOf("application/json") >= 0))
-		res.json(err.message || (err.status === 404 ? "Not found" : "Internal error"));
+	logError(err, req);
+	if (Array.isArray(err.errors) || isApiRequest(req))
+		sendProblem(err, req, res);
 	else
 		res.contentType("text/plain").send(err.message || (err.status === 404 ? "Not found" : "Internal error"));
 }
 /** @internal */
+const routeParamConverters = {
+	int: function (value) {
+		const n = (/^[-+]?\d+$/.test(value) ? parseInt(value) : NaN);
+		return (Number.isSafeInteger(n) ? n : undefined);
+	},
+	float: function (value) {
+		const n = (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value) ? parseFloat(value) : NaN);
+		return (isFinite(n) ? n : undefined);
+	},
+	boolean: function (value) {
+		switch (value.toLowerCase()) {
+			case "true":
+			case "1":
+				return true;
+			case "false":
+			case "0":
+				return false;
+		}
+		return undefined;
+	},
+	string: function (value) {
+		return (value ? value : undefined);
+	}
+};
+/** @internal */
 let htmlErrorHandler;
 /** @internal */
+let routeTable = [];
+/** @internal */
+let routeWatcher = null;
+/** @internal */
+let inFlightRequests = 0;
+/** @internal */
+let shutdownPromise = null;
+/** @internal */
+let shutdownConfig = null;
+/** @internal */
+let sqlModule = null;
+/** @internal */
+let serverSockets = null;
+/** @internal */
+let sessionStore = null;
+/** @internal */
+let isApiRequest = defaultIsApiRequest;
+/** @internal */
+let serverSessions = null;
+/** @internal */
+let redirectServer = null;
+/** @internal */
+let watchedHttpsFiles = [];
+/** @internal */
 let cachedFormDataMiddleware;
 /** @internal */
+let rateLimitStore = null;
+/** @internal */
+let health = null;
+/** @internal */
+let migrationMethods = null;
+/** @internal */
+let csrfVerifyMiddleware = null;
+/** @internal */
 let jsonBodyParserMiddleware;
 /** @internal */
 let urlencodedBodyParserMiddleware;
@@ -443,8 +1186,17 @@ const app = {
 		middleware: function (...middleware) { return function (target, propertyKey, descriptor) { const f = (target[propertyKey] || target); if (!f["routeMiddleware"])
 			f["routeMiddleware"] = []; if (middleware)
 			f["routeMiddleware"].push.apply(f["routeMiddleware"], middleware); }; },
-		formData: function (limitFileSize) { return function (target, propertyKey, descriptor) { const f = (target[propertyKey] || target); if (!f["routeMiddleware"])
-			f["routeMiddleware"] = []; f["routeMiddleware"].push(createFormDataMiddleware(parseInt(limitFileSize))); f["routeFormData"] = true; }; }
+		classMiddleware: function (...middleware) { return function (constructor) { const f = constructor; f["routeClassMiddleware"] = (middleware || []).concat(Object.prototype.hasOwnProperty.call(f, "routeClassMiddleware") ? f["routeClassMiddleware"] : []); }; },
+		param: function (name, type) { return function (target, propertyKey, descriptor) { const f = (target[propertyKey] || target); if (!f["routeParams"])
+			f["routeParams"] = []; f["routeParams"].unshift({ name, type: (type || "string") }); }; },
+		body: function (schema) { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeBodySchema"] = schema; }; },
+		query: function (schema) { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeQuerySchema"] = schema; }; },
+		rateLimit: function (options) { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeRateLimit"] = (options || {}); }; },
+		cors: function (options) { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeCors"] = (((options === undefined || options === null) ? true : options)); }; },
+		noCsrf: function () { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeNoCsrf"] = true; }; },
+		summary: function (summary, description) { return function (target, propertyKey, descriptor) { const f = (target[propertyKey] || target); f["routeSummary"] = summary; f["routeDescription"] = description; }; },
+		returns: function () { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["routeReturns"] = true; }; },
+		formData: function (limitFileSize) { return function (target, propertyKey, descriptor) { const limit = parseInt(limitFileSize); (target[propertyKey] || target)["routeFormData"] = ((limit > 0) ? limit : true); }; }
 	},
 	http: {
 		all: function () { return httpGeneric("all"); },
@@ -457,6 +1209,11 @@ const app = {
 		head: function () { return httpGeneric("head"); },
 		hidden: function () { return function (target, propertyKey, descriptor) { (target[propertyKey] || target)["httpHidden"] = true; }; }
 	},
+	auth: {
+		required: function () { return authGeneric(true, null, false); },
+		roles: function (...roles) { return authGeneric(false, roles, false); },
+		anonymous: function () { return authGeneric(false, null, true); }
+	},
 	// Properties
 	root: "",
 	staticRoot: "",
@@ -468,18 +1225,57 @@ const app = {
 		project: "",
 		staticFiles: "",
 		views: "",
-		routes: []
+		routes: [],
+		migrations: ""
 	},
 	express: express(),
+	server: null,
 	fileSystem: fileSystem_1.FileSystem,
 	request: {
 		json: request_1.JSONRequest,
 		string: request_1.StringRequest,
 		buffer: request_1.BufferRequest
 	},
+	result: result_1.resultHelpers,
+	errors: errors_1.errorClasses,
+	config: {
+		load: function (defaults, options) {
+			return (0, config_1.loadConfig)(defaults, options || {}, app.dir.project);
+		}
+	},
+	health: health_1.healthMethods,
+	migrations: {
+		up: async function (count) {
+			return getMigrationMethods().up(count);
+		},
+		down: async function (count) {
+			return getMigrationMethods().down(count);
+		},
+		status: async function () {
+			return getMigrationMethods().status();
+		}
+	},
+	log: log_1.log,
 	sql: null,
 	multer: null,
+	openApiDocument: null,
 	// Methods
+	routes: function () {
+		const routes = new Array(routeTable.length);
+		for (let i = routeTable.length - 1; i >= 0; i--)
+			routes[i] = Object.assign({}, routeTable[i], { roles: (routeTable[i].roles ? routeTable[i].roles.slice() : null) });
+		return routes;
+	},
+	dumpRoutes: function (format) {
+		if (format === "json")
+			return JSON.stringify(routeTable, null, "\t");
+		const lines = new Array(routeTable.length);
+		for (let i = routeTable.length - 1; i >= 0; i--) {
+			const route = routeTable[i];
+			lines[i] = `${route.httpMethod} - ${route.route} - ${route.className ? (route.className + ".") : ""}${route.methodName}${route.authRequired ? (route.roles ? ` - auth(${route.roles.join(", ")})` : " - auth") : ""}`;
+		}
+		return lines.join("\n");
+	},
 	currentDirectoryName: function () { return path.dirname(extractCallingFile()); },
 	currentFileName: function () { return extractCallingFile(); },
 	run: async function (config) {
@@ -520,6 +1316,7 @@ const app = {
 		app.dir.staticFiles = staticFilesDir;
 		app.dir.views = viewsDir;
 		app.dir.routes = routesDir;
+		app.dir.migrations = fixSlash(config.migrationsDir || path.join(mainModuleDir, "migrations"));
 		fileSystem_1.FileSystem.rootDir = projectDir;
 		appExpress.locals.root = app.root;
 		appExpress.locals.staticRoot = app.staticRoot;
@@ -530,7 +1327,73 @@ const app = {
 			const sql = require("./sql");
 			sql.init(config.sqlConfig);
 			app.sql = sql.Sql;
+			sqlModule = sql;
 		}
+		shutdownConfig = config;
+		if (!config.disableShutdownSignals) {
+			const signalHandler = function () {
+				if (shutdownPromise)
+					process.exit(1);
+				app.stop().then(function () {
+					process.exit(0);
+				}, function (reason) {
+					app.log.fatal("Error stopping the app", { err: reason });
+					process.exit(1);
+				});
+			};
+			process.on("SIGTERM", signalHandler);
+			process.on("SIGINT", signalHandler);
+		}
+		if (config.log)
+			(0, log_1.configureLog)(config.log);
+		if (config.migrateOnStart)
+			await getMigrationMethods().up();
+		appExpress.use(trackInFlightRequests);
+		const reservedRoutes = {};
+		if (config.health) {
+			const healthConfig = ((config.health === true) ? {} : config.health), builtInChecks = {
+				fileSystem: function () {
+					return fs.promises.access(fileSystem_1.FileSystem.rootDir, fs.constants.W_OK);
+				}
+			};
+			if (sqlModule) {
+				builtInChecks.mysql = function () {
+					return app.sql.connect(async function (sql) {
+						await sql.scalar("select 1");
+					});
+				};
+			}
+			health = (0, health_1.createHealth)(healthConfig, builtInChecks, function () { return !!shutdownPromise; });
+			let livenessRoute = (healthConfig.livenessRoute || "/healthz"), readinessRoute = (healthConfig.readinessRoute || "/readyz");
+			if (!livenessRoute.startsWith("/"))
+				livenessRoute = "/" + livenessRoute;
+			if (!readinessRoute.startsWith("/"))
+				readinessRoute = "/" + readinessRoute;
+			reservedRoutes[livenessRoute] = "config.health.livenessRoute";
+			reservedRoutes[readinessRoute] = "config.health.readinessRoute";
+			// Probes must not create sessions, be rate limited or flood the access log.
+			appExpress.get(livenessRoute, health.liveness);
+			appExpress.get(readinessRoute, health.readiness);
+		}
+		if (!config.disableRequestId)
+			appExpress.use((0, log_1.createRequestIdMiddleware)());
+		if (config.log && !config.log.disableAccessLog)
+			appExpress.use((0, log_1.createAccessLogMiddleware)());
+		let metrics = null, metricsRoute = null;
+		if (config.metrics) {
+			const metricsConfig = ((config.metrics === true) ? {} : config.metrics);
+			metricsRoute = (metricsConfig.route || "/metrics");
+			if (!metricsRoute.startsWith("/"))
+				metricsRoute = "/" + metricsRoute;
+			// Only require our metrics module if it is actually going to be used.
+			metrics = require("./metrics").createMetrics(metricsConfig, sqlModule ? sqlModule.poolStats : null);
+			appExpress.use(metrics.middleware);
+			if (sqlModule)
+				sqlModule.observeQueries(metrics.observeQuery);
+			(0, request_1.observeRequests)(metrics.observeRequest);
+			reservedRoutes[metricsRoute] = "config.metrics.route";
+		}
+		isApiRequest = (config.isApiRequest || defaultIsApiRequest);
 		// Object.freeze causes serious performance issues in property access time!
 		//Object.freeze(FS);
 		//Object.freeze(app.route);
@@ -539,6 +1402,10 @@ const app = {
 		//Object.freeze(app);
 		if (config.onInit)
 			await Promise.resolve(config.onInit());
+		if (config.securityHeaders) {
+			// Only require our security headers module if it is actually going to be used.
+			appExpress.use(require("./securityHeaders").createSecurityHeadersMiddleware((config.securityHeaders === true) ? {} : config.securityHeaders));
+		}
 		// Apparently, there are great discussions about using or not compression and about
 		// serving static files directly from Node.js/Express...
 		// https://expressjs.com/en/advanced/best-practice-performance.html#use-gzip-compression
@@ -558,6 +1425,36 @@ const app = {
 		}
 		if (!config.disableCookies)
 			appExpress.use(require("cookie-parser")());
+		if (config.session) {
+			// Only require our session module if it is actually going to be used.
+			const session = require("./session");
+			sessionStore = session.createSessionStore(config.session, sqlModule ? sqlModule.Sql : null);
+			appExpress.use(session.createSessionMiddleware(config.session, sessionStore, app.root));
+		}
+		if (config.rateLimit && config.rateLimit.max) {
+			// Only require our rate limit module if it is actually going to be used.
+			appExpress.use(require("./rateLimit").createRateLimitMiddleware(getRateLimitStore(config), config.rateLimit, ":"));
+		}
+		if (config.csrf) {
+			// Only require our CSRF module if it is actually going to be used.
+			const csrf = require("./csrf").createCsrfMiddleware(((config.csrf === true) ? {} : config.csrf), !!config.session, app.root);
+			appExpress.use(csrf.token);
+			csrfVerifyMiddleware = csrf.verify;
+		}
+		if (config.authenticate) {
+			const authenticate = config.authenticate;
+			appExpress.use(function (req, res, next) {
+				try {
+					Promise.resolve(authenticate(req)).then(function (user) {
+						req.user = (user || null);
+						next();
+					}, next);
+				}
+				catch (ex) {
+					next(ex);
+				}
+			});
+		}
 		if (config.enableDynamicCompression)
 			appExpress.use(require("compression")());
 		if (!config.disableBodyParser) {
@@ -620,6 +1517,13 @@ const app = {
 			await Promise.resolve(config.onBeforeRoute());
 		if (config.logRoutesToConsole)
 			console.log("HTTP Method - Full Route - File");
+		let openApiRoute = (config.openApiRoute || null);
+		if (openApiRoute && !openApiRoute.startsWith("/"))
+			openApiRoute = "/" + openApiRoute;
+		if (openApiRoute)
+			reservedRoutes[openApiRoute] = "config.openApiRoute";
+		if (openApiRoute || config.openApiFile)
+			app.openApiDocument = (0, openApi_1.createOpenApiDocument)(config.openApiInfo, app.root, []);
 		if (routesDir.length) {
 			const routes = [], validHttpMethods = {
 				all: true,
@@ -632,27 +1536,50 @@ const app = {
 				head: true
 			}, importer = require("./importer");
 			importer.sep = path.sep;
+			importer.reload = !!config.watchRoutes;
 			for (let i = 0; i < routesDir.length; i++)
-				await extractRoutesFromDir(config, validHttpMethods, "/", routes, importer, routesDir[i]);
-			importer.cleanUp();
+				await extractRoutesFromDir(config, validHttpMethods, "/", routes, importer, routesDir[i], null);
+			// The importer is still needed to reload the files later.
+			if (!config.watchRoutes)
+				importer.cleanUp();
 			if (!routes.length) {
 				if (config.logRoutesToConsole)
 					console.log("No routes found!");
 			}
-			else {
-				if (config.logRoutesToConsole) {
-					routes.sort((a, b) => (a.absolutePath.localeCompare(b.absolutePath) || a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
-					for (let i = 0; i < routes.length; i++) {
-						const route = routes[i];
-						console.log(`${route.httpMethod} - ${route.route} - ${route.absolutePath}`);
-					}
-				}
-				routes.sort((a, b) => (a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
-				for (let i = routes.length - 1; i > 0; i--) {
-					const r1 = routes[i], r2 = routes[i - 1];
-					if (r1.route === r2.route && (r1.httpMethod === "all" || r2.httpMethod === "all" || r1.httpMethod === r2.httpMethod))
-						throw new Error(`Conflicting route "${routes[i].httpMethod} ${routes[i].route}" in files ${routes[i].absolutePath} and ${routes[i - 1].absolutePath}`);
+			else if (config.logRoutesToConsole) {
+				routes.sort((a, b) => (a.absolutePath.localeCompare(b.absolutePath) || a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
+				for (let i = 0; i < routes.length; i++) {
+					const route = routes[i];
+					console.log(`${route.httpMethod} - ${route.route} - ${route.absolutePath}`);
 				}
+			}
+			sortAndCheckRoutes(routes, reservedRoutes);
+			updateRouteInfo(config, routes);
+			if (config.watchRoutes) {
+				const watcher = {
+					config,
+					validHttpMethods,
+					importer,
+					routesDir,
+					reservedRoutes,
+					routes,
+					router: createRouter(routes),
+					fsWatchers: {},
+					pendingPaths: {},
+					pendingTimeout: null,
+					reloadPromise: Promise.resolve()
+				};
+				routeWatcher = watcher;
+				// All requests go through the current router, which is replaced as a whole
+				// every time the routes change, so the swap is atomic from the requests' point
+				// of view.
+				appExpress.use(function (req, res, next) {
+					watcher.router(req, res, next);
+				});
+				for (let i = 0; i < routesDir.length; i++)
+					watchRouteDir(watcher, routesDir[i]);
+			}
+			else {
 				registerRoutes(appExpress, routes);
 				routes.splice(0);
 			}
@@ -660,9 +1587,20 @@ const app = {
 		else if (config.logRoutesToConsole) {
 			console.log("No routes found!");
 		}
-		cachedFormDataMiddleware = undefined;
-		jsonBodyParserMiddleware = undefined;
-		urlencodedBodyParserMiddleware = undefined;
+		if (openApiRoute) {
+			appExpress.get(openApiRoute, function (req, res) {
+				res.json(app.openApiDocument);
+			});
+		}
+		if (metricsRoute)
+			appExpress.get(metricsRoute, metrics.handler);
+		if (config.openApiFile)
+			await fileSystem_1.FileSystem.saveText(config.openApiFile, JSON.stringify(app.openApiDocument, null, "\t"));
+		if (!config.watchRoutes) {
+			cachedFormDataMiddleware = undefined;
+			jsonBodyParserMiddleware = undefined;
+			urlencodedBodyParserMiddleware = undefined;
+		}
 		if (config.onAfterRoute)
 			await Promise.resolve(config.onAfterRoute());
 		appExpress.use(notFoundHandler);
@@ -681,14 +1619,77 @@ const app = {
 		if (config.onFinish)
 			await Promise.resolve(config.onFinish());
 		else
-			return new Promise(function (resolve, reject) {
-				try {
-					appExpress.listen(app.port, app.localIp, resolve);
+			return startServer(config);
+	},
+	stop: function () {
+		if (shutdownPromise)
+			return shutdownPromise;
+		const config = (shutdownConfig || {}), server = app.server;
+		let shutdownTimeout = parseInt(config.shutdownTimeout);
+		if (isNaN(shutdownTimeout) || shutdownTimeout < 0)
+			shutdownTimeout = 10000;
+		shutdownPromise = (async function () {
+			let serverClosed = null;
+			// The readiness endpoint already fails at this point.
+			if (health && health.shutdownDelayMs && server)
+				await new Promise((resolve) => setTimeout(resolve, health.shutdownDelayMs));
+			if (server) {
+				serverClosed = new Promise(function (resolve) {
+					server.close(function () {
+						resolve();
+					});
+				});
+				// Idle keep-alive connections would prevent the server from closing.
+				if (serverSockets) {
+					for (let [socket, count] of serverSockets) {
+						if (!count)
+							socket.end();
+					}
 				}
-				catch (ex) {
-					reject(ex);
+				// Let HTTP/2 clients know they must not start new streams.
+				if (serverSessions) {
+					for (let session of serverSessions)
+						session.close();
 				}
-			});
+			}
+			if (redirectServer) {
+				redirectServer.close();
+				redirectServer = null;
+			}
+			unwatchHttpsFiles();
+			if (routeWatcher) {
+				for (let dir in routeWatcher.fsWatchers)
+					routeWatcher.fsWatchers[dir].close();
+				routeWatcher.fsWatchers = {};
+			}
+			const limit = Date.now() + shutdownTimeout;
+			while ((inFlightRequests > 0 || (sqlModule && sqlModule.pendingCallbackCount() > 0)) && Date.now() < limit)
+				await new Promise((resolve) => setTimeout(resolve, 50));
+			if (server) {
+				if (serverSockets) {
+					for (let socket of serverSockets.keys())
+						socket.destroy();
+				}
+				if (serverSessions) {
+					for (let session of serverSessions)
+						session.destroy();
+				}
+				await serverClosed;
+			}
+			if (config.onShutdown)
+				await Promise.resolve(config.onShutdown());
+			if (sessionStore && sessionStore.close)
+				await Promise.resolve(sessionStore.close());
+			if (rateLimitStore && rateLimitStore.close)
+				await Promise.resolve(rateLimitStore.close());
+			if (health) {
+				health.close();
+				health = null;
+			}
+			if (sqlModule)
+				await sqlModule.end();
+		})();
+		return shutdownPromise;
 	}
 };
 module.exports = app;
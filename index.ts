@@ -1,13 +1,32 @@
 import express = require("express");
 import fs = require("fs");
+import http = require("http");
+import https = require("https");
 import path = require("path");
+import { ConfigLoadOptions as CLO, loadConfig } from "./config";
+import { ErrorClasses, HttpError as HE, ValidationError as VE, createProblem, errorClasses } from "./errors";
 import { FileSystem as FS, UploadedFile as UF } from "./fileSystem";
-import { RequestOptions, CommonResponse as CommonRes, JSONResponse as JSONRes, JSONRequest as JSONReq, StringResponse as StringRes, StringRequest as StringReq, BufferResponse as BufferRes, BufferRequest as BufferReq } from "./request";
-
+import { Health, HealthCheckOptions as HCO, HealthConfig as HC, HealthMethods, createHealth, healthMethods } from "./health";
+import { LogConfig as LC, LogLevel as LL, Logger as Lg, configureLog, createAccessLogMiddleware, createRequestIdMiddleware, log } from "./log";
+import { OpenApiInfo as OAI, createOpenApiDocument } from "./openApi";
+import { ViewResult as VR, RedirectResult as RR, StatusResult as SR, ResultHelpers, resultHelpers, sendResult } from "./result";
+import { Schema as S, SchemaField as SF, ValidationFieldError as VFE, checkSchema, validate } from "./validation";
+import { RequestOptions, observeRequests, CommonResponse as CommonRes, JSONResponse as JSONRes, JSONRequest as JSONReq, StringResponse as StringRes, StringRequest as StringReq, BufferResponse as BufferRes, BufferRequest as BufferReq } from "./request";
+
+import type { CorsConfig as CConfig, CorsOptions } from "./cors";
+import type { CsrfConfig as CsrfConf } from "./csrf";
 import type { PoolOptions } from "mysql2";
+import type { Metrics, MetricsConfig as MConfig } from "./metrics";
+import type { MigrationInfo as MI, MigrationMethods as MM } from "./migrations";
+import type { CompiledQuery as CQ, DeleteQuery as DQ, InsertQuery as IQ, SelectQuery as SQ, UpdateQuery as UQ, WhereConditions as WC } from "./queryBuilder";
+import type { HstsConfig as HConfig, SecurityHeadersConfig as SHConfig } from "./securityHeaders";
+import type { RateLimitConfig as RLConfig, RateLimitHit as RLHit, RateLimitOptions as RLOptions, RateLimitStore as RLStore } from "./rateLimit";
+import type { Http2SecureServer, Http2ServerRequest, Http2ServerResponse, Http2Session } from "http2";
+import type { Socket } from "net";
 import type { ServeStaticOptions } from "serve-static";
+import type { Session as Sess, SessionConfig as SessConfig, SessionStore as SessStore, SessionStoreEntry as SessStoreEntry } from "./session";
 import type { URL } from "url";
-import type { SqlInterface } from "./sql";
+import type { SqlBatchResult as SBR, SqlBatchStatement as SBS, SqlInterface, SqlPreparedStatement as SPS, SqlWarning as SW } from "./sql";
 
 namespace app {
 	// We are exporting these interfaces here in order to try to help
@@ -32,9 +51,216 @@ namespace app {
 		[fieldname: string]: UploadedFile;
 	}
 
+	export interface Schema extends S {
+	}
+
+	export interface SchemaField extends SF {
+	}
+
+	export interface ValidationFieldError extends VFE {
+	}
+
+	export interface OpenApiInfo extends OAI {
+	}
+
+	export interface HttpError extends HE {
+	}
+
+	export interface ValidationError extends VE {
+	}
+
+	export interface ViewResult extends VR {
+	}
+
+	export interface RedirectResult extends RR {
+	}
+
+	export interface StatusResult extends SR {
+	}
+
+	export interface HttpsConfig {
+		/**
+		 * Private key of the server, in PEM format.
+		 * 
+		 * If a string is provided, it is considered to be the path of the file containing the key, relative to `app.dir.project` (absolute paths are also accepted).
+		 */
+		key: string | Buffer;
+
+		/**
+		 * Certificate chain of the server, in PEM format.
+		 * 
+		 * If a string is provided, it is considered to be the path of the file containing the certificate chain, relative to `app.dir.project` (absolute paths are also accepted).
+		 */
+		cert: string | Buffer;
+
+		/**
+		 * Optional trusted CA certificates, in PEM format.
+		 * 
+		 * Strings are considered to be paths of files, just like in `key` and `cert`.
+		 */
+		ca?: string | Buffer | (string | Buffer)[] | null;
+
+		/**
+		 * Optional passphrase used to decrypt the private key.
+		 */
+		passphrase?: string | null;
+
+		/**
+		 * Enables HTTP/2.
+		 * 
+		 * Clients that do not support HTTP/2 are still served using HTTP/1.1 over TLS.
+		 * 
+		 * Express.js 4 was not designed to work with Node.js's HTTP/2 compatibility API, so, internally, its request and response objects are adapted to work on top of `http2.Http2ServerRequest` and `http2.Http2ServerResponse`. Third-party middleware that access the underlying socket directly might not work with HTTP/2 requests.
+		 * 
+		 * Refer to https://nodejs.org/api/http2.html#compatibility-api for more information.
+		 */
+		http2?: boolean | null;
+
+		/**
+		 * TCP port of an additional plain HTTP server, which redirects all requests to the HTTPS server using status `301`.
+		 * 
+		 * If a value is not provided, the additional server is not created.
+		 * 
+		 * The additional server uses the same IP address as the main server (`app.localIp`).
+		 */
+		redirectPort?: number | null;
+	}
+
+	export interface RouteInfo {
+		/**
+		 * HTTP method accepted by the route, in lower case, such as `"get"`, `"post"` or `"all"`.
+		 */
+		httpMethod: string;
+
+		/**
+		 * Full route, such as `/api/sales/order/m1` or `/user/edit/:id` (`app.root` is not included).
+		 */
+		route: string;
+
+		/**
+		 * Absolute path of the file where the route was found.
+		 */
+		file: string;
+
+		/**
+		 * Name of the class (or function) that produced the route, or an empty string `""` if the route was produced by a plain object.
+		 */
+		className: string;
+
+		/**
+		 * Name of the method that produced the route.
+		 */
+		methodName: string;
+
+		/**
+		 * Amount of middleware functions executed before the method, including the ones automatically added by the framework, such as body parsers and validators.
+		 */
+		middlewareCount: number;
+
+		/**
+		 * Indicates whether the route was marked with the `@app.route.formData()` decorator.
+		 */
+		formData: boolean;
+
+		/**
+		 * Indicates whether the route requires an authenticated user (refer to `app.auth` for more information).
+		 */
+		authRequired: boolean;
+
+		/**
+		 * Roles accepted by the route, as specified by `@app.auth.roles()`, or `null` if any authenticated user is accepted (or if the route does not require authentication).
+		 */
+		roles: string[] | null;
+
+		/**
+		 * Indicates whether the route verifies the CSRF token of the requests (refer to `config.csrf` for more information).
+		 */
+		csrf: boolean;
+
+		/**
+		 * Indicates whether the route sends CORS headers (refer to `config.cors` for more information).
+		 */
+		cors: boolean;
+	}
+
+	export interface ConfigLoadOptions extends CLO {
+	}
+
+	export interface CorsConfig extends CConfig {
+	}
+
+	export interface CsrfConfig extends CsrfConf {
+	}
+
+	export interface MetricsConfig extends MConfig {
+	}
+
+	export interface MigrationInfo extends MI {
+	}
+
+	export interface MigrationMethods extends MM {
+	}
+
+	export interface RateLimitConfig extends RLConfig {
+	}
+
+	export interface RateLimitHit extends RLHit {
+	}
+
+	export interface RateLimitOptions extends RLOptions {
+	}
+
+	export interface RateLimitStore extends RLStore {
+	}
+
+	export interface HstsConfig extends HConfig {
+	}
+
+	export interface SecurityHeadersConfig extends SHConfig {
+	}
+
+	export interface Session extends Sess {
+	}
+
+	export interface SessionConfig extends SessConfig {
+	}
+
+	export interface SessionStore extends SessStore {
+	}
+
+	export interface SessionStoreEntry extends SessStoreEntry {
+	}
+
 	export interface Request extends express.Request {
 		uploadedFiles?: UploadedFiles;
 		uploadedFilesArray?: UploadedFile[];
+
+		/**
+		 * Id of the current request, taken from the `X-Request-Id` header sent by the client (or by a proxy), or created by teem if the header is missing or is invalid.
+		 * 
+		 * The id is also sent back to the client in the `X-Request-Id` header, and is added to the entries of the access log and to the entries of errors logged by teem.
+		 * 
+		 * `req.id` is not available when `config.disableRequestId` is `true`.
+		 */
+		id?: string;
+
+		/**
+		 * Session of the current request.
+		 * 
+		 * `req.session` is only available when `config.session` is provided.
+		 * 
+		 * Refer to `config.session` for more information.
+		 */
+		session?: Session;
+
+		/**
+		 * User of the current request, as returned by `config.authenticate`.
+		 * 
+		 * `req.user` is `null` when the request is not authenticated, and `undefined` when `config.authenticate` is not provided.
+		 * 
+		 * Refer to `app.auth` for more information.
+		 */
+		user?: any;
 	}
 
 	export interface Response extends express.Response {
@@ -46,6 +272,60 @@ namespace app {
 	export interface Sql extends SqlInterface {
 	}
 
+	export interface SqlWarning extends SW {
+	}
+
+	export interface SqlPreparedStatement extends SPS {
+	}
+
+	export interface SqlBatchStatement extends SBS {
+	}
+
+	export interface SqlBatchResult extends SBR {
+	}
+
+	export interface CompiledQuery extends CQ {
+	}
+
+	export interface SelectQuery<T> extends SQ<T> {
+	}
+
+	export interface InsertQuery extends IQ {
+	}
+
+	export interface UpdateQuery extends UQ {
+	}
+
+	export interface DeleteQuery extends DQ {
+	}
+
+	export interface WhereConditions extends WC {
+	}
+
+	/**
+	 * Types accepted by the `@app.route.param()` decorator.
+	 * 
+	 * - `"int"`: an integer number, such as `123` or `-45` (the value in `req.params` is converted into a `number`)
+	 * - `"float"`: any finite number, such as `1.5` or `-2e3` (the value in `req.params` is converted into a `number`)
+	 * - `"boolean"`: `true`, `false`, `1` or `0` (the value in `req.params` is converted into a `boolean`)
+	 * - `"string"`: any non-empty string (the value in `req.params` is not converted)
+	 */
+	export type RouteParamType = "int" | "float" | "boolean" | "string";
+
+	export type LogLevel = LL;
+
+	export interface HealthCheckOptions extends HCO {
+	}
+
+	export interface HealthConfig extends HC {
+	}
+
+	export interface LogConfig extends LC {
+	}
+
+	export interface Logger extends Lg {
+	}
+
 	export interface Config {
 		/**
 		 * The root path where this app is located in the actual server, in case the server hosts several apps in a single domain.
@@ -114,6 +394,15 @@ namespace app {
 		 */
 		sqlConfig?: PoolOptions | null;
 
+		/**
+		 * Applies all pending migrations from `app.dir.migrations` during `app.run()`, right after the MySQL connection pool is created, before any routes are registered (`config.sqlConfig` must be provided).
+		 * 
+		 * If a migration fails, `app.run()` fails as well.
+		 * 
+		 * Refer to `app.migrations` for more information.
+		 */
+		migrateOnStart?: boolean | null;
+
 		/**
 		 * Enables the compression of all responses produced by routes and middleware functions (static files are not affected by this flag, as they are not compressed by default).
 		 * 
@@ -172,103 +461,318 @@ namespace app {
 		disableCookies?: boolean | null;
 
 		/**
-		 * Disables JSON and urlencoded middleware functions.
+		 * Disables the middleware that sets `req.id` and sends the `X-Request-Id` header.
+		 */
+		disableRequestId?: boolean | null;
+
+		/**
+		 * Configures `app.log` and enables the access log.
 		 * 
-		 * When enabled, they are responsible for parsing JSON and urlencoded payloads of routes marked with any of the following decorators:
+		 * For example:
 		 * 
-		 * - `@app.http.all()`
-		 * - `@app.http.delete()`
-		 * - `@app.http.patch()`
-		 * - `@app.http.post()`
-		 * - `@app.http.put()`
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
 		 * 
-		 * If the `@app.route.formData()` decorator is used on a route, both JSON and urlencoded middleware functions are ignored, as the multer package takes place.
+		 *     log: {
+		 *         level: "debug",
+		 *         format: "json"
+		 *     }
+		 * });
+		 * ```
 		 * 
-		 * Refer to the following links for more information:
+		 * Even if `config.log` is not provided, `app.log` is still available (using the default settings), and errors with status `500` or greater, handled by teem, are still logged. The access log, on the other hand, is only enabled when `config.log` is provided.
 		 * 
-		 * - http://expressjs.com/en/4x/api.html#express.json
-		 * - http://expressjs.com/en/4x/api.html#express.urlencoded
+		 * Refer to `app.LogConfig` for more information on the available options.
 		 */
-		disableBodyParser?: boolean | null;
+		log?: app.LogConfig | null;
 
 		/**
-		 * Disables the handling of bodies with `multipart/form-data` encoding (which includes files uploaded through forms and FormData objects).
+		 * Serves metrics about the app using the Prometheus text format.
 		 * 
-		 * When enabled, a route must be marked with the `@app.route.formData()` decorator for the file handling to actually take place.
+		 * If `true` is provided, the default settings are used, and the metrics are served at the route `/metrics`. Refer to `app.MetricsConfig` for more information on the available options.
 		 * 
-		 * The actual handling is performed by the multer package.
+		 * The following metrics are available:
 		 * 
-		 * Refer to https://www.npmjs.com/package/multer for more information on the package options and use cases.
+		 * - `http_requests_total` and `http_request_duration_seconds`: requests handled by the app, labeled by HTTP method, route pattern (such as `/user/:id`, or an empty string if the request did not reach a route) and status code
+		 * - `sql_queries_total` and `sql_query_duration_seconds`: statements executed by `query()` and `scalar()`, labeled by method and result (`success` or `error`)
+		 * - `sql_pool_connections`, `sql_pool_connections_in_use` and `sql_pool_queue_length`: usage of the connection pool (only when `config.sqlConfig` is provided)
+		 * - `http_client_requests_total` and `http_client_request_duration_seconds`: requests sent by `app.request`, labeled by HTTP method, host and status code (or `error`, if no response was received)
+		 * - `process_resident_memory_bytes`: resident memory size of the process
+		 * 
+		 * The route is not protected in any way, so access to it should be restricted by other means, such as by a reverse proxy.
 		 */
-		disableFormData?: boolean | null;
+		metrics?: app.MetricsConfig | boolean | null;
 
 		/**
-		 * Disables the middleware function that sends a few HTTP headers to prevent caching of all dynamic responses.
+		 * Enables the liveness (`/healthz`) and readiness (`/readyz`) endpoints, used by load balancers and orchestrators.
 		 * 
-		 * The actual headers sent are:
+		 * If `true` is provided, the default settings are used. Refer to `app.HealthConfig` for more information on the available options.
 		 * 
+		 * Both endpoints respond with status `200` when all of their checks succeed, or with status `503` otherwise, along with a JSON body such as:
+		 * 
+		 * ```json
+		 * {
+		 *     "status": "ok",
+		 *     "checks": {
+		 *         "eventLoop": { "status": "ok", "durationMs": 0, "details": { "lagMs": 2 } },
+		 *         "mysql": { "status": "ok", "durationMs": 3 },
+		 *         "fileSystem": { "status": "ok", "durationMs": 0 }
+		 *     }
+		 * }
 		 * ```
-		 * Cache-Control: private, no-cache, no-store, must-revalidate
-		 * Expires: -1
-		 * Pragma: no-cache
-		 * ```
-		 */
-		disableNoCacheHeader?: boolean | null;
-
-		/**
-		 * The directory where the main app's module is located.
 		 * 
-		 * If a value is not provided in `config.mainModuleDir`, the directory of the module calling `app.run()` is used.
+		 * The built-in checks are:
 		 * 
-		 * Using `require.main.path` does not work on some cloud providers, because they perform additional requires of their own before actually executing the app's main file (like `app.js`, `server.js` or `index.js`).
+		 * - `eventLoop`: fails when the event loop lag exceeds `config.health.maxEventLoopLagMs` (liveness and readiness)
+		 * - `mysql`: executes `SELECT 1` using `app.sql.connect()`, only when `config.sqlConfig` is provided (readiness)
+		 * - `fileSystem`: verifies whether `app.dir.project`, used by `app.fileSystem`, is writable (readiness)
 		 * 
-		 * `app.dir.mainModule` is used as `app.dir.routes`'s base directory when `config.routesDir` is not provided.
+		 * Additional checks can be registered with `app.health.register()`. The readiness endpoint also fails while the app is shutting down (after `app.stop()` has been called), which can be combined with `config.health.shutdownDelayMs` so that load balancers stop sending new requests before the server is closed.
+		 * 
+		 * The endpoints are handled before all other middleware, so they are not affected by sessions, authentication, rate limits, the access log or metrics. Just like all other routes, their paths do not include `app.root`, which allows them to be reached directly by the load balancer.
 		 */
-		mainModuleDir?: string | null;
+		health?: app.HealthConfig | boolean | null;
 
 		/**
-		 * The app's "project" directory.
+		 * Enables sessions, exposing the session of each request through `req.session`.
 		 * 
-		 * If a value is not provided in `config.projectDir`, `app.dir.project` will contain the same value as `app.dir.initial`.
+		 * For example:
 		 * 
-		 * `app.dir.project` is used as `app.dir.staticFiles`'s and `app.dir.views`'s base directory when `config.staticFilesDir` / `config.viewsDir` are not provided.
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
 		 * 
-		 * `app.dir.project` is also used as the base directory for all `app.fileSystem` methods.
-		 */
-		projectDir?: string | null;
-
-		/**
-		 * The app's static files directory.
+		 *     session: {
+		 *         secret: "a long and random secret",
+		 *         store: "mysql"
+		 *     }
+		 * });
+		 * ```
 		 * 
-		 * If a value is not provided in `config.staticFilesDir`, `app.dir.project + "/public"` is used.
+		 * And then, in a route:
 		 * 
-		 * If `config.disableStaticFiles` is `true`, `app.dir.staticFiles` will be `null` and static file handling will not be automatically configured, regardless of the value provided in `config.staticFilesDir`.
+		 * ```ts
+		 * class User {
+		 *     '@'app.http.post()
+		 *     public async login(req: app.Request, res: app.Response) {
+		 *         const user = await checkCredentials(req.body.email, req.body.password);
+		 *         await req.session!.regenerate();
+		 *         req.session!.userId = user.id;
+		 *         res.redirect(app.root + "/");
+		 *     }
 		 * 
-		 * There are great discussions about serving static files directly from Node.js/Express.
+		 *     '@'app.http.post()
+		 *     public async logout(req: app.Request, res: app.Response) {
+		 *         await req.session!.destroy();
+		 *         res.redirect(app.root + "/");
+		 *     }
+		 * }
+		 * ```
 		 * 
-		 * Refer to the following links for more information:
+		 * The session cookie only contains the session id, signed using `config.session.secret`, and is created only when some data is stored in the session. It is `HttpOnly`, uses `SameSite=Lax` and `Secure` (for requests made over HTTPS) by default.
 		 * 
-		 * - https://expressjs.com/en/starter/static-files.html
-		 * - https://expressjs.com/en/4x/api.html#express.static
-		 * - https://expressjs.com/en/advanced/best-practice-performance.html#use-a-reverse-proxy
+		 * Sessions are automatically stored at the end of each request, before the response is sent.
+		 * 
+		 * The @ character MUST NOT be placed between '' in the actual code.
+		 * 
+		 * Refer to `app.SessionConfig` for more information on the available options.
 		 */
-		staticFilesDir?: string | null;
+		session?: app.SessionConfig | null;
 
 		/**
-		 * The app's views directory.
+		 * Enables CSRF protection, verifying a token on all routes that accept at least one of the HTTP methods `DELETE`, `PATCH`, `POST` or `PUT` (or that use `@app.http.all()`).
 		 * 
-		 * If a value is not provided in `config.viewsDir`, `app.dir.project + "/views"` is used.
+		 * If `true` is provided, the default settings are used. Refer to `app.CsrfConfig` for more information on the available options.
 		 * 
-		 * If `config.disableViews` is `true`, `app.dir.views` will be `null` and the EJS engine will not be automatically configured, regardless of the value provided in `config.viewsDir`.
+		 * The token of the current request is available to the views through the function `csrfToken()` (or `res.locals.csrfToken()`, which only creates a new token when called), and must be sent back to the server, either in a field of urlencoded / `multipart/form-data` bodies, or in a header:
+		 * 
+		 * ```html
+		 * <form method="post" action="<%- root %>/user/create">
+		 *     <input type="hidden" name="_csrf" value="<%= csrfToken() %>" />
+		 *     ...
+		 * </form>
+		 * ```
+		 * 
+		 * When the token is missing or is invalid, the method is not executed and an error with status `403` is produced. Requests made with the HTTP methods `GET`, `HEAD` and `OPTIONS` are never verified.
+		 * 
+		 * Use `@app.route.noCsrf()` in order to disable the verification for specific methods, such as API methods that are authenticated with bearer tokens.
 		 */
-		viewsDir?: string | null;
+		csrf?: app.CsrfConfig | boolean | null;
 
 		/**
-		 * The app's routes directories.
+		 * Limits the amount of requests each client can make to the routes that were automatically created, and configures where the counters used by `@app.route.rateLimit()` are stored.
 		 * 
-		 * If a value is not provided in `config.routesDir`, the following four values are used:
-		 * - `app.dir.mainModule + "/routes"`
-		 * - `app.dir.mainModule + "/route"`
+		 * For example, to accept at most 300 requests per minute from each IP address:
+		 * 
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
+		 * 
+		 *     rateLimit: {
+		 *         windowMs: 60000,
+		 *         max: 300,
+		 *         store: "mysql"
+		 *     }
+		 * });
+		 * ```
+		 * 
+		 * The global limit is only applied if a value is provided in `config.rateLimit.max`, and it is verified before any specific limits set with `@app.route.rateLimit()`.
+		 * 
+		 * All responses to limited requests carry the headers `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`. When the limit is exceeded, the request is not processed, the header `Retry-After` is added and an error with status `429` is produced.
+		 * 
+		 * Refer to `app.RateLimitConfig` for more information on the available options.
+		 */
+		rateLimit?: app.RateLimitConfig | null;
+
+		/**
+		 * Enables CORS on all routes that were automatically created, so that they can be called by pages served from other origins.
+		 * 
+		 * For example, to allow a single-page application served from another origin to call the routes, sending cookies along with the requests:
+		 * 
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
+		 * 
+		 *     cors: {
+		 *         origin: ["https://app.example.com"],
+		 *         credentials: true,
+		 *         maxAge: 600
+		 *     }
+		 * });
+		 * ```
+		 * 
+		 * If `true` is provided, the default settings are used, allowing all origins. Refer to `app.CorsConfig` for more information on the available options.
+		 * 
+		 * Preflight requests (`OPTIONS` requests sent by the browser) are automatically answered for all paths with at least one CORS-enabled route, unless a route marked with `@app.http.options()` or `@app.http.all()` already exists for the path.
+		 * 
+		 * Use `@app.route.cors()` in order to override these settings, or to enable/disable CORS, for specific methods.
+		 */
+		cors?: app.CorsConfig | boolean | null;
+
+		/**
+		 * Sends a few HTTP headers along with all responses (including static files) in order to enable security features of the browsers.
+		 * 
+		 * If `true` is provided, the default settings are used, and the actual headers sent are:
+		 * 
+		 * ```
+		 * Content-Security-Policy: default-src 'self'; base-uri 'self'; font-src 'self' https: data:; form-action 'self'; frame-ancestors 'self'; img-src 'self' data:; object-src 'none'; script-src 'self' 'nonce-...'; style-src 'self' https: 'unsafe-inline'
+		 * Referrer-Policy: no-referrer
+		 * Strict-Transport-Security: max-age=15552000; includeSubDomains (only for requests made over HTTPS)
+		 * X-Content-Type-Options: nosniff
+		 * X-Frame-Options: SAMEORIGIN
+		 * ```
+		 * 
+		 * A new nonce is generated for each request, and is available to the views as `cspNonce` (through `res.locals.cspNonce`), so that inline scripts are still allowed to run:
+		 * 
+		 * ```html
+		 * <script nonce="<%= cspNonce %>">
+		 *     ...
+		 * </script>
+		 * ```
+		 * 
+		 * Refer to `app.SecurityHeadersConfig` for more information on the available options.
+		 */
+		securityHeaders?: app.SecurityHeadersConfig | boolean | null;
+
+		/**
+		 * Disables JSON and urlencoded middleware functions.
+		 * 
+		 * When enabled, they are responsible for parsing JSON and urlencoded payloads of routes marked with any of the following decorators:
+		 * 
+		 * - `@app.http.all()`
+		 * - `@app.http.delete()`
+		 * - `@app.http.patch()`
+		 * - `@app.http.post()`
+		 * - `@app.http.put()`
+		 * 
+		 * If the `@app.route.formData()` decorator is used on a route, both JSON and urlencoded middleware functions are ignored, as the multer package takes place.
+		 * 
+		 * Refer to the following links for more information:
+		 * 
+		 * - http://expressjs.com/en/4x/api.html#express.json
+		 * - http://expressjs.com/en/4x/api.html#express.urlencoded
+		 */
+		disableBodyParser?: boolean | null;
+
+		/**
+		 * Disables the handling of bodies with `multipart/form-data` encoding (which includes files uploaded through forms and FormData objects).
+		 * 
+		 * When enabled, a route must be marked with the `@app.route.formData()` decorator for the file handling to actually take place.
+		 * 
+		 * The actual handling is performed by the multer package.
+		 * 
+		 * Refer to https://www.npmjs.com/package/multer for more information on the package options and use cases.
+		 */
+		disableFormData?: boolean | null;
+
+		/**
+		 * Disables the middleware function that sends a few HTTP headers to prevent caching of all dynamic responses.
+		 * 
+		 * The actual headers sent are:
+		 * 
+		 * ```
+		 * Cache-Control: private, no-cache, no-store, must-revalidate
+		 * Expires: -1
+		 * Pragma: no-cache
+		 * ```
+		 */
+		disableNoCacheHeader?: boolean | null;
+
+		/**
+		 * The directory where the main app's module is located.
+		 * 
+		 * If a value is not provided in `config.mainModuleDir`, the directory of the module calling `app.run()` is used.
+		 * 
+		 * Using `require.main.path` does not work on some cloud providers, because they perform additional requires of their own before actually executing the app's main file (like `app.js`, `server.js` or `index.js`).
+		 * 
+		 * `app.dir.mainModule` is used as `app.dir.routes`'s base directory when `config.routesDir` is not provided.
+		 */
+		mainModuleDir?: string | null;
+
+		/**
+		 * The app's "project" directory.
+		 * 
+		 * If a value is not provided in `config.projectDir`, `app.dir.project` will contain the same value as `app.dir.initial`.
+		 * 
+		 * `app.dir.project` is used as `app.dir.staticFiles`'s and `app.dir.views`'s base directory when `config.staticFilesDir` / `config.viewsDir` are not provided.
+		 * 
+		 * `app.dir.project` is also used as the base directory for all `app.fileSystem` methods.
+		 */
+		projectDir?: string | null;
+
+		/**
+		 * The app's static files directory.
+		 * 
+		 * If a value is not provided in `config.staticFilesDir`, `app.dir.project + "/public"` is used.
+		 * 
+		 * If `config.disableStaticFiles` is `true`, `app.dir.staticFiles` will be `null` and static file handling will not be automatically configured, regardless of the value provided in `config.staticFilesDir`.
+		 * 
+		 * There are great discussions about serving static files directly from Node.js/Express.
+		 * 
+		 * Refer to the following links for more information:
+		 * 
+		 * - https://expressjs.com/en/starter/static-files.html
+		 * - https://expressjs.com/en/4x/api.html#express.static
+		 * - https://expressjs.com/en/advanced/best-practice-performance.html#use-a-reverse-proxy
+		 */
+		staticFilesDir?: string | null;
+
+		/**
+		 * The app's views directory.
+		 * 
+		 * If a value is not provided in `config.viewsDir`, `app.dir.project + "/views"` is used.
+		 * 
+		 * If `config.disableViews` is `true`, `app.dir.views` will be `null` and the EJS engine will not be automatically configured, regardless of the value provided in `config.viewsDir`.
+		 */
+		viewsDir?: string | null;
+
+		/**
+		 * The app's routes directories.
+		 * 
+		 * If a value is not provided in `config.routesDir`, the following four values are used:
+		 * - `app.dir.mainModule + "/routes"`
+		 * - `app.dir.mainModule + "/route"`
 		 * - `app.dir.mainModule + "/controllers"`
 		 * - `app.dir.mainModule + "/controller"`
 		 * 
@@ -278,6 +782,15 @@ namespace app {
 		 */
 		routesDir?: string[] | null;
 
+		/**
+		 * The app's migrations directory.
+		 * 
+		 * If a value is not provided in `config.migrationsDir`, `app.dir.mainModule + "/migrations"` is used.
+		 * 
+		 * Refer to `app.migrations` for more information.
+		 */
+		migrationsDir?: string | null;
+
 		/**
 		 * Configuration used to create `express.static()` middleware, responsible for serving static files.
 		 * 
@@ -332,6 +845,35 @@ namespace app {
 		 */
 		logRoutesToConsole?: boolean | null;
 
+		/**
+		 * Route where the OpenAPI 3 document, describing all routes that were automatically created, is served as JSON.
+		 * 
+		 * If a value is not provided in `config.openApiRoute`, the document is not served.
+		 * 
+		 * Just like the routes created from `app.dir.routes`, `config.openApiRoute` must not include `app.root`. For example, if `config.root` is `"/app1"` and `config.openApiRoute` is `"/api/openapi.json"`, the document will be accessible from the URL `http://example.com/app1/api/openapi.json`.
+		 * 
+		 * The document includes the route parameters declared with `@app.route.param()`, the schemas declared with `@app.route.body()` / `@app.route.query()` and the summaries declared with `@app.route.summary()`.
+		 * 
+		 * Refer to https://spec.openapis.org/oas/v3.0.3 for more information on the OpenAPI Specification.
+		 */
+		openApiRoute?: string | null;
+
+		/**
+		 * Path, relative to `app.dir.project`, of the file where the OpenAPI 3 document, describing all routes that were automatically created, is written to during setup.
+		 * 
+		 * If a value is not provided in `config.openApiFile`, the document is not written to disk.
+		 * 
+		 * Refer to `config.openApiRoute` for more information.
+		 */
+		openApiFile?: string | null;
+
+		/**
+		 * Information used to fill the `info` object of the OpenAPI 3 document.
+		 * 
+		 * `config.openApiInfo` is ignored if neither `config.openApiRoute` nor `config.openApiFile` are provided.
+		 */
+		openApiInfo?: app.OpenApiInfo | null;
+
 		/**
 		 * Flag that indicates if class names are to be used, instead of the filename, the generate a route.
 		 */
@@ -355,6 +897,26 @@ namespace app {
 		 */
 		allMethodsRoutesHiddenByDefault?: boolean | null;
 
+		/**
+		 * Makes the values returned by all route methods be sent as responses, as if all of them had been marked with the `@app.route.returns()` decorator.
+		 * 
+		 * Refer to `@app.route.returns()` for more information.
+		 */
+		returnValueAsResponse?: boolean | null;
+
+		/**
+		 * Enables watching `app.dir.routes` for changes, in order to reload the routes without restarting the process (intended for development only).
+		 * 
+		 * When a `.js`, `.cjs` or `.mjs` file is created, changed or deleted inside `app.dir.routes`, that file is imported again and all of its routes are recreated, while the other routes, the MySQL connection pool and everything else are kept intact.
+		 * 
+		 * The new routes are checked for conflicts just like during setup. If a conflict or any other error is found (such as a syntax error in the changed file), the error is logged to the console and the previous routes are kept until the error is fixed.
+		 * 
+		 * Only the route files themselves are imported again. Changes to other modules imported by the route files still require a restart.
+		 * 
+		 * Since ECMAScript modules cannot be removed from Node.js's module cache, each reload of a `.mjs` file (or of a `.js` file in a project using ECMAScript modules) keeps the previous version of the module in memory. That is why `config.watchRoutes` should never be used in production.
+		 */
+		watchRoutes?: boolean | null;
+
 		/**
 		 * Function that is executed before any middleware functions are registered.
 		 * 
@@ -454,10 +1016,147 @@ namespace app {
 		 */
 		onFinish?: (() => Promise<void> | void) | null;
 
+		/**
+		 * Function that is executed while the app is being stopped by `app.stop()`, or by one of the signals `SIGTERM` and `SIGINT`.
+		 * 
+		 * The stop process is executed in the following order:
+		 * 
+		 * - [The server stops accepting new connections]
+		 * - [In-flight requests and open `app.sql.connect()` callbacks are given `config.shutdownTimeout` milliseconds to finish]
+		 * - config.onShutdown()
+		 * - [The MySQL connection pool is closed]
+		 * 
+		 * Since the connection pool is closed only after `config.onShutdown` is executed, `app.sql.connect()` can still be used inside `config.onShutdown`.
+		 */
+		onShutdown?: (() => Promise<void> | void) | null;
+
+		/**
+		 * Maximum amount of time, in milliseconds, given to in-flight requests and to open `app.sql.connect()` callbacks to finish when the app is being stopped.
+		 * 
+		 * Connections still open after that time are forcibly closed.
+		 * 
+		 * If a value is not provided, `10000` is used (10 seconds).
+		 */
+		shutdownTimeout?: number | null;
+
+		/**
+		 * Disables the automatic handling of the signals `SIGTERM` and `SIGINT`.
+		 * 
+		 * By default, when one of those signals is received, `app.stop()` is called, and the process exits after the app has been stopped. If a second signal is received while the app is being stopped, the process exits immediately.
+		 */
+		disableShutdownSignals?: boolean | null;
+
+		/**
+		 * Makes `app.run()` create an HTTPS server (or an HTTP/2 server, if `config.https.http2` is `true`), instead of a plain HTTP server.
+		 * 
+		 * For example:
+		 * 
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
+		 * 
+		 *     port: 443,
+		 *     https: {
+		 *         key: "certs/server.key",
+		 *         cert: "certs/server.crt",
+		 *         redirectPort: 80
+		 *     }
+		 * });
+		 * ```
+		 * 
+		 * When `key`, `cert` and `ca` are provided as paths, those files are watched, and the server starts using the new certificates as soon as they change on disk, without a restart (useful when certificates are renewed automatically).
+		 * 
+		 * `config.https` is ignored if a function is provided to `config.onFinish`.
+		 * 
+		 * Refer to `app.HttpsConfig` for more information on the available options.
+		 */
+		https?: app.HttpsConfig | null;
+
+		/**
+		 * Function used to determine whether a request was made to an API, in which case errors are returned to the client as `application/problem+json` bodies, instead of HTML pages or plain text.
+		 * 
+		 * When `config.isApiRequest` is not provided, requests made to routes containing the string `/api/`, or requests with `application/json` or `application/problem+json` in the `accept` header, are considered API requests.
+		 * 
+		 * For example:
+		 * 
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
+		 * 
+		 *     isApiRequest: function (req: app.Request) {
+		 *         return req.path.startsWith("/v1/");
+		 *     }
+		 * });
+		 * ```
+		 */
+		isApiRequest?: ((req: app.Request) => boolean) | null;
+
+		/**
+		 * Function used to determine the user of each request, which is stored in `req.user`.
+		 * 
+		 * It must return the user (or a `Promise` resolved with the user), or `null` / `undefined` when the request is not authenticated.
+		 * 
+		 * If the user has a property `roles`, containing an array of strings (or a single string), it is used by the `@app.auth.roles()` decorator.
+		 * 
+		 * For example:
+		 * 
+		 * ```ts
+		 * app.run({
+		 *     ... // Other options
+		 * 
+		 *     authenticate: async function (req: app.Request) {
+		 *         return (req.session!.userId ? await findUser(req.session!.userId) : null);
+		 *     }
+		 * });
+		 * ```
+		 * 
+		 * `config.authenticate` is executed before all routes that were automatically created, and must be provided if any `app.auth` decorators are used.
+		 * 
+		 * Refer to `app.auth` for more information.
+		 */
+		authenticate?: ((req: app.Request) => any) | null;
+
+		/**
+		 * Route where HTML requests are redirected to when they require an authenticated user but are not authenticated (API requests always receive an error with status `401`, instead).
+		 * 
+		 * If a value is not provided in `config.loginRoute`, an error with status `401` is produced for all requests.
+		 * 
+		 * Just like the routes created from `app.dir.routes`, `config.loginRoute` must not include `app.root`.
+		 * 
+		 * Refer to `config.isApiRequest` and to `app.auth` for more information.
+		 */
+		loginRoute?: string | null;
+
+		/**
+		 * Makes all routes require an authenticated user, as if all classes had been marked with the `@app.auth.required()` decorator.
+		 * 
+		 * Use `@app.auth.anonymous()` to allow unauthenticated access to specific classes or methods.
+		 * 
+		 * Refer to `app.auth` for more information.
+		 */
+		authRequiredByDefault?: boolean | null;
+
 		/**
 		 * Function responsible for returning a response to the client in case of errors.
 		 * 
-		 * When `config.errorHandler` is not provided, a JSON string with the error message is returned for requests made to routes containing the string `/api/` or for requests with `application/json` in the `accept` header, or a simple HTML page in other cases.
+		 * When `config.errorHandler` is not provided, an RFC 7807 `application/problem+json` body is returned for API requests (refer to `config.isApiRequest`), or a simple HTML page in other cases.
+		 * 
+		 * The problem+json body contains the members `type`, `title`, `status`, `detail` (the error message) and `instance` (the requested URL), along with the extension members of the error. For example, the body of a `new app.errors.Conflict("The e-mail is already in use", { field: "email" })` is:
+		 * 
+		 * ```json
+		 * {
+		 *     "type": "about:blank",
+		 *     "title": "Conflict",
+		 *     "status": 409,
+		 *     "detail": "The e-mail is already in use",
+		 *     "instance": "/user/create",
+		 *     "field": "email"
+		 * }
+		 * ```
+		 * 
+		 * Errors produced by the `@app.route.body()` and `@app.route.query()` decorators are instances of `app.errors.ValidationError`, have a property `errors`, containing an array of `app.ValidationFieldError`, and are always returned as a problem+json body (with the extension member `errors`) when `config.errorHandler` is not provided.
+		 * 
+		 * Refer to `app.errors` for more information on the available error classes.
 		 * 
 		 * The function provided to `config.errorHandler` must have the following signature `(err: any, req: app.Request, res: app.Response, next: app.NextFunction)`.
 		 * 
@@ -482,7 +1181,7 @@ namespace app {
 		 * 
 		 * The function provided to `config.htmlErrorHandler` must have the following signature `(err: any, req: app.Request, res: app.Response, next: app.NextFunction)`.
 		 * 
-		 * Even if a function is provided to `config.htmlErrorHandler`, it is not called for requests made to routes containing the string `/api/` or for requests with `application/json` in the `accept` header.
+		 * Even if a function is provided to `config.htmlErrorHandler`, it is not called for API requests (refer to `config.isApiRequest`), nor for errors produced by the `@app.route.body()` and `@app.route.query()` decorators.
 		 * 
 		 * If a full error handler is provided in `config.errorHandler`, `config.htmlErrorHandler` is ignored.
 		 * 
@@ -1194,13 +1893,313 @@ interface RouteDecorators {
 	middleware(...middleware: any[]): MethodDecorator;
 
 	/**
-	 * Indicates that data (and possibly files) is sent to the server through this route with `multipart/form-data` encoding.
-	 * 
-	 * Internally, this is done using the package multer (https://www.npmjs.com/package/multer).
+	 * Specifies one or more middleware functions to be used with the routes of all of the class' methods.
 	 * 
-	 * In order to make this feature work, you must make a request using HTTP method `DELETE`, `PATCH`, `POST` or `PUT`.
-	 * 
-	 * That means at least one of the following decorators must be used:
+	 * For example:
+	 * 
+	 * ```ts
+	 * '@'app.route.classMiddleware(adminMiddleware(), auditMiddleware())
+	 * class Order {
+	 *     '@'app.route.middleware(myMiddleware())
+	 *     public m1(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * 
+	 *     public m2(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The middleware functions specified for the class are executed in the same order they were passed, before the middleware functions specified with `@app.route.middleware()`. In the example above, `adminMiddleware()` and `auditMiddleware()` are executed before both methods, while `myMiddleware()` is executed only before `Order.m1()`, right after `auditMiddleware()`.
+	 * 
+	 * Middleware functions can also be applied to all routes produced by the files inside a directory of `app.dir.routes` (including its subdirectories), by creating a file named `_middleware.js` (or `_middleware.cjs` / `_middleware.mjs`) inside that directory. That file must export a middleware function, or an array of middleware functions:
+	 * 
+	 * ```ts
+	 * // routes/admin/_middleware.js
+	 * export = [adminMiddleware(), auditMiddleware()];
+	 * ```
+	 * 
+	 * `_middleware.js` files do not produce routes, and the middleware functions they export are executed before the ones of the subdirectories, which are executed before the ones specified with `@app.route.classMiddleware()`.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to https://expressjs.com/en/guide/using-middleware.html for more information on middleware.
+	 * 
+	 * @param middleware One or more middleware functions to be used with the routes of all of the class' methods.
+	 */
+	classMiddleware(...middleware: any[]): ClassDecorator;
+
+	/**
+	 * Disables the verification of the CSRF token for the method's route, when `config.csrf` is provided.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class Api {
+	 *     '@'app.http.post()
+	 *     '@'app.route.noCsrf()
+	 *     public webhook(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Only methods whose requests cannot be forged by other websites (such as methods authenticated by bearer tokens, instead of cookies) should use this decorator.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.csrf` for more information.
+	 */
+	noCsrf(): MethodDecorator;
+
+	/**
+	 * Limits the amount of requests each client can make to the method's route.
+	 * 
+	 * For example, to accept at most 5 login attempts per minute from each IP address:
+	 * 
+	 * ```ts
+	 * class Account {
+	 *     '@'app.http.post()
+	 *     '@'app.route.rateLimit({ windowMs: 60000, max: 5 })
+	 *     public login(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Each route has its own counters, which are stored according to `config.rateLimit.store`. The limit is verified before anything else, even before `app.auth` decorators.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.rateLimit` for more information.
+	 * 
+	 * @param options Options of the limit (refer to `app.RateLimitOptions` for more information).
+	 */
+	rateLimit(options: app.RateLimitOptions): MethodDecorator;
+
+	/**
+	 * Enables, disables or overrides the CORS settings of the method's route.
+	 * 
+	 * If `options` is not provided, or if `true` is provided, CORS is enabled using the settings in `config.cors` (or the default settings, if `config.cors` is not provided).
+	 * 
+	 * If `false` is provided, CORS is disabled for the route, even if `config.cors` is provided.
+	 * 
+	 * If an object is provided, its settings are merged with the settings in `config.cors`:
+	 * 
+	 * ```ts
+	 * class Product {
+	 *     '@'app.route.cors({ origin: "*", credentials: false })
+	 *     public list(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.cors` for more information.
+	 * 
+	 * @param options Settings of the route (refer to `app.CorsConfig` for more information).
+	 */
+	cors(options?: app.CorsConfig | boolean): MethodDecorator;
+
+	/**
+	 * Adds a route parameter to the method's route, converting and validating its value before the method is executed.
+	 * 
+	 * For example, assume `app.dir.routes = ["/path/to/project/routes"]` and the class below is in the file `/path/to/project/routes/user.js`.
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.param("id", "int")
+	 *     public edit(req: app.Request, res: app.Response) {
+	 *         // req.params.id is a number here
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Method `User.edit()` produces the route `/user/edit/:id`, instead of `/user/edit`.
+	 * 
+	 * When two or more parameters are used, they are added to the route in the same order they were declared:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.param("id", "int")
+	 *     '@'app.route.param("tab")
+	 *     public edit(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The method above produces the route `/user/edit/:id/:tab`.
+	 * 
+	 * If the route already contains the parameter, such as when `@app.route.methodName("edit/:id")` or `@app.route.fullMethodRoute("/user/:id/edit")` are used, the parameter is not added again, but its value is still converted and validated.
+	 * 
+	 * If the value received in the request cannot be converted into `type`, the method is not executed and an error with status `400` is passed along to the error handler.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `app.RouteParamType` for more information on the available types.
+	 * 
+	 * @param name Name of the parameter, as it will appear in `req.params` (only letters, digits and `_` are allowed).
+	 * @param type Type of the parameter (`"string"` is used if no other value is provided).
+	 */
+	param(name: string, type?: app.RouteParamType): MethodDecorator;
+
+	/**
+	 * Validates the body of the request against the given schema before the method is executed.
+	 * 
+	 * In order to make this feature work, the route must accept at least one of the HTTP methods `DELETE`, `PATCH`, `POST` or `PUT`, and `config.disableBodyParser` must not be `true` (unless the `@app.route.formData()` decorator is also used).
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.http.post()
+	 *     '@'app.route.body({
+	 *         name: { type: "string", required: true, max: 100 },
+	 *         age: { type: "int", min: 0 },
+	 *         role: { type: "string", enum: ["admin", "user"] },
+	 *         address: {
+	 *             type: "object",
+	 *             properties: {
+	 *                 zip: { type: "string", required: true }
+	 *             }
+	 *         },
+	 *         tags: { type: "array", items: { type: "string" } }
+	 *     })
+	 *     public create(req: app.Request, res: app.Response) {
+	 *         // req.body.age is a number here (or undefined)
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Since urlencoded bodies only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted, and `req.body` is updated with the converted values.
+	 * 
+	 * If the body does not satisfy the schema, the method is not executed and an error with status `400` is passed along to the error handler. That error has a property `errors`, containing one `app.ValidationFieldError` for each offending field.
+	 * 
+	 * When `config.errorHandler` is not provided, the client receives a JSON object in the form below:
+	 * 
+	 * ```json
+	 * {
+	 *     "message": "Invalid request body",
+	 *     "errors": [
+	 *         { "field": "name", "message": "is required" },
+	 *         { "field": "address.zip", "message": "is required" }
+	 *     ]
+	 * }
+	 * ```
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `app.SchemaField` for more information on the available settings.
+	 * 
+	 * @param schema Schema describing the fields of the body.
+	 */
+	body(schema: app.Schema): MethodDecorator;
+
+	/**
+	 * Validates the query string of the request against the given schema before the method is executed.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.query({
+	 *         page: { type: "int", required: true, min: 1 },
+	 *         order: { type: "string", enum: ["name", "date"] }
+	 *     })
+	 *     public list(req: app.Request, res: app.Response) {
+	 *         // req.query.page is a number here
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Since query strings only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted, and `req.query` is updated with the converted values.
+	 * 
+	 * If the query string does not satisfy the schema, the method is not executed and an error with status `400` is passed along to the error handler, just like what happens with `@app.route.body()`.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `app.SchemaField` for more information on the available settings.
+	 * 
+	 * @param schema Schema describing the fields of the query string.
+	 */
+	query(schema: app.Schema): MethodDecorator;
+
+	/**
+	 * Specifies a summary, and optionally a longer description, of the method's route, to be used in the OpenAPI 3 document.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.summary("Lists all users", "Users are sorted by name.")
+	 *     public list(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.openApiRoute` for more information.
+	 * 
+	 * @param summary Short summary of what the route does.
+	 * @param description Optional longer description of the route.
+	 */
+	summary(summary: string, description?: string): MethodDecorator;
+
+	/**
+	 * Makes the value returned by the method (or the value the returned promise resolves to) be sent as the response, so that the method does not need to call `res.json()`, `res.render()`, `res.send()`...
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.returns()
+	 *     public async list(req: app.Request, res: app.Response) {
+	 *         return await app.sql.connect(async (sql) => {
+	 *             return await sql.query("select id, name from user");
+	 *         });
+	 *     }
+	 * 
+	 *     '@'app.route.returns()
+	 *     public edit(req: app.Request, res: app.Response) {
+	 *         return app.result.view("user/edit", { title: "Edit user" });
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The returned value is sent according to its type:
+	 * 
+	 * - `undefined`: nothing is sent, as the method is expected to have already responded (or to have called `next()`)
+	 * - String: sent as `text/html` if it starts with `<`, or as `text/plain` otherwise (unless the `Content-Type` header has already been set)
+	 * - `Buffer`: sent as binary data
+	 * - Stream: piped to the response, as binary data (unless the `Content-Type` header has already been set)
+	 * - Results created by `app.result.view()`, `app.result.redirect()` and `app.result.status()`: refer to `app.result` for more information
+	 * - Anything else (objects, arrays, numbers, booleans and `null`): sent as JSON
+	 * 
+	 * If the response has already been sent by the time the method returns, the returned value is ignored.
+	 * 
+	 * Use `config.returnValueAsResponse` in order to apply this behavior to all route methods.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 */
+	returns(): MethodDecorator;
+
+	/**
+	 * Indicates that data (and possibly files) is sent to the server through this route with `multipart/form-data` encoding.
+	 * 
+	 * Internally, this is done using the package multer (https://www.npmjs.com/package/multer).
+	 * 
+	 * In order to make this feature work, you must make a request using HTTP method `DELETE`, `PATCH`, `POST` or `PUT`.
+	 * 
+	 * That means at least one of the following decorators must be used:
 	 * 
 	 * - `@app.http.all()`
 	 * - `@app.http.delete()`
@@ -1511,6 +2510,86 @@ interface HttpDecorators {
 	hidden(): MethodDecorator;
 }
 
+interface AuthDecorators {
+	/**
+	 * Informs the class' methods (or the method) can only be executed by authenticated users.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * '@'app.auth.required()
+	 * class Order {
+	 *     public m1(req: app.Request, res: app.Response) {
+	 *         // req.user is the user returned by config.authenticate
+	 *         ...
+	 *     }
+	 * 
+	 *     '@'app.auth.anonymous()
+	 *     public m2(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * When a request is not authenticated, the method is not executed: API requests receive an error with status `401`, while HTML requests are redirected to `config.loginRoute` (refer to `config.isApiRequest`).
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.authenticate` for more information.
+	 */
+	required(): ClassDecorator & MethodDecorator;
+
+	/**
+	 * Informs the class' methods (or the method) can only be executed by authenticated users with at least one of the given roles (implies `@app.auth.required()`).
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * '@'app.auth.roles("admin")
+	 * class User {
+	 *     public list(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * 
+	 *     '@'app.auth.roles("admin", "manager")
+	 *     public view(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * Roles specified on a method replace the roles specified on its class.
+	 * 
+	 * The roles of the user are obtained from the property `roles` of `req.user`. When the user is authenticated, but has none of the given roles, the method is not executed and an error with status `403` is produced.
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.authenticate` for more information.
+	 * 
+	 * @param roles One or more roles accepted by the route(s).
+	 */
+	roles(...roles: string[]): ClassDecorator & MethodDecorator;
+
+	/**
+	 * Informs the class' methods (or the method) can be executed by unauthenticated users, overriding `config.authRequiredByDefault` and the `app.auth` decorators used on the class.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * '@'app.auth.required()
+	 * class Account {
+	 *     '@'app.auth.anonymous()
+	 *     public login(req: app.Request, res: app.Response) {
+	 *         ...
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 */
+	anonymous(): ClassDecorator & MethodDecorator;
+}
+
 interface RequestMethods {
 	/**
 	 * Provides basic methods to send data and receive JSON objects from remote servers.
@@ -1528,6 +2607,33 @@ interface RequestMethods {
 	buffer: BufferRequest;
 }
 
+interface ConfigMethods {
+	/**
+	 * Loads the configuration of the app, to be passed to `app.run()`, merging the following sources (from the lowest to the highest priority):
+	 * 
+	 * - `defaults`
+	 * - The file `teem.config.json` (or `teem.config.js`/`teem.config.cjs`, which may export either an object or a function returning an object/a `Promise`)
+	 * - The file `teem.config.{env}.json` (or `.js`/`.cjs`), where `{env}` is `options.env`, such as `teem.config.production.json`
+	 * - Environment variables starting with `TEEM_`, named after the path of the option in upper snake case, such as `TEEM_PORT`, `TEEM_DISABLE_VIEWS` or `TEEM_LOG_LEVEL` (`config.sqlConfig` uses `SQL` instead, such as `TEEM_SQL_HOST`)
+	 * 
+	 * Objects are merged property by property, while all other values, including arrays, replace the previous ones. Arrays in environment variables are separated by commas, such as `TEEM_ROUTES_DIR=routes,admin/routes`, and options such as `config.cors`, which accept either a boolean or an object, can be enabled with values like `TEEM_CORS=true`.
+	 * 
+	 * Options that can only be functions (or other non-JSON values) can only be provided by `defaults` or by `.js` files.
+	 * 
+	 * The resulting configuration is validated against `app.Config`, with strings being converted to numbers and booleans as necessary. If any invalid (or unknown) options are found, an `Error` listing all of them is thrown.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * app.config.load({ port: 3000 }).then(app.run);
+	 * ```
+	 * 
+	 * @param defaults Optional configuration with the lowest priority.
+	 * @param options Optional settings controlling where the configuration is loaded from.
+	 */
+	load(defaults?: app.Config | null, options?: app.ConfigLoadOptions | null): Promise<app.Config>;
+}
+
 interface Directories {
 	/**
 	 * The initial working directory, obtained by calling `process.cwd()` at the beginning of the setup process.
@@ -1600,6 +2706,15 @@ interface Directories {
 	 * The values in `app.dir.routes` do not end with a slash (`\` in Windows or `/` in Linux/Mac), even if the values provided in `config.routesDir` do.
 	 */
 	routes: string[];
+
+	/**
+	 * The app's migrations directory, used by `app.migrations`.
+	 * 
+	 * If a value is not provided in `config.migrationsDir`, `app.dir.mainModule + "/migrations"` is used.
+	 * 
+	 * `app.dir.migrations` does not end with a slash (`\` in Windows or `/` in Linux/Mac).
+	 */
+	migrations: string;
 }
 
 interface App {
@@ -1640,7 +2755,16 @@ interface App {
 	http: HttpDecorators;
 
 	/**
-	 * The root path where this app is located in the actual server, in case the server hosts several apps in a single domain.
+	 * Decorators used to specify which classes and methods require an authenticated user.
+	 * 
+	 * These decorators can be used both on classes and on methods, and require `config.authenticate` to be provided.
+	 * 
+	 * Refer to `config.authenticate` for more information.
+	 */
+	auth: AuthDecorators;
+
+	/**
+	 * The root path where this app is located in the actual server, in case the server hosts several apps in a single domain.
 	 * 
 	 * For example, if the app is the only one hosted by the server, and is located at the root path, such as `example.com`, `app.root` is an empty string `""`.
 	 * 
@@ -1698,6 +2822,15 @@ interface App {
 	 */
 	express: express.Express;
 
+	/**
+	 * The server created by `app.run()`.
+	 * 
+	 * `app.server` is an `https.Server` if `config.https` is provided, an `http2.Http2SecureServer` if `config.https.http2` is `true`, or an `http.Server` otherwise.
+	 * 
+	 * If a function is provided to `config.onFinish`, `app.server` will be `null`, as `app.run()` does not create the server in that case.
+	 */
+	server: http.Server | https.Server | Http2SecureServer | null;
+
 	/**
 	 * Provides basic `Promise` wrappers around common file system operations, with relatives paths using `app.dir.project` as the base directory.
 	 * 
@@ -1710,6 +2843,105 @@ interface App {
 	 */
 	request: RequestMethods;
 
+	/**
+	 * Helpers used to create special values to be returned by route methods marked with `@app.route.returns()` (or by all route methods, if `config.returnValueAsResponse` is `true`).
+	 * 
+	 * Refer to `@app.route.returns()` for more information.
+	 */
+	result: ResultHelpers;
+
+	/**
+	 * Error classes that can be thrown by route methods (or passed to `next()`) in order to produce responses with the corresponding status codes.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * class User {
+	 *     '@'app.route.param("id", "int")
+	 *     public async view(req: app.Request, res: app.Response) {
+	 *         const user = await findUser(req.params.id);
+	 *         if (!user)
+	 *             throw new app.errors.NotFound("User not found");
+	 *         res.json(user);
+	 *     }
+	 * }
+	 * ```
+	 * 
+	 * The @ character MUST NOT be placed between '' in the actual code.
+	 * 
+	 * Refer to `config.errorHandler` for more information on how errors are returned to the client.
+	 */
+	errors: ErrorClasses;
+
+	/**
+	 * Loads the configuration of the app from files and environment variables.
+	 * 
+	 * Refer to `app.config.load()` for more information.
+	 */
+	config: ConfigMethods;
+
+	/**
+	 * Registers the checks executed by the health endpoints enabled by `config.health`.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * app.health.register("redis", async () => {
+	 *     await redisClient.ping();
+	 * });
+	 * ```
+	 * 
+	 * Refer to `config.health` for more information.
+	 */
+	health: HealthMethods;
+
+	/**
+	 * Applies, reverts and lists the database migrations stored in `app.dir.migrations` (`config.sqlConfig` must be provided to `app.run()`).
+	 * 
+	 * Migrations are files whose names start with their version, followed by their name, such as `001_create_user.sql` or `20240115_add_user_email.js`, and are applied in ascending order of version:
+	 * 
+	 * - `.sql` files contain statements separated by semicolons (or by the separator set with the `DELIMITER` command), and can be reverted by a file with the same name ending in `.down.sql`, such as `001_create_user.down.sql`
+	 * - `.js`/`.cjs` files export the functions `up(sql)` and (optionally) `down(sql)`, which receive an `app.Sql` object
+	 * 
+	 * The applied migrations are recorded in the table `teem_migration`, which is automatically created if it does not exist, along with checksums of their files, so that changes to migrations already applied are detected.
+	 * 
+	 * Migrations can be applied automatically during `app.run()` by setting `config.migrateOnStart` to `true`. They can also be applied by a separate script, such as:
+	 * 
+	 * ```ts
+	 * app.run({
+	 *     sqlConfig: { ... },
+	 *     disableRoutes: true,
+	 *     onFinish: async () => {
+	 *         const command = process.argv[2];
+	 *         if (command === "up")
+	 *             console.log(await app.migrations.up());
+	 *         else if (command === "down")
+	 *             console.log(await app.migrations.down());
+	 *         else
+	 *             console.table(await app.migrations.status());
+	 *         await app.stop();
+	 *     }
+	 * });
+	 * ```
+	 */
+	migrations: app.MigrationMethods;
+
+	/**
+	 * Structured logger, configured by `config.log`.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * app.log.info("User created", { userId: user.id });
+	 * 
+	 * const billingLog = app.log.child({ module: "billing" });
+	 * billingLog.error("Payment failed", { err, requestId: req.id });
+	 * ```
+	 * 
+	 * Refer to `config.log` for more information.
+	 */
+	log: app.Logger;
+
 	/**
 	 * Provides a way to connect to the database, as specified by `config.sqlConfig`, by calling `app.sql.connect()`.
 	 * 
@@ -1726,6 +2958,33 @@ interface App {
 	 */
 	multer: any;
 
+	/**
+	 * The OpenAPI 3 document describing all routes that were automatically created.
+	 * 
+	 * If neither `config.openApiRoute` nor `config.openApiFile` are provided, `app.openApiDocument` will be `null`.
+	 */
+	openApiDocument: any;
+
+	/**
+	 * Returns the list of all routes that were automatically created, sorted by route and by HTTP method.
+	 * 
+	 * The list is empty until `app.run()` finishes creating the routes.
+	 * 
+	 * A new array, containing new objects, is returned every time `app.routes()` is called, so changing it does not affect the actual routes.
+	 */
+	routes(): app.RouteInfo[];
+
+	/**
+	 * Returns the list of all routes that were automatically created, as returned by `app.routes()`, formatted as a string.
+	 * 
+	 * When `format` is `"json"`, the string contains the JSON representation of the array returned by `app.routes()`.
+	 * 
+	 * When `format` is `"text"`, the string contains one route per line, in the form `get - /user/edit/:id - User.edit`, followed by ` - auth` for routes that require authentication, or by ` - auth(admin, manager)` for routes that require specific roles. Since file paths are not included, the text format is suitable for comparing the routes produced by different releases of the app, even when they are deployed to different directories.
+	 * 
+	 * @param format Format of the resulting string (`"text"` is used if no other value is provided).
+	 */
+	dumpRoutes(format?: "json" | "text"): string;
+
 	/**
 	 * Returns the directory of the current file.
 	 * 
@@ -1779,6 +3038,19 @@ interface App {
 	 * @param config Optional settings used to configure the routes, paths and so on.
 	 */
 	run(config?: app.Config): Promise<void>;
+
+	/**
+	 * Gracefully stops the app.
+	 * 
+	 * The server created by `app.run()` stops accepting new connections, and in-flight requests and open `app.sql.connect()` callbacks are given `config.shutdownTimeout` milliseconds to finish. After that, `config.onShutdown` is executed and the MySQL connection pool is closed.
+	 * 
+	 * Calling `app.stop()` more than once returns the same `Promise` object.
+	 * 
+	 * If a function is provided to `config.onFinish`, the server created inside that function must be closed manually (for example, inside `config.onShutdown`), but in-flight requests are still awaited.
+	 * 
+	 * @returns A `Promise` object that will be resolved when the app has been completely stopped.
+	 */
+	stop(): Promise<void>;
 }
 
 // Private Interfaces and Functions
@@ -1786,6 +3058,7 @@ interface App {
 /** @internal */
 interface Importer {
 	sep: string;
+	reload: boolean;
 	cleanUp(): void;
 	importFile(absolutePath: string): Promise<any>;
 }
@@ -1800,15 +3073,67 @@ interface CachedMiddleware {
 	[key: string]: (req: app.Request, res: app.Response, next: app.NextFunction) => void;
 }
 
+/** @internal */
+interface RouteParam {
+	name: string;
+	type: string;
+}
+
+/** @internal */
+interface RouteParamConverter {
+	(value: string): any;
+}
+
 /** @internal */
 interface InternalRoute {
 	absolutePath: string;
+	className: string;
+	methodName: string;
 	route: string;
 	httpMethod: string;
 	routeMiddleware: any[] | null;
+	routeParams: RouteParam[] | null;
+	routeBodySchema: app.Schema | null;
+	routeQuerySchema: app.Schema | null;
+	routeFormData: boolean;
+	summary: string | null;
+	description: string | null;
+	returnValueAsResponse: boolean;
+	authRequired: boolean;
+	authRoles: string[] | null;
+	csrf: boolean;
+	cors: CorsOptions | null;
 	boundUserHandler: Function;
 }
 
+/** @internal */
+interface ReservedRoutes {
+	// Name of the config property that created the route.
+	[route: string]: string;
+}
+
+/** @internal */
+interface RouteAuth {
+	required: boolean;
+	roles: string[] | null;
+	anonymous: boolean;
+}
+
+/** @internal */
+interface RouteWatcher {
+	config: app.Config;
+	validHttpMethods: ValidHttpMethods;
+	importer: Importer;
+	routesDir: string[];
+	reservedRoutes: ReservedRoutes;
+	routes: InternalRoute[];
+	router: express.Router;
+	fsWatchers: { [dir: string]: fs.FSWatcher };
+	pendingPaths: { [absolutePath: string]: boolean };
+	pendingTimeout: NodeJS.Timeout | null;
+	reloadPromise: Promise<void>;
+}
+
 /** @internal */
 function httpGeneric(method: string): MethodDecorator {
 	return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) {
@@ -1819,6 +3144,34 @@ function httpGeneric(method: string): MethodDecorator {
 	};
 }
 
+/** @internal */
+function authGeneric(required: boolean, roles: string[] | null, anonymous: boolean): ClassDecorator & MethodDecorator {
+	return function (target: any, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) {
+		const f = ((propertyKey === undefined) ? target : (target[propertyKey] || target));
+		if (required)
+			f["authRequired"] = true;
+		if (roles) {
+			// Class decorators must not change the roles inherited from a base class.
+			f["authRoles"] = (Object.prototype.hasOwnProperty.call(f, "authRoles") ? f["authRoles"] : []).concat(roles);
+		}
+		if (anonymous)
+			f["authAnonymous"] = true;
+	} as any;
+}
+
+/** @internal */
+function extractRouteAuth(f: any): RouteAuth | null {
+	const required = !!f["authRequired"],
+		roles = (f["authRoles"] as string[]) || null,
+		anonymous = !!f["authAnonymous"];
+
+	delete f["authRequired"];
+	delete f["authRoles"];
+	delete f["authAnonymous"];
+
+	return ((required || roles || anonymous) ? { required, roles, anonymous } : null);
+}
+
 /** @internal */
 function extractCallingFile(): string {
 	// https://github.com/v8/v8/wiki/Stack%20Trace%20API#customizing-stack-traces
@@ -1846,7 +3199,13 @@ function extractCallingFile(): string {
 }
 
 /** @internal */
-function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], absolutePath: string, obj: any, thisArg: any): void {
+function hasRouteParam(route: string, name: string): boolean {
+	// Route parameter names are validated beforehand, so they do not need to be escaped.
+	return (new RegExp("(^|/):" + name + "(\\?|\\(|/|$)")).test(route);
+}
+
+/** @internal */
+function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], absolutePath: string, className: string, classAuth: RouteAuth | null, classMiddleware: any[] | null, obj: any, thisArg: any): void {
 	const names = Object.getOwnPropertyNames(obj);
 
 	for (let i = names.length - 1; i >= 0; i--) {
@@ -1861,13 +3220,34 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 				routeMethodName = f["routeMethodName"] as string,
 				routeMiddleware = f["routeMiddleware"] as any[],
 				routeMiddlewareWithBody: any[] | null = null,
+				routeParamMiddleware: Function | null = null,
+				routeQueryMiddleware: Function | null = null,
 				httpMethods = f["httpMethods"] as string[];
 			const httpHidden = f["httpHidden"],
-				routeFormData = parseInt(f["routeFormData"]);
+				routeFormData = f["routeFormData"] as number | boolean | undefined,
+				routeParams = f["routeParams"] as RouteParam[],
+				routeBodySchema = f["routeBodySchema"] as app.Schema,
+				routeQuerySchema = f["routeQuerySchema"] as app.Schema,
+				routeSummary = f["routeSummary"] as string,
+				routeDescription = f["routeDescription"] as string,
+				returnValueAsResponse = !!(f["routeReturns"] || config.returnValueAsResponse),
+				methodAuth = extractRouteAuth(f),
+				routeNoCsrf = !!f["routeNoCsrf"],
+				routeRateLimit = f["routeRateLimit"] as app.RateLimitOptions,
+				routeCors = f["routeCors"] as app.CorsConfig | boolean | undefined;
 
 			delete f["routeFullMethodRoute"];
 			delete f["routeMethodName"];
 			delete f["routeMiddleware"];
+			delete f["routeParams"];
+			delete f["routeBodySchema"];
+			delete f["routeQuerySchema"];
+			delete f["routeSummary"];
+			delete f["routeDescription"];
+			delete f["routeReturns"];
+			delete f["routeNoCsrf"];
+			delete f["routeRateLimit"];
+			delete f["routeCors"];
 			delete f["httpMethods"];
 			delete f["httpHidden"];
 			delete f["routeFormData"];
@@ -1875,12 +3255,50 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 			if (httpHidden || (config.allMethodsRoutesHiddenByDefault && (!httpMethods || !httpMethods.length)))
 				continue;
 
+			if (classMiddleware)
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? classMiddleware.concat(routeMiddleware) : classMiddleware.slice());
+
 			if (f.length > 3)
 				throw new Error(`Function "${f.name}", in file ${absolutePath}, should have 3 parameters at most`);
 
+			let authRequired = !!config.authRequiredByDefault,
+				authRoles: string[] | null = null;
+
+			if (methodAuth && methodAuth.anonymous) {
+				authRequired = false;
+			} else {
+				if (classAuth) {
+					if (classAuth.anonymous)
+						authRequired = false;
+					if (classAuth.required)
+						authRequired = true;
+					if (classAuth.roles)
+						authRoles = classAuth.roles;
+				}
+				if (methodAuth) {
+					if (methodAuth.required)
+						authRequired = true;
+					if (methodAuth.roles)
+						authRoles = methodAuth.roles;
+				}
+				if (authRoles)
+					authRequired = true;
+			}
+
+			if ((authRequired || methodAuth || classAuth) && !config.authenticate)
+				throw new Error(`app.auth decorators or config.authRequiredByDefault are being used on function "${f.name}", in file ${absolutePath}, but config.authenticate has not been provided`);
+
 			if (routeFormData && config.disableFormData)
 				throw new Error(`config.disableFormData is true and app.route.formData() is being used on function "${f.name}", in file ${absolutePath}`);
 
+			if (routeBodySchema)
+				checkSchema(routeBodySchema, "");
+
+			if (routeQuerySchema) {
+				checkSchema(routeQuerySchema, "");
+				routeQueryMiddleware = createValidationMiddleware("query", "Invalid query string", routeQuerySchema);
+			}
+
 			if (fullMethodRoute) {
 				if (!fullMethodRoute.startsWith("/"))
 					fullMethodRoute = "/" + fullMethodRoute;
@@ -1900,12 +3318,34 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 			if (fullMethodRoute.length > 1 && fullMethodRoute.endsWith("/"))
 				fullMethodRoute = fullMethodRoute.substr(0, fullMethodRoute.length - 1);
 
+			if (routeParams && routeParams.length) {
+				for (let p = 0; p < routeParams.length; p++) {
+					const routeParam = routeParams[p];
+
+					if (!routeParam.name || !/^\w+$/.test(routeParam.name))
+						throw new Error(`Invalid route parameter name "${routeParam.name}" used for the class method "${n}" in file ${absolutePath}`);
+
+					if (!routeParamConverters[routeParam.type])
+						throw new Error(`Invalid route parameter type "${routeParam.type}" used for the class method "${n}" in file ${absolutePath}`);
+
+					for (let p2 = p - 1; p2 >= 0; p2--) {
+						if (routeParams[p2].name === routeParam.name)
+							throw new Error(`Duplicate route parameter "${routeParam.name}" used for the class method "${n}" in file ${absolutePath}`);
+					}
+
+					if (!hasRouteParam(fullMethodRoute, routeParam.name))
+						fullMethodRoute += (fullMethodRoute.endsWith("/") ? ":" : "/:") + routeParam.name;
+				}
+
+				routeParamMiddleware = createRouteParamMiddleware(routeParams);
+			}
+
 			if (!httpMethods || !httpMethods.length)
 				httpMethods = [config.allMethodsRoutesAllByDefault ? "all" : "get"];
 			else if (httpMethods.length > 1)
 				httpMethods.sort();
 
-			let all = false, canHandleBody = false;
+			let all = false, canHandleBody = false, csrf = false;
 
 			for (let m = httpMethods.length - 1; m >= 0; m--) {
 				if (m > 0 && httpMethods[m] === httpMethods[m - 1]) {
@@ -1928,10 +3368,25 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 
 			if (canHandleBody) {
 				if (routeFormData)
-					routeMiddlewareWithBody = [createFormDataMiddleware(routeFormData)];
+					routeMiddlewareWithBody = [createFormDataMiddleware(parseInt(routeFormData as any))];
 				else if (!config.disableBodyParser)
 					routeMiddlewareWithBody = [jsonBodyParserMiddleware, urlencodedBodyParserMiddleware];
 
+				if (csrfVerifyMiddleware && !routeNoCsrf) {
+					// The token could be in the body, so it is verified after parsing the body, but before validating it.
+					if (!routeMiddlewareWithBody)
+						routeMiddlewareWithBody = [csrfVerifyMiddleware];
+					else
+						routeMiddlewareWithBody.push(csrfVerifyMiddleware);
+					csrf = true;
+				}
+
+				if (routeBodySchema) {
+					if (!routeMiddlewareWithBody)
+						throw new Error(`config.disableBodyParser is true and app.route.body() is being used on function "${f.name}", in file ${absolutePath}, without app.route.formData()`);
+					routeMiddlewareWithBody.push(createValidationMiddleware("body", "Invalid request body", routeBodySchema));
+				}
+
 				if (routeMiddleware && routeMiddleware.length) {
 					if (!routeMiddlewareWithBody)
 						routeMiddlewareWithBody = routeMiddleware;
@@ -1940,14 +3395,69 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 				}
 			} else if (routeFormData) {
 				throw new Error(`app.route.formData() is being used on function "${f.name}", in file ${absolutePath}, without at least one of the required app.http decorators: all, delete, patch, post or put`);
+			} else if (routeBodySchema) {
+				throw new Error(`app.route.body() is being used on function "${f.name}", in file ${absolutePath}, without at least one of the required app.http decorators: all, delete, patch, post or put`);
+			}
+
+			if (routeQueryMiddleware) {
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [routeQueryMiddleware].concat(routeMiddleware) : [routeQueryMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [routeQueryMiddleware].concat(routeMiddlewareWithBody) : [routeQueryMiddleware]);
+			}
+
+			if (routeParamMiddleware) {
+				// Route parameters must be validated before anything else, even before parsing the body.
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [routeParamMiddleware].concat(routeMiddleware) : [routeParamMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [routeParamMiddleware].concat(routeMiddlewareWithBody) : [routeParamMiddleware]);
+			}
+
+			if (authRequired) {
+				// Unauthenticated requests must not even reach the validation of route parameters.
+				const authMiddleware = createAuthMiddleware(config, authRoles);
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [authMiddleware].concat(routeMiddleware) : [authMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [authMiddleware].concat(routeMiddlewareWithBody) : [authMiddleware]);
+			}
+
+			if (routeRateLimit) {
+				const rateLimitMiddleware = require("./rateLimit").createRateLimitMiddleware(getRateLimitStore(config), routeRateLimit, fullMethodRoute + ":");
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [rateLimitMiddleware].concat(routeMiddleware) : [rateLimitMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [rateLimitMiddleware].concat(routeMiddlewareWithBody) : [rateLimitMiddleware]);
+			}
+
+			let corsOptions: CorsOptions | null = null;
+
+			if (routeCors !== false && (routeCors || config.cors)) {
+				// CORS headers must be sent even when the request is rejected by the middleware above.
+				const cors = require("./cors");
+				corsOptions = cors.createCorsOptions(Object.assign({}, ((typeof config.cors) === "object") ? config.cors : null, ((typeof routeCors) === "object") ? routeCors : null)) as CorsOptions;
+				const corsMiddleware = cors.createCorsMiddleware(corsOptions);
+				routeMiddleware = ((routeMiddleware && routeMiddleware.length) ? [corsMiddleware].concat(routeMiddleware) : [corsMiddleware]);
+				if (canHandleBody)
+					routeMiddlewareWithBody = (routeMiddlewareWithBody ? [corsMiddleware].concat(routeMiddlewareWithBody) : [corsMiddleware]);
 			}
 
 			if (all) {
 				routes.push({
 					absolutePath,
+					className,
+					methodName: n,
 					route: fullMethodRoute,
 					httpMethod: "all",
 					routeMiddleware: routeMiddlewareWithBody,
+					routeParams: (routeParams || null),
+					routeBodySchema: (routeBodySchema || null),
+					routeQuerySchema: (routeQuerySchema || null),
+					routeFormData: !!routeFormData,
+					summary: (routeSummary || null),
+					description: (routeDescription || null),
+					returnValueAsResponse,
+					authRequired,
+					authRoles,
+					csrf,
+					cors: corsOptions,
 					boundUserHandler: f.bind(thisArg)
 				});
 			} else {
@@ -1967,9 +3477,22 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 
 					routes.push({
 						absolutePath,
+						className,
+						methodName: n,
 						route: fullMethodRoute,
 						httpMethod: httpMethods[m],
 						routeMiddleware: (canHandleBody ? routeMiddlewareWithBody : routeMiddleware),
+						routeParams: (routeParams || null),
+						routeBodySchema: (canHandleBody ? (routeBodySchema || null) : null),
+						routeQuerySchema: (routeQuerySchema || null),
+						routeFormData: (canHandleBody && !!routeFormData),
+						summary: (routeSummary || null),
+						description: (routeDescription || null),
+						returnValueAsResponse,
+						authRequired,
+						authRoles,
+						csrf: (canHandleBody && csrf),
+						cors: corsOptions,
 						boundUserHandler
 					});
 				}
@@ -1979,11 +3502,11 @@ function extractRoutesFromObject(config: app.Config, validHttpMethods: ValidHttp
 
 	const proto = Object.getPrototypeOf(obj);
 	if (proto !== Function.prototype && proto !== Object.prototype)
-		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, proto, thisArg);
+		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, proto, thisArg);
 }
 
 /** @internal */
-function extractRoutesFromFunctionOrObject(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], absolutePath: string, name: string, f: any): void {
+function extractRoutesFromFunctionOrObject(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], absolutePath: string, name: string, dirMiddleware: any[] | null, f: any): void {
 	if (("routeFullClassRoute" in f)) {
 		prefix = f["routeFullClassRoute"];
 		if (!prefix) {
@@ -2010,21 +3533,33 @@ function extractRoutesFromFunctionOrObject(config: app.Config, validHttpMethods:
 		}
 	}
 
+	let classMiddleware = f["routeClassMiddleware"] as any[];
+
 	delete f["routeFullClassRoute"];
 	delete f["routeClassName"];
+	delete f["routeClassMiddleware"];
+
+	if (dirMiddleware && dirMiddleware.length)
+		classMiddleware = ((classMiddleware && classMiddleware.length) ? dirMiddleware.concat(classMiddleware) : dirMiddleware);
+
+	const className = ((((typeof f) === "function") && f.name) || ""),
+		classAuth = extractRouteAuth(f);
+
+	if (!classMiddleware || !classMiddleware.length)
+		classMiddleware = null as any;
 
 	// Static methods or object functions
-	extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, f, f);
+	extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, f, f);
 
 	if ((typeof f) === "function") {
 		// Instance methods
 		const i = new f();
-		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, i, i);
+		extractRoutesFromObject(config, validHttpMethods, prefix, routes, absolutePath, className, classAuth, classMiddleware, i, i);
 	}
 }
 
 /** @internal */
-async function extractRoutesFromFile(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], importer: Importer, absolutePath: string, name: string): Promise<void> {
+async function extractRoutesFromFile(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], importer: Importer, absolutePath: string, name: string, dirMiddleware: any[] | null): Promise<void> {
 	const r = await importer.importFile(absolutePath);
 	if (!r)
 		throw new Error(`File ${absolutePath} does not export a valid object/class/function`);
@@ -2037,15 +3572,15 @@ async function extractRoutesFromFile(config: app.Config, validHttpMethods: Valid
 				for (let n in r) {
 					const f = r[n];
 					if (f && (typeof f) === "function")
-						extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, f);
+						extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, f);
 				}
 			} else {
-				extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, r);
+				extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, r);
 			}
 			break;
 		case "function":
 			// Class or function + prototype
-			extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, r);
+			extractRoutesFromFunctionOrObject(config, validHttpMethods, prefix, routes, absolutePath, name, dirMiddleware, r);
 			break;
 		default:
 			throw new Error(`File ${absolutePath} exports a value of type ${(typeof r)} which is not supported`);
@@ -2053,18 +3588,69 @@ async function extractRoutesFromFile(config: app.Config, validHttpMethods: Valid
 }
 
 /** @internal */
-async function extractRoutesFromDir(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], importer: Importer, dir: string): Promise<void> {
+function isDirMiddlewareFile(name: string): boolean {
+	const lcaseName = name.toLowerCase();
+	return (lcaseName === "_middleware.js" || lcaseName === "_middleware.cjs" || lcaseName === "_middleware.mjs");
+}
+
+/** @internal */
+async function extractDirMiddleware(importer: Importer, dir: string, names: string[], parentMiddleware: any[] | null): Promise<any[] | null> {
+	for (let i = names.length - 1; i >= 0; i--) {
+		if (!isDirMiddlewareFile(names[i]))
+			continue;
+
+		const absolutePath = path.join(dir, names[i]);
+		let r = await importer.importFile(absolutePath);
+
+		// ES modules
+		if (r && (typeof r) === "object" && !Array.isArray(r) && ("default" in r))
+			r = r.default;
+
+		const middleware = (Array.isArray(r) ? r : [r]);
+		for (let m = middleware.length - 1; m >= 0; m--) {
+			if (!middleware[m] || (typeof middleware[m]) !== "function")
+				throw new Error(`File ${absolutePath} must export a middleware function or an array of middleware functions`);
+		}
+
+		return (parentMiddleware ? parentMiddleware.concat(middleware) : middleware);
+	}
+
+	return parentMiddleware;
+}
+
+/** @internal */
+async function extractDirMiddlewareFromPath(importer: Importer, routesDir: string, dir: string): Promise<any[] | null> {
+	// Collects the middleware functions of all directories between routesDir and dir, inclusive.
+	const relativeDir = path.relative(routesDir, dir),
+		parts = (relativeDir ? relativeDir.split(path.sep) : []);
+
+	let currentDir = routesDir,
+		middleware = await extractDirMiddleware(importer, currentDir, fs.readdirSync(currentDir), null);
+
+	for (let i = 0; i < parts.length; i++) {
+		currentDir = path.join(currentDir, parts[i]);
+		middleware = await extractDirMiddleware(importer, currentDir, fs.readdirSync(currentDir), middleware);
+	}
+
+	return middleware;
+}
+
+/** @internal */
+async function extractRoutesFromDir(config: app.Config, validHttpMethods: ValidHttpMethods, prefix: string, routes: InternalRoute[], importer: Importer, dir: string, parentMiddleware: any[] | null): Promise<void> {
 	const names = fs.readdirSync(dir);
 
 	if (!names)
 		return;
 
+	const dirMiddleware = await extractDirMiddleware(importer, dir, names, parentMiddleware);
+
 	for (let i = names.length - 1; i >= 0; i--) {
 		const name = names[i],
 			lcaseName = name.toLowerCase();
 		let absolutePath: string;
-		if ((lcaseName.endsWith(".js") || lcaseName.endsWith(".cjs") || lcaseName.endsWith(".mjs")) && !fs.statSync(absolutePath = path.join(dir, name)).isDirectory()) {
-			await extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name.substr(0, name.length - 3));
+		if (isRouteFile(lcaseName) && !fs.statSync(absolutePath = path.join(dir, name)).isDirectory()) {
+			if (!isDirMiddlewareFile(lcaseName))
+				await extractRoutesFromFile(config, validHttpMethods, prefix, routes, importer, absolutePath, name.substr(0, name.length - 3), dirMiddleware);
 			names.splice(i, 1);
 		}
 	}
@@ -2072,7 +3658,7 @@ async function extractRoutesFromDir(config: app.Config, validHttpMethods: ValidH
 	for (let i = names.length - 1; i >= 0; i--) {
 		const name = names[i], absolutePath = path.join(dir, name);
 		if (fs.statSync(absolutePath).isDirectory())
-			await extractRoutesFromDir(config, validHttpMethods, prefix + name + "/", routes, importer, absolutePath);
+			await extractRoutesFromDir(config, validHttpMethods, prefix + name + "/", routes, importer, absolutePath, dirMiddleware);
 	}
 }
 
@@ -2127,10 +3713,23 @@ async function extractRoutesFromDir(config: app.Config, validHttpMethods: ValidH
 //}
 
 /** @internal */
-function createRegularHandler(boundUserHandler: Function): Function {
+function createRegularHandler(boundUserHandler: Function, returnValueAsResponse: boolean): Function {
 	// Express.js checks the handler's length to determine if it is a regular handler,
 	// or an error handler. For a handler to be considered an error handler, it
 	// must at most 3 parameters.
+	if (returnValueAsResponse)
+		return function(req: express.Request, res: express.Response, next: express.NextFunction) {
+			try {
+				const r = boundUserHandler(req, res, next);
+				if (r && (typeof r.then) === "function")
+					Promise.resolve(r).then(function (value: any) { sendResult(value, res, next); }).catch(next);
+				else
+					sendResult(r, res, next);
+			} catch (ex: any) {
+				next(ex);
+			}
+		};
+
 	return function(req: express.Request, res: express.Response, next: express.NextFunction) {
 		try {
 			const r = boundUserHandler(req, res, next);
@@ -2142,111 +3741,673 @@ function createRegularHandler(boundUserHandler: Function): Function {
 	};
 }
 
-/** @internal */
-function createErrorHandler(boundUserHandler: ErrorHandler): ErrorHandler {
-	// Express.js checks the handler's length to determine if it is a regular handler,
-	// or an error handler. For a handler to be considered an error handler, it
-	// must have 4 parameters.
-	return function(err: any, req: express.Request, res: express.Response, next: express.NextFunction) {
-		try {
-			const r = boundUserHandler(err, req, res, next);
-			if (r)
-				Promise.resolve(r).catch(next);
-		} catch (ex: any) {
-			next(ex);
-		}
-	};
-}
+/** @internal */
+function createErrorHandler(boundUserHandler: ErrorHandler): ErrorHandler {
+	// Express.js checks the handler's length to determine if it is a regular handler,
+	// or an error handler. For a handler to be considered an error handler, it
+	// must have 4 parameters.
+	return function(err: any, req: express.Request, res: express.Response, next: express.NextFunction) {
+		try {
+			const r = boundUserHandler(err, req, res, next);
+			if (r)
+				Promise.resolve(r).catch(next);
+		} catch (ex: any) {
+			next(ex);
+		}
+	};
+}
+
+/** @internal */
+function createRouteParamMiddleware(routeParams: RouteParam[]): Function {
+	const names = routeParams.map((p) => p.name),
+		converters = routeParams.map((p) => routeParamConverters[p.type]);
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		const params = req.params as any;
+
+		for (let i = names.length - 1; i >= 0; i--) {
+			const value = params[names[i]];
+
+			// Optional parameters, such as :id?, could be missing.
+			if (value === undefined)
+				continue;
+
+			const convertedValue = converters[i](value);
+			if (convertedValue === undefined) {
+				next(new errorClasses.BadRequest(`Invalid value for route parameter "${names[i]}"`));
+				return;
+			}
+
+			params[names[i]] = convertedValue;
+		}
+
+		next();
+	};
+}
+
+/** @internal */
+function getRateLimitStore(config: app.Config): app.RateLimitStore {
+	if (!rateLimitStore)
+		rateLimitStore = require("./rateLimit").createRateLimitStore(config.rateLimit || {}, sqlModule ? sqlModule.Sql : null) as app.RateLimitStore;
+	return rateLimitStore;
+}
+
+/** @internal */
+function getMigrationMethods(): app.MigrationMethods {
+	if (!migrationMethods) {
+		if (!sqlModule)
+			throw new Error("Migrations require config.sqlConfig to be provided to app.run()");
+
+		// Only require our migrations module if it is actually going to be used.
+		migrationMethods = require("./migrations").createMigrationMethods(sqlModule.Sql, app.dir.migrations) as app.MigrationMethods;
+	}
+	return migrationMethods;
+}
+
+/** @internal */
+function createAuthMiddleware(config: app.Config, roles: string[] | null): Function {
+	const loginRoute = (config.loginRoute ? (config.loginRoute.startsWith("/") ? config.loginRoute : ("/" + config.loginRoute)) : null);
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		const user = (req as any).user;
+
+		if (!user) {
+			if (loginRoute && !isApiRequest(req))
+				res.redirect(app.root + loginRoute);
+			else
+				next(new errorClasses.Unauthorized());
+			return;
+		}
+
+		if (roles) {
+			const userRoles = user.roles;
+			let authorized = false;
+
+			for (let i = roles.length - 1; i >= 0; i--) {
+				if (Array.isArray(userRoles) ? (userRoles.indexOf(roles[i]) >= 0) : (userRoles === roles[i])) {
+					authorized = true;
+					break;
+				}
+			}
+
+			if (!authorized) {
+				next(new errorClasses.Forbidden());
+				return;
+			}
+		}
+
+		next();
+	};
+}
+
+/** @internal */
+function createValidationMiddleware(source: string, message: string, schema: app.Schema): Function {
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		const errors = validate(schema, (req as any)[source]);
+
+		if (errors.length) {
+			next(new errorClasses.ValidationError(message, errors));
+			return;
+		}
+
+		next();
+	};
+}
+
+/** @internal */
+function createFormDataMiddleware(limitFileSize?: number): Function {
+	if (!cachedFormDataMiddleware)
+		cachedFormDataMiddleware = {};
+
+	if (!limitFileSize || limitFileSize <= 0)
+		limitFileSize = 10485760;
+
+	const limitFileSizeStr = limitFileSize.toString();
+
+	let middleware = cachedFormDataMiddleware[limitFileSizeStr];
+	if (!middleware) {
+		const multerMiddleware = app.multer({
+			limits: {
+				fieldNameSize: 256,
+				fileSize: limitFileSize
+			},
+			storage: app.multer.memoryStorage()
+		}).any();
+
+		middleware = function (req: app.Request, res: app.Response, next: app.NextFunction): void {
+			multerMiddleware(req, res, function (err: any) {
+				const uploadedFiles: app.UploadedFiles = {},
+					uploadedFilesArray = ((req as any).files || []) as app.UploadedFile[];
+
+				req.uploadedFiles = uploadedFiles;
+				req.uploadedFilesArray = uploadedFilesArray;
+
+				for (let i = uploadedFilesArray.length - 1; i >= 0; i--) {
+					const uploadedFile = uploadedFilesArray[i];
+					if (uploadedFile.fieldname && !uploadedFiles[uploadedFile.fieldname])
+						uploadedFiles[uploadedFile.fieldname] = uploadedFile;
+				}
+
+				if (err) {
+					if (err instanceof app.multer["MulterError"]) {
+						const uploadedFile: app.UploadedFile = {
+							buffer: null,
+							encoding: null,
+							fieldname: (err.field || ""),
+							mimetype: null,
+							originalname: null,
+							size: 0,
+							errorcode: (err.code || "UNKNOWN_ERROR"),
+							errormessage: (err.message || "Unknown error")
+						};
+
+						if (uploadedFile.fieldname && !uploadedFiles[uploadedFile.fieldname])
+							uploadedFiles[uploadedFile.fieldname] = uploadedFile;
+						uploadedFilesArray.push(uploadedFile);
+					} else {
+						next(err);
+						return;
+					}
+				}
+
+				next();
+			});
+		};
+
+		cachedFormDataMiddleware[limitFileSizeStr] = middleware;
+	}
+
+	return middleware;
+}
+
+/** @internal */
+function sortAndCheckRoutes(routes: InternalRoute[], reservedRoutes: ReservedRoutes): void {
+	routes.sort((a, b) => (a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
+
+	for (let i = routes.length - 1; i > 0; i--) {
+		const r1 = routes[i], r2 = routes[i - 1];
+		if (r1.route === r2.route && (r1.httpMethod === "all" || r2.httpMethod === "all" || r1.httpMethod === r2.httpMethod))
+			throw new Error(`Conflicting route "${routes[i].httpMethod} ${routes[i].route}" in files ${routes[i].absolutePath} and ${routes[i - 1].absolutePath}`);
+	}
+
+	for (let i = routes.length - 1; i >= 0; i--) {
+		const route = routes[i],
+			reservedBy = reservedRoutes[route.route];
+		if (reservedBy && (route.httpMethod === "all" || route.httpMethod === "get"))
+			throw new Error(`Conflicting route "${route.httpMethod} ${route.route}" in file ${route.absolutePath} and ${reservedBy}`);
+	}
+}
+
+/** @internal */
+function updateRouteInfo(config: app.Config, routes: InternalRoute[]): void {
+	if (app.openApiDocument)
+		app.openApiDocument = createOpenApiDocument(config.openApiInfo, app.root, routes);
+
+	routeTable = routes.map((route) => ({
+		httpMethod: route.httpMethod,
+		route: route.route,
+		file: route.absolutePath,
+		className: route.className,
+		methodName: route.methodName,
+		middlewareCount: (route.routeMiddleware ? route.routeMiddleware.length : 0),
+		formData: route.routeFormData,
+		authRequired: route.authRequired,
+		roles: (route.authRoles ? route.authRoles.slice() : null),
+		csrf: route.csrf,
+		cors: !!route.cors
+	}));
+}
+
+/** @internal */
+function createRouter(routes: InternalRoute[]): express.Router {
+	const router = express.Router();
+	registerRoutes(router, routes);
+	return router;
+}
+
+/** @internal */
+function isRouteFile(name: string): boolean {
+	const lcaseName = name.toLowerCase();
+	return (lcaseName.endsWith(".js") || lcaseName.endsWith(".cjs") || lcaseName.endsWith(".mjs"));
+}
+
+/** @internal */
+function watchRouteDir(watcher: RouteWatcher, dir: string): void {
+	if (watcher.fsWatchers[dir])
+		return;
+
+	// fs.watch() with { recursive: true } is not supported on all platforms/versions,
+	// so each directory is watched separately.
+	const fsWatcher = fs.watch(dir, function (eventType: string, filename: string | Buffer | null) {
+		if (!filename)
+			return;
+
+		watcher.pendingPaths[path.join(dir, filename.toString())] = true;
+
+		// Editors usually produce several events for a single save.
+		if (watcher.pendingTimeout)
+			clearTimeout(watcher.pendingTimeout);
+		watcher.pendingTimeout = setTimeout(function () {
+			watcher.pendingTimeout = null;
+			watcher.reloadPromise = watcher.reloadPromise.then(() => reloadRoutes(watcher));
+		}, 200);
+	});
+
+	fsWatcher.on("error", function () {
+		// The directory has probably been deleted.
+		fsWatcher.close();
+		if (watcher.fsWatchers[dir] === fsWatcher)
+			delete watcher.fsWatchers[dir];
+	});
+
+	watcher.fsWatchers[dir] = fsWatcher;
+
+	const names = fs.readdirSync(dir);
+	for (let i = 0; i < names.length; i++) {
+		const absolutePath = path.join(dir, names[i]);
+		if (fs.statSync(absolutePath).isDirectory())
+			watchRouteDir(watcher, absolutePath);
+	}
+}
+
+/** @internal */
+async function reloadRoutes(watcher: RouteWatcher): Promise<void> {
+	const pendingPaths = watcher.pendingPaths,
+		config = watcher.config;
+
+	watcher.pendingPaths = {};
+
+	let routes = watcher.routes,
+		changed = false;
+
+	try {
+		const absolutePaths: string[] = [];
+		for (let absolutePath in pendingPaths) {
+			// Changing a _middleware.js file affects the entire directory.
+			if (isDirMiddlewareFile(path.basename(absolutePath)))
+				absolutePath = path.dirname(absolutePath);
+			if (absolutePaths.indexOf(absolutePath) < 0)
+				absolutePaths.push(absolutePath);
+		}
+
+		for (let p = 0; p < absolutePaths.length; p++) {
+			const absolutePath = absolutePaths[p];
+
+			let routesDir: string | null = null;
+			for (let i = watcher.routesDir.length - 1; i >= 0; i--) {
+				if (absolutePath === watcher.routesDir[i] || absolutePath.startsWith(watcher.routesDir[i] + path.sep)) {
+					routesDir = watcher.routesDir[i];
+					break;
+				}
+			}
+
+			if (!routesDir)
+				continue;
+
+			const stats = (fs.existsSync(absolutePath) ? fs.statSync(absolutePath) : null),
+				isDirectory = (stats ? stats.isDirectory() : false),
+				dirPrefix = absolutePath + path.sep;
+
+			if (!isDirectory && !isRouteFile(absolutePath) && (stats || !watcher.fsWatchers[absolutePath]))
+				continue;
+
+			// Remove all routes produced by the file, or by all files inside the directory,
+			// and then create them again.
+			routes = routes.filter((route) => (route.absolutePath !== absolutePath && !route.absolutePath.startsWith(dirPrefix)));
+			changed = true;
+
+			if (!stats) {
+				for (let dir in watcher.fsWatchers) {
+					if (dir === absolutePath || dir.startsWith(dirPrefix)) {
+						watcher.fsWatchers[dir].close();
+						delete watcher.fsWatchers[dir];
+					}
+				}
+				continue;
+			}
+
+			const relativeDir = path.relative(routesDir, isDirectory ? absolutePath : path.dirname(absolutePath)),
+				prefix = (relativeDir ? ("/" + relativeDir.split(path.sep).join("/") + "/") : "/");
+
+			const parentMiddleware = ((absolutePath === routesDir) ? null : await extractDirMiddlewareFromPath(watcher.importer, routesDir, path.dirname(absolutePath)));
+
+			if (isDirectory) {
+				watchRouteDir(watcher, absolutePath);
+				await extractRoutesFromDir(config, watcher.validHttpMethods, prefix, routes, watcher.importer, absolutePath, parentMiddleware);
+			} else {
+				const name = path.basename(absolutePath);
+				await extractRoutesFromFile(config, watcher.validHttpMethods, prefix, routes, watcher.importer, absolutePath, name.substr(0, name.length - 3), parentMiddleware);
+			}
+		}
+
+		if (!changed)
+			return;
+
+		sortAndCheckRoutes(routes, watcher.reservedRoutes);
+	} catch (ex: any) {
+		// Keep the current routes until the error is fixed.
+		app.log.error("Error reloading routes", { err: ex });
+		return;
+	}
+
+	updateRouteInfo(config, routes);
+
+	watcher.routes = routes;
+	watcher.router = createRouter(routes);
+
+	if (config.logRoutesToConsole)
+		console.log(`Routes reloaded (${routes.length} routes)`);
+}
+
+/** @internal */
+function registerRoutes(router: express.IRouter, routes: InternalRoute[]): void {
+	let preflights: { [route: string]: { [method: string]: CorsOptions } | null } | null = null;
+
+	for (let i = 0; i < routes.length; i++) {
+		const route = routes[i],
+			m = (router as any)[route.httpMethod] as Function;
+
+		if (!m)
+			throw new Error("Invalid HTTP method: " + route.httpMethod);
+
+		if (route.cors || route.httpMethod === "options" || route.httpMethod === "all") {
+			if (!preflights)
+				preflights = {};
+
+			// Paths already handling OPTIONS requests are marked with null.
+			if (route.httpMethod === "options" || route.httpMethod === "all") {
+				preflights[route.route] = null;
+			} else if (preflights[route.route] !== null) {
+				const optionsByMethod = (preflights[route.route] || (preflights[route.route] = {}));
+				optionsByMethod[route.httpMethod.toUpperCase()] = route.cors as CorsOptions;
+			}
+		}
+
+		if (route.routeMiddleware && route.routeMiddleware.length) {
+			const args = [route.route] as any[];
+
+			args.push.apply(args, route.routeMiddleware);
+			args.push(createRegularHandler(route.boundUserHandler, route.returnValueAsResponse));
+
+			m.apply(router, args);
+		} else {
+			m.call(router, route.route, createRegularHandler(route.boundUserHandler, route.returnValueAsResponse));
+		}
+	}
+
+	if (preflights) {
+		for (let route in preflights) {
+			const optionsByMethod = preflights[route];
+			if (optionsByMethod)
+				router.options(route, require("./cors").createCorsPreflightHandler(optionsByMethod));
+		}
+	}
+}
+
+// Private Middleware
+
+/** @internal */
+function readHttpsFile(value: string | Buffer): Buffer {
+	return (Buffer.isBuffer(value) ? value : fs.readFileSync(path.resolve(app.dir.project, value)));
+}
+
+/** @internal */
+function loadHttpsOptions(httpsConfig: app.HttpsConfig): any {
+	const options: any = {
+		key: readHttpsFile(httpsConfig.key),
+		cert: readHttpsFile(httpsConfig.cert)
+	};
+
+	if (httpsConfig.ca)
+		options.ca = (Array.isArray(httpsConfig.ca) ? httpsConfig.ca.map(readHttpsFile) : readHttpsFile(httpsConfig.ca));
+
+	if (httpsConfig.passphrase)
+		options.passphrase = httpsConfig.passphrase;
+
+	return options;
+}
+
+/** @internal */
+function watchHttpsFiles(httpsConfig: app.HttpsConfig, server: https.Server | Http2SecureServer): void {
+	const files: string[] = [];
+
+	if ((typeof httpsConfig.key) === "string")
+		files.push(httpsConfig.key as string);
+	if ((typeof httpsConfig.cert) === "string")
+		files.push(httpsConfig.cert as string);
+	if (httpsConfig.ca) {
+		const ca = (Array.isArray(httpsConfig.ca) ? httpsConfig.ca : [httpsConfig.ca]);
+		for (let i = 0; i < ca.length; i++) {
+			if ((typeof ca[i]) === "string")
+				files.push(ca[i] as string);
+		}
+	}
+
+	let timeout: NodeJS.Timeout | null = null;
+
+	const reload = function (): void {
+		// The key and the certificate are usually replaced one after the other.
+		if (timeout)
+			clearTimeout(timeout);
+		timeout = setTimeout(function () {
+			timeout = null;
+			try {
+				server.setSecureContext(loadHttpsOptions(httpsConfig));
+			} catch (ex: any) {
+				app.log.error("Error reloading the certificates", { err: ex });
+			}
+		}, 1000);
+	};
+
+	for (let i = 0; i < files.length; i++) {
+		const absolutePath = path.resolve(app.dir.project, files[i]);
+		fs.watchFile(absolutePath, { persistent: false, interval: 5000 }, reload);
+		watchedHttpsFiles.push(absolutePath);
+	}
+}
+
+/** @internal */
+function unwatchHttpsFiles(): void {
+	for (let i = watchedHttpsFiles.length - 1; i >= 0; i--)
+		fs.unwatchFile(watchedHttpsFiles[i]);
+	watchedHttpsFiles = [];
+}
+
+/** @internal */
+function createHttp2Handler(appExpress: express.Express): (req: Http2ServerRequest, res: Http2ServerResponse) => void {
+	const http2 = require("http2"),
+		expressRequest = Object.getPrototypeOf(appExpress.request),
+		expressResponse = Object.getPrototypeOf(appExpress.response),
+		http2Request = Object.create(http2.Http2ServerRequest.prototype, Object.getOwnPropertyDescriptors(expressRequest)),
+		http2Response = Object.create(http2.Http2ServerResponse.prototype, Object.getOwnPropertyDescriptors(expressResponse)),
+		get = expressRequest.get;
+
+	// HTTP/2 requests carry the host in the :authority pseudo-header.
+	http2Request.get = http2Request.header = function (name: string): any {
+		if ((typeof name) === "string" && name.toLowerCase() === "host")
+			return (this.headers.host || this.authority);
+		return get.call(this, name);
+	};
+
+	const request = Object.create(http2Request, { app: { configurable: true, enumerable: true, writable: true, value: appExpress } }),
+		response = Object.create(http2Response, { app: { configurable: true, enumerable: true, writable: true, value: appExpress } });
+
+	return function (req: Http2ServerRequest, res: Http2ServerResponse): void {
+		if (req.httpVersionMajor < 2) {
+			appExpress(req as any, res as any);
+			return;
+		}
+
+		// Express.js replaces the prototypes of req and res with app.request and
+		// app.response synchronously, during the first steps of app.handle(), so it
+		// is safe to temporarily replace them here.
+		const originalRequest = appExpress.request,
+			originalResponse = appExpress.response;
+
+		appExpress.request = request;
+		appExpress.response = response;
+
+		try {
+			appExpress(req as any, res as any);
+		} finally {
+			appExpress.request = originalRequest;
+			appExpress.response = originalResponse;
+		}
+	};
+}
+
+/** @internal */
+function startServer(config: app.Config): Promise<void> {
+	return new Promise<void>(function (resolve, reject) {
+		try {
+			const appExpress = app.express,
+				httpsConfig = config.https,
+				activeRequests = new Map<Socket, number>();
+
+			let server: http.Server | https.Server | Http2SecureServer,
+				redirect: http.Server | null = null,
+				sessions: Set<Http2Session> | null = null;
+
+			if (!httpsConfig) {
+				server = http.createServer(appExpress);
+			} else {
+				const options = loadHttpsOptions(httpsConfig);
+
+				if (httpsConfig.http2) {
+					options.allowHTTP1 = true;
+					server = require("http2").createSecureServer(options, createHttp2Handler(appExpress)) as Http2SecureServer;
+
+					const currentSessions = new Set<Http2Session>();
+					server.on("session", function (session: Http2Session) {
+						currentSessions.add(session);
+						session.once("close", function () {
+							currentSessions.delete(session);
+						});
+					});
+					sessions = currentSessions;
+				} else {
+					server = https.createServer(options, appExpress);
+				}
+
+				watchHttpsFiles(httpsConfig, server as https.Server | Http2SecureServer);
+
+				if (httpsConfig.redirectPort) {
+					const port = app.port;
+
+					redirect = http.createServer(function (req: http.IncomingMessage, res: http.ServerResponse) {
+						const host = (req.headers.host || app.localIp || "localhost").replace(/:\d+$/, "");
+						res.writeHead(301, {
+							"Connection": "close",
+							"Location": "https://" + host + ((port === 443) ? "" : (":" + port)) + (req.url || "/")
+						});
+						res.end();
+					});
+				}
+			}
+
+			// Keep track of the connections, in order to be able to close idle
+			// keep-alive connections during shutdown.
+			server.on(httpsConfig ? "secureConnection" : "connection", function (socket: Socket) {
+				activeRequests.set(socket, 0);
+				socket.once("close", function () {
+					activeRequests.delete(socket);
+				});
+			});
+
+			server.on("request", function (req: http.IncomingMessage, res: http.ServerResponse) {
+				// HTTP/2 streams are handled by their sessions.
+				if (req.httpVersionMajor >= 2)
+					return;
+
+				const socket = req.socket;
+				activeRequests.set(socket, (activeRequests.get(socket) || 0) + 1);
+				res.once("finish", function () {
+					const count = (activeRequests.get(socket) || 1) - 1;
+					activeRequests.set(socket, count);
+					if (!count && shutdownPromise)
+						socket.end();
+				});
+			});
 
-/** @internal */
-function createFormDataMiddleware(limitFileSize?: number): Function {
-	if (!cachedFormDataMiddleware)
-		cachedFormDataMiddleware = {};
+			server.once("close", function () {
+				activeRequests.clear();
+			});
 
-	if (!limitFileSize || limitFileSize <= 0)
-		limitFileSize = 10485760;
+			// The servers are only exposed after all of them are listening. If any of
+			// them fails, the others are closed, so that nothing keeps the process alive.
+			const servers: (http.Server | https.Server | Http2SecureServer)[] = (redirect ? [server, redirect] : [server]),
+				listeningServers: (http.Server | https.Server | Http2SecureServer)[] = [];
 
-	const limitFileSizeStr = limitFileSize.toString();
+			let failed = false;
 
-	let middleware = cachedFormDataMiddleware[limitFileSizeStr];
-	if (!middleware) {
-		const multerMiddleware = app.multer({
-			limits: {
-				fieldNameSize: 256,
-				fileSize: limitFileSize
-			},
-			storage: app.multer.memoryStorage()
-		}).any();
+			const listenError = function (err: any): void {
+				if (failed)
+					return;
 
-		middleware = function (req: app.Request, res: app.Response, next: app.NextFunction): void {
-			multerMiddleware(req, res, function (err: any) {
-				const uploadedFiles: app.UploadedFiles = {},
-					uploadedFilesArray = ((req as any).files || []) as app.UploadedFile[];
+				failed = true;
 
-				req.uploadedFiles = uploadedFiles;
-				req.uploadedFilesArray = uploadedFilesArray;
+				for (let i = listeningServers.length - 1; i >= 0; i--)
+					listeningServers[i].close();
 
-				for (let i = uploadedFilesArray.length - 1; i >= 0; i--) {
-					const uploadedFile = uploadedFilesArray[i];
-					if (uploadedFile.fieldname && !uploadedFiles[uploadedFile.fieldname])
-						uploadedFiles[uploadedFile.fieldname] = uploadedFile;
-				}
+				unwatchHttpsFiles();
 
-				if (err) {
-					if (err instanceof app.multer["MulterError"]) {
-						const uploadedFile: app.UploadedFile = {
-							buffer: null,
-							encoding: null,
-							fieldname: (err.field || ""),
-							mimetype: null,
-							originalname: null,
-							size: 0,
-							errorcode: (err.code || "UNKNOWN_ERROR"),
-							errormessage: (err.message || "Unknown error")
-						};
+				reject(err);
+			};
 
-						if (uploadedFile.fieldname && !uploadedFiles[uploadedFile.fieldname])
-							uploadedFiles[uploadedFile.fieldname] = uploadedFile;
-						uploadedFilesArray.push(uploadedFile);
-					} else {
-						next(err);
+			const listen = function (target: http.Server | https.Server | Http2SecureServer, port: number): void {
+				target.once("error", listenError);
+				target.listen(port, app.localIp, function () {
+					target.removeListener("error", listenError);
+
+					if (failed) {
+						target.close();
 						return;
 					}
-				}
 
-				next();
-			});
-		};
-
-		cachedFormDataMiddleware[limitFileSizeStr] = middleware;
-	}
+					listeningServers.push(target);
 
-	return middleware;
+					if (listeningServers.length === servers.length) {
+						serverSockets = activeRequests;
+						serverSessions = sessions;
+						redirectServer = redirect;
+						app.server = server;
+						resolve();
+					}
+				});
+			};
+
+			listen(server, app.port);
+			if (redirect && httpsConfig)
+				listen(redirect, httpsConfig.redirectPort as number);
+		} catch (ex) {
+			unwatchHttpsFiles();
+			reject(ex);
+		}
+	});
 }
 
 /** @internal */
-function registerRoutes(appExpress: express.Express, routes: InternalRoute[]): void {
-	for (let i = 0; i < routes.length; i++) {
-		const route = routes[i],
-			m = (appExpress as any)[route.httpMethod] as Function;
+function trackInFlightRequests(req: express.Request, res: express.Response, next: express.NextFunction): void {
+	let finished = false;
 
-		if (!m)
-			throw new Error("Invalid HTTP method: " + route.httpMethod);
+	inFlightRequests++;
 
-		if (route.routeMiddleware && route.routeMiddleware.length) {
-			const args = [route.route] as any[];
+	const finish = function () {
+		if (finished)
+			return;
+		finished = true;
+		inFlightRequests--;
+	};
 
-			args.push.apply(args, route.routeMiddleware);
-			args.push(createRegularHandler(route.boundUserHandler));
+	res.once("finish", finish);
+	res.once("close", finish);
 
-			m.apply(appExpress, args);
-		} else {
-			m.call(appExpress, route.route, createRegularHandler(route.boundUserHandler));
-		}
-	}
-}
+	// The connection header is not allowed in HTTP/2.
+	if (shutdownPromise && req.httpVersionMajor < 2)
+		res.setHeader("Connection", "close");
 
-// Private Middleware
+	next();
+}
 
 /** @internal */
 function removeCacheHeader(req: express.Request, res: express.Response, next: express.NextFunction): void {
@@ -2258,19 +4419,35 @@ function removeCacheHeader(req: express.Request, res: express.Response, next: ex
 
 /** @internal */
 function notFoundHandler(req: express.Request, res: express.Response, next: express.NextFunction): void {
-	next({
-		message: "Not found",
-		status: 404
-	});
+	next(new errorClasses.NotFound("Not found"));
+}
+
+/** @internal */
+function defaultIsApiRequest(req: express.Request): boolean {
+	const accept = req.headers.accept;
+	return (req.path.indexOf("/api/") >= 0 || (!!accept && (accept.indexOf("application/json") >= 0 || accept.indexOf("application/problem+json") >= 0)));
+}
+
+/** @internal */
+function sendProblem(err: any, req: express.Request, res: express.Response): void {
+	res.type("application/problem+json").json(createProblem(err, err.status, req.originalUrl));
+}
+
+/** @internal */
+function logError(err: any, req: express.Request): void {
+	// Errors with status below 500 are part of the regular flow of the app.
+	if (err.status >= 500)
+		app.log.error(err.message || "Internal error", { requestId: (req as any).id, method: req.method, url: req.originalUrl, status: err.status, err });
 }
 
 /** @internal */
 function errorHandlerWithCustomHtmlError(err: any, req: express.Request, res: express.Response, next: express.NextFunction): void {
 	err.status = (parseInt(err.status) || 500);
 	res.status(err.status);
+	logError(err, req);
 
-	if (req.path.indexOf("/api/") >= 0 || (req.headers.accept && req.headers.accept.indexOf("application/json") >= 0))
-		res.json(err.message || (err.status === 404 ? "Not found" : "Internal error"));
+	if (Array.isArray(err.errors) || isApiRequest(req))
+		sendProblem(err, req, res);
 	else
 		htmlErrorHandler(err, req, res, next);
 }
@@ -2279,19 +4456,94 @@ function errorHandlerWithCustomHtmlError(err: any, req: express.Request, res: ex
 function errorHandlerWithoutCustomHtmlError(err: any, req: express.Request, res: express.Response, next: express.NextFunction): void {
 	err.status = (parseInt(err.status) || 500);
 	res.status(err.status);
+	logError(err, req);
 
-	if (req.path.indexOf("/api/") >= 0 || (req.headers.accept && req.headers.accept.indexOf("application/json") >= 0))
-		res.json(err.message || (err.status === 404 ? "Not found" : "Internal error"));
+	if (Array.isArray(err.errors) || isApiRequest(req))
+		sendProblem(err, req, res);
 	else
 		res.contentType("text/plain").send(err.message || (err.status === 404 ? "Not found" : "Internal error"));
 }
 
+/** @internal */
+const routeParamConverters: { [type: string]: RouteParamConverter } = {
+	int: function (value: string): any {
+		const n = (/^[-+]?\d+$/.test(value) ? parseInt(value) : NaN);
+		return (Number.isSafeInteger(n) ? n : undefined);
+	},
+	float: function (value: string): any {
+		const n = (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value) ? parseFloat(value) : NaN);
+		return (isFinite(n) ? n : undefined);
+	},
+	boolean: function (value: string): any {
+		switch (value.toLowerCase()) {
+			case "true":
+			case "1":
+				return true;
+			case "false":
+			case "0":
+				return false;
+		}
+		return undefined;
+	},
+	string: function (value: string): any {
+		return (value ? value : undefined);
+	}
+};
+
 /** @internal */
 let htmlErrorHandler: ErrorHandler;
 
+/** @internal */
+let routeTable: app.RouteInfo[] = [];
+
+/** @internal */
+let routeWatcher: RouteWatcher | null = null;
+
+/** @internal */
+let inFlightRequests = 0;
+
+/** @internal */
+let shutdownPromise: Promise<void> | null = null;
+
+/** @internal */
+let shutdownConfig: app.Config | null = null;
+
+/** @internal */
+let sqlModule: any = null;
+
+/** @internal */
+let serverSockets: Map<Socket, number> | null = null;
+
+/** @internal */
+let sessionStore: app.SessionStore | null = null;
+
+/** @internal */
+let isApiRequest: (req: express.Request) => boolean = defaultIsApiRequest;
+
+/** @internal */
+let serverSessions: Set<Http2Session> | null = null;
+
+/** @internal */
+let redirectServer: http.Server | null = null;
+
+/** @internal */
+let watchedHttpsFiles: string[] = [];
+
 /** @internal */
 let cachedFormDataMiddleware: CachedMiddleware;
 
+/** @internal */
+let rateLimitStore: app.RateLimitStore | null = null;
+
+/** @internal */
+let health: Health | null = null;
+
+/** @internal */
+let migrationMethods: app.MigrationMethods | null = null;
+
+/** @internal */
+let csrfVerifyMiddleware: Function | null = null;
+
 /** @internal */
 let jsonBodyParserMiddleware: any;
 
@@ -2307,7 +4559,16 @@ const app: App = {
 		className: function (routeClassName: string): ClassDecorator { return function (constructor: Function) { (constructor as any)["routeClassName"] = routeClassName; }; },
 		methodName: function (routeMethodName: string): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeMethodName"] = routeMethodName; }; },
 		middleware: function (...middleware: any[]): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { const f = (target[propertyKey] || target); if (!f["routeMiddleware"]) f["routeMiddleware"] = []; if (middleware) f["routeMiddleware"].push.apply(f["routeMiddleware"], middleware); }; },
-		formData: function (limitFileSize?: number): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { const f = (target[propertyKey] || target); if (!f["routeMiddleware"]) f["routeMiddleware"] = []; f["routeMiddleware"].push(createFormDataMiddleware(parseInt(limitFileSize as any))); f["routeFormData"] = true; }; }
+		classMiddleware: function (...middleware: any[]): ClassDecorator { return function (constructor: Function) { const f = constructor as any; f["routeClassMiddleware"] = (middleware || []).concat(Object.prototype.hasOwnProperty.call(f, "routeClassMiddleware") ? f["routeClassMiddleware"] : []); }; },
+		param: function (name: string, type?: app.RouteParamType): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { const f = (target[propertyKey] || target); if (!f["routeParams"]) f["routeParams"] = []; f["routeParams"].unshift({ name, type: (type || "string") }); }; },
+		body: function (schema: app.Schema): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeBodySchema"] = schema; }; },
+		query: function (schema: app.Schema): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeQuerySchema"] = schema; }; },
+		rateLimit: function (options: app.RateLimitOptions): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeRateLimit"] = (options || {}); }; },
+		cors: function (options?: app.CorsConfig | boolean): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeCors"] = (((options === undefined || options === null) ? true : options)); }; },
+		noCsrf: function (): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeNoCsrf"] = true; }; },
+		summary: function (summary: string, description?: string): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { const f = (target[propertyKey] || target); f["routeSummary"] = summary; f["routeDescription"] = description; }; },
+		returns: function (): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["routeReturns"] = true; }; },
+		formData: function (limitFileSize?: number): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { const limit = parseInt(limitFileSize as any); (target[propertyKey] || target)["routeFormData"] = ((limit > 0) ? limit : true); }; }
 	},
 
 	http: {
@@ -2322,6 +4583,12 @@ const app: App = {
 		hidden: function (): MethodDecorator { return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) { (target[propertyKey] || target)["httpHidden"] = true; }; }
 	},
 
+	auth: {
+		required: function (): ClassDecorator & MethodDecorator { return authGeneric(true, null, false); },
+		roles: function (...roles: string[]): ClassDecorator & MethodDecorator { return authGeneric(false, roles, false); },
+		anonymous: function (): ClassDecorator & MethodDecorator { return authGeneric(false, null, true); }
+	},
+
 	// Properties
 
 	root: "",
@@ -2338,11 +4605,14 @@ const app: App = {
 		project: "",
 		staticFiles: "",
 		views: "",
-		routes: [] as string[]
+		routes: [] as string[],
+		migrations: ""
 	},
 
 	express: express(),
 
+	server: null,
+
 	fileSystem: FS as FileSystem,
 
 	request: {
@@ -2351,12 +4621,61 @@ const app: App = {
 		buffer: BufferReq as BufferRequest
 	},
 
+	result: resultHelpers,
+
+	errors: errorClasses,
+
+	config: {
+		load: function (defaults?: app.Config | null, options?: app.ConfigLoadOptions | null): Promise<app.Config> {
+			return loadConfig(defaults, options || {}, app.dir.project);
+		}
+	},
+
+	health: healthMethods,
+
+	migrations: {
+		up: async function (count?: number | null): Promise<app.MigrationInfo[]> {
+			return getMigrationMethods().up(count);
+		},
+
+		down: async function (count?: number | null): Promise<app.MigrationInfo[]> {
+			return getMigrationMethods().down(count);
+		},
+
+		status: async function (): Promise<app.MigrationInfo[]> {
+			return getMigrationMethods().status();
+		}
+	},
+
+	log: log,
+
 	sql: null as any,
 
 	multer: null,
 
+	openApiDocument: null,
+
 	// Methods
 
+	routes: function (): app.RouteInfo[] {
+		const routes: app.RouteInfo[] = new Array(routeTable.length);
+		for (let i = routeTable.length - 1; i >= 0; i--)
+			routes[i] = Object.assign({}, routeTable[i], { roles: (routeTable[i].roles ? routeTable[i].roles!.slice() : null) });
+		return routes;
+	},
+
+	dumpRoutes: function (format?: "json" | "text"): string {
+		if (format === "json")
+			return JSON.stringify(routeTable, null, "\t");
+
+		const lines: string[] = new Array(routeTable.length);
+		for (let i = routeTable.length - 1; i >= 0; i--) {
+			const route = routeTable[i];
+			lines[i] = `${route.httpMethod} - ${route.route} - ${route.className ? (route.className + ".") : ""}${route.methodName}${route.authRequired ? (route.roles ? ` - auth(${route.roles.join(", ")})` : " - auth") : ""}`;
+		}
+		return lines.join("\n");
+	},
+
 	currentDirectoryName: function (): string { return path.dirname(extractCallingFile()); },
 
 	currentFileName: function (): string { return extractCallingFile(); },
@@ -2409,6 +4728,7 @@ const app: App = {
 		app.dir.staticFiles = staticFilesDir as any;
 		app.dir.views = viewsDir as any;
 		app.dir.routes = routesDir;
+		app.dir.migrations = fixSlash(config.migrationsDir || path.join(mainModuleDir, "migrations")) as string;
 
 		FS.rootDir = projectDir;
 
@@ -2422,8 +4742,102 @@ const app: App = {
 			const sql = require("./sql");
 			sql.init(config.sqlConfig);
 			app.sql = sql.Sql;
+			sqlModule = sql;
+		}
+
+		shutdownConfig = config;
+
+		if (!config.disableShutdownSignals) {
+			const signalHandler = function (): void {
+				if (shutdownPromise)
+					process.exit(1);
+
+				app.stop().then(function () {
+					process.exit(0);
+				}, function (reason) {
+					app.log.fatal("Error stopping the app", { err: reason });
+					process.exit(1);
+				});
+			};
+
+			process.on("SIGTERM", signalHandler);
+			process.on("SIGINT", signalHandler);
+		}
+
+		if (config.log)
+			configureLog(config.log);
+
+		if (config.migrateOnStart)
+			await getMigrationMethods().up();
+
+		appExpress.use(trackInFlightRequests);
+
+		const reservedRoutes: ReservedRoutes = {};
+
+		if (config.health) {
+			const healthConfig: app.HealthConfig = ((config.health === true) ? {} : config.health),
+				builtInChecks: { [name: string]: () => any } = {
+					fileSystem: function (): Promise<void> {
+						return fs.promises.access(FS.rootDir, fs.constants.W_OK);
+					}
+				};
+
+			if (sqlModule) {
+				builtInChecks.mysql = function (): Promise<void> {
+					return app.sql.connect(async function (sql) {
+						await sql.scalar("select 1");
+					});
+				};
+			}
+
+			health = createHealth(healthConfig, builtInChecks, function () { return !!shutdownPromise; });
+
+			let livenessRoute = (healthConfig.livenessRoute || "/healthz"),
+				readinessRoute = (healthConfig.readinessRoute || "/readyz");
+			if (!livenessRoute.startsWith("/"))
+				livenessRoute = "/" + livenessRoute;
+			if (!readinessRoute.startsWith("/"))
+				readinessRoute = "/" + readinessRoute;
+
+			reservedRoutes[livenessRoute] = "config.health.livenessRoute";
+			reservedRoutes[readinessRoute] = "config.health.readinessRoute";
+
+			// Probes must not create sessions, be rate limited or flood the access log.
+			appExpress.get(livenessRoute, health.liveness as express.RequestHandler);
+			appExpress.get(readinessRoute, health.readiness as express.RequestHandler);
+		}
+
+		if (!config.disableRequestId)
+			appExpress.use(createRequestIdMiddleware() as express.RequestHandler);
+
+		if (config.log && !config.log.disableAccessLog)
+			appExpress.use(createAccessLogMiddleware() as express.RequestHandler);
+
+		let metrics: Metrics | null = null,
+			metricsRoute: string | null = null;
+
+		if (config.metrics) {
+			const metricsConfig: app.MetricsConfig = ((config.metrics === true) ? {} : config.metrics);
+
+			metricsRoute = (metricsConfig.route || "/metrics");
+			if (!metricsRoute.startsWith("/"))
+				metricsRoute = "/" + metricsRoute;
+
+			// Only require our metrics module if it is actually going to be used.
+			metrics = require("./metrics").createMetrics(metricsConfig, sqlModule ? sqlModule.poolStats : null) as Metrics;
+
+			appExpress.use(metrics.middleware as express.RequestHandler);
+
+			if (sqlModule)
+				sqlModule.observeQueries(metrics.observeQuery);
+
+			observeRequests(metrics.observeRequest);
+
+			reservedRoutes[metricsRoute] = "config.metrics.route";
 		}
 
+		isApiRequest = (config.isApiRequest || defaultIsApiRequest);
+
 		// Object.freeze causes serious performance issues in property access time!
 		//Object.freeze(FS);
 		//Object.freeze(app.route);
@@ -2434,6 +4848,11 @@ const app: App = {
 		if (config.onInit)
 			await Promise.resolve(config.onInit());
 
+		if (config.securityHeaders) {
+			// Only require our security headers module if it is actually going to be used.
+			appExpress.use(require("./securityHeaders").createSecurityHeadersMiddleware((config.securityHeaders === true) ? {} : config.securityHeaders));
+		}
+
 		// Apparently, there are great discussions about using or not compression and about
 		// serving static files directly from Node.js/Express...
 		// https://expressjs.com/en/advanced/best-practice-performance.html#use-gzip-compression
@@ -2456,6 +4875,39 @@ const app: App = {
 		if (!config.disableCookies)
 			appExpress.use(require("cookie-parser")());
 
+		if (config.session) {
+			// Only require our session module if it is actually going to be used.
+			const session = require("./session");
+			sessionStore = session.createSessionStore(config.session, sqlModule ? sqlModule.Sql : null);
+			appExpress.use(session.createSessionMiddleware(config.session, sessionStore, app.root));
+		}
+
+		if (config.rateLimit && config.rateLimit.max) {
+			// Only require our rate limit module if it is actually going to be used.
+			appExpress.use(require("./rateLimit").createRateLimitMiddleware(getRateLimitStore(config), config.rateLimit, ":"));
+		}
+
+		if (config.csrf) {
+			// Only require our CSRF module if it is actually going to be used.
+			const csrf = require("./csrf").createCsrfMiddleware(((config.csrf === true) ? {} : config.csrf), !!config.session, app.root);
+			appExpress.use(csrf.token);
+			csrfVerifyMiddleware = csrf.verify;
+		}
+
+		if (config.authenticate) {
+			const authenticate = config.authenticate;
+			appExpress.use(function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+				try {
+					Promise.resolve(authenticate(req)).then(function (user: any) {
+						(req as any).user = (user || null);
+						next();
+					}, next);
+				} catch (ex: any) {
+					next(ex);
+				}
+			});
+		}
+
 		if (config.enableDynamicCompression)
 			appExpress.use(require("compression")());
 
@@ -2526,6 +4978,16 @@ const app: App = {
 		if (config.logRoutesToConsole)
 			console.log("HTTP Method - Full Route - File");
 
+		let openApiRoute = (config.openApiRoute || null);
+		if (openApiRoute && !openApiRoute.startsWith("/"))
+			openApiRoute = "/" + openApiRoute;
+
+		if (openApiRoute)
+			reservedRoutes[openApiRoute] = "config.openApiRoute";
+
+		if (openApiRoute || config.openApiFile)
+			app.openApiDocument = createOpenApiDocument(config.openApiInfo, app.root, []);
+
 		if (routesDir.length) {
 			const routes: InternalRoute[] = [],
 				validHttpMethods: ValidHttpMethods = {
@@ -2541,33 +5003,58 @@ const app: App = {
 				importer: Importer = require("./importer");
 
 			importer.sep = path.sep;
+			importer.reload = !!config.watchRoutes;
 
 			for (let i = 0; i < routesDir.length; i++)
-				await extractRoutesFromDir(config, validHttpMethods, "/", routes, importer, routesDir[i]);
+				await extractRoutesFromDir(config, validHttpMethods, "/", routes, importer, routesDir[i], null);
 
-			importer.cleanUp();
+			// The importer is still needed to reload the files later.
+			if (!config.watchRoutes)
+				importer.cleanUp();
 
 			if (!routes.length) {
 				if (config.logRoutesToConsole)
 					console.log("No routes found!");
-			} else {
-				if (config.logRoutesToConsole) {
-					routes.sort((a, b) => (a.absolutePath.localeCompare(b.absolutePath) || a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
+			} else if (config.logRoutesToConsole) {
+				routes.sort((a, b) => (a.absolutePath.localeCompare(b.absolutePath) || a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
 
-					for (let i = 0; i < routes.length; i++) {
-						const route = routes[i];
-						console.log(`${route.httpMethod} - ${route.route} - ${route.absolutePath}`);
-					}
+				for (let i = 0; i < routes.length; i++) {
+					const route = routes[i];
+					console.log(`${route.httpMethod} - ${route.route} - ${route.absolutePath}`);
 				}
+			}
 
-				routes.sort((a, b) => (a.route.localeCompare(b.route) || a.httpMethod.localeCompare(b.httpMethod)));
-
-				for (let i = routes.length - 1; i > 0; i--) {
-					const r1 = routes[i], r2 = routes[i - 1];
-					if (r1.route === r2.route && (r1.httpMethod === "all" || r2.httpMethod === "all" || r1.httpMethod === r2.httpMethod))
-						throw new Error(`Conflicting route "${routes[i].httpMethod} ${routes[i].route}" in files ${routes[i].absolutePath} and ${routes[i - 1].absolutePath}`);
-				}
+			sortAndCheckRoutes(routes, reservedRoutes);
+
+			updateRouteInfo(config, routes);
+
+			if (config.watchRoutes) {
+				const watcher: RouteWatcher = {
+					config,
+					validHttpMethods,
+					importer,
+					routesDir,
+					reservedRoutes,
+					routes,
+					router: createRouter(routes),
+					fsWatchers: {},
+					pendingPaths: {},
+					pendingTimeout: null,
+					reloadPromise: Promise.resolve()
+				};
+
+				routeWatcher = watcher;
+
+				// All requests go through the current router, which is replaced as a whole
+				// every time the routes change, so the swap is atomic from the requests' point
+				// of view.
+				appExpress.use(function (req: express.Request, res: express.Response, next: express.NextFunction) {
+					watcher.router(req, res, next);
+				});
 
+				for (let i = 0; i < routesDir.length; i++)
+					watchRouteDir(watcher, routesDir[i]);
+			} else {
 				registerRoutes(appExpress, routes);
 
 				routes.splice(0);
@@ -2576,9 +5063,23 @@ const app: App = {
 			console.log("No routes found!");
 		}
 
-		cachedFormDataMiddleware = undefined as any;
-		jsonBodyParserMiddleware = undefined;
-		urlencodedBodyParserMiddleware = undefined;
+		if (openApiRoute) {
+			appExpress.get(openApiRoute, function (req: express.Request, res: express.Response) {
+				res.json(app.openApiDocument);
+			});
+		}
+
+		if (metricsRoute)
+			appExpress.get(metricsRoute, (metrics as Metrics).handler as express.RequestHandler);
+
+		if (config.openApiFile)
+			await FS.saveText(config.openApiFile, JSON.stringify(app.openApiDocument, null, "\t"));
+
+		if (!config.watchRoutes) {
+			cachedFormDataMiddleware = undefined as any;
+			jsonBodyParserMiddleware = undefined;
+			urlencodedBodyParserMiddleware = undefined;
+		}
 
 		if (config.onAfterRoute)
 			await Promise.resolve(config.onAfterRoute());
@@ -2600,13 +5101,97 @@ const app: App = {
 		if (config.onFinish)
 			await Promise.resolve(config.onFinish());
 		else
-			return new Promise(function (resolve, reject) {
-				try {
-					appExpress.listen(app.port, app.localIp, resolve);
-				} catch (ex) {
-					reject(ex);
+			return startServer(config);
+	},
+
+	stop: function (): Promise<void> {
+		if (shutdownPromise)
+			return shutdownPromise;
+
+		const config = (shutdownConfig || {}),
+			server = app.server;
+
+		let shutdownTimeout = parseInt(config.shutdownTimeout as any);
+		if (isNaN(shutdownTimeout) || shutdownTimeout < 0)
+			shutdownTimeout = 10000;
+
+		shutdownPromise = (async function (): Promise<void> {
+			let serverClosed: Promise<void> | null = null;
+
+			// The readiness endpoint already fails at this point.
+			if (health && health.shutdownDelayMs && server)
+				await new Promise((resolve) => setTimeout(resolve, (health as Health).shutdownDelayMs));
+
+			if (server) {
+				serverClosed = new Promise<void>(function (resolve) {
+					server.close(function () {
+						resolve();
+					});
+				});
+
+				// Idle keep-alive connections would prevent the server from closing.
+				if (serverSockets) {
+					for (let [socket, count] of serverSockets) {
+						if (!count)
+							socket.end();
+					}
 				}
-			});
+
+				// Let HTTP/2 clients know they must not start new streams.
+				if (serverSessions) {
+					for (let session of serverSessions)
+						session.close();
+				}
+			}
+
+			if (redirectServer) {
+				redirectServer.close();
+				redirectServer = null;
+			}
+
+			unwatchHttpsFiles();
+
+			if (routeWatcher) {
+				for (let dir in routeWatcher.fsWatchers)
+					routeWatcher.fsWatchers[dir].close();
+				routeWatcher.fsWatchers = {};
+			}
+
+			const limit = Date.now() + shutdownTimeout;
+			while ((inFlightRequests > 0 || (sqlModule && sqlModule.pendingCallbackCount() > 0)) && Date.now() < limit)
+				await new Promise((resolve) => setTimeout(resolve, 50));
+
+			if (server) {
+				if (serverSockets) {
+					for (let socket of serverSockets.keys())
+						socket.destroy();
+				}
+				if (serverSessions) {
+					for (let session of serverSessions)
+						session.destroy();
+				}
+				await serverClosed;
+			}
+
+			if (config.onShutdown)
+				await Promise.resolve(config.onShutdown());
+
+			if (sessionStore && sessionStore.close)
+				await Promise.resolve(sessionStore.close());
+
+			if (rateLimitStore && rateLimitStore.close)
+				await Promise.resolve(rateLimitStore.close());
+
+			if (health) {
+				health.close();
+				health = null;
+			}
+
+			if (sqlModule)
+				await sqlModule.end();
+		})();
+
+		return shutdownPromise;
 	}
 };
 
@@ -0,0 +1,99 @@
+﻿export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal" | "silent";
+export interface LogConfig {
+	/**
+		* Minimum level of the entries actually written (`"info"` is used if no other value is provided).
+		*
+		* The levels, from the lowest to the highest, are `"trace"`, `"debug"`, `"info"`, `"warn"`, `"error"` and `"fatal"`. `"silent"` disables all entries.
+		*/
+	level?: LogLevel | null;
+	/**
+		* How entries are written (`"pretty"` is used if the standard output is a terminal, `"json"` is used otherwise).
+		*
+		* - `"json"`: each entry is written as a single line of JSON, suitable for log collectors
+		* - `"pretty"`: each entry is written as a single line of human-readable text
+		*/
+	format?: "json" | "pretty" | null;
+	/**
+		* Function used to write each formatted entry, without the line break at the end (the entries are written to the standard output if no function is provided).
+		*/
+	write?: ((line: string, level: LogLevel) => void) | null;
+	/**
+		* Disables the access log, which writes one entry with level `"info"` for each request, after the response has been sent (or after the connection has been closed).
+		*
+		* The entries of the access log contain the fields `requestId`, `method`, `url`, `route` (the route pattern, such as `/user/:id`), `status`, `durationMs`, `bytes` (the amount of bytes of the body sent to the client) and `user` (`req.user.id`, if available).
+		*/
+	disableAccessLog?: boolean | null;
+}
+export interface Logger {
+	/**
+		* Minimum level of the entries actually written, as specified by `config.log.level`.
+		*/
+	readonly level: LogLevel;
+	/**
+		* Returns `true` if entries with the given level are written, which can be used to avoid creating expensive fields for entries that would be discarded.
+		*/
+	isLevelEnabled(level: LogLevel): boolean;
+	/**
+		* Writes an entry with level `"trace"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	trace(message: string, fields?: any): void;
+	/**
+		* Writes an entry with level `"debug"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	debug(message: string, fields?: any): void;
+	/**
+		* Writes an entry with level `"info"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	info(message: string, fields?: any): void;
+	/**
+		* Writes an entry with level `"warn"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	warn(message: string, fields?: any): void;
+	/**
+		* Writes an entry with level `"error"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	error(message: string, fields?: any): void;
+	/**
+		* Writes an entry with level `"fatal"`.
+		*
+		* @param message Message of the entry.
+		* @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+		*/
+	fatal(message: string, fields?: any): void;
+	/**
+		* Creates a logger that adds `fields` to all of its entries, such as `app.log.child({ module: "billing" })`.
+		*
+		* Child loggers share the settings of `app.log`, including the ones applied later by `config.log`.
+		*
+		* @param fields Object whose properties are added to all the entries of the new logger.
+		*/
+	child(fields: any): Logger;
+}
+export declare const log: Logger;
+/**
+	* Applies `logConfig` to `log` and to all of its child loggers.
+	*/
+export declare function configureLog(logConfig: LogConfig): void;
+/**
+	* Creates a middleware that sets `req.id`, using the `X-Request-Id` header sent by the client (or by a proxy), or creating a new id if the header is missing.
+	*/
+export declare function createRequestIdMiddleware(): Function;
+/**
+	* Creates a middleware that writes one entry to the access log for each request, after the response has been sent (or after the connection has been closed).
+	*/
+export declare function createAccessLogMiddleware(): Function;
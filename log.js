@@ -0,0 +1,208 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.log = void 0;
+exports.configureLog = configureLog;
+exports.createRequestIdMiddleware = createRequestIdMiddleware;
+exports.createAccessLogMiddleware = createAccessLogMiddleware;
+const util = require("util");
+const levels = {
+	trace: 10,
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+	fatal: 60,
+	silent: Infinity
+};
+function defaultWrite(line) {
+	process.stdout.write(line + "\n");
+}
+function serializeError(err) {
+	const serialized = {
+		name: err.name,
+		message: err.message,
+		stack: err.stack
+	};
+	if (err.status)
+		serialized.status = err.status;
+	if (err.code)
+		serialized.code = err.code;
+	return serialized;
+}
+function prettyValue(value) {
+	if ((typeof value) === "string")
+		return (/[\s"=]/.test(value) ? JSON.stringify(value) : value);
+	return util.inspect(value, { breakLength: Infinity, depth: 4 });
+}
+class Log {
+	constructor(output, fields) {
+		this.output = output;
+		this.fields = fields;
+	}
+	get level() {
+		return this.output.levelName;
+	}
+	isLevelEnabled(level) {
+		return (levels[level] >= this.output.level);
+	}
+	write(level, message, fields) {
+		const output = this.output;
+		if (levels[level] < output.level)
+			return;
+		const entry = {
+			time: new Date().toISOString(),
+			level,
+			msg: message
+		};
+		if (this.fields)
+			Object.assign(entry, this.fields);
+		if (fields) {
+			if (fields instanceof Error) {
+				entry.err = serializeError(fields);
+			}
+			else {
+				for (let name in fields) {
+					const value = fields[name];
+					entry[name] = ((value instanceof Error) ? serializeError(value) : value);
+				}
+			}
+		}
+		let line;
+		if (output.json) {
+			line = JSON.stringify(entry);
+		}
+		else {
+			let stack = null;
+			line = entry.time + " " + level.toUpperCase().padEnd(5) + " " + message;
+			for (let name in entry) {
+				if (name === "time" || name === "level" || name === "msg")
+					continue;
+				const value = entry[name];
+				if (value === undefined)
+					continue;
+				// Stacks are much easier to read in their own lines.
+				if (value && value.stack && (typeof value.stack) === "string") {
+					stack = value.stack;
+					line += " " + name + "=" + prettyValue(value.name + ": " + value.message);
+				}
+				else {
+					line += " " + name + "=" + prettyValue(value);
+				}
+			}
+			if (stack)
+				line += "\n" + stack;
+		}
+		output.write(line, level);
+	}
+	trace(message, fields) {
+		this.write("trace", message, fields);
+	}
+	debug(message, fields) {
+		this.write("debug", message, fields);
+	}
+	info(message, fields) {
+		this.write("info", message, fields);
+	}
+	warn(message, fields) {
+		this.write("warn", message, fields);
+	}
+	error(message, fields) {
+		this.write("error", message, fields);
+	}
+	fatal(message, fields) {
+		this.write("fatal", message, fields);
+	}
+	child(fields) {
+		return new Log(this.output, (this.fields ? Object.assign({}, this.fields, fields) : Object.assign({}, fields)));
+	}
+}
+const rootOutput = {
+	level: levels.info,
+	levelName: "info",
+	json: !process.stdout.isTTY,
+	write: defaultWrite
+};
+exports.log = new Log(rootOutput, null);
+/**
+	* Applies `logConfig` to `log` and to all of its child loggers.
+	*/
+function configureLog(logConfig) {
+	const levelName = (logConfig.level || "info");
+	if (!levels.hasOwnProperty(levelName))
+		throw new Error(`Invalid value for config.log.level: "${levelName}"`);
+	const format = (logConfig.format || (process.stdout.isTTY ? "pretty" : "json"));
+	if (format !== "json" && format !== "pretty")
+		throw new Error(`Invalid value for config.log.format: "${format}"`);
+	rootOutput.level = levels[levelName];
+	rootOutput.levelName = levelName;
+	rootOutput.json = (format === "json");
+	rootOutput.write = (logConfig.write || defaultWrite);
+}
+// Only simple ids are accepted from the clients, so that they cannot be used to
+// inject arbitrary content into the logs.
+const validRequestId = /^[\w\-.:]{1,128}$/;
+/**
+	* Creates a middleware that sets `req.id`, using the `X-Request-Id` header sent by the client (or by a proxy), or creating a new id if the header is missing.
+	*/
+function createRequestIdMiddleware() {
+	const prefix = process.pid.toString(36) + "-" + Date.now().toString(36) + "-";
+	let counter = 0;
+	return function (req, res, next) {
+		const header = req.headers["x-request-id"];
+		let id;
+		if ((typeof header) === "string" && validRequestId.test(header)) {
+			id = header;
+		}
+		else {
+			counter = ((counter + 1) % Number.MAX_SAFE_INTEGER);
+			id = prefix + counter.toString(36);
+		}
+		req.id = id;
+		res.setHeader("X-Request-Id", id);
+		next();
+	};
+}
+/**
+	* Creates a middleware that writes one entry to the access log for each request, after the response has been sent (or after the connection has been closed).
+	*/
+function createAccessLogMiddleware() {
+	const accessLog = exports.log.child({ type: "access" });
+	return function (req, res, next) {
+		const start = process.hrtime(), originalWrite = res.write, originalEnd = res.end;
+		let bytes = 0, logged = false;
+		const count = function (chunk, encoding) {
+			if (chunk && (typeof chunk) !== "function")
+				bytes += (Buffer.isBuffer(chunk) ? chunk.length : Buffer.byteLength(chunk, ((typeof encoding) === "string") ? encoding : undefined));
+		};
+		res.write = function (chunk, ...args) {
+			count(chunk, args[0]);
+			return originalWrite.apply(res, [chunk, ...args]);
+		};
+		res.end = function (chunk, ...args) {
+			count(chunk, args[0]);
+			originalEnd.apply(res, [chunk, ...args]);
+			return res;
+		};
+		const done = function () {
+			if (logged)
+				return;
+			logged = true;
+			const duration = process.hrtime(start), user = req.user;
+			accessLog.info(req.method + " " + req.originalUrl, {
+				requestId: req.id,
+				method: req.method,
+				url: req.originalUrl,
+				// req.route is only available if the request has reached a route.
+				route: (req.route ? req.route.path : null),
+				status: res.statusCode,
+				durationMs: Math.round((duration[0] * 1e4) + (duration[1] / 1e5)) / 10,
+				bytes,
+				user: ((user && user.id !== undefined) ? user.id : null),
+				aborted: (res.writableFinished ? undefined : true)
+			});
+		};
+		res.once("finish", done);
+		res.once("close", done);
+		next();
+	};
+}
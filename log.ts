@@ -0,0 +1,369 @@
+import express = require("express");
+import util = require("util");
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal" | "silent";
+
+export interface LogConfig {
+	/**
+	 * Minimum level of the entries actually written (`"info"` is used if no other value is provided).
+	 * 
+	 * The levels, from the lowest to the highest, are `"trace"`, `"debug"`, `"info"`, `"warn"`, `"error"` and `"fatal"`. `"silent"` disables all entries.
+	 */
+	level?: LogLevel | null;
+
+	/**
+	 * How entries are written (`"pretty"` is used if the standard output is a terminal, `"json"` is used otherwise).
+	 * 
+	 * - `"json"`: each entry is written as a single line of JSON, suitable for log collectors
+	 * - `"pretty"`: each entry is written as a single line of human-readable text
+	 */
+	format?: "json" | "pretty" | null;
+
+	/**
+	 * Function used to write each formatted entry, without the line break at the end (the entries are written to the standard output if no function is provided).
+	 */
+	write?: ((line: string, level: LogLevel) => void) | null;
+
+	/**
+	 * Disables the access log, which writes one entry with level `"info"` for each request, after the response has been sent (or after the connection has been closed).
+	 * 
+	 * The entries of the access log contain the fields `requestId`, `method`, `url`, `route` (the route pattern, such as `/user/:id`), `status`, `durationMs`, `bytes` (the amount of bytes of the body sent to the client) and `user` (`req.user.id`, if available).
+	 */
+	disableAccessLog?: boolean | null;
+}
+
+export interface Logger {
+	/**
+	 * Minimum level of the entries actually written, as specified by `config.log.level`.
+	 */
+	readonly level: LogLevel;
+
+	/**
+	 * Returns `true` if entries with the given level are written, which can be used to avoid creating expensive fields for entries that would be discarded.
+	 */
+	isLevelEnabled(level: LogLevel): boolean;
+
+	/**
+	 * Writes an entry with level `"trace"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	trace(message: string, fields?: any): void;
+
+	/**
+	 * Writes an entry with level `"debug"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	debug(message: string, fields?: any): void;
+
+	/**
+	 * Writes an entry with level `"info"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	info(message: string, fields?: any): void;
+
+	/**
+	 * Writes an entry with level `"warn"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	warn(message: string, fields?: any): void;
+
+	/**
+	 * Writes an entry with level `"error"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	error(message: string, fields?: any): void;
+
+	/**
+	 * Writes an entry with level `"fatal"`.
+	 * 
+	 * @param message Message of the entry.
+	 * @param fields Optional object whose properties are added to the entry. `Error` objects are written with their name, message and stack.
+	 */
+	fatal(message: string, fields?: any): void;
+
+	/**
+	 * Creates a logger that adds `fields` to all of its entries, such as `app.log.child({ module: "billing" })`.
+	 * 
+	 * Child loggers share the settings of `app.log`, including the ones applied later by `config.log`.
+	 * 
+	 * @param fields Object whose properties are added to all the entries of the new logger.
+	 */
+	child(fields: any): Logger;
+}
+
+interface LogOutput {
+	level: number;
+	levelName: LogLevel;
+	json: boolean;
+	write: (line: string, level: LogLevel) => void;
+}
+
+const levels: { [level: string]: number } = {
+	trace: 10,
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+	fatal: 60,
+	silent: Infinity
+};
+
+function defaultWrite(line: string): void {
+	process.stdout.write(line + "\n");
+}
+
+function serializeError(err: any): any {
+	const serialized: any = {
+		name: err.name,
+		message: err.message,
+		stack: err.stack
+	};
+
+	if (err.status)
+		serialized.status = err.status;
+
+	if (err.code)
+		serialized.code = err.code;
+
+	return serialized;
+}
+
+function prettyValue(value: any): string {
+	if ((typeof value) === "string")
+		return (/[\s"=]/.test(value) ? JSON.stringify(value) : value);
+
+	return util.inspect(value, { breakLength: Infinity, depth: 4 });
+}
+
+class Log implements Logger {
+	private readonly output: LogOutput;
+	private readonly fields: any;
+
+	public constructor(output: LogOutput, fields: any) {
+		this.output = output;
+		this.fields = fields;
+	}
+
+	public get level(): LogLevel {
+		return this.output.levelName;
+	}
+
+	public isLevelEnabled(level: LogLevel): boolean {
+		return (levels[level] >= this.output.level);
+	}
+
+	private write(level: LogLevel, message: string, fields: any): void {
+		const output = this.output;
+
+		if (levels[level] < output.level)
+			return;
+
+		const entry: any = {
+			time: new Date().toISOString(),
+			level,
+			msg: message
+		};
+
+		if (this.fields)
+			Object.assign(entry, this.fields);
+
+		if (fields) {
+			if (fields instanceof Error) {
+				entry.err = serializeError(fields);
+			} else {
+				for (let name in fields) {
+					const value = fields[name];
+					entry[name] = ((value instanceof Error) ? serializeError(value) : value);
+				}
+			}
+		}
+
+		let line: string;
+
+		if (output.json) {
+			line = JSON.stringify(entry);
+		} else {
+			let stack: string | null = null;
+
+			line = entry.time + " " + level.toUpperCase().padEnd(5) + " " + message;
+
+			for (let name in entry) {
+				if (name === "time" || name === "level" || name === "msg")
+					continue;
+
+				const value = entry[name];
+				if (value === undefined)
+					continue;
+
+				// Stacks are much easier to read in their own lines.
+				if (value && value.stack && (typeof value.stack) === "string") {
+					stack = value.stack;
+					line += " " + name + "=" + prettyValue(value.name + ": " + value.message);
+				} else {
+					line += " " + name + "=" + prettyValue(value);
+				}
+			}
+
+			if (stack)
+				line += "\n" + stack;
+		}
+
+		output.write(line, level);
+	}
+
+	public trace(message: string, fields?: any): void {
+		this.write("trace", message, fields);
+	}
+
+	public debug(message: string, fields?: any): void {
+		this.write("debug", message, fields);
+	}
+
+	public info(message: string, fields?: any): void {
+		this.write("info", message, fields);
+	}
+
+	public warn(message: string, fields?: any): void {
+		this.write("warn", message, fields);
+	}
+
+	public error(message: string, fields?: any): void {
+		this.write("error", message, fields);
+	}
+
+	public fatal(message: string, fields?: any): void {
+		this.write("fatal", message, fields);
+	}
+
+	public child(fields: any): Logger {
+		return new Log(this.output, (this.fields ? Object.assign({}, this.fields, fields) : Object.assign({}, fields)));
+	}
+}
+
+const rootOutput: LogOutput = {
+	level: levels.info,
+	levelName: "info",
+	json: !process.stdout.isTTY,
+	write: defaultWrite
+};
+
+export const log: Logger = new Log(rootOutput, null);
+
+/**
+ * Applies `logConfig` to `log` and to all of its child loggers.
+ */
+export function configureLog(logConfig: LogConfig): void {
+	const levelName = (logConfig.level || "info");
+
+	if (!levels.hasOwnProperty(levelName))
+		throw new Error(`Invalid value for config.log.level: "${levelName}"`);
+
+	const format = (logConfig.format || (process.stdout.isTTY ? "pretty" : "json"));
+
+	if (format !== "json" && format !== "pretty")
+		throw new Error(`Invalid value for config.log.format: "${format}"`);
+
+	rootOutput.level = levels[levelName];
+	rootOutput.levelName = levelName;
+	rootOutput.json = (format === "json");
+	rootOutput.write = (logConfig.write || defaultWrite);
+}
+
+// Only simple ids are accepted from the clients, so that they cannot be used to
+// inject arbitrary content into the logs.
+const validRequestId = /^[\w\-.:]{1,128}$/;
+
+/**
+ * Creates a middleware that sets `req.id`, using the `X-Request-Id` header sent by the client (or by a proxy), or creating a new id if the header is missing.
+ */
+export function createRequestIdMiddleware(): Function {
+	const prefix = process.pid.toString(36) + "-" + Date.now().toString(36) + "-";
+	let counter = 0;
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		const header = req.headers["x-request-id"];
+
+		let id: string;
+
+		if ((typeof header) === "string" && validRequestId.test(header as string)) {
+			id = header as string;
+		} else {
+			counter = ((counter + 1) % Number.MAX_SAFE_INTEGER);
+			id = prefix + counter.toString(36);
+		}
+
+		(req as any).id = id;
+		res.setHeader("X-Request-Id", id);
+
+		next();
+	};
+}
+
+/**
+ * Creates a middleware that writes one entry to the access log for each request, after the response has been sent (or after the connection has been closed).
+ */
+export function createAccessLogMiddleware(): Function {
+	const accessLog = log.child({ type: "access" });
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		const start = process.hrtime(),
+			originalWrite = res.write,
+			originalEnd = res.end;
+
+		let bytes = 0, logged = false;
+
+		const count = function (chunk: any, encoding: any): void {
+			if (chunk && (typeof chunk) !== "function")
+				bytes += (Buffer.isBuffer(chunk) ? chunk.length : Buffer.byteLength(chunk, ((typeof encoding) === "string") ? encoding as BufferEncoding : undefined));
+		};
+
+		res.write = function (chunk: any, ...args: any[]): boolean {
+			count(chunk, args[0]);
+			return originalWrite.apply(res, [chunk, ...args] as any);
+		} as any;
+
+		res.end = function (chunk?: any, ...args: any[]): express.Response {
+			count(chunk, args[0]);
+			originalEnd.apply(res, [chunk, ...args] as any);
+			return res;
+		} as any;
+
+		const done = function (): void {
+			if (logged)
+				return;
+
+			logged = true;
+
+			const duration = process.hrtime(start),
+				user = (req as any).user;
+
+			accessLog.info(req.method + " " + req.originalUrl, {
+				requestId: (req as any).id,
+				method: req.method,
+				url: req.originalUrl,
+				// req.route is only available if the request has reached a route.
+				route: (req.route ? req.route.path : null),
+				status: res.statusCode,
+				durationMs: Math.round((duration[0] * 1e4) + (duration[1] / 1e5)) / 10,
+				bytes,
+				user: ((user && user.id !== undefined) ? user.id : null),
+				aborted: (res.writableFinished ? undefined : true)
+			});
+		};
+
+		res.once("finish", done);
+		res.once("close", done);
+
+		next();
+	};
+}
@@ -0,0 +1,34 @@
+﻿export interface MetricsConfig {
+	/**
+		* Route where the metrics are served (`"/metrics"` is used if no other value is provided).
+		*
+		* Just like the routes created from `app.dir.routes`, `config.metrics.route` must not include `app.root`.
+		*/
+	route?: string | null;
+	/**
+		* Upper bounds, in seconds, of the buckets of all histograms (`[0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]` is used if no other value is provided).
+		*/
+	buckets?: number[] | null;
+}
+export interface Metrics {
+	/**
+		* Middleware that measures all requests handled by the app.
+		*/
+	middleware: Function;
+	/**
+		* Route handler that sends all metrics using the Prometheus text format.
+		*/
+	handler: Function;
+	observeQuery(method: string, seconds: number, success: boolean): void;
+	observeRequest(method: string, host: string, statusCode: number, seconds: number): void;
+}
+/**
+	* Creates the metrics of the app.
+	*
+	* `poolStats` is only provided when `config.sqlConfig` is provided.
+	*/
+export declare function createMetrics(metricsConfig: MetricsConfig, poolStats: (() => {
+	total: number;
+	inUse: number;
+	queued: number;
+}) | null): Metrics;
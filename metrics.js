@@ -0,0 +1,140 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createMetrics = createMetrics;
+function escapeLabelValue(value) {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+function formatLabels(labelNames, labels, extraName, extraValue) {
+	const pairs = [];
+	for (let i = 0; i < labelNames.length; i++)
+		pairs.push(labelNames[i] + "=\"" + escapeLabelValue(labels[i]) + "\"");
+	if (extraName)
+		pairs.push(extraName + "=\"" + extraValue + "\"");
+	return (pairs.length ? ("{" + pairs.join(",") + "}") : "");
+}
+function formatNumber(value) {
+	return ((value === Infinity) ? "+Inf" : value.toString());
+}
+class Counter {
+	constructor(name, help, labelNames) {
+		this.values = new Map();
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames;
+	}
+	inc(labels, value) {
+		const key = labels.join("\u0000");
+		let metricValue = this.values.get(key);
+		if (!metricValue) {
+			metricValue = { labels, value: 0 };
+			this.values.set(key, metricValue);
+		}
+		metricValue.value += ((value === undefined) ? 1 : value);
+	}
+	render(lines) {
+		lines.push("# HELP " + this.name + " " + this.help, "# TYPE " + this.name + " counter");
+		for (let metricValue of this.values.values())
+			lines.push(this.name + formatLabels(this.labelNames, metricValue.labels) + " " + formatNumber(metricValue.value));
+	}
+}
+class Gauge {
+	constructor(name, help, collect) {
+		this.name = name;
+		this.help = help;
+		this.collect = collect;
+	}
+	render(lines) {
+		lines.push("# HELP " + this.name + " " + this.help, "# TYPE " + this.name + " gauge", this.name + " " + formatNumber(this.collect()));
+	}
+}
+class Histogram {
+	constructor(name, help, labelNames, buckets) {
+		this.values = new Map();
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames;
+		this.buckets = buckets;
+	}
+	observe(labels, value) {
+		const key = labels.join("\u0000");
+		let histogramValue = this.values.get(key);
+		if (!histogramValue) {
+			histogramValue = { labels, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+			this.values.set(key, histogramValue);
+		}
+		// Buckets are cumulative, so only the first matching bucket is incremented here,
+		// and the counts are accumulated when rendering.
+		const buckets = this.buckets;
+		for (let i = 0; i < buckets.length; i++) {
+			if (value <= buckets[i]) {
+				histogramValue.counts[i]++;
+				break;
+			}
+		}
+		histogramValue.sum += value;
+		histogramValue.count++;
+	}
+	render(lines) {
+		lines.push("# HELP " + this.name + " " + this.help, "# TYPE " + this.name + " histogram");
+		for (let histogramValue of this.values.values()) {
+			let cumulative = 0;
+			for (let i = 0; i < this.buckets.length; i++) {
+				cumulative += histogramValue.counts[i];
+				lines.push(this.name + "_bucket" + formatLabels(this.labelNames, histogramValue.labels, "le", formatNumber(this.buckets[i])) + " " + cumulative);
+			}
+			lines.push(this.name + "_bucket" + formatLabels(this.labelNames, histogramValue.labels, "le", "+Inf") + " " + histogramValue.count);
+			lines.push(this.name + "_sum" + formatLabels(this.labelNames, histogramValue.labels) + " " + histogramValue.sum);
+			lines.push(this.name + "_count" + formatLabels(this.labelNames, histogramValue.labels) + " " + histogramValue.count);
+		}
+	}
+}
+const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+/**
+	* Creates the metrics of the app.
+	*
+	* `poolStats` is only provided when `config.sqlConfig` is provided.
+	*/
+function createMetrics(metricsConfig, poolStats) {
+	const buckets = ((metricsConfig.buckets && metricsConfig.buckets.length) ? metricsConfig.buckets.slice().sort((a, b) => (a - b)) : defaultBuckets), httpRequests = new Counter("http_requests_total", "Total amount of HTTP requests handled.", ["method", "route", "status"]), httpDuration = new Histogram("http_request_duration_seconds", "Duration of the HTTP requests handled, in seconds.", ["method", "route", "status"], buckets), sqlQueries = new Counter("sql_queries_total", "Total amount of SQL statements executed.", ["method", "result"]), sqlDuration = new Histogram("sql_query_duration_seconds", "Duration of the SQL statements executed, in seconds.", ["method", "result"], buckets), outboundRequests = new Counter("http_client_requests_total", "Total amount of HTTP requests sent by app.request.", ["method", "host", "status"]), outboundDuration = new Histogram("http_client_request_duration_seconds", "Duration of the HTTP requests sent by app.request, in seconds.", ["method", "host", "status"], buckets), gauges = [];
+	if (poolStats) {
+		gauges.push(new Gauge("sql_pool_connections", "Amount of connections currently open in the SQL connection pool.", function () { return poolStats().total; }), new Gauge("sql_pool_connections_in_use", "Amount of connections of the SQL connection pool currently in use.", function () { return poolStats().inUse; }), new Gauge("sql_pool_queue_length", "Amount of callers currently waiting for a connection of the SQL connection pool.", function () { return poolStats().queued; }));
+	}
+	gauges.push(new Gauge("process_resident_memory_bytes", "Resident memory size, in bytes.", function () { return process.memoryUsage().rss; }));
+	return {
+		middleware: function (req, res, next) {
+			const start = process.hrtime();
+			res.once("finish", function () {
+				const duration = process.hrtime(start), 
+				// The route pattern is used instead of the actual path, so that the
+				// amount of label values does not depend on the requests.
+				labels = [req.method, (req.route ? req.route.path : ""), res.statusCode.toString()];
+				httpRequests.inc(labels);
+				httpDuration.observe(labels, duration[0] + (duration[1] / 1e9));
+			});
+			next();
+		},
+		handler: function (req, res) {
+			const lines = [];
+			httpRequests.render(lines);
+			httpDuration.render(lines);
+			sqlQueries.render(lines);
+			sqlDuration.render(lines);
+			outboundRequests.render(lines);
+			outboundDuration.render(lines);
+			for (let i = 0; i < gauges.length; i++)
+				gauges[i].render(lines);
+			lines.push("");
+			res.type("text/plain; version=0.0.4").send(lines.join("\n"));
+		},
+		observeQuery: function (method, seconds, success) {
+			const labels = [method, success ? "success" : "error"];
+			sqlQueries.inc(labels);
+			sqlDuration.observe(labels, seconds);
+		},
+		observeRequest: function (method, host, statusCode, seconds) {
+			const labels = [method, host, statusCode ? statusCode.toString() : "error"];
+			outboundRequests.inc(labels);
+			outboundDuration.observe(labels, seconds);
+		}
+	};
+}
@@ -0,0 +1,61 @@
+﻿import type { Sql } from "./sql";
+export interface MigrationInfo {
+	/**
+		* Version of the migration, taken from the numeric prefix of its file name (such as `"20240115"` in `20240115_create_user.sql`).
+		*/
+	version: string;
+	/**
+		* Name of the migration, taken from the rest of its file name (such as `"create_user"` in `20240115_create_user.sql`).
+		*/
+	name: string;
+	/**
+		* - `"pending"`: the migration has not been applied yet
+		* - `"applied"`: the migration has been applied
+		* - `"changed"`: the migration has been applied, but its file has changed since then
+		* - `"missing"`: the migration has been applied, but its file no longer exists
+		*/
+	status: "pending" | "applied" | "changed" | "missing";
+	/**
+		* When the migration was applied (`null` for pending migrations).
+		*/
+	appliedAt: Date | null;
+}
+export interface MigrationMethods {
+	/**
+		* Applies the pending migrations, in ascending order of version, and returns the migrations that were applied.
+		*
+		* Statements of `.sql` files are separated by semicolons. Use the `DELIMITER` command, just like in the mysql command-line client, in order to change the separator of statements that contain semicolons, such as `CREATE PROCEDURE ... BEGIN ... END`:
+		*
+		* ```sql
+		* DELIMITER $$
+		* CREATE TRIGGER user_bi BEFORE INSERT ON user FOR EACH ROW
+		* BEGIN
+		*     SET NEW.name = TRIM(NEW.name);
+		* END$$
+		* DELIMITER ;
+		* ```
+		*
+		* Each migration is executed inside a transaction, which is committed only if the migration succeeds. Beware that MySQL automatically commits the current transaction before executing most DDL statements, such as `create table`, so migrations should not mix DDL statements with other statements that are expected to be rolled back.
+		*
+		* Before applying any migrations, an exception is thrown if any of the migrations already applied has been changed or no longer exists.
+		*
+		* @param count Optional maximum amount of migrations to apply (all pending migrations are applied if no value is provided).
+		*/
+	up(count?: number | null): Promise<MigrationInfo[]>;
+	/**
+		* Reverts the most recently applied migrations, in descending order of version, and returns the migrations that were reverted.
+		*
+		* An exception is thrown if a migration does not have a `.down.sql` file, or a `down()` function.
+		*
+		* @param count Optional amount of migrations to revert (`1` is used if no value is provided).
+		*/
+	down(count?: number | null): Promise<MigrationInfo[]>;
+	/**
+		* Returns all the migrations, including applied and pending ones, in ascending order of version.
+		*/
+	status(): Promise<MigrationInfo[]>;
+}
+/**
+	* Creates the functions that apply, revert and list the migrations stored in `dir`.
+	*/
+export declare function createMigrationMethods(sqlClass: typeof Sql, dir: string): MigrationMethods;
@@ -0,0 +1,248 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createMigrationMethods = createMigrationMethods;
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const log_1 = require("./log");
+const tableName = "teem_migration";
+// File names must start with the version, such as 001_create_user.sql,
+// 20240115-add-index.js or 3.sql.
+const migrationFileName = /^(\d+)(?:[_\-.](.*?))?\.(sql|js|cjs)$/;
+const downFileName = /\.down\.sql$/;
+function compareVersions(a, b) {
+	// Versions are compared as numbers of any length, so that 10 comes after 9.
+	a = a.replace(/^0+(?=\d)/, "");
+	b = b.replace(/^0+(?=\d)/, "");
+	return ((a.length !== b.length) ? (a.length - b.length) : ((a < b) ? -1 : ((a > b) ? 1 : 0)));
+}
+function checksum(contents) {
+	// Line endings are normalized, so that a checkout with different line endings
+	// does not cause a mismatch.
+	return crypto.createHash("sha256").update(contents.replace(/\r\n/g, "\n")).digest("hex");
+}
+function isEmptyStatement(statement) {
+	return !statement.replace(/\/\*[\s\S]*?\*\/|(--|#)[^\n]*/g, "").trim().length;
+}
+/**
+	* Splits a SQL script into its statements, which are separated by semicolons (quoted strings, quoted identifiers and comments are taken into account).
+	*
+	* Just like in the mysql command-line client, the `DELIMITER` command changes the separator of the next statements, such as those containing `BEGIN ... END` blocks.
+	*/
+function splitStatements(script) {
+	const statements = [], length = script.length, delimiterCommand = /delimiter[ \t]+(\S+)[^\n]*/iy;
+	let start = 0, i = 0, delimiter = ";";
+	while (i < length) {
+		const c = script.charCodeAt(i);
+		if (c === delimiter.charCodeAt(0) && script.startsWith(delimiter, i)) {
+			statements.push(script.substring(start, i));
+			i += delimiter.length;
+			start = i;
+			continue;
+		}
+		switch (c) {
+			case 0x22: // "
+			case 0x27: // '
+			case 0x60: // `
+				for (i++; i < length; i++) {
+					const d = script.charCodeAt(i);
+					if (d === 0x5C && c !== 0x60) {
+						i++;
+					}
+					else if (d === c) {
+						if (script.charCodeAt(i + 1) !== c)
+							break;
+						i++;
+					}
+				}
+				break;
+			case 0x23: // #
+				i = script.indexOf("\n", i);
+				if (i < 0)
+					i = length;
+				break;
+			case 0x2D: // -
+				if (script.charCodeAt(i + 1) === 0x2D) {
+					i = script.indexOf("\n", i);
+					if (i < 0)
+						i = length;
+				}
+				break;
+			case 0x2F: // /
+				if (script.charCodeAt(i + 1) === 0x2A) {
+					i = script.indexOf("*/", i + 2);
+					i = ((i < 0) ? length : (i + 1));
+				}
+				break;
+			case 0x44: // D
+			case 0x64: // d
+				// DELIMITER is only recognized at the beginning of a statement.
+				delimiterCommand.lastIndex = i;
+				const match = delimiterCommand.exec(script);
+				if (match && isEmptyStatement(script.substring(start, i))) {
+					delimiter = match[1];
+					i = delimiterCommand.lastIndex;
+					start = i;
+					continue;
+				}
+				break;
+		}
+		i++;
+	}
+	statements.push(script.substring(start));
+	// Remove statements containing only whitespace and comments.
+	return statements.map((statement) => statement.trim()).filter((statement) => !isEmptyStatement(statement));
+}
+async function readMigrationFiles(dir) {
+	let names;
+	try {
+		names = await fs.promises.readdir(dir);
+	}
+	catch (ex) {
+		if (ex && ex.code === "ENOENT")
+			return [];
+		throw ex;
+	}
+	const migrations = [], versions = new Map();
+	for (let i = 0; i < names.length; i++) {
+		const fileName = names[i];
+		if (downFileName.test(fileName))
+			continue;
+		const match = migrationFileName.exec(fileName);
+		if (!match)
+			continue;
+		const version = match[1].replace(/^0+(?=\d)/, ""), file = path.join(dir, fileName), existing = versions.get(version);
+		if (existing)
+			throw new Error(`Duplicate migration version ${version}, in files ${existing} and ${file}`);
+		versions.set(version, file);
+		let downFile = null;
+		if (match[3] === "sql") {
+			downFile = file.substring(0, file.length - 4) + ".down.sql";
+			if (!fs.existsSync(downFile))
+				downFile = null;
+		}
+		migrations.push({
+			version,
+			name: (match[2] || ""),
+			file,
+			downFile,
+			checksum: checksum(await fs.promises.readFile(file, "utf8"))
+		});
+	}
+	return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
+async function runFile(sql, file, functionName) {
+	if (file.endsWith(".sql")) {
+		const statements = splitStatements(await fs.promises.readFile(file, "utf8"));
+		for (let i = 0; i < statements.length; i++)
+			await sql.query(statements[i]);
+		return;
+	}
+	let m = require(file);
+	if (m && m.__esModule && m.default && !m[functionName])
+		m = m.default;
+	if (!m || (typeof m[functionName]) !== "function")
+		throw new Error(`Missing function "${functionName}", in file ${file}`);
+	await Promise.resolve(m[functionName](sql));
+}
+/**
+	* Creates the functions that apply, revert and list the migrations stored in `dir`.
+	*/
+function createMigrationMethods(sqlClass, dir) {
+	const migrationLog = log_1.log.child({ type: "migration" });
+	// All operations are performed while holding a named lock, so that several
+	// processes starting at the same time do not apply the same migrations.
+	const locked = function (callback) {
+		return sqlClass.connect(async (sql) => {
+			if (!await sql.scalar("select get_lock(?, 60)", [tableName]))
+				throw new Error("Timeout waiting for the migration lock");
+			try {
+				await sql.query("create table if not exists " + tableName + " (version varchar(32) not null, name varchar(255) not null, checksum char(64) not null, applied_at datetime not null, primary key (version))");
+				return await callback(sql);
+			}
+			finally {
+				await sql.query("do release_lock(?)", [tableName]);
+			}
+		});
+	};
+	const loadApplied = async function (sql) {
+		const rows = await sql.query("select version, name, checksum, applied_at from " + tableName), applied = new Map();
+		for (let i = 0; i < rows.length; i++)
+			applied.set(rows[i].version, { version: rows[i].version, name: rows[i].name, checksum: rows[i].checksum, appliedAt: new Date(rows[i].applied_at) });
+		return applied;
+	};
+	const buildStatus = function (files, applied) {
+		const infos = [], found = new Set();
+		for (let i = 0; i < files.length; i++) {
+			const file = files[i], appliedMigration = applied.get(file.version);
+			found.add(file.version);
+			infos.push({
+				version: file.version,
+				name: file.name,
+				status: (appliedMigration ? ((appliedMigration.checksum === file.checksum) ? "applied" : "changed") : "pending"),
+				appliedAt: (appliedMigration ? appliedMigration.appliedAt : null)
+			});
+		}
+		for (let appliedMigration of applied.values()) {
+			if (!found.has(appliedMigration.version))
+				infos.push({ version: appliedMigration.version, name: appliedMigration.name, status: "missing", appliedAt: appliedMigration.appliedAt });
+		}
+		return infos.sort((a, b) => compareVersions(a.version, b.version));
+	};
+	return {
+		up: function (count) {
+			return locked(async (sql) => {
+				const files = await readMigrationFiles(dir), applied = await loadApplied(sql), status = buildStatus(files, applied), problems = status.filter((info) => (info.status === "changed" || info.status === "missing"));
+				if (problems.length)
+					throw new Error("The following migrations have already been applied, but have been changed or no longer exist: " + problems.map((info) => `${info.version} (${info.status})`).join(", "));
+				let remaining = ((count === undefined || count === null) ? Infinity : count);
+				const done = [];
+				for (let i = 0; i < files.length && remaining > 0; i++) {
+					const file = files[i];
+					if (applied.has(file.version))
+						continue;
+					migrationLog.info(`Applying migration ${file.version} ${file.name}`, { file: file.file });
+					await sql.beginTransaction();
+					await runFile(sql, file.file, "up");
+					const appliedAt = new Date();
+					await sql.query("insert into " + tableName + " (version, name, checksum, applied_at) values (?, ?, ?, ?)", [file.version, file.name, file.checksum, appliedAt]);
+					await sql.commit();
+					done.push({ version: file.version, name: file.name, status: "applied", appliedAt });
+					remaining--;
+				}
+				return done;
+			});
+		},
+		down: function (count) {
+			return locked(async (sql) => {
+				const files = await readMigrationFiles(dir), applied = await loadApplied(sql), filesByVersion = new Map(), done = [];
+				for (let i = 0; i < files.length; i++)
+					filesByVersion.set(files[i].version, files[i]);
+				const versions = Array.from(applied.keys()).sort(compareVersions).reverse(), total = Math.min(versions.length, ((count === undefined || count === null) ? 1 : count)), reverting = [];
+				// All files are checked before reverting any migrations.
+				for (let i = 0; i < total; i++) {
+					const file = filesByVersion.get(versions[i]);
+					if (!file)
+						throw new Error(`The file of the migration ${versions[i]} no longer exists`);
+					const downFile = (file.file.endsWith(".sql") ? file.downFile : file.file);
+					if (!downFile)
+						throw new Error(`Missing file ${file.file.substring(0, file.file.length - 4) + ".down.sql"}`);
+					reverting.push({ file, downFile });
+				}
+				for (let i = 0; i < reverting.length; i++) {
+					const file = reverting[i].file, downFile = reverting[i].downFile;
+					migrationLog.info(`Reverting migration ${file.version} ${file.name}`, { file: downFile });
+					await sql.beginTransaction();
+					await runFile(sql, downFile, "down");
+					await sql.query("delete from " + tableName + " where version = ?", [file.version]);
+					await sql.commit();
+					done.push({ version: file.version, name: file.name, status: "pending", appliedAt: null });
+				}
+				return done;
+			});
+		},
+		status: function () {
+			return locked(async (sql) => buildStatus(await readMigrationFiles(dir), await loadApplied(sql)));
+		}
+	};
+}
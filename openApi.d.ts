@@ -0,0 +1,31 @@
+﻿import { Schema } from "./validation";
+export interface OpenApiInfo {
+	/**
+		* Title of the API (`"API"` is used if no other value is provided).
+		*/
+	title?: string | null;
+	/**
+		* Version of the API (`"1.0.0"` is used if no other value is provided).
+		*/
+	version?: string | null;
+	/**
+		* Optional description of the API.
+		*/
+	description?: string | null;
+}
+export interface OpenApiRoute {
+	httpMethod: string;
+	route: string;
+	routeParams: {
+		name: string;
+		type: string;
+	}[] | null;
+	routeBodySchema: Schema | null;
+	routeQuerySchema: Schema | null;
+	routeFormData: boolean;
+	summary: string | null;
+	description: string | null;
+	authRequired: boolean;
+	authRoles: string[] | null;
+}
+export declare function createOpenApiDocument(info: OpenApiInfo | null | undefined, serverUrl: string, routes: OpenApiRoute[]): any;
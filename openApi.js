@@ -0,0 +1,169 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createOpenApiDocument = createOpenApiDocument;
+const allHttpMethods = ["delete", "get", "patch", "post", "put"];
+function convertSchemaField(schemaField) {
+	const r = {}, min = schemaField.min, max = schemaField.max, hasMin = (!!min || min === 0), hasMax = (!!max || max === 0);
+	switch (schemaField.type) {
+		case "string":
+			r.type = "string";
+			if (hasMin)
+				r.minLength = min;
+			if (hasMax)
+				r.maxLength = max;
+			break;
+		case "number":
+		case "int":
+			r.type = ((schemaField.type === "int") ? "integer" : "number");
+			if (hasMin)
+				r.minimum = min;
+			if (hasMax)
+				r.maximum = max;
+			break;
+		case "boolean":
+			r.type = "boolean";
+			break;
+		case "object":
+			if (schemaField.properties)
+				return convertSchema(schemaField.properties);
+			r.type = "object";
+			break;
+		case "array":
+			r.type = "array";
+			r.items = (schemaField.items ? convertSchemaField(schemaField.items) : {});
+			if (hasMin)
+				r.minItems = min;
+			if (hasMax)
+				r.maxItems = max;
+			break;
+	}
+	if (schemaField.enum)
+		r.enum = schemaField.enum;
+	return r;
+}
+function convertSchema(schema) {
+	const properties = {}, required = [];
+	for (let name in schema) {
+		properties[name] = convertSchemaField(schema[name]);
+		if (schema[name].required)
+			required.push(name);
+	}
+	const r = {
+		type: "object",
+		properties
+	};
+	if (required.length)
+		r.required = required;
+	return r;
+}
+function convertRouteParamType(type) {
+	switch (type) {
+		case "int":
+			return { type: "integer" };
+		case "float":
+			return { type: "number" };
+		case "boolean":
+			return { type: "boolean" };
+		default:
+			return { type: "string" };
+	}
+}
+function createOperation(route, pathParams) {
+	const operation = {}, parameters = [];
+	if (route.summary)
+		operation.summary = route.summary;
+	if (route.description)
+		operation.description = route.description;
+	for (let i = 0; i < pathParams.length; i++) {
+		const name = pathParams[i];
+		let type = "string";
+		if (route.routeParams) {
+			for (let p = route.routeParams.length - 1; p >= 0; p--) {
+				if (route.routeParams[p].name === name) {
+					type = route.routeParams[p].type;
+					break;
+				}
+			}
+		}
+		parameters.push({
+			name,
+			in: "path",
+			required: true,
+			schema: convertRouteParamType(type)
+		});
+	}
+	if (route.routeQuerySchema) {
+		const schema = route.routeQuerySchema;
+		for (let name in schema) {
+			parameters.push({
+				name,
+				in: "query",
+				required: !!schema[name].required,
+				schema: convertSchemaField(schema[name])
+			});
+		}
+	}
+	if (parameters.length)
+		operation.parameters = parameters;
+	if (route.routeBodySchema || route.routeFormData) {
+		const schema = (route.routeBodySchema ? convertSchema(route.routeBodySchema) : { type: "object" });
+		operation.requestBody = {
+			required: true,
+			content: (route.routeFormData ? {
+				"multipart/form-data": { schema }
+			} : {
+				"application/json": { schema },
+				"application/x-www-form-urlencoded": { schema }
+			})
+		};
+	}
+	operation.responses = {
+		"200": { description: "Success" }
+	};
+	if (pathParams.length || route.routeQuerySchema || route.routeBodySchema)
+		operation.responses["400"] = { description: "Invalid request" };
+	if (route.authRequired) {
+		operation.responses["401"] = { description: "Authentication required" };
+		if (route.authRoles)
+			operation.responses["403"] = { description: "Not allowed for the user's roles" };
+	}
+	return operation;
+}
+/**
+	* Converts an Express.js route, such as `/user/:id(\d+)/edit`, into an OpenAPI path, such as `/user/{id}/edit`, filling `pathParams` with the names of the parameters found.
+	*/
+function convertRoute(route, pathParams) {
+	return route.replace(/:(\w+)(\([^\)]*\))?\??/g, function (match, name) {
+		pathParams.push(name);
+		return "{" + name + "}";
+	});
+}
+function createOpenApiDocument(info, serverUrl, routes) {
+	const paths = {};
+	for (let i = 0; i < routes.length; i++) {
+		const route = routes[i], pathParams = [], openApiPath = convertRoute(route.route, pathParams), pathItem = (paths[openApiPath] || (paths[openApiPath] = {}));
+		if (route.httpMethod === "all") {
+			for (let m = 0; m < allHttpMethods.length; m++) {
+				if (!pathItem[allHttpMethods[m]])
+					pathItem[allHttpMethods[m]] = createOperation(route, pathParams);
+			}
+		}
+		else {
+			pathItem[route.httpMethod] = createOperation(route, pathParams);
+		}
+	}
+	const document = {
+		openapi: "3.0.3",
+		info: {
+			title: ((info && info.title) || "API"),
+			version: ((info && info.version) || "1.0.0")
+		},
+		servers: [
+			{ url: (serverUrl || "/") }
+		],
+		paths
+	};
+	if (info && info.description)
+		document.info.description = info.description;
+	return document;
+}
@@ -0,0 +1,147 @@
+﻿import mysql = require("mysql2");
+/**
+	* Conditions of a `WHERE` clause, combined with `AND`.
+	*
+	* Each property is a column name, such as `id` or `u.name`, and its value can be:
+	*
+	* - `null`: produces `column IS NULL`
+	* - An array: produces `column IN (...)` (empty arrays produce a condition that is always false)
+	* - An object with a single operator property, such as `{ ">=": 18 }`, `{ "<>": null }` or `{ "like": "A%" }` (the accepted operators are `=`, `<>`, `!=`, `<`, `<=`, `>`, `>=`, `like`, `not like`, `in` and `not in`)
+	* - Any other value: produces `column = ?`
+	*
+	* Properties whose values are `undefined` are ignored, which makes it simple to create optional filters.
+	*/
+export interface WhereConditions {
+	[column: string]: any;
+}
+export interface CompiledQuery {
+	/**
+		* The statement, with ? placeholders.
+		*/
+	queryStr: string;
+	/**
+		* The values of the ? placeholders in `queryStr`.
+		*/
+	values: any[];
+}
+export interface SelectQuery<T> extends PromiseLike<T[]> {
+	/**
+		* Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+		*
+		* @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+		* @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+		*/
+	where(conditions: WhereConditions | string, values?: any[]): SelectQuery<T>;
+	/**
+		* Adds a column to the `ORDER BY` clause. Several calls add several columns.
+		*
+		* @param column Name of the column.
+		* @param direction Sort direction (`"asc"` is used if no other value is provided).
+		*/
+	orderBy(column: string, direction?: "asc" | "desc" | "ASC" | "DESC" | null): SelectQuery<T>;
+	/**
+		* Sets the `LIMIT` clause.
+		*
+		* @param count Maximum amount of rows returned.
+		* @param offset Optional amount of rows skipped.
+		*/
+	limit(count: number, offset?: number | null): SelectQuery<T>;
+	/**
+		* Returns the statement that would be executed, along with its values.
+		*/
+	toSql(): CompiledQuery;
+}
+export interface InsertQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+		* Returns the statement that would be executed, along with its values.
+		*/
+	toSql(): CompiledQuery;
+}
+export interface UpdateQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+		* Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+		*
+		* At least one condition must be provided (conditions whose values are `undefined` are ignored), unless `whereAll()` is called, otherwise an exception is thrown when the query is executed.
+		*
+		* @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+		* @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+		*/
+	where(conditions: WhereConditions | string, values?: any[]): UpdateQuery;
+	/**
+		* Explicitly allows the query to update all rows of the table when no conditions are provided to `where()`.
+		*/
+	whereAll(): UpdateQuery;
+	/**
+		* Returns the statement that would be executed, along with its values.
+		*/
+	toSql(): CompiledQuery;
+}
+export interface DeleteQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+		* Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+		*
+		* At least one condition must be provided (conditions whose values are `undefined` are ignored), unless `whereAll()` is called, otherwise an exception is thrown when the query is executed.
+		*
+		* @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+		* @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+		*/
+	where(conditions: WhereConditions | string, values?: any[]): DeleteQuery;
+	/**
+		* Explicitly allows the query to delete all rows of the table when no conditions are provided to `where()`.
+		*/
+	whereAll(): DeleteQuery;
+	/**
+		* Returns the statement that would be executed, along with its values.
+		*/
+	toSql(): CompiledQuery;
+}
+type Execute = (queryStr: string, values: any[]) => Promise<any>;
+export declare class Select<T> implements SelectQuery<T> {
+	private readonly execute;
+	private readonly table;
+	private readonly columns;
+	private readonly whereClause;
+	private readonly order;
+	private limitCount;
+	private limitOffset;
+	constructor(execute: Execute, table: string, columns: string[] | null);
+	where(conditions: WhereConditions | string, values?: any[]): SelectQuery<T>;
+	orderBy(column: string, direction?: "asc" | "desc" | "ASC" | "DESC" | null): SelectQuery<T>;
+	limit(count: number, offset?: number | null): SelectQuery<T>;
+	toSql(): CompiledQuery;
+	then<R1 = T[], R2 = never>(onfulfilled?: ((value: T[]) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2>;
+}
+export declare class Insert implements InsertQuery {
+	private readonly execute;
+	private readonly table;
+	private readonly rows;
+	private readonly updateColumns;
+	/**
+		* `updateColumns` is only provided for upserts (`null` means all columns of the rows).
+		*/
+	constructor(execute: Execute, table: string, rows: any | any[], updateColumns?: string[] | null);
+	toSql(): CompiledQuery;
+	then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2>;
+}
+export declare class Update implements UpdateQuery {
+	private readonly execute;
+	private readonly table;
+	private readonly row;
+	private readonly whereClause;
+	constructor(execute: Execute, table: string, row: any);
+	where(conditions: WhereConditions | string, values?: any[]): UpdateQuery;
+	whereAll(): UpdateQuery;
+	toSql(): CompiledQuery;
+	then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2>;
+}
+export declare class Delete implements DeleteQuery {
+	private readonly execute;
+	private readonly table;
+	private readonly whereClause;
+	constructor(execute: Execute, table: string);
+	where(conditions: WhereConditions | string, values?: any[]): DeleteQuery;
+	whereAll(): DeleteQuery;
+	toSql(): CompiledQuery;
+	then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2>;
+}
+export {};
@@ -0,0 +1,281 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.Delete = exports.Update = exports.Insert = exports.Select = void 0;
+const mysql = require("mysql2");
+const operators = {
+	"=": "=",
+	"<>": "<>",
+	"!=": "<>",
+	"<": "<",
+	"<=": "<=",
+	">": ">",
+	">=": ">=",
+	"like": "LIKE",
+	"not like": "NOT LIKE",
+	"in": "IN",
+	"not in": "NOT IN"
+};
+function escapeId(column) {
+	if (!column)
+		throw new Error("Missing column name");
+	// escapeId() also escapes "*", which must be kept as is in "*" and "t.*".
+	return ((column === "*") ? column : (column.endsWith(".*") ? (mysql.escapeId(column.substring(0, column.length - 2)) + ".*") : mysql.escapeId(column)));
+}
+function isPlainObject(value) {
+	return (!!value && (typeof value) === "object" && !Array.isArray(value) && !Buffer.isBuffer(value) && !(value instanceof Date));
+}
+function inList(column, operator, list, values) {
+	if (!list.length)
+		return ((operator === "IN") ? "1 = 0" : "1 = 1");
+	values.push(...list);
+	return column + " " + operator + " (?" + ", ?".repeat(list.length - 1) + ")";
+}
+function compileCondition(column, value, values) {
+	const id = escapeId(column);
+	if (value === null)
+		return id + " IS NULL";
+	if (Array.isArray(value))
+		return inList(id, "IN", value, values);
+	if (!isPlainObject(value)) {
+		values.push(value);
+		return id + " = ?";
+	}
+	const keys = Object.keys(value);
+	if (keys.length !== 1)
+		throw new Error(`Invalid condition for the column "${column}"`);
+	const operator = operators[keys[0].toLowerCase()], operand = value[keys[0]];
+	if (!operator)
+		throw new Error(`Invalid operator for the column "${column}": "${keys[0]}"`);
+	if (operator === "IN" || operator === "NOT IN") {
+		if (!Array.isArray(operand))
+			throw new Error(`The operator "${keys[0]}" requires an array for the column "${column}"`);
+		return inList(id, operator, operand, values);
+	}
+	if (operand === null) {
+		if (operator === "=")
+			return id + " IS NULL";
+		if (operator === "<>")
+			return id + " IS NOT NULL";
+	}
+	values.push(operand);
+	return id + " " + operator + " ?";
+}
+class Where {
+	constructor() {
+		this.conditions = [];
+		this.values = [];
+		this.all = false;
+	}
+	add(conditions, values) {
+		if ((typeof conditions) === "string") {
+			this.conditions.push("(" + conditions + ")");
+			if (values)
+				this.values.push(...values);
+			return;
+		}
+		if (!isPlainObject(conditions))
+			throw new Error("Invalid conditions");
+		for (let column in conditions) {
+			const value = conditions[column];
+			if (value !== undefined)
+				this.conditions.push(compileCondition(column, value, this.values));
+		}
+	}
+	compile(values) {
+		if (!this.conditions.length)
+			return "";
+		values.push(...this.values);
+		return " WHERE " + this.conditions.join(" AND ");
+	}
+}
+function compileRows(table, rows, values) {
+	if (!Array.isArray(rows))
+		rows = [rows];
+	if (!rows.length)
+		throw new Error("Missing rows");
+	// Rows may have different sets of columns, and the missing ones receive their
+	// default values.
+	const columns = [], columnSet = new Set();
+	for (let i = 0; i < rows.length; i++) {
+		if (!isPlainObject(rows[i]))
+			throw new Error("Invalid row");
+		for (let column in rows[i]) {
+			if (rows[i][column] !== undefined && !columnSet.has(column)) {
+				columnSet.add(column);
+				columns.push(column);
+			}
+		}
+	}
+	if (!columns.length)
+		throw new Error("Missing columns");
+	const tuples = new Array(rows.length);
+	for (let i = 0; i < rows.length; i++) {
+		const row = rows[i], placeholders = new Array(columns.length);
+		for (let j = 0; j < columns.length; j++) {
+			const value = row[columns[j]];
+			if (value === undefined) {
+				placeholders[j] = "DEFAULT";
+			}
+			else {
+				placeholders[j] = "?";
+				values.push(value);
+			}
+		}
+		tuples[i] = "(" + placeholders.join(", ") + ")";
+	}
+	return {
+		queryStr: "INSERT INTO " + escapeId(table) + " (" + columns.map(escapeId).join(", ") + ") VALUES " + tuples.join(", "),
+		columns
+	};
+}
+function run(execute, query) {
+	let compiled;
+	// Errors found while compiling the statement must reject the promise, instead
+	// of being thrown by then().
+	try {
+		compiled = query.toSql();
+	}
+	catch (ex) {
+		return Promise.reject(ex);
+	}
+	return execute(compiled.queryStr, compiled.values);
+}
+class Select {
+	constructor(execute, table, columns) {
+		this.whereClause = new Where();
+		this.order = [];
+		this.limitCount = null;
+		this.limitOffset = null;
+		this.execute = execute;
+		this.table = table;
+		this.columns = columns;
+	}
+	where(conditions, values) {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+	orderBy(column, direction) {
+		const dir = (direction ? direction.toUpperCase() : "ASC");
+		if (dir !== "ASC" && dir !== "DESC")
+			throw new Error(`Invalid direction for the column "${column}": "${direction}"`);
+		this.order.push(escapeId(column) + " " + dir);
+		return this;
+	}
+	limit(count, offset) {
+		if (!Number.isSafeInteger(count) || count < 0)
+			throw new Error(`Invalid limit: "${count}"`);
+		if (offset !== undefined && offset !== null && (!Number.isSafeInteger(offset) || offset < 0))
+			throw new Error(`Invalid offset: "${offset}"`);
+		this.limitCount = count;
+		this.limitOffset = (offset || null);
+		return this;
+	}
+	toSql() {
+		const values = [];
+		let queryStr = "SELECT " + ((this.columns && this.columns.length) ? this.columns.map(escapeId).join(", ") : "*") + " FROM " + escapeId(this.table) + this.whereClause.compile(values);
+		if (this.order.length)
+			queryStr += " ORDER BY " + this.order.join(", ");
+		// limit() only accepts integers, which are inlined because the binary protocol
+		// used by Sql.batch() sends numbers as doubles, which MySQL rejects in LIMIT.
+		if (this.limitCount !== null) {
+			queryStr += " LIMIT " + this.limitCount;
+			if (this.limitOffset)
+				queryStr += " OFFSET " + this.limitOffset;
+		}
+		return { queryStr, values };
+	}
+	then(onfulfilled, onrejected) {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+exports.Select = Select;
+class Insert {
+	/**
+		* `updateColumns` is only provided for upserts (`null` means all columns of the rows).
+		*/
+	constructor(execute, table, rows, updateColumns) {
+		this.execute = execute;
+		this.table = table;
+		this.rows = rows;
+		this.updateColumns = updateColumns;
+	}
+	toSql() {
+		const values = [], compiled = compileRows(this.table, this.rows, values);
+		let queryStr = compiled.queryStr;
+		if (this.updateColumns !== undefined) {
+			const updateColumns = ((this.updateColumns && this.updateColumns.length) ? this.updateColumns : compiled.columns);
+			queryStr += " ON DUPLICATE KEY UPDATE " + updateColumns.map((column) => {
+				const id = escapeId(column);
+				return id + " = VALUES(" + id + ")";
+			}).join(", ");
+		}
+		return { queryStr, values };
+	}
+	then(onfulfilled, onrejected) {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+exports.Insert = Insert;
+class Update {
+	constructor(execute, table, row) {
+		this.whereClause = new Where();
+		this.execute = execute;
+		this.table = table;
+		this.row = row;
+	}
+	where(conditions, values) {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+	whereAll() {
+		this.whereClause.all = true;
+		return this;
+	}
+	toSql() {
+		if (!isPlainObject(this.row))
+			throw new Error("Invalid row");
+		const values = [], assignments = [];
+		for (let column in this.row) {
+			const value = this.row[column];
+			if (value !== undefined) {
+				assignments.push(escapeId(column) + " = ?");
+				values.push(value);
+			}
+		}
+		if (!assignments.length)
+			throw new Error("Missing columns");
+		const where = this.whereClause.compile(values);
+		if (!where && !this.whereClause.all)
+			throw new Error("Missing where() conditions in the update of the table " + this.table + " (use whereAll() to update all rows)");
+		return { queryStr: "UPDATE " + escapeId(this.table) + " SET " + assignments.join(", ") + where, values };
+	}
+	then(onfulfilled, onrejected) {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+exports.Update = Update;
+class Delete {
+	constructor(execute, table) {
+		this.whereClause = new Where();
+		this.execute = execute;
+		this.table = table;
+	}
+	where(conditions, values) {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+	whereAll() {
+		this.whereClause.all = true;
+		return this;
+	}
+	toSql() {
+		const values = [], where = this.whereClause.compile(values);
+		if (!where && !this.whereClause.all)
+			throw new Error("Missing where() conditions in the deletion from the table " + this.table + " (use whereAll() to delete all rows)");
+		return { queryStr: "DELETE FROM " + escapeId(this.table) + where, values };
+	}
+	then(onfulfilled, onrejected) {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+exports.Delete = Delete;
@@ -0,0 +1,471 @@
+import mysql = require("mysql2");
+
+/**
+ * Conditions of a `WHERE` clause, combined with `AND`.
+ * 
+ * Each property is a column name, such as `id` or `u.name`, and its value can be:
+ * 
+ * - `null`: produces `column IS NULL`
+ * - An array: produces `column IN (...)` (empty arrays produce a condition that is always false)
+ * - An object with a single operator property, such as `{ ">=": 18 }`, `{ "<>": null }` or `{ "like": "A%" }` (the accepted operators are `=`, `<>`, `!=`, `<`, `<=`, `>`, `>=`, `like`, `not like`, `in` and `not in`)
+ * - Any other value: produces `column = ?`
+ * 
+ * Properties whose values are `undefined` are ignored, which makes it simple to create optional filters.
+ */
+export interface WhereConditions {
+	[column: string]: any;
+}
+
+export interface CompiledQuery {
+	/**
+	 * The statement, with ? placeholders.
+	 */
+	queryStr: string;
+
+	/**
+	 * The values of the ? placeholders in `queryStr`.
+	 */
+	values: any[];
+}
+
+export interface SelectQuery<T> extends PromiseLike<T[]> {
+	/**
+	 * Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+	 * 
+	 * @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+	 * @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+	 */
+	where(conditions: WhereConditions | string, values?: any[]): SelectQuery<T>;
+
+	/**
+	 * Adds a column to the `ORDER BY` clause. Several calls add several columns.
+	 * 
+	 * @param column Name of the column.
+	 * @param direction Sort direction (`"asc"` is used if no other value is provided).
+	 */
+	orderBy(column: string, direction?: "asc" | "desc" | "ASC" | "DESC" | null): SelectQuery<T>;
+
+	/**
+	 * Sets the `LIMIT` clause.
+	 * 
+	 * @param count Maximum amount of rows returned.
+	 * @param offset Optional amount of rows skipped.
+	 */
+	limit(count: number, offset?: number | null): SelectQuery<T>;
+
+	/**
+	 * Returns the statement that would be executed, along with its values.
+	 */
+	toSql(): CompiledQuery;
+}
+
+export interface InsertQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+	 * Returns the statement that would be executed, along with its values.
+	 */
+	toSql(): CompiledQuery;
+}
+
+export interface UpdateQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+	 * Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+	 * 
+	 * At least one condition must be provided (conditions whose values are `undefined` are ignored), unless `whereAll()` is called, otherwise an exception is thrown when the query is executed.
+	 * 
+	 * @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+	 * @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+	 */
+	where(conditions: WhereConditions | string, values?: any[]): UpdateQuery;
+
+	/**
+	 * Explicitly allows the query to update all rows of the table when no conditions are provided to `where()`.
+	 */
+	whereAll(): UpdateQuery;
+
+	/**
+	 * Returns the statement that would be executed, along with its values.
+	 */
+	toSql(): CompiledQuery;
+}
+
+export interface DeleteQuery extends PromiseLike<mysql.ResultSetHeader> {
+	/**
+	 * Adds conditions to the `WHERE` clause. Several calls are combined with `AND`.
+	 * 
+	 * At least one condition must be provided (conditions whose values are `undefined` are ignored), unless `whereAll()` is called, otherwise an exception is thrown when the query is executed.
+	 * 
+	 * @param conditions Object with the conditions (refer to `app.WhereConditions` for more information), or a raw condition, such as `"a > ? OR b IS NULL"`.
+	 * @param values Values of the ? placeholders used in `conditions`, when it is a raw condition.
+	 */
+	where(conditions: WhereConditions | string, values?: any[]): DeleteQuery;
+
+	/**
+	 * Explicitly allows the query to delete all rows of the table when no conditions are provided to `where()`.
+	 */
+	whereAll(): DeleteQuery;
+
+	/**
+	 * Returns the statement that would be executed, along with its values.
+	 */
+	toSql(): CompiledQuery;
+}
+
+type Execute = (queryStr: string, values: any[]) => Promise<any>;
+
+const operators: { [operator: string]: string } = {
+	"=": "=",
+	"<>": "<>",
+	"!=": "<>",
+	"<": "<",
+	"<=": "<=",
+	">": ">",
+	">=": ">=",
+	"like": "LIKE",
+	"not like": "NOT LIKE",
+	"in": "IN",
+	"not in": "NOT IN"
+};
+
+function escapeId(column: string): string {
+	if (!column)
+		throw new Error("Missing column name");
+
+	// escapeId() also escapes "*", which must be kept as is in "*" and "t.*".
+	return ((column === "*") ? column : (column.endsWith(".*") ? (mysql.escapeId(column.substring(0, column.length - 2)) + ".*") : mysql.escapeId(column)));
+}
+
+function isPlainObject(value: any): boolean {
+	return (!!value && (typeof value) === "object" && !Array.isArray(value) && !Buffer.isBuffer(value) && !(value instanceof Date));
+}
+
+function inList(column: string, operator: string, list: any[], values: any[]): string {
+	if (!list.length)
+		return ((operator === "IN") ? "1 = 0" : "1 = 1");
+
+	values.push(...list);
+
+	return column + " " + operator + " (?" + ", ?".repeat(list.length - 1) + ")";
+}
+
+function compileCondition(column: string, value: any, values: any[]): string {
+	const id = escapeId(column);
+
+	if (value === null)
+		return id + " IS NULL";
+
+	if (Array.isArray(value))
+		return inList(id, "IN", value, values);
+
+	if (!isPlainObject(value)) {
+		values.push(value);
+		return id + " = ?";
+	}
+
+	const keys = Object.keys(value);
+	if (keys.length !== 1)
+		throw new Error(`Invalid condition for the column "${column}"`);
+
+	const operator = operators[keys[0].toLowerCase()],
+		operand = value[keys[0]];
+
+	if (!operator)
+		throw new Error(`Invalid operator for the column "${column}": "${keys[0]}"`);
+
+	if (operator === "IN" || operator === "NOT IN") {
+		if (!Array.isArray(operand))
+			throw new Error(`The operator "${keys[0]}" requires an array for the column "${column}"`);
+		return inList(id, operator, operand, values);
+	}
+
+	if (operand === null) {
+		if (operator === "=")
+			return id + " IS NULL";
+		if (operator === "<>")
+			return id + " IS NOT NULL";
+	}
+
+	values.push(operand);
+	return id + " " + operator + " ?";
+}
+
+class Where {
+	private readonly conditions: string[] = [];
+	private readonly values: any[] = [];
+	public all = false;
+
+	public add(conditions: WhereConditions | string, values?: any[]): void {
+		if ((typeof conditions) === "string") {
+			this.conditions.push("(" + conditions + ")");
+			if (values)
+				this.values.push(...values);
+			return;
+		}
+
+		if (!isPlainObject(conditions))
+			throw new Error("Invalid conditions");
+
+		for (let column in conditions as WhereConditions) {
+			const value = (conditions as WhereConditions)[column];
+			if (value !== undefined)
+				this.conditions.push(compileCondition(column, value, this.values));
+		}
+	}
+
+	public compile(values: any[]): string {
+		if (!this.conditions.length)
+			return "";
+
+		values.push(...this.values);
+
+		return " WHERE " + this.conditions.join(" AND ");
+	}
+}
+
+function compileRows(table: string, rows: any | any[], values: any[]): { queryStr: string, columns: string[] } {
+	if (!Array.isArray(rows))
+		rows = [rows];
+
+	if (!rows.length)
+		throw new Error("Missing rows");
+
+	// Rows may have different sets of columns, and the missing ones receive their
+	// default values.
+	const columns: string[] = [], columnSet = new Set<string>();
+	for (let i = 0; i < rows.length; i++) {
+		if (!isPlainObject(rows[i]))
+			throw new Error("Invalid row");
+
+		for (let column in rows[i]) {
+			if (rows[i][column] !== undefined && !columnSet.has(column)) {
+				columnSet.add(column);
+				columns.push(column);
+			}
+		}
+	}
+
+	if (!columns.length)
+		throw new Error("Missing columns");
+
+	const tuples: string[] = new Array(rows.length);
+	for (let i = 0; i < rows.length; i++) {
+		const row = rows[i], placeholders: string[] = new Array(columns.length);
+		for (let j = 0; j < columns.length; j++) {
+			const value = row[columns[j]];
+			if (value === undefined) {
+				placeholders[j] = "DEFAULT";
+			} else {
+				placeholders[j] = "?";
+				values.push(value);
+			}
+		}
+		tuples[i] = "(" + placeholders.join(", ") + ")";
+	}
+
+	return {
+		queryStr: "INSERT INTO " + escapeId(table) + " (" + columns.map(escapeId).join(", ") + ") VALUES " + tuples.join(", "),
+		columns
+	};
+}
+
+function run(execute: Execute, query: { toSql(): CompiledQuery }): Promise<any> {
+	let compiled: CompiledQuery;
+
+	// Errors found while compiling the statement must reject the promise, instead
+	// of being thrown by then().
+	try {
+		compiled = query.toSql();
+	} catch (ex: any) {
+		return Promise.reject(ex);
+	}
+
+	return execute(compiled.queryStr, compiled.values);
+}
+
+export class Select<T> implements SelectQuery<T> {
+	private readonly execute: Execute;
+	private readonly table: string;
+	private readonly columns: string[] | null;
+	private readonly whereClause = new Where();
+	private readonly order: string[] = [];
+	private limitCount: number | null = null;
+	private limitOffset: number | null = null;
+
+	public constructor(execute: Execute, table: string, columns: string[] | null) {
+		this.execute = execute;
+		this.table = table;
+		this.columns = columns;
+	}
+
+	public where(conditions: WhereConditions | string, values?: any[]): SelectQuery<T> {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+
+	public orderBy(column: string, direction?: "asc" | "desc" | "ASC" | "DESC" | null): SelectQuery<T> {
+		const dir = (direction ? direction.toUpperCase() : "ASC");
+		if (dir !== "ASC" && dir !== "DESC")
+			throw new Error(`Invalid direction for the column "${column}": "${direction}"`);
+
+		this.order.push(escapeId(column) + " " + dir);
+		return this;
+	}
+
+	public limit(count: number, offset?: number | null): SelectQuery<T> {
+		if (!Number.isSafeInteger(count) || count < 0)
+			throw new Error(`Invalid limit: "${count}"`);
+
+		if (offset !== undefined && offset !== null && (!Number.isSafeInteger(offset) || offset < 0))
+			throw new Error(`Invalid offset: "${offset}"`);
+
+		this.limitCount = count;
+		this.limitOffset = (offset || null);
+		return this;
+	}
+
+	public toSql(): CompiledQuery {
+		const values: any[] = [];
+
+		let queryStr = "SELECT " + ((this.columns && this.columns.length) ? this.columns.map(escapeId).join(", ") : "*") + " FROM " + escapeId(this.table) + this.whereClause.compile(values);
+
+		if (this.order.length)
+			queryStr += " ORDER BY " + this.order.join(", ");
+
+		// limit() only accepts integers, which are inlined because the binary protocol
+		// used by Sql.batch() sends numbers as doubles, which MySQL rejects in LIMIT.
+		if (this.limitCount !== null) {
+			queryStr += " LIMIT " + this.limitCount;
+			if (this.limitOffset)
+				queryStr += " OFFSET " + this.limitOffset;
+		}
+
+		return { queryStr, values };
+	}
+
+	public then<R1 = T[], R2 = never>(onfulfilled?: ((value: T[]) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2> {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+
+export class Insert implements InsertQuery {
+	private readonly execute: Execute;
+	private readonly table: string;
+	private readonly rows: any | any[];
+	private readonly updateColumns: string[] | null | undefined;
+
+	/**
+	 * `updateColumns` is only provided for upserts (`null` means all columns of the rows).
+	 */
+	public constructor(execute: Execute, table: string, rows: any | any[], updateColumns?: string[] | null) {
+		this.execute = execute;
+		this.table = table;
+		this.rows = rows;
+		this.updateColumns = updateColumns;
+	}
+
+	public toSql(): CompiledQuery {
+		const values: any[] = [],
+			compiled = compileRows(this.table, this.rows, values);
+
+		let queryStr = compiled.queryStr;
+
+		if (this.updateColumns !== undefined) {
+			const updateColumns = ((this.updateColumns && this.updateColumns.length) ? this.updateColumns : compiled.columns);
+			queryStr += " ON DUPLICATE KEY UPDATE " + updateColumns.map((column) => {
+				const id = escapeId(column);
+				return id + " = VALUES(" + id + ")";
+			}).join(", ");
+		}
+
+		return { queryStr, values };
+	}
+
+	public then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2> {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+
+export class Update implements UpdateQuery {
+	private readonly execute: Execute;
+	private readonly table: string;
+	private readonly row: any;
+	private readonly whereClause = new Where();
+
+	public constructor(execute: Execute, table: string, row: any) {
+		this.execute = execute;
+		this.table = table;
+		this.row = row;
+	}
+
+	public where(conditions: WhereConditions | string, values?: any[]): UpdateQuery {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+
+	public whereAll(): UpdateQuery {
+		this.whereClause.all = true;
+		return this;
+	}
+
+	public toSql(): CompiledQuery {
+		if (!isPlainObject(this.row))
+			throw new Error("Invalid row");
+
+		const values: any[] = [], assignments: string[] = [];
+
+		for (let column in this.row) {
+			const value = this.row[column];
+			if (value !== undefined) {
+				assignments.push(escapeId(column) + " = ?");
+				values.push(value);
+			}
+		}
+
+		if (!assignments.length)
+			throw new Error("Missing columns");
+
+		const where = this.whereClause.compile(values);
+		if (!where && !this.whereClause.all)
+			throw new Error("Missing where() conditions in the update of the table " + this.table + " (use whereAll() to update all rows)");
+
+		return { queryStr: "UPDATE " + escapeId(this.table) + " SET " + assignments.join(", ") + where, values };
+	}
+
+	public then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2> {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
+
+export class Delete implements DeleteQuery {
+	private readonly execute: Execute;
+	private readonly table: string;
+	private readonly whereClause = new Where();
+
+	public constructor(execute: Execute, table: string) {
+		this.execute = execute;
+		this.table = table;
+	}
+
+	public where(conditions: WhereConditions | string, values?: any[]): DeleteQuery {
+		this.whereClause.add(conditions, values);
+		return this;
+	}
+
+	public whereAll(): DeleteQuery {
+		this.whereClause.all = true;
+		return this;
+	}
+
+	public toSql(): CompiledQuery {
+		const values: any[] = [],
+			where = this.whereClause.compile(values);
+
+		if (!where && !this.whereClause.all)
+			throw new Error("Missing where() conditions in the deletion from the table " + this.table + " (use whereAll() to delete all rows)");
+
+		return { queryStr: "DELETE FROM " + escapeId(this.table) + where, values };
+	}
+
+	public then<R1 = mysql.ResultSetHeader, R2 = never>(onfulfilled?: ((value: mysql.ResultSetHeader) => R1 | PromiseLike<R1>) | null, onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2> {
+		return run(this.execute, this).then(onfulfilled, onrejected);
+	}
+}
@@ -0,0 +1,77 @@
+﻿import express = require("express");
+import type { Sql } from "./sql";
+export interface RateLimitHit {
+	/**
+		* Amount of requests made with the key during the current window, including the current request.
+		*/
+	count: number;
+	/**
+		* Moment when the current window ends, in milliseconds since the epoch.
+		*/
+	resetAt: number;
+}
+export interface RateLimitStore {
+	/**
+		* Registers a new request made with the given key, and returns the amount of requests made with the key during the current window.
+		*/
+	hit(key: string, windowMs: number): Promise<RateLimitHit>;
+	/**
+		* Optional function called by `app.stop()`, used to release any resources held by the store.
+		*/
+	close?(): Promise<void> | void;
+}
+export interface RateLimitOptions {
+	/**
+		* Duration of the window, in milliseconds (`60000`, or 1 minute, is used if no other value is provided).
+		*/
+	windowMs?: number | null;
+	/**
+		* Maximum amount of requests accepted from the same client during the window.
+		*
+		* When used in `config.rateLimit`, the global limit is only applied if a value is provided. When used in `@app.route.rateLimit()`, `60` is used if no other value is provided.
+		*/
+	max?: number | null;
+	/**
+		* Function used to identify the client of the request (`req.ip` is used if no function is provided).
+		*
+		* If the function returns `null`, `undefined` or an empty string, the request is not limited.
+		*/
+	key?: ((req: express.Request) => string | null | undefined) | null;
+}
+export interface RateLimitConfig extends RateLimitOptions {
+	/**
+		* Where the amount of requests are stored (`"memory"` is used if no other value is provided).
+		*
+		* - `"memory"`: counters are stored in the process memory (not shared with other processes)
+		* - `"mysql"`: counters are stored in the table `config.rateLimit.tableName`, using `app.sql` (`config.sqlConfig` must be provided), which is automatically created if it does not exist, so that limits are shared by all processes using the same database
+		*
+		* A custom object implementing `app.RateLimitStore` can also be provided.
+		*/
+	store?: "memory" | "mysql" | RateLimitStore | null;
+	/**
+		* Name of the table where the counters are stored when `config.rateLimit.store` is `"mysql"` (`"teem_rate_limit"` is used if no other value is provided).
+		*/
+	tableName?: string | null;
+}
+export declare class MemoryRateLimitStore implements RateLimitStore {
+	private readonly counters;
+	private cleanUpInterval;
+	constructor();
+	hit(key: string, windowMs: number): Promise<RateLimitHit>;
+	close(): void;
+}
+export declare class MySqlRateLimitStore implements RateLimitStore {
+	private readonly sql;
+	private readonly tableName;
+	private tableCreated;
+	private cleanUpInterval;
+	constructor(sql: typeof Sql, tableName: string);
+	private connect;
+	hit(key: string, windowMs: number): Promise<RateLimitHit>;
+	close(): void;
+}
+export declare function createRateLimitStore(rateLimitConfig: RateLimitConfig, sql: typeof Sql | null): RateLimitStore;
+/**
+	* Creates a middleware that limits the amount of requests made by each client, using `keyPrefix` to separate the counters of different limits.
+	*/
+export declare function createRateLimitMiddleware(store: RateLimitStore, options: RateLimitOptions, keyPrefix: string): Function;
@@ -0,0 +1,170 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.MySqlRateLimitStore = exports.MemoryRateLimitStore = void 0;
+exports.createRateLimitStore = createRateLimitStore;
+exports.createRateLimitMiddleware = createRateLimitMiddleware;
+const crypto = require("crypto");
+const errors_1 = require("./errors");
+const log_1 = require("./log");
+// Both stores below use the sliding window counter approach: the counters of
+// the current and of the previous fixed windows are kept, and the amount of
+// requests in the sliding window is estimated by weighting the previous counter
+// by how much of the previous window still overlaps the sliding window.
+function estimateCount(now, windowStart, windowMs, current, previous) {
+	return current + Math.floor(previous * (windowMs - (now - windowStart)) / windowMs);
+}
+class MemoryRateLimitStore {
+	constructor() {
+		this.counters = new Map();
+		this.cleanUpInterval = setInterval(() => {
+			const now = Date.now();
+			for (let [key, counter] of this.counters) {
+				if (counter.windowStart + (2 * counter.windowMs) <= now)
+					this.counters.delete(key);
+			}
+		}, 60000);
+		this.cleanUpInterval.unref();
+	}
+	async hit(key, windowMs) {
+		const now = Date.now(), windowStart = now - (now % windowMs);
+		let counter = this.counters.get(key);
+		if (!counter || counter.windowMs !== windowMs) {
+			counter = { windowStart, windowMs, current: 0, previous: 0 };
+			this.counters.set(key, counter);
+		}
+		else if (counter.windowStart !== windowStart) {
+			counter.previous = ((counter.windowStart === windowStart - windowMs) ? counter.current : 0);
+			counter.current = 0;
+			counter.windowStart = windowStart;
+		}
+		counter.current++;
+		return {
+			count: estimateCount(now, windowStart, windowMs, counter.current, counter.previous),
+			resetAt: windowStart + windowMs
+		};
+	}
+	close() {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+		this.counters.clear();
+	}
+}
+exports.MemoryRateLimitStore = MemoryRateLimitStore;
+class MySqlRateLimitStore {
+	constructor(sql, tableName) {
+		this.tableCreated = null;
+		this.sql = sql;
+		this.tableName = tableName;
+		this.cleanUpInterval = setInterval(() => {
+			this.connect((sql) => sql.query("delete from " + this.tableName + " where expires_at <= ?", [Date.now()])).catch(function (reason) {
+				log_1.log.error("Error removing expired rate limit counters", { err: reason });
+			});
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+	async connect(callback) {
+		if (!this.tableCreated) {
+			this.tableCreated = this.sql.connect(async (sql) => {
+				await sql.query("create table if not exists " + this.tableName + " (id varchar(255) not null, window_start bigint not null, current int not null, previous int not null, expires_at bigint not null, primary key (id), key " + this.tableName + "_expires_at (expires_at))");
+			});
+			// Try again during the next request.
+			this.tableCreated.catch(() => {
+				this.tableCreated = null;
+			});
+		}
+		await this.tableCreated;
+		return this.sql.connect(callback);
+	}
+	async hit(key, windowMs) {
+		const now = Date.now(), windowStart = now - (now % windowMs), expiresAt = windowStart + (2 * windowMs);
+		if (key.length > 255)
+			key = crypto.createHash("sha256").update(key).digest("hex");
+		return this.connect(async (sql) => {
+			await sql.beginTransaction();
+			// MySQL evaluates the assignments from left to right, so previous and current
+			// must be updated before window_start.
+			await sql.query("insert into " + this.tableName + " (id, window_start, current, previous, expires_at) values (?, ?, 1, 0, ?) on duplicate key update previous = if(window_start = ?, previous, if(window_start = ?, current, 0)), current = if(window_start = ?, current + 1, 1), window_start = ?, expires_at = ?", [
+				key, windowStart, expiresAt,
+				windowStart, windowStart - windowMs,
+				windowStart,
+				windowStart, expiresAt
+			]);
+			const rows = await sql.query("select current, previous from " + this.tableName + " where id = ?", [key]);
+			await sql.commit();
+			const row = (rows && rows[0]);
+			return {
+				count: (row ? estimateCount(now, windowStart, windowMs, parseInt(row.current), parseInt(row.previous)) : 1),
+				resetAt: windowStart + windowMs
+			};
+		});
+	}
+	close() {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+exports.MySqlRateLimitStore = MySqlRateLimitStore;
+function createRateLimitStore(rateLimitConfig, sql) {
+	const store = rateLimitConfig.store;
+	if (store && (typeof store) === "object")
+		return store;
+	switch (store || "memory") {
+		case "memory":
+			return new MemoryRateLimitStore();
+		case "mysql":
+			if (!sql)
+				throw new Error("config.rateLimit.store is \"mysql\", but config.sqlConfig has not been provided");
+			const tableName = (rateLimitConfig.tableName || "teem_rate_limit");
+			if (!/^\w+$/.test(tableName))
+				throw new Error(`Invalid rate limit table name "${tableName}"`);
+			return new MySqlRateLimitStore(sql, tableName);
+		default:
+			throw new Error(`Invalid rate limit store "${store}"`);
+	}
+}
+function defaultKey(req) {
+	return (req.ip || "");
+}
+/**
+	* Creates a middleware that limits the amount of requests made by each client, using `keyPrefix` to separate the counters of different limits.
+	*/
+function createRateLimitMiddleware(store, options, keyPrefix) {
+	let windowMs = parseInt(options.windowMs);
+	if (isNaN(windowMs) || windowMs <= 0)
+		windowMs = 60000;
+	let max = parseInt(options.max);
+	if (isNaN(max) || max <= 0)
+		max = 60;
+	const key = (options.key || defaultKey);
+	return function (req, res, next) {
+		let k;
+		try {
+			k = key(req);
+		}
+		catch (ex) {
+			next(ex);
+			return;
+		}
+		if (!k) {
+			next();
+			return;
+		}
+		store.hit(keyPrefix + k, windowMs).then(function (hit) {
+			const reset = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+			// https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+			res.setHeader("RateLimit-Limit", max);
+			res.setHeader("RateLimit-Remaining", Math.max(0, max - hit.count));
+			res.setHeader("RateLimit-Reset", reset);
+			if (hit.count > max) {
+				res.setHeader("Retry-After", reset);
+				next(new errors_1.TooManyRequests());
+				return;
+			}
+			next();
+		}, next);
+	};
+}
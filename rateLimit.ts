@@ -0,0 +1,274 @@
+import crypto = require("crypto");
+import express = require("express");
+import { TooManyRequests } from "./errors";
+import { log } from "./log";
+
+import type { Sql } from "./sql";
+
+export interface RateLimitHit {
+	/**
+	 * Amount of requests made with the key during the current window, including the current request.
+	 */
+	count: number;
+
+	/**
+	 * Moment when the current window ends, in milliseconds since the epoch.
+	 */
+	resetAt: number;
+}
+
+export interface RateLimitStore {
+	/**
+	 * Registers a new request made with the given key, and returns the amount of requests made with the key during the current window.
+	 */
+	hit(key: string, windowMs: number): Promise<RateLimitHit>;
+
+	/**
+	 * Optional function called by `app.stop()`, used to release any resources held by the store.
+	 */
+	close?(): Promise<void> | void;
+}
+
+export interface RateLimitOptions {
+	/**
+	 * Duration of the window, in milliseconds (`60000`, or 1 minute, is used if no other value is provided).
+	 */
+	windowMs?: number | null;
+
+	/**
+	 * Maximum amount of requests accepted from the same client during the window.
+	 * 
+	 * When used in `config.rateLimit`, the global limit is only applied if a value is provided. When used in `@app.route.rateLimit()`, `60` is used if no other value is provided.
+	 */
+	max?: number | null;
+
+	/**
+	 * Function used to identify the client of the request (`req.ip` is used if no function is provided).
+	 * 
+	 * If the function returns `null`, `undefined` or an empty string, the request is not limited.
+	 */
+	key?: ((req: express.Request) => string | null | undefined) | null;
+}
+
+export interface RateLimitConfig extends RateLimitOptions {
+	/**
+	 * Where the amount of requests are stored (`"memory"` is used if no other value is provided).
+	 * 
+	 * - `"memory"`: counters are stored in the process memory (not shared with other processes)
+	 * - `"mysql"`: counters are stored in the table `config.rateLimit.tableName`, using `app.sql` (`config.sqlConfig` must be provided), which is automatically created if it does not exist, so that limits are shared by all processes using the same database
+	 * 
+	 * A custom object implementing `app.RateLimitStore` can also be provided.
+	 */
+	store?: "memory" | "mysql" | RateLimitStore | null;
+
+	/**
+	 * Name of the table where the counters are stored when `config.rateLimit.store` is `"mysql"` (`"teem_rate_limit"` is used if no other value is provided).
+	 */
+	tableName?: string | null;
+}
+
+// Both stores below use the sliding window counter approach: the counters of
+// the current and of the previous fixed windows are kept, and the amount of
+// requests in the sliding window is estimated by weighting the previous counter
+// by how much of the previous window still overlaps the sliding window.
+function estimateCount(now: number, windowStart: number, windowMs: number, current: number, previous: number): number {
+	return current + Math.floor(previous * (windowMs - (now - windowStart)) / windowMs);
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+	private readonly counters = new Map<string, { windowStart: number, windowMs: number, current: number, previous: number }>();
+	private cleanUpInterval: NodeJS.Timeout | null;
+
+	public constructor() {
+		this.cleanUpInterval = setInterval(() => {
+			const now = Date.now();
+			for (let [key, counter] of this.counters) {
+				if (counter.windowStart + (2 * counter.windowMs) <= now)
+					this.counters.delete(key);
+			}
+		}, 60000);
+		this.cleanUpInterval.unref();
+	}
+
+	public async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+		const now = Date.now(),
+			windowStart = now - (now % windowMs);
+
+		let counter = this.counters.get(key);
+
+		if (!counter || counter.windowMs !== windowMs) {
+			counter = { windowStart, windowMs, current: 0, previous: 0 };
+			this.counters.set(key, counter);
+		} else if (counter.windowStart !== windowStart) {
+			counter.previous = ((counter.windowStart === windowStart - windowMs) ? counter.current : 0);
+			counter.current = 0;
+			counter.windowStart = windowStart;
+		}
+
+		counter.current++;
+
+		return {
+			count: estimateCount(now, windowStart, windowMs, counter.current, counter.previous),
+			resetAt: windowStart + windowMs
+		};
+	}
+
+	public close(): void {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+		this.counters.clear();
+	}
+}
+
+export class MySqlRateLimitStore implements RateLimitStore {
+	private readonly sql: typeof Sql;
+	private readonly tableName: string;
+	private tableCreated: Promise<void> | null = null;
+	private cleanUpInterval: NodeJS.Timeout | null;
+
+	public constructor(sql: typeof Sql, tableName: string) {
+		this.sql = sql;
+		this.tableName = tableName;
+		this.cleanUpInterval = setInterval(() => {
+			this.connect((sql) => sql.query("delete from " + this.tableName + " where expires_at <= ?", [Date.now()])).catch(function (reason) {
+				log.error("Error removing expired rate limit counters", { err: reason });
+			});
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+
+	private async connect<T>(callback: (sql: Sql) => Promise<T>): Promise<T> {
+		if (!this.tableCreated) {
+			this.tableCreated = this.sql.connect(async (sql) => {
+				await sql.query("create table if not exists " + this.tableName + " (id varchar(255) not null, window_start bigint not null, current int not null, previous int not null, expires_at bigint not null, primary key (id), key " + this.tableName + "_expires_at (expires_at))");
+			});
+			// Try again during the next request.
+			this.tableCreated.catch(() => {
+				this.tableCreated = null;
+			});
+		}
+
+		await this.tableCreated;
+
+		return this.sql.connect(callback);
+	}
+
+	public async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+		const now = Date.now(),
+			windowStart = now - (now % windowMs),
+			expiresAt = windowStart + (2 * windowMs);
+
+		if (key.length > 255)
+			key = crypto.createHash("sha256").update(key).digest("hex");
+
+		return this.connect(async (sql) => {
+			await sql.beginTransaction();
+
+			// MySQL evaluates the assignments from left to right, so previous and current
+			// must be updated before window_start.
+			await sql.query("insert into " + this.tableName + " (id, window_start, current, previous, expires_at) values (?, ?, 1, 0, ?) on duplicate key update previous = if(window_start = ?, previous, if(window_start = ?, current, 0)), current = if(window_start = ?, current + 1, 1), window_start = ?, expires_at = ?", [
+				key, windowStart, expiresAt,
+				windowStart, windowStart - windowMs,
+				windowStart,
+				windowStart, expiresAt
+			]);
+
+			const rows = await sql.query<any>("select current, previous from " + this.tableName + " where id = ?", [key]);
+
+			await sql.commit();
+
+			const row = (rows && rows[0]);
+
+			return {
+				count: (row ? estimateCount(now, windowStart, windowMs, parseInt(row.current), parseInt(row.previous)) : 1),
+				resetAt: windowStart + windowMs
+			};
+		});
+	}
+
+	public close(): void {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+
+export function createRateLimitStore(rateLimitConfig: RateLimitConfig, sql: typeof Sql | null): RateLimitStore {
+	const store = rateLimitConfig.store;
+
+	if (store && (typeof store) === "object")
+		return store as RateLimitStore;
+
+	switch (store || "memory") {
+		case "memory":
+			return new MemoryRateLimitStore();
+
+		case "mysql":
+			if (!sql)
+				throw new Error("config.rateLimit.store is \"mysql\", but config.sqlConfig has not been provided");
+
+			const tableName = (rateLimitConfig.tableName || "teem_rate_limit");
+			if (!/^\w+$/.test(tableName))
+				throw new Error(`Invalid rate limit table name "${tableName}"`);
+
+			return new MySqlRateLimitStore(sql, tableName);
+
+		default:
+			throw new Error(`Invalid rate limit store "${store}"`);
+	}
+}
+
+function defaultKey(req: express.Request): string {
+	return (req.ip || "");
+}
+
+/**
+ * Creates a middleware that limits the amount of requests made by each client, using `keyPrefix` to separate the counters of different limits.
+ */
+export function createRateLimitMiddleware(store: RateLimitStore, options: RateLimitOptions, keyPrefix: string): Function {
+	let windowMs = parseInt(options.windowMs as any);
+	if (isNaN(windowMs) || windowMs <= 0)
+		windowMs = 60000;
+
+	let max = parseInt(options.max as any);
+	if (isNaN(max) || max <= 0)
+		max = 60;
+
+	const key = (options.key || defaultKey);
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		let k: string | null | undefined;
+
+		try {
+			k = key(req);
+		} catch (ex: any) {
+			next(ex);
+			return;
+		}
+
+		if (!k) {
+			next();
+			return;
+		}
+
+		store.hit(keyPrefix + k, windowMs).then(function (hit: RateLimitHit) {
+			const reset = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+			// https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+			res.setHeader("RateLimit-Limit", max);
+			res.setHeader("RateLimit-Remaining", Math.max(0, max - hit.count));
+			res.setHeader("RateLimit-Reset", reset);
+
+			if (hit.count > max) {
+				res.setHeader("Retry-After", reset);
+				next(new TooManyRequests());
+				return;
+			}
+
+			next();
+		}, next);
+	};
+}
@@ -14,6 +14,12 @@ export interface RequestOptions {
 		*/
 	responseTimeout?: number;
 }
+/**
+	* Sets the function called after each request sent by `app.request` (including its redirects) completes, used to collect metrics.
+	*
+	* `statusCode` is `0` when the request fails without a response.
+	*/
+export declare function observeRequests(observer: ((method: string, host: string, statusCode: number, seconds: number) => void) | null): void;
 export interface CommonResponse {
 	/**
 		* Indicates whether the request was successful or not.
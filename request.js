@@ -1,12 +1,45 @@
 ﻿"use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.BufferRequest = exports.StringRequest = exports.JSONRequest = void 0;
+exports.observeRequests = observeRequests;
 const http = require("http");
 const https = require("https");
 const url_1 = require("url");
 const zlib = require("zlib");
+let requestObserver = null;
+/**
+	* Sets the function called after each request sent by `app.request` (including its redirects) completes, used to collect metrics.
+	*
+	* `statusCode` is `0` when the request fails without a response.
+	*/
+function observeRequests(observer) {
+	requestObserver = observer;
+}
+function observe(method, url, promise) {
+	const start = process.hrtime();
+	let host;
+	try {
+		host = (((typeof url) === "string") ? new url_1.URL(url) : url).host;
+	}
+	catch (e) {
+		host = "";
+	}
+	const done = function (statusCode) {
+		if (requestObserver) {
+			const duration = process.hrtime(start);
+			requestObserver(method, host, statusCode, duration[0] + (duration[1] / 1e9));
+		}
+	};
+	return promise.then(function (response) {
+		done(response.statusCode);
+		return response;
+	}, function (reason) {
+		done(0);
+		throw reason;
+	});
+}
 async function send(method, url, jsonBody, body, bodyContentType, jsonResponse, rawBuffer, userOptions, redirCount) {
-	return new Promise(function (resolve, reject) {
+	const promise = new Promise(function (resolve, reject) {
 		try {
 			const u = (((typeof url) === "string") ? new url_1.URL(url) : url), options = {
 				agent: false,
@@ -225,6 +258,8 @@ async function send(method, url, jsonBody, body, bodyContentType, jsonResponse,
 			reject(e);
 		}
 	});
+	// Redirects are observed as part of the original request.
+	return ((requestObserver && !redirCount) ? observe(method, url, promise) : promise);
 }
 class JSONRequest {
 	static async delete(url, options) {
@@ -21,8 +21,45 @@ export interface RequestOptions {
 	responseTimeout?: number;
 }
 
+let requestObserver: ((method: string, host: string, statusCode: number, seconds: number) => void) | null = null;
+
+/**
+ * Sets the function called after each request sent by `app.request` (including its redirects) completes, used to collect metrics.
+ * 
+ * `statusCode` is `0` when the request fails without a response.
+ */
+export function observeRequests(observer: ((method: string, host: string, statusCode: number, seconds: number) => void) | null): void {
+	requestObserver = observer;
+}
+
+function observe(method: string, url: string | URL, promise: Promise<JSONResponse | StringResponse | BufferResponse>): Promise<JSONResponse | StringResponse | BufferResponse> {
+	const start = process.hrtime();
+
+	let host: string;
+	try {
+		host = (((typeof url) === "string") ? new URL(url as string) : (url as URL)).host;
+	} catch (e) {
+		host = "";
+	}
+
+	const done = function (statusCode: number): void {
+		if (requestObserver) {
+			const duration = process.hrtime(start);
+			requestObserver(method, host, statusCode, duration[0] + (duration[1] / 1e9));
+		}
+	};
+
+	return promise.then(function (response) {
+		done(response.statusCode);
+		return response;
+	}, function (reason) {
+		done(0);
+		throw reason;
+	});
+}
+
 async function send(method: string, url: string | URL, jsonBody: string | null, body: Buffer | null, bodyContentType: string | null, jsonResponse: boolean, rawBuffer: boolean, userOptions: RequestOptions | null | undefined, redirCount: number): Promise<JSONResponse | StringResponse | BufferResponse> {
-	return new Promise<JSONResponse | StringResponse | BufferResponse>(function (resolve, reject) {
+	const promise = new Promise<JSONResponse | StringResponse | BufferResponse>(function (resolve, reject) {
 		try {
 			const u = (((typeof url) === "string") ? new URL(url as string) : (url as URL)),
 				options: http.RequestOptions = {
@@ -271,6 +308,9 @@ async function send(method: string, url: string | URL, jsonBody: string | null,
 			reject(e);
 		}
 	});
+
+	// Redirects are observed as part of the original request.
+	return ((requestObserver && !redirCount) ? observe(method, url, promise) : promise);
 }
 
 export interface CommonResponse {
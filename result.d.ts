@@ -0,0 +1,66 @@
+﻿import express = require("express");
+export declare class ViewResult {
+	/**
+		* Name of the view to be rendered, relative to `app.dir.views`.
+		*/
+	readonly view: string;
+	/**
+		* Optional object passed to the view.
+		*/
+	readonly model: any;
+	constructor(view: string, model?: any);
+}
+export declare class RedirectResult {
+	/**
+		* URL to where the client should be redirected.
+		*/
+	readonly url: string;
+	/**
+		* HTTP status code of the redirection.
+		*/
+	readonly status: number;
+	constructor(url: string, status?: number);
+}
+export declare class StatusResult {
+	/**
+		* HTTP status code of the response.
+		*/
+	readonly status: number;
+	/**
+		* Optional body of the response, sent using the same rules applied to the values returned by route handlers.
+		*/
+	readonly body: any;
+	constructor(status: number, body?: any);
+}
+export interface ResultHelpers {
+	/**
+		* Creates a result that renders the view `view`, relative to `app.dir.views`, using `model` as the object passed to the view (the same as calling `res.render(view, model)`).
+		*
+		* @param view Name of the view to be rendered.
+		* @param model Optional object passed to the view.
+		*/
+	view(view: string, model?: any): ViewResult;
+	/**
+		* Creates a result that redirects the client to `url` (the same as calling `res.redirect(status, url)`).
+		*
+		* @param url URL to where the client should be redirected.
+		* @param status HTTP status code of the redirection (`302` is used if no other value is provided).
+		*/
+	redirect(url: string, status?: number): RedirectResult;
+	/**
+		* Creates a result that sends a response with the given status code, and with an optional body.
+		*
+		* If provided, `body` is sent using the same rules applied to the values returned by route handlers. If `body` is not provided, the response is sent without a body.
+		*
+		* @param status HTTP status code of the response.
+		* @param body Optional body of the response.
+		*/
+	status(status: number, body?: any): StatusResult;
+}
+export declare const resultHelpers: ResultHelpers;
+/**
+	* Sends `value`, returned by a route handler, as the response.
+	*
+	* `undefined` means the handler has already responded (or has called `next()`), so nothing is done in that case.
+	*/
+export declare function sendResult(value: any, res: express.Response, next: express.NextFunction): void;
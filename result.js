@@ -0,0 +1,74 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.resultHelpers = exports.StatusResult = exports.RedirectResult = exports.ViewResult = void 0;
+exports.sendResult = sendResult;
+class ViewResult {
+	constructor(view, model) {
+		this.view = view;
+		this.model = model;
+	}
+}
+exports.ViewResult = ViewResult;
+class RedirectResult {
+	constructor(url, status) {
+		this.url = url;
+		this.status = (status || 302);
+	}
+}
+exports.RedirectResult = RedirectResult;
+class StatusResult {
+	constructor(status, body) {
+		this.status = status;
+		this.body = body;
+	}
+}
+exports.StatusResult = StatusResult;
+exports.resultHelpers = {
+	view: function (view, model) { return new ViewResult(view, model); },
+	redirect: function (url, status) { return new RedirectResult(url, status); },
+	status: function (status, body) { return new StatusResult(status, body); }
+};
+function sendBody(value, res, next) {
+	if ((typeof value) === "string") {
+		if (!res.get("Content-Type"))
+			res.type(/^\s*</.test(value) ? "html" : "text");
+		res.send(value);
+	}
+	else if (Buffer.isBuffer(value)) {
+		res.send(value);
+	}
+	else if (value && (typeof value.pipe) === "function") {
+		if (!res.get("Content-Type"))
+			res.type("application/octet-stream");
+		value.once("error", next);
+		value.pipe(res);
+	}
+	else {
+		res.json(value);
+	}
+}
+/**
+	* Sends `value`, returned by a route handler, as the response.
+	*
+	* `undefined` means the handler has already responded (or has called `next()`), so nothing is done in that case.
+	*/
+function sendResult(value, res, next) {
+	if (value === undefined || res.headersSent)
+		return;
+	if (value instanceof ViewResult) {
+		res.render(value.view, value.model);
+	}
+	else if (value instanceof RedirectResult) {
+		res.redirect(value.status, value.url);
+	}
+	else if (value instanceof StatusResult) {
+		res.status(value.status);
+		if (value.body === undefined)
+			res.end();
+		else
+			sendBody(value.body, res, next);
+	}
+	else {
+		sendBody(value, res, next);
+	}
+}
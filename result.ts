@@ -0,0 +1,127 @@
+import express = require("express");
+
+export class ViewResult {
+	/**
+	 * Name of the view to be rendered, relative to `app.dir.views`.
+	 */
+	public readonly view: string;
+
+	/**
+	 * Optional object passed to the view.
+	 */
+	public readonly model: any;
+
+	public constructor(view: string, model?: any) {
+		this.view = view;
+		this.model = model;
+	}
+}
+
+export class RedirectResult {
+	/**
+	 * URL to where the client should be redirected.
+	 */
+	public readonly url: string;
+
+	/**
+	 * HTTP status code of the redirection.
+	 */
+	public readonly status: number;
+
+	public constructor(url: string, status?: number) {
+		this.url = url;
+		this.status = (status || 302);
+	}
+}
+
+export class StatusResult {
+	/**
+	 * HTTP status code of the response.
+	 */
+	public readonly status: number;
+
+	/**
+	 * Optional body of the response, sent using the same rules applied to the values returned by route handlers.
+	 */
+	public readonly body: any;
+
+	public constructor(status: number, body?: any) {
+		this.status = status;
+		this.body = body;
+	}
+}
+
+export interface ResultHelpers {
+	/**
+	 * Creates a result that renders the view `view`, relative to `app.dir.views`, using `model` as the object passed to the view (the same as calling `res.render(view, model)`).
+	 * 
+	 * @param view Name of the view to be rendered.
+	 * @param model Optional object passed to the view.
+	 */
+	view(view: string, model?: any): ViewResult;
+
+	/**
+	 * Creates a result that redirects the client to `url` (the same as calling `res.redirect(status, url)`).
+	 * 
+	 * @param url URL to where the client should be redirected.
+	 * @param status HTTP status code of the redirection (`302` is used if no other value is provided).
+	 */
+	redirect(url: string, status?: number): RedirectResult;
+
+	/**
+	 * Creates a result that sends a response with the given status code, and with an optional body.
+	 * 
+	 * If provided, `body` is sent using the same rules applied to the values returned by route handlers. If `body` is not provided, the response is sent without a body.
+	 * 
+	 * @param status HTTP status code of the response.
+	 * @param body Optional body of the response.
+	 */
+	status(status: number, body?: any): StatusResult;
+}
+
+export const resultHelpers: ResultHelpers = {
+	view: function (view: string, model?: any): ViewResult { return new ViewResult(view, model); },
+	redirect: function (url: string, status?: number): RedirectResult { return new RedirectResult(url, status); },
+	status: function (status: number, body?: any): StatusResult { return new StatusResult(status, body); }
+};
+
+function sendBody(value: any, res: express.Response, next: express.NextFunction): void {
+	if ((typeof value) === "string") {
+		if (!res.get("Content-Type"))
+			res.type(/^\s*</.test(value) ? "html" : "text");
+		res.send(value);
+	} else if (Buffer.isBuffer(value)) {
+		res.send(value);
+	} else if (value && (typeof value.pipe) === "function") {
+		if (!res.get("Content-Type"))
+			res.type("application/octet-stream");
+		value.once("error", next);
+		value.pipe(res);
+	} else {
+		res.json(value);
+	}
+}
+
+/**
+ * Sends `value`, returned by a route handler, as the response.
+ * 
+ * `undefined` means the handler has already responded (or has called `next()`), so nothing is done in that case.
+ */
+export function sendResult(value: any, res: express.Response, next: express.NextFunction): void {
+	if (value === undefined || res.headersSent)
+		return;
+
+	if (value instanceof ViewResult) {
+		res.render(value.view, value.model);
+	} else if (value instanceof RedirectResult) {
+		res.redirect(value.status, value.url);
+	} else if (value instanceof StatusResult) {
+		res.status(value.status);
+		if (value.body === undefined)
+			res.end();
+		else
+			sendBody(value.body, res, next);
+	} else {
+		sendBody(value, res, next);
+	}
+}
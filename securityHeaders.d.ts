@@ -0,0 +1,82 @@
+﻿export interface HstsConfig {
+	/**
+		* Amount of seconds during which the browser must only access the server using HTTPS (`15552000`, or 180 days, is used if no other value is provided).
+		*/
+	maxAge?: number | null;
+	/**
+		* Indicates whether the rule also applies to all subdomains (`true` is used if no other value is provided).
+		*/
+	includeSubDomains?: boolean | null;
+	/**
+		* Indicates whether the `preload` directive is sent (`false` is used if no other value is provided).
+		*
+		* Refer to https://hstspreload.org for more information.
+		*/
+	preload?: boolean | null;
+}
+export interface SecurityHeadersConfig {
+	/**
+		* Configures the header `Strict-Transport-Security`, which is only sent along with responses to requests made over HTTPS (`{ maxAge: 15552000, includeSubDomains: true }` is used if no other value is provided).
+		*
+		* If `false` is provided, the header is not sent.
+		*/
+	hsts?: HstsConfig | boolean | null;
+	/**
+		* Indicates whether the header `X-Content-Type-Options: nosniff` is sent (`true` is used if no other value is provided).
+		*/
+	contentTypeOptions?: boolean | null;
+	/**
+		* Value of the header `Referrer-Policy` (`"no-referrer"` is used if no other value is provided).
+		*
+		* If `false` is provided, the header is not sent.
+		*/
+	referrerPolicy?: string | boolean | null;
+	/**
+		* Value of the header `X-Frame-Options` (`"SAMEORIGIN"` is used if no other value is provided).
+		*
+		* If `false` is provided, the header is not sent.
+		*/
+	frameOptions?: "DENY" | "SAMEORIGIN" | boolean | null;
+	/**
+		* Directives of the header `Content-Security-Policy`.
+		*
+		* The directives provided are merged with the default directives below, and a directive can be removed by setting it to `null`:
+		*
+		* ```ts
+		* {
+		*     "default-src": "'self'",
+		*     "base-uri": "'self'",
+		*     "font-src": ["'self'", "https:", "data:"],
+		*     "form-action": "'self'",
+		*     "frame-ancestors": "'self'",
+		*     "img-src": ["'self'", "data:"],
+		*     "object-src": "'none'",
+		*     "script-src": ["'self'", "'nonce'"],
+		*     "style-src": ["'self'", "https:", "'unsafe-inline'"]
+		* }
+		* ```
+		*
+		* Every occurrence of the special source `'nonce'` is replaced with the nonce generated for the current request, which is available to the views as `cspNonce` (through `res.locals.cspNonce`):
+		*
+		* ```html
+		* <script nonce="<%= cspNonce %>">
+		*     ...
+		* </script>
+		* ```
+		*
+		* A string can also be provided, in which case it is used as the entire value of the header, without any merging (`'nonce'` is replaced the same way).
+		*
+		* If `false` is provided, the header is not sent.
+		*/
+	contentSecurityPolicy?: {
+		[directive: string]: string | string[] | null;
+	} | string | boolean | null;
+	/**
+		* Indicates whether the policy is sent using the header `Content-Security-Policy-Report-Only` instead, so that violations are only reported and not enforced (`false` is used if no other value is provided).
+		*/
+	contentSecurityPolicyReportOnly?: boolean | null;
+}
+/**
+	* Creates a middleware that sends the security headers configured in `securityHeadersConfig` along with all responses.
+	*/
+export declare function createSecurityHeadersMiddleware(securityHeadersConfig: SecurityHeadersConfig): Function;
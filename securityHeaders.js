@@ -0,0 +1,69 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createSecurityHeadersMiddleware = createSecurityHeadersMiddleware;
+const crypto = require("crypto");
+const defaultDirectives = {
+	"default-src": "'self'",
+	"base-uri": "'self'",
+	"font-src": ["'self'", "https:", "data:"],
+	"form-action": "'self'",
+	"frame-ancestors": "'self'",
+	"img-src": ["'self'", "data:"],
+	"object-src": "'none'",
+	"script-src": ["'self'", "'nonce'"],
+	"style-src": ["'self'", "https:", "'unsafe-inline'"]
+};
+function createHsts(hsts) {
+	if (hsts === false)
+		return null;
+	const hstsConfig = (((typeof hsts) === "object" && hsts) ? hsts : {});
+	let maxAge = parseInt(hstsConfig.maxAge);
+	if (isNaN(maxAge) || maxAge < 0)
+		maxAge = 15552000;
+	return "max-age=" + maxAge + ((hstsConfig.includeSubDomains === false) ? "" : "; includeSubDomains") + (hstsConfig.preload ? "; preload" : "");
+}
+function createPolicy(contentSecurityPolicy) {
+	if (contentSecurityPolicy === false)
+		return null;
+	if ((typeof contentSecurityPolicy) === "string")
+		return contentSecurityPolicy;
+	const directives = Object.assign({}, defaultDirectives, ((typeof contentSecurityPolicy) === "object") ? contentSecurityPolicy : null), policy = [];
+	for (let directive in directives) {
+		const value = directives[directive];
+		if (value === null || value === undefined)
+			continue;
+		const sources = (Array.isArray(value) ? value.join(" ") : value).trim();
+		policy.push(sources ? (directive + " " + sources) : directive);
+	}
+	return policy.join("; ");
+}
+/**
+	* Creates a middleware that sends the security headers configured in `securityHeadersConfig` along with all responses.
+	*/
+function createSecurityHeadersMiddleware(securityHeadersConfig) {
+	const hsts = createHsts(securityHeadersConfig.hsts), contentTypeOptions = (securityHeadersConfig.contentTypeOptions !== false), referrerPolicy = ((securityHeadersConfig.referrerPolicy === false) ? null : (((typeof securityHeadersConfig.referrerPolicy) === "string" && securityHeadersConfig.referrerPolicy) || "no-referrer")), frameOptions = ((securityHeadersConfig.frameOptions === false) ? null : (((typeof securityHeadersConfig.frameOptions) === "string" && securityHeadersConfig.frameOptions) || "SAMEORIGIN")), policy = createPolicy(securityHeadersConfig.contentSecurityPolicy), 
+	// The policy is split only once, so that each request just joins the parts using its own nonce.
+	policyParts = (policy ? policy.split("'nonce'") : null), policyHeader = (securityHeadersConfig.contentSecurityPolicyReportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy");
+	return function (req, res, next) {
+		if (hsts && req.secure)
+			res.setHeader("Strict-Transport-Security", hsts);
+		if (contentTypeOptions)
+			res.setHeader("X-Content-Type-Options", "nosniff");
+		if (referrerPolicy)
+			res.setHeader("Referrer-Policy", referrerPolicy);
+		if (frameOptions)
+			res.setHeader("X-Frame-Options", frameOptions);
+		if (policyParts && policyParts.length > 1) {
+			const nonce = crypto.randomBytes(16).toString("base64");
+			res.locals.cspNonce = nonce;
+			res.setHeader(policyHeader, policyParts.join("'nonce-" + nonce + "'"));
+		}
+		else {
+			// Views can always refer to cspNonce, even if the policy does not use it.
+			res.locals.cspNonce = "";
+			if (policyParts)
+				res.setHeader(policyHeader, policyParts[0]);
+		}
+		next();
+	};
+}
@@ -0,0 +1,175 @@
+import crypto = require("crypto");
+import express = require("express");
+
+export interface HstsConfig {
+	/**
+	 * Amount of seconds during which the browser must only access the server using HTTPS (`15552000`, or 180 days, is used if no other value is provided).
+	 */
+	maxAge?: number | null;
+
+	/**
+	 * Indicates whether the rule also applies to all subdomains (`true` is used if no other value is provided).
+	 */
+	includeSubDomains?: boolean | null;
+
+	/**
+	 * Indicates whether the `preload` directive is sent (`false` is used if no other value is provided).
+	 * 
+	 * Refer to https://hstspreload.org for more information.
+	 */
+	preload?: boolean | null;
+}
+
+export interface SecurityHeadersConfig {
+	/**
+	 * Configures the header `Strict-Transport-Security`, which is only sent along with responses to requests made over HTTPS (`{ maxAge: 15552000, includeSubDomains: true }` is used if no other value is provided).
+	 * 
+	 * If `false` is provided, the header is not sent.
+	 */
+	hsts?: HstsConfig | boolean | null;
+
+	/**
+	 * Indicates whether the header `X-Content-Type-Options: nosniff` is sent (`true` is used if no other value is provided).
+	 */
+	contentTypeOptions?: boolean | null;
+
+	/**
+	 * Value of the header `Referrer-Policy` (`"no-referrer"` is used if no other value is provided).
+	 * 
+	 * If `false` is provided, the header is not sent.
+	 */
+	referrerPolicy?: string | boolean | null;
+
+	/**
+	 * Value of the header `X-Frame-Options` (`"SAMEORIGIN"` is used if no other value is provided).
+	 * 
+	 * If `false` is provided, the header is not sent.
+	 */
+	frameOptions?: "DENY" | "SAMEORIGIN" | boolean | null;
+
+	/**
+	 * Directives of the header `Content-Security-Policy`.
+	 * 
+	 * The directives provided are merged with the default directives below, and a directive can be removed by setting it to `null`:
+	 * 
+	 * ```ts
+	 * {
+	 *     "default-src": "'self'",
+	 *     "base-uri": "'self'",
+	 *     "font-src": ["'self'", "https:", "data:"],
+	 *     "form-action": "'self'",
+	 *     "frame-ancestors": "'self'",
+	 *     "img-src": ["'self'", "data:"],
+	 *     "object-src": "'none'",
+	 *     "script-src": ["'self'", "'nonce'"],
+	 *     "style-src": ["'self'", "https:", "'unsafe-inline'"]
+	 * }
+	 * ```
+	 * 
+	 * Every occurrence of the special source `'nonce'` is replaced with the nonce generated for the current request, which is available to the views as `cspNonce` (through `res.locals.cspNonce`):
+	 * 
+	 * ```html
+	 * <script nonce="<%= cspNonce %>">
+	 *     ...
+	 * </script>
+	 * ```
+	 * 
+	 * A string can also be provided, in which case it is used as the entire value of the header, without any merging (`'nonce'` is replaced the same way).
+	 * 
+	 * If `false` is provided, the header is not sent.
+	 */
+	contentSecurityPolicy?: { [directive: string]: string | string[] | null } | string | boolean | null;
+
+	/**
+	 * Indicates whether the policy is sent using the header `Content-Security-Policy-Report-Only` instead, so that violations are only reported and not enforced (`false` is used if no other value is provided).
+	 */
+	contentSecurityPolicyReportOnly?: boolean | null;
+}
+
+const defaultDirectives: { [directive: string]: string | string[] } = {
+	"default-src": "'self'",
+	"base-uri": "'self'",
+	"font-src": ["'self'", "https:", "data:"],
+	"form-action": "'self'",
+	"frame-ancestors": "'self'",
+	"img-src": ["'self'", "data:"],
+	"object-src": "'none'",
+	"script-src": ["'self'", "'nonce'"],
+	"style-src": ["'self'", "https:", "'unsafe-inline'"]
+};
+
+function createHsts(hsts: HstsConfig | boolean | null | undefined): string | null {
+	if (hsts === false)
+		return null;
+
+	const hstsConfig = (((typeof hsts) === "object" && hsts) ? hsts as HstsConfig : {});
+
+	let maxAge = parseInt(hstsConfig.maxAge as any);
+	if (isNaN(maxAge) || maxAge < 0)
+		maxAge = 15552000;
+
+	return "max-age=" + maxAge + ((hstsConfig.includeSubDomains === false) ? "" : "; includeSubDomains") + (hstsConfig.preload ? "; preload" : "");
+}
+
+function createPolicy(contentSecurityPolicy: { [directive: string]: string | string[] | null } | string | boolean | null | undefined): string | null {
+	if (contentSecurityPolicy === false)
+		return null;
+
+	if ((typeof contentSecurityPolicy) === "string")
+		return contentSecurityPolicy as string;
+
+	const directives: { [directive: string]: string | string[] | null } = Object.assign({}, defaultDirectives, ((typeof contentSecurityPolicy) === "object") ? contentSecurityPolicy : null),
+		policy: string[] = [];
+
+	for (let directive in directives) {
+		const value = directives[directive];
+		if (value === null || value === undefined)
+			continue;
+
+		const sources = (Array.isArray(value) ? value.join(" ") : value).trim();
+		policy.push(sources ? (directive + " " + sources) : directive);
+	}
+
+	return policy.join("; ");
+}
+
+/**
+ * Creates a middleware that sends the security headers configured in `securityHeadersConfig` along with all responses.
+ */
+export function createSecurityHeadersMiddleware(securityHeadersConfig: SecurityHeadersConfig): Function {
+	const hsts = createHsts(securityHeadersConfig.hsts),
+		contentTypeOptions = (securityHeadersConfig.contentTypeOptions !== false),
+		referrerPolicy = ((securityHeadersConfig.referrerPolicy === false) ? null : (((typeof securityHeadersConfig.referrerPolicy) === "string" && securityHeadersConfig.referrerPolicy) || "no-referrer")),
+		frameOptions = ((securityHeadersConfig.frameOptions === false) ? null : (((typeof securityHeadersConfig.frameOptions) === "string" && securityHeadersConfig.frameOptions) || "SAMEORIGIN")),
+		policy = createPolicy(securityHeadersConfig.contentSecurityPolicy),
+		// The policy is split only once, so that each request just joins the parts using its own nonce.
+		policyParts = (policy ? policy.split("'nonce'") : null),
+		policyHeader = (securityHeadersConfig.contentSecurityPolicyReportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy");
+
+	return function (req: express.Request, res: express.Response, next: express.NextFunction): void {
+		if (hsts && req.secure)
+			res.setHeader("Strict-Transport-Security", hsts);
+
+		if (contentTypeOptions)
+			res.setHeader("X-Content-Type-Options", "nosniff");
+
+		if (referrerPolicy)
+			res.setHeader("Referrer-Policy", referrerPolicy as string);
+
+		if (frameOptions)
+			res.setHeader("X-Frame-Options", frameOptions as string);
+
+		if (policyParts && policyParts.length > 1) {
+			const nonce = crypto.randomBytes(16).toString("base64");
+			res.locals.cspNonce = nonce;
+			res.setHeader(policyHeader, policyParts.join("'nonce-" + nonce + "'"));
+		} else {
+			// Views can always refer to cspNonce, even if the policy does not use it.
+			res.locals.cspNonce = "";
+			if (policyParts)
+				res.setHeader(policyHeader, policyParts[0]);
+		}
+
+		next();
+	};
+}
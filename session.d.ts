@@ -0,0 +1,138 @@
+﻿import express = require("express");
+import type { Sql } from "./sql";
+export interface SessionStoreEntry {
+	/**
+		* Data stored in the session.
+		*/
+	data: any;
+	/**
+		* Moment when the session expires, in milliseconds since the epoch.
+		*/
+	expiresAt: number;
+}
+export interface SessionStore {
+	/**
+		* Returns the session with the given id, or `null` if the session does not exist or has already expired.
+		*/
+	get(id: string): Promise<SessionStoreEntry | null>;
+	/**
+		* Creates or replaces the session with the given id.
+		*/
+	set(id: string, entry: SessionStoreEntry): Promise<void>;
+	/**
+		* Deletes the session with the given id (no exceptions should be thrown if the session does not exist).
+		*/
+	destroy(id: string): Promise<void>;
+	/**
+		* Optional function called by `app.stop()`, used to release any resources held by the store.
+		*/
+	close?(): Promise<void> | void;
+}
+export interface SessionConfig {
+	/**
+		* Secret used to sign the session cookie with HMAC-SHA256.
+		*
+		* If an array is provided, the first secret is used to sign new cookies, while all of them are accepted when verifying cookies, which allows secrets to be rotated without invalidating existing sessions.
+		*/
+	secret: string | string[];
+	/**
+		* Where the sessions are stored (`"memory"` is used if no other value is provided).
+		*
+		* - `"memory"`: sessions are stored in the process memory and are lost when the process exits (not suitable for apps running in more than one process)
+		* - `"file"`: sessions are stored as JSON files inside `config.session.fileDir`, using `app.fileSystem`
+		* - `"mysql"`: sessions are stored in the table `config.session.tableName`, using `app.sql` (`config.sqlConfig` must be provided), which is automatically created if it does not exist
+		*
+		* A custom object implementing `app.SessionStore` can also be provided.
+		*/
+	store?: "memory" | "file" | "mysql" | SessionStore | null;
+	/**
+		* Name of the session cookie (`"teem.sid"` is used if no other value is provided).
+		*/
+	cookieName?: string | null;
+	/**
+		* How long, in milliseconds, a session lasts without being used (`86400000`, or 1 day, is used if no other value is provided).
+		*
+		* The expiration is rolling: every request that uses the session pushes its expiration forward.
+		*/
+	maxAge?: number | null;
+	/**
+		* Value of the `Secure` attribute of the session cookie.
+		*
+		* If a value is not provided, the attribute is used only for requests made over HTTPS (`req.secure`).
+		*/
+	secure?: boolean | null;
+	/**
+		* Value of the `SameSite` attribute of the session cookie (`"lax"` is used if no other value is provided).
+		*/
+	sameSite?: "strict" | "lax" | "none" | null;
+	/**
+		* Value of the `Domain` attribute of the session cookie (the attribute is not used if no value is provided).
+		*/
+	domain?: string | null;
+	/**
+		* Directory, relative to `app.dir.project`, where the session files are stored when `config.session.store` is `"file"` (`"sessions"` is used if no other value is provided).
+		*/
+	fileDir?: string | null;
+	/**
+		* Name of the table where the sessions are stored when `config.session.store` is `"mysql"` (`"teem_session"` is used if no other value is provided).
+		*/
+	tableName?: string | null;
+}
+export interface Session {
+	/**
+		* All data stored in the session must be JSON-serializable.
+		*/
+	[key: string]: any;
+	/**
+		* Id of the session.
+		*/
+	readonly id: string;
+	/**
+		* Discards the current session, creating a new empty one, with a new id.
+		*
+		* `regenerate()` should be called right before storing the user's data in the session during login, in order to prevent session fixation attacks.
+		*/
+	regenerate(): Promise<void>;
+	/**
+		* Discards the current session and removes the session cookie from the client.
+		*
+		* If any data is stored in the session after `destroy()` is called, a new session, with a new id, is created.
+		*/
+	destroy(): Promise<void>;
+}
+export declare function readCookie(req: express.Request, name: string): string | null;
+export declare function appendSetCookie(res: express.Response, cookie: string): void;
+export declare class MemorySessionStore implements SessionStore {
+	private readonly sessions;
+	private cleanUpInterval;
+	constructor();
+	get(id: string): Promise<SessionStoreEntry | null>;
+	set(id: string, entry: SessionStoreEntry): Promise<void>;
+	destroy(id: string): Promise<void>;
+	close(): void;
+}
+export declare class FileSessionStore implements SessionStore {
+	private readonly dir;
+	private dirCreated;
+	private cleanUpInterval;
+	constructor(dir: string);
+	private cleanUp;
+	get(id: string): Promise<SessionStoreEntry | null>;
+	set(id: string, entry: SessionStoreEntry): Promise<void>;
+	destroy(id: string): Promise<void>;
+	close(): void;
+}
+export declare class MySqlSessionStore implements SessionStore {
+	private readonly sql;
+	private readonly tableName;
+	private tableCreated;
+	private cleanUpInterval;
+	constructor(sql: typeof Sql, tableName: string);
+	private connect;
+	get(id: string): Promise<SessionStoreEntry | null>;
+	set(id: string, entry: SessionStoreEntry): Promise<void>;
+	destroy(id: string): Promise<void>;
+	close(): void;
+}
+export declare function createSessionStore(sessionConfig: SessionConfig, sql: typeof Sql | null): SessionStore;
+export declare function createSessionMiddleware(sessionConfig: SessionConfig, store: SessionStore, root: string): Function;
@@ -0,0 +1,368 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.MySqlSessionStore = exports.FileSessionStore = exports.MemorySessionStore = void 0;
+exports.readCookie = readCookie;
+exports.appendSetCookie = appendSetCookie;
+exports.createSessionStore = createSessionStore;
+exports.createSessionMiddleware = createSessionMiddleware;
+const crypto = require("crypto");
+const fs = require("fs");
+const fileSystem_1 = require("./fileSystem");
+const log_1 = require("./log");
+const stateSymbol = Symbol("session");
+function createId() {
+	return crypto.randomBytes(24).toString("hex");
+}
+function sign(id, secret) {
+	return crypto.createHmac("sha256", secret).update(id).digest("base64").replace(/\=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+function unsign(value, secrets) {
+	const i = value.indexOf(".");
+	if (i <= 0)
+		return null;
+	const id = value.substr(0, i), signature = Buffer.from(value.substr(i + 1));
+	if (!/^[0-9a-f]{48}$/.test(id))
+		return null;
+	for (let s = 0; s < secrets.length; s++) {
+		const expected = Buffer.from(sign(id, secrets[s]));
+		if (expected.length === signature.length && crypto.timingSafeEqual(expected, signature))
+			return id;
+	}
+	return null;
+}
+function readCookie(req, name) {
+	// cookie-parser could have been disabled by config.disableCookies.
+	const header = req.headers.cookie;
+	if (!header)
+		return null;
+	const cookies = header.split(";");
+	for (let i = cookies.length - 1; i >= 0; i--) {
+		const cookie = cookies[i], e = cookie.indexOf("=");
+		if (e > 0 && cookie.substr(0, e).trim() === name) {
+			try {
+				return decodeURIComponent(cookie.substr(e + 1).trim());
+			}
+			catch (ex) {
+				return null;
+			}
+		}
+	}
+	return null;
+}
+class SessionObject {
+	constructor(state) {
+		Object.defineProperty(this, stateSymbol, { value: state });
+	}
+	get id() {
+		const state = this[stateSymbol];
+		if (!state.id)
+			state.id = createId();
+		return state.id;
+	}
+	async regenerate() {
+		const state = this[stateSymbol];
+		for (let key in this)
+			delete this[key];
+		if (state.stored)
+			await state.store.destroy(state.id);
+		state.id = createId();
+		state.stored = false;
+		state.json = "{}";
+	}
+	async destroy() {
+		const state = this[stateSymbol];
+		for (let key in this)
+			delete this[key];
+		if (state.stored)
+			await state.store.destroy(state.id);
+		state.id = "";
+		state.stored = false;
+		state.json = "{}";
+	}
+}
+function createCookie(options, req, value, expiresAt) {
+	let cookie = options.name + "=" + encodeURIComponent(value) + "; Path=" + options.path + "; Expires=" + (new Date(expiresAt)).toUTCString() + "; HttpOnly; SameSite=" + options.sameSite;
+	if (options.domain)
+		cookie += "; Domain=" + options.domain;
+	// Browsers reject SameSite=None cookies without the Secure attribute.
+	if (options.secure || (options.secure === null && (req.secure || options.sameSite === "None")))
+		cookie += "; Secure";
+	return cookie;
+}
+function appendSetCookie(res, cookie) {
+	const current = res.getHeader("Set-Cookie");
+	if (!current)
+		res.setHeader("Set-Cookie", cookie);
+	else if (Array.isArray(current))
+		res.setHeader("Set-Cookie", current.concat(cookie));
+	else
+		res.setHeader("Set-Cookie", [current.toString(), cookie]);
+}
+class MemorySessionStore {
+	constructor() {
+		this.sessions = new Map();
+		this.cleanUpInterval = setInterval(() => {
+			const now = Date.now();
+			for (let [id, entry] of this.sessions) {
+				if (entry.expiresAt <= now)
+					this.sessions.delete(id);
+			}
+		}, 60000);
+		this.cleanUpInterval.unref();
+	}
+	async get(id) {
+		const entry = this.sessions.get(id);
+		if (!entry)
+			return null;
+		if (entry.expiresAt <= Date.now()) {
+			this.sessions.delete(id);
+			return null;
+		}
+		// Sessions are serialized in order to behave just like the other stores.
+		return { data: JSON.parse(entry.json), expiresAt: entry.expiresAt };
+	}
+	async set(id, entry) {
+		this.sessions.set(id, { json: JSON.stringify(entry.data), expiresAt: entry.expiresAt });
+	}
+	async destroy(id) {
+		this.sessions.delete(id);
+	}
+	close() {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+		this.sessions.clear();
+	}
+}
+exports.MemorySessionStore = MemorySessionStore;
+class FileSessionStore {
+	constructor(dir) {
+		this.dirCreated = false;
+		this.dir = dir;
+		this.cleanUpInterval = setInterval(() => {
+			this.cleanUp();
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+	cleanUp() {
+		// Expired files are only checked here, since app.fileSystem has no way of listing files.
+		const absoluteDir = fileSystem_1.FileSystem.absolutePath(this.dir);
+		fs.readdir(absoluteDir, (err, names) => {
+			if (err || !names)
+				return;
+			for (let i = names.length - 1; i >= 0; i--) {
+				const name = names[i];
+				if (name.endsWith(".json"))
+					this.get(name.substr(0, name.length - 5)).catch(function () { });
+			}
+		});
+	}
+	async get(id) {
+		let entry;
+		try {
+			entry = JSON.parse(await fileSystem_1.FileSystem.readTextFromExistingFile(this.dir + "/" + id + ".json"));
+		}
+		catch (ex) {
+			// The file could have been deleted, or could be corrupted.
+			if (ex && ex.code === "ENOENT")
+				return null;
+			await this.destroy(id);
+			return null;
+		}
+		if (!entry || !(entry.expiresAt > Date.now())) {
+			await this.destroy(id);
+			return null;
+		}
+		return entry;
+	}
+	async set(id, entry) {
+		if (!this.dirCreated) {
+			if (!await fileSystem_1.FileSystem.exists(this.dir))
+				await fileSystem_1.FileSystem.createDirectory(this.dir, { recursive: true });
+			this.dirCreated = true;
+		}
+		await fileSystem_1.FileSystem.saveText(this.dir + "/" + id + ".json", JSON.stringify(entry));
+	}
+	async destroy(id) {
+		try {
+			await fileSystem_1.FileSystem.deleteFile(this.dir + "/" + id + ".json");
+		}
+		catch (ex) {
+			if (!ex || ex.code !== "ENOENT")
+				throw ex;
+		}
+	}
+	close() {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+exports.FileSessionStore = FileSessionStore;
+class MySqlSessionStore {
+	constructor(sql, tableName) {
+		this.tableCreated = null;
+		this.sql = sql;
+		this.tableName = tableName;
+		this.cleanUpInterval = setInterval(() => {
+			this.connect((sql) => sql.query("delete from " + this.tableName + " where expires_at <= ?", [Date.now()])).catch(function (reason) {
+				log_1.log.error("Error removing expired sessions", { err: reason });
+			});
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+	async connect(callback) {
+		if (!this.tableCreated) {
+			this.tableCreated = this.sql.connect(async (sql) => {
+				await sql.query("create table if not exists " + this.tableName + " (id char(48) not null, data mediumtext not null, expires_at bigint not null, primary key (id), key " + this.tableName + "_expires_at (expires_at))");
+			});
+			// Try again during the next request.
+			this.tableCreated.catch(() => {
+				this.tableCreated = null;
+			});
+		}
+		await this.tableCreated;
+		return this.sql.connect(callback);
+	}
+	async get(id) {
+		const rows = await this.connect((sql) => sql.query("select data, expires_at from " + this.tableName + " where id = ? and expires_at > ?", [id, Date.now()]));
+		if (!rows || !rows.length)
+			return null;
+		return { data: JSON.parse(rows[0].data), expiresAt: parseInt(rows[0].expires_at) };
+	}
+	async set(id, entry) {
+		const data = JSON.stringify(entry.data);
+		await this.connect((sql) => sql.query("insert into " + this.tableName + " (id, data, expires_at) values (?, ?, ?) on duplicate key update data = ?, expires_at = ?", [id, data, entry.expiresAt, data, entry.expiresAt]));
+	}
+	async destroy(id) {
+		await this.connect((sql) => sql.query("delete from " + this.tableName + " where id = ?", [id]));
+	}
+	close() {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+exports.MySqlSessionStore = MySqlSessionStore;
+function createSessionStore(sessionConfig, sql) {
+	const store = sessionConfig.store;
+	if (store && (typeof store) === "object")
+		return store;
+	switch (store || "memory") {
+		case "memory":
+			return new MemorySessionStore();
+		case "file":
+			return new FileSessionStore(sessionConfig.fileDir || "sessions");
+		case "mysql":
+			if (!sql)
+				throw new Error("config.session.store is \"mysql\", but config.sqlConfig has not been provided");
+			const tableName = (sessionConfig.tableName || "teem_session");
+			if (!/^\w+$/.test(tableName))
+				throw new Error(`Invalid session table name "${tableName}"`);
+			return new MySqlSessionStore(sql, tableName);
+		default:
+			throw new Error(`Invalid session store "${store}"`);
+	}
+}
+function createSessionMiddleware(sessionConfig, store, root) {
+	const secrets = (Array.isArray(sessionConfig.secret) ? sessionConfig.secret : [sessionConfig.secret]);
+	if (!secrets.length || secrets.some((secret) => !secret || (typeof secret) !== "string"))
+		throw new Error("config.session.secret must be a non-empty string or an array of non-empty strings");
+	let maxAge = parseInt(sessionConfig.maxAge);
+	if (isNaN(maxAge) || maxAge <= 0)
+		maxAge = 86400000;
+	const sameSite = (sessionConfig.sameSite || "lax").toLowerCase();
+	if (sameSite !== "strict" && sameSite !== "lax" && sameSite !== "none")
+		throw new Error(`Invalid value for config.session.sameSite: "${sessionConfig.sameSite}"`);
+	const options = {
+		name: (sessionConfig.cookieName || "teem.sid"),
+		secrets,
+		maxAge,
+		secure: (((typeof sessionConfig.secure) === "boolean") ? sessionConfig.secure : null),
+		sameSite: sameSite.charAt(0).toUpperCase() + sameSite.substr(1),
+		domain: (sessionConfig.domain || null),
+		path: (root || "/")
+	};
+	// Unchanged sessions are not written back to the store on every request,
+	// only when their expiration has moved forward enough.
+	const touchInterval = Math.min(60000, Math.floor(maxAge / 10));
+	return async function (req, res, next) {
+		const cookie = readCookie(req, options.name), id = (cookie ? unsign(cookie, options.secrets) : null), state = {
+			store,
+			id: "",
+			stored: false,
+			json: "{}",
+			expiresAt: 0,
+			hadCookie: !!cookie
+		};
+		let entry = null;
+		if (id) {
+			try {
+				entry = await store.get(id);
+			}
+			catch (ex) {
+				next(ex);
+				return;
+			}
+		}
+		const session = new SessionObject(state);
+		if (entry) {
+			if (entry.data && (typeof entry.data) === "object")
+				Object.assign(session, entry.data);
+			state.id = id;
+			state.stored = true;
+			state.json = JSON.stringify(session);
+			state.expiresAt = entry.expiresAt;
+		}
+		req.session = session;
+		let prepared = false, pendingSave = null, pendingDestroy = "";
+		const prepare = function () {
+			if (prepared)
+				return;
+			prepared = true;
+			const json = JSON.stringify(session);
+			if (json === "{}") {
+				// Empty sessions are not kept.
+				if (state.stored)
+					pendingDestroy = state.id;
+				if (state.hadCookie)
+					appendSetCookie(res, createCookie(options, req, "", 0));
+				return;
+			}
+			const expiresAt = Date.now() + options.maxAge;
+			if (!state.stored || json !== state.json || (expiresAt - state.expiresAt) > touchInterval)
+				pendingSave = { data: JSON.parse(json), expiresAt };
+			appendSetCookie(res, createCookie(options, req, session.id + "." + sign(session.id, options.secrets[0]), expiresAt));
+		};
+		const writeHead = res.writeHead;
+		res.writeHead = function () {
+			prepare();
+			return writeHead.apply(this, arguments);
+		};
+		const end = res.end;
+		res.end = function () {
+			const args = arguments;
+			res.end = end;
+			if (!res.headersSent)
+				prepare();
+			const sessionId = state.id, operation = (pendingSave ? store.set(sessionId, pendingSave) : (pendingDestroy ? store.destroy(pendingDestroy) : null));
+			if (!operation) {
+				end.apply(res, args);
+				return res;
+			}
+			// The response is only finished after the session has been stored, so that
+			// a request made right after this one (such as a redirect) sees the new data.
+			operation.then(function () {
+				end.apply(res, args);
+			}, function (reason) {
+				log_1.log.error("Error storing the session", { requestId: req.id, err: reason });
+				end.apply(res, args);
+			});
+			return res;
+		};
+		next();
+	};
+}
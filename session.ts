@@ -0,0 +1,599 @@
+import crypto = require("crypto");
+import express = require("express");
+import fs = require("fs");
+import { FileSystem } from "./fileSystem";
+import { log } from "./log";
+
+import type { Sql } from "./sql";
+
+export interface SessionStoreEntry {
+	/**
+	 * Data stored in the session.
+	 */
+	data: any;
+
+	/**
+	 * Moment when the session expires, in milliseconds since the epoch.
+	 */
+	expiresAt: number;
+}
+
+export interface SessionStore {
+	/**
+	 * Returns the session with the given id, or `null` if the session does not exist or has already expired.
+	 */
+	get(id: string): Promise<SessionStoreEntry | null>;
+
+	/**
+	 * Creates or replaces the session with the given id.
+	 */
+	set(id: string, entry: SessionStoreEntry): Promise<void>;
+
+	/**
+	 * Deletes the session with the given id (no exceptions should be thrown if the session does not exist).
+	 */
+	destroy(id: string): Promise<void>;
+
+	/**
+	 * Optional function called by `app.stop()`, used to release any resources held by the store.
+	 */
+	close?(): Promise<void> | void;
+}
+
+export interface SessionConfig {
+	/**
+	 * Secret used to sign the session cookie with HMAC-SHA256.
+	 * 
+	 * If an array is provided, the first secret is used to sign new cookies, while all of them are accepted when verifying cookies, which allows secrets to be rotated without invalidating existing sessions.
+	 */
+	secret: string | string[];
+
+	/**
+	 * Where the sessions are stored (`"memory"` is used if no other value is provided).
+	 * 
+	 * - `"memory"`: sessions are stored in the process memory and are lost when the process exits (not suitable for apps running in more than one process)
+	 * - `"file"`: sessions are stored as JSON files inside `config.session.fileDir`, using `app.fileSystem`
+	 * - `"mysql"`: sessions are stored in the table `config.session.tableName`, using `app.sql` (`config.sqlConfig` must be provided), which is automatically created if it does not exist
+	 * 
+	 * A custom object implementing `app.SessionStore` can also be provided.
+	 */
+	store?: "memory" | "file" | "mysql" | SessionStore | null;
+
+	/**
+	 * Name of the session cookie (`"teem.sid"` is used if no other value is provided).
+	 */
+	cookieName?: string | null;
+
+	/**
+	 * How long, in milliseconds, a session lasts without being used (`86400000`, or 1 day, is used if no other value is provided).
+	 * 
+	 * The expiration is rolling: every request that uses the session pushes its expiration forward.
+	 */
+	maxAge?: number | null;
+
+	/**
+	 * Value of the `Secure` attribute of the session cookie.
+	 * 
+	 * If a value is not provided, the attribute is used only for requests made over HTTPS (`req.secure`).
+	 */
+	secure?: boolean | null;
+
+	/**
+	 * Value of the `SameSite` attribute of the session cookie (`"lax"` is used if no other value is provided).
+	 */
+	sameSite?: "strict" | "lax" | "none" | null;
+
+	/**
+	 * Value of the `Domain` attribute of the session cookie (the attribute is not used if no value is provided).
+	 */
+	domain?: string | null;
+
+	/**
+	 * Directory, relative to `app.dir.project`, where the session files are stored when `config.session.store` is `"file"` (`"sessions"` is used if no other value is provided).
+	 */
+	fileDir?: string | null;
+
+	/**
+	 * Name of the table where the sessions are stored when `config.session.store` is `"mysql"` (`"teem_session"` is used if no other value is provided).
+	 */
+	tableName?: string | null;
+}
+
+export interface Session {
+	/**
+	 * All data stored in the session must be JSON-serializable.
+	 */
+	[key: string]: any;
+
+	/**
+	 * Id of the session.
+	 */
+	readonly id: string;
+
+	/**
+	 * Discards the current session, creating a new empty one, with a new id.
+	 * 
+	 * `regenerate()` should be called right before storing the user's data in the session during login, in order to prevent session fixation attacks.
+	 */
+	regenerate(): Promise<void>;
+
+	/**
+	 * Discards the current session and removes the session cookie from the client.
+	 * 
+	 * If any data is stored in the session after `destroy()` is called, a new session, with a new id, is created.
+	 */
+	destroy(): Promise<void>;
+}
+
+interface SessionState {
+	store: SessionStore;
+	id: string;
+	stored: boolean;
+	json: string;
+	expiresAt: number;
+	hadCookie: boolean;
+}
+
+interface CookieOptions {
+	name: string;
+	secrets: string[];
+	maxAge: number;
+	secure: boolean | null;
+	sameSite: string;
+	domain: string | null;
+	path: string;
+}
+
+const stateSymbol = Symbol("session");
+
+function createId(): string {
+	return crypto.randomBytes(24).toString("hex");
+}
+
+function sign(id: string, secret: string): string {
+	return crypto.createHmac("sha256", secret).update(id).digest("base64").replace(/\=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+function unsign(value: string, secrets: string[]): string | null {
+	const i = value.indexOf(".");
+	if (i <= 0)
+		return null;
+
+	const id = value.substr(0, i),
+		signature = Buffer.from(value.substr(i + 1));
+
+	if (!/^[0-9a-f]{48}$/.test(id))
+		return null;
+
+	for (let s = 0; s < secrets.length; s++) {
+		const expected = Buffer.from(sign(id, secrets[s]));
+		if (expected.length === signature.length && crypto.timingSafeEqual(expected, signature))
+			return id;
+	}
+
+	return null;
+}
+
+export function readCookie(req: express.Request, name: string): string | null {
+	// cookie-parser could have been disabled by config.disableCookies.
+	const header = req.headers.cookie;
+	if (!header)
+		return null;
+
+	const cookies = header.split(";");
+	for (let i = cookies.length - 1; i >= 0; i--) {
+		const cookie = cookies[i], e = cookie.indexOf("=");
+		if (e > 0 && cookie.substr(0, e).trim() === name) {
+			try {
+				return decodeURIComponent(cookie.substr(e + 1).trim());
+			} catch (ex: any) {
+				return null;
+			}
+		}
+	}
+
+	return null;
+}
+
+class SessionObject implements Session {
+	[key: string]: any;
+
+	public constructor(state: SessionState) {
+		Object.defineProperty(this, stateSymbol, { value: state });
+	}
+
+	public get id(): string {
+		const state = (this as any)[stateSymbol] as SessionState;
+		if (!state.id)
+			state.id = createId();
+		return state.id;
+	}
+
+	public async regenerate(): Promise<void> {
+		const state = (this as any)[stateSymbol] as SessionState;
+
+		for (let key in this)
+			delete this[key];
+
+		if (state.stored)
+			await state.store.destroy(state.id);
+
+		state.id = createId();
+		state.stored = false;
+		state.json = "{}";
+	}
+
+	public async destroy(): Promise<void> {
+		const state = (this as any)[stateSymbol] as SessionState;
+
+		for (let key in this)
+			delete this[key];
+
+		if (state.stored)
+			await state.store.destroy(state.id);
+
+		state.id = "";
+		state.stored = false;
+		state.json = "{}";
+	}
+}
+
+function createCookie(options: CookieOptions, req: express.Request, value: string, expiresAt: number): string {
+	let cookie = options.name + "=" + encodeURIComponent(value) + "; Path=" + options.path + "; Expires=" + (new Date(expiresAt)).toUTCString() + "; HttpOnly; SameSite=" + options.sameSite;
+
+	if (options.domain)
+		cookie += "; Domain=" + options.domain;
+
+	// Browsers reject SameSite=None cookies without the Secure attribute.
+	if (options.secure || (options.secure === null && (req.secure || options.sameSite === "None")))
+		cookie += "; Secure";
+
+	return cookie;
+}
+
+export function appendSetCookie(res: express.Response, cookie: string): void {
+	const current = res.getHeader("Set-Cookie");
+	if (!current)
+		res.setHeader("Set-Cookie", cookie);
+	else if (Array.isArray(current))
+		res.setHeader("Set-Cookie", current.concat(cookie));
+	else
+		res.setHeader("Set-Cookie", [current.toString(), cookie]);
+}
+
+export class MemorySessionStore implements SessionStore {
+	private readonly sessions = new Map<string, { json: string, expiresAt: number }>();
+	private cleanUpInterval: NodeJS.Timeout | null;
+
+	public constructor() {
+		this.cleanUpInterval = setInterval(() => {
+			const now = Date.now();
+			for (let [id, entry] of this.sessions) {
+				if (entry.expiresAt <= now)
+					this.sessions.delete(id);
+			}
+		}, 60000);
+		this.cleanUpInterval.unref();
+	}
+
+	public async get(id: string): Promise<SessionStoreEntry | null> {
+		const entry = this.sessions.get(id);
+		if (!entry)
+			return null;
+
+		if (entry.expiresAt <= Date.now()) {
+			this.sessions.delete(id);
+			return null;
+		}
+
+		// Sessions are serialized in order to behave just like the other stores.
+		return { data: JSON.parse(entry.json), expiresAt: entry.expiresAt };
+	}
+
+	public async set(id: string, entry: SessionStoreEntry): Promise<void> {
+		this.sessions.set(id, { json: JSON.stringify(entry.data), expiresAt: entry.expiresAt });
+	}
+
+	public async destroy(id: string): Promise<void> {
+		this.sessions.delete(id);
+	}
+
+	public close(): void {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+		this.sessions.clear();
+	}
+}
+
+export class FileSessionStore implements SessionStore {
+	private readonly dir: string;
+	private dirCreated = false;
+	private cleanUpInterval: NodeJS.Timeout | null;
+
+	public constructor(dir: string) {
+		this.dir = dir;
+		this.cleanUpInterval = setInterval(() => {
+			this.cleanUp();
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+
+	private cleanUp(): void {
+		// Expired files are only checked here, since app.fileSystem has no way of listing files.
+		const absoluteDir = FileSystem.absolutePath(this.dir);
+		fs.readdir(absoluteDir, (err, names) => {
+			if (err || !names)
+				return;
+			for (let i = names.length - 1; i >= 0; i--) {
+				const name = names[i];
+				if (name.endsWith(".json"))
+					this.get(name.substr(0, name.length - 5)).catch(function () { });
+			}
+		});
+	}
+
+	public async get(id: string): Promise<SessionStoreEntry | null> {
+		let entry: SessionStoreEntry;
+
+		try {
+			entry = JSON.parse(await FileSystem.readTextFromExistingFile(this.dir + "/" + id + ".json"));
+		} catch (ex: any) {
+			// The file could have been deleted, or could be corrupted.
+			if (ex && ex.code === "ENOENT")
+				return null;
+			await this.destroy(id);
+			return null;
+		}
+
+		if (!entry || !(entry.expiresAt > Date.now())) {
+			await this.destroy(id);
+			return null;
+		}
+
+		return entry;
+	}
+
+	public async set(id: string, entry: SessionStoreEntry): Promise<void> {
+		if (!this.dirCreated) {
+			if (!await FileSystem.exists(this.dir))
+				await FileSystem.createDirectory(this.dir, { recursive: true });
+			this.dirCreated = true;
+		}
+
+		await FileSystem.saveText(this.dir + "/" + id + ".json", JSON.stringify(entry));
+	}
+
+	public async destroy(id: string): Promise<void> {
+		try {
+			await FileSystem.deleteFile(this.dir + "/" + id + ".json");
+		} catch (ex: any) {
+			if (!ex || ex.code !== "ENOENT")
+				throw ex;
+		}
+	}
+
+	public close(): void {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+
+export class MySqlSessionStore implements SessionStore {
+	private readonly sql: typeof Sql;
+	private readonly tableName: string;
+	private tableCreated: Promise<void> | null = null;
+	private cleanUpInterval: NodeJS.Timeout | null;
+
+	public constructor(sql: typeof Sql, tableName: string) {
+		this.sql = sql;
+		this.tableName = tableName;
+		this.cleanUpInterval = setInterval(() => {
+			this.connect((sql) => sql.query("delete from " + this.tableName + " where expires_at <= ?", [Date.now()])).catch(function (reason) {
+				log.error("Error removing expired sessions", { err: reason });
+			});
+		}, 600000);
+		this.cleanUpInterval.unref();
+	}
+
+	private async connect<T>(callback: (sql: Sql) => Promise<T>): Promise<T> {
+		if (!this.tableCreated) {
+			this.tableCreated = this.sql.connect(async (sql) => {
+				await sql.query("create table if not exists " + this.tableName + " (id char(48) not null, data mediumtext not null, expires_at bigint not null, primary key (id), key " + this.tableName + "_expires_at (expires_at))");
+			});
+			// Try again during the next request.
+			this.tableCreated.catch(() => {
+				this.tableCreated = null;
+			});
+		}
+
+		await this.tableCreated;
+
+		return this.sql.connect(callback);
+	}
+
+	public async get(id: string): Promise<SessionStoreEntry | null> {
+		const rows = await this.connect((sql) => sql.query<any>("select data, expires_at from " + this.tableName + " where id = ? and expires_at > ?", [id, Date.now()]));
+
+		if (!rows || !rows.length)
+			return null;
+
+		return { data: JSON.parse(rows[0].data), expiresAt: parseInt(rows[0].expires_at) };
+	}
+
+	public async set(id: string, entry: SessionStoreEntry): Promise<void> {
+		const data = JSON.stringify(entry.data);
+		await this.connect((sql) => sql.query("insert into " + this.tableName + " (id, data, expires_at) values (?, ?, ?) on duplicate key update data = ?, expires_at = ?", [id, data, entry.expiresAt, data, entry.expiresAt]));
+	}
+
+	public async destroy(id: string): Promise<void> {
+		await this.connect((sql) => sql.query("delete from " + this.tableName + " where id = ?", [id]));
+	}
+
+	public close(): void {
+		if (this.cleanUpInterval) {
+			clearInterval(this.cleanUpInterval);
+			this.cleanUpInterval = null;
+		}
+	}
+}
+
+export function createSessionStore(sessionConfig: SessionConfig, sql: typeof Sql | null): SessionStore {
+	const store = sessionConfig.store;
+
+	if (store && (typeof store) === "object")
+		return store as SessionStore;
+
+	switch (store || "memory") {
+		case "memory":
+			return new MemorySessionStore();
+
+		case "file":
+			return new FileSessionStore(sessionConfig.fileDir || "sessions");
+
+		case "mysql":
+			if (!sql)
+				throw new Error("config.session.store is \"mysql\", but config.sqlConfig has not been provided");
+
+			const tableName = (sessionConfig.tableName || "teem_session");
+			if (!/^\w+$/.test(tableName))
+				throw new Error(`Invalid session table name "${tableName}"`);
+
+			return new MySqlSessionStore(sql, tableName);
+
+		default:
+			throw new Error(`Invalid session store "${store}"`);
+	}
+}
+
+export function createSessionMiddleware(sessionConfig: SessionConfig, store: SessionStore, root: string): Function {
+	const secrets = (Array.isArray(sessionConfig.secret) ? sessionConfig.secret : [sessionConfig.secret]);
+
+	if (!secrets.length || secrets.some((secret) => !secret || (typeof secret) !== "string"))
+		throw new Error("config.session.secret must be a non-empty string or an array of non-empty strings");
+
+	let maxAge = parseInt(sessionConfig.maxAge as any);
+	if (isNaN(maxAge) || maxAge <= 0)
+		maxAge = 86400000;
+
+	const sameSite = (sessionConfig.sameSite || "lax").toLowerCase();
+	if (sameSite !== "strict" && sameSite !== "lax" && sameSite !== "none")
+		throw new Error(`Invalid value for config.session.sameSite: "${sessionConfig.sameSite}"`);
+
+	const options: CookieOptions = {
+		name: (sessionConfig.cookieName || "teem.sid"),
+		secrets,
+		maxAge,
+		secure: (((typeof sessionConfig.secure) === "boolean") ? sessionConfig.secure as boolean : null),
+		sameSite: sameSite.charAt(0).toUpperCase() + sameSite.substr(1),
+		domain: (sessionConfig.domain || null),
+		path: (root || "/")
+	};
+
+	// Unchanged sessions are not written back to the store on every request,
+	// only when their expiration has moved forward enough.
+	const touchInterval = Math.min(60000, Math.floor(maxAge / 10));
+
+	return async function (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const cookie = readCookie(req, options.name),
+			id = (cookie ? unsign(cookie, options.secrets) : null),
+			state: SessionState = {
+				store,
+				id: "",
+				stored: false,
+				json: "{}",
+				expiresAt: 0,
+				hadCookie: !!cookie
+			};
+
+		let entry: SessionStoreEntry | null = null;
+
+		if (id) {
+			try {
+				entry = await store.get(id);
+			} catch (ex: any) {
+				next(ex);
+				return;
+			}
+		}
+
+		const session = new SessionObject(state);
+
+		if (entry) {
+			if (entry.data && (typeof entry.data) === "object")
+				Object.assign(session, entry.data);
+			state.id = id as string;
+			state.stored = true;
+			state.json = JSON.stringify(session);
+			state.expiresAt = entry.expiresAt;
+		}
+
+		(req as any).session = session;
+
+		let prepared = false, pendingSave: SessionStoreEntry | null = null, pendingDestroy = "";
+
+		const prepare = function (): void {
+			if (prepared)
+				return;
+			prepared = true;
+
+			const json = JSON.stringify(session);
+
+			if (json === "{}") {
+				// Empty sessions are not kept.
+				if (state.stored)
+					pendingDestroy = state.id;
+				if (state.hadCookie)
+					appendSetCookie(res, createCookie(options, req, "", 0));
+				return;
+			}
+
+			const expiresAt = Date.now() + options.maxAge;
+
+			if (!state.stored || json !== state.json || (expiresAt - state.expiresAt) > touchInterval)
+				pendingSave = { data: JSON.parse(json), expiresAt };
+
+			appendSetCookie(res, createCookie(options, req, session.id + "." + sign(session.id, options.secrets[0]), expiresAt));
+		};
+
+		const writeHead = res.writeHead;
+		res.writeHead = function (this: express.Response): express.Response {
+			prepare();
+			return writeHead.apply(this, arguments as any);
+		} as any;
+
+		const end = res.end;
+		res.end = function (this: express.Response): express.Response {
+			const args = arguments;
+
+			res.end = end;
+
+			if (!res.headersSent)
+				prepare();
+
+			const sessionId = state.id,
+				operation = (pendingSave ? store.set(sessionId, pendingSave) : (pendingDestroy ? store.destroy(pendingDestroy) : null));
+
+			if (!operation) {
+				end.apply(res, args as any);
+				return res;
+			}
+
+			// The response is only finished after the session has been stored, so that
+			// a request made right after this one (such as a redirect) sees the new data.
+			operation.then(function () {
+				end.apply(res, args as any);
+			}, function (reason) {
+				log.error("Error storing the session", { requestId: (req as any).id, err: reason });
+				end.apply(res, args as any);
+			});
+
+			return res;
+		} as any;
+
+		next();
+	};
+}
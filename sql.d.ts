@@ -1,28 +1,234 @@
 ﻿import mysql = require("mysql2");
+import { DeleteQuery, InsertQuery, SelectQuery, UpdateQuery } from "./queryBuilder";
 export declare function init(poolConfig: mysql.PoolOptions): void;
+export declare function pendingCallbackCount(): number;
+export interface PoolStats {
+	total: number;
+	inUse: number;
+	queued: number;
+}
+export declare function poolStats(): PoolStats;
+/**
+	* Sets the function called after each execution of `query()` or `scalar()`, used to collect metrics.
+	*/
+export declare function observeQueries(observer: ((method: string, seconds: number, success: boolean) => void) | null): void;
+export declare function end(): Promise<void>;
+export interface SqlWarning {
+	/**
+		* Level of the warning, such as `"Warning"`, `"Note"` or `"Error"`.
+		*/
+	level: string;
+	/**
+		* MySQL error code of the warning, such as `1265` (data truncated).
+		*/
+	code: number;
+	/**
+		* Description of the warning.
+		*/
+	message: string;
+}
+export interface SqlPreparedStatement {
+	/**
+		* Executes the prepared statement and returns the resulting rows (if any).
+		*
+		* @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+		*/
+	query<T>(values?: any): Promise<T[]>;
+	/**
+		* Executes the prepared statement and returns the first column of the first resulting row (if any).
+		*
+		* @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+		*/
+	scalar<T>(values?: any): Promise<T | null>;
+	/**
+		* Executes the prepared statement, which must not return rows, and returns the object produced by MySQL (refer to `app.Sql.execute()` for more information).
+		*
+		* @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+		*/
+	execute(values?: any): Promise<mysql.ResultSetHeader>;
+	/**
+		* Releases this handle, which can no longer be used after `close()` is called.
+		*
+		* The prepared statement itself is not deallocated in the server, as it is shared, through the connection's cache, with other handles and `app.Sql.execute()` calls using the same SQL. The statements are automatically deallocated when the connection's cache is full (refer to the option `maxPreparedStatements` of `config.sqlConfig`), or when the connection is closed. Therefore, calling `close()` is optional.
+		*/
+	close(): void;
+}
+export interface SqlBatchStatement {
+	/**
+		* The statement to be executed.
+		*/
+	queryStr: string;
+	/**
+		* Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`.
+		*/
+	values?: any;
+}
+export interface SqlBatchResult {
+	/**
+		* The resulting rows, for statements that return rows, or the object produced by MySQL, for statements that do not return rows.
+		*/
+	results: any;
+	/**
+		* How many rows were affected by the statement.
+		*/
+	affectedRows: number;
+	/**
+		* The value generated for the `AUTO_INCREMENT` column by the statement (`0` if the statement did not generate a value).
+		*/
+	lastInsertId: number;
+}
 export interface SqlInterface {
 	/**
-		* How many rows were affected by the last execution of `query()` or `scalar()`.
+		* How many rows were affected by the last execution of `query()`, `scalar()` or `execute()`.
 		*/
 	affectedRows: number;
 	/**
-		* The filed information returned by the last execution of `query()` or `scalar()` (can be `null`).
+		* The value generated for the `AUTO_INCREMENT` column by the last execution of `query()`, `scalar()` or `execute()` (`0` if the last statement did not generate a value, or if it returned rows).
+		*
+		* This is the same value returned by `SELECT LAST_INSERT_ID()`, but without the additional round trip. When several rows are inserted by a single statement, `lastInsertId` contains the value generated for the first row.
+		*/
+	lastInsertId: number;
+	/**
+		* How many rows were actually changed by the last `UPDATE` executed by `query()`, `scalar()` or `execute()`.
+		*
+		* Unlike `affectedRows`, rows whose new values are the same as their current values are not counted.
+		*/
+	changedRows: number;
+	/**
+		* How many warnings were produced by the last execution of `query()`, `scalar()` or `execute()` (`0` if the last statement returned rows).
+		*
+		* Refer to `lastWarnings()` to obtain the actual warnings.
+		*/
+	warningStatus: number;
+	/**
+		* The filed information returned by the last execution of `query()`, `scalar()` or `execute()` (can be `null`).
 		*/
 	resultFields: mysql.FieldPacket[] | null;
 	/**
 		* Executes the statement given in `queryStr` and returns the resulting rows (if any).
 		*
+		* Instead of ? placeholders, `queryStr` may contain named placeholders, with their values provided by the properties of an object. A name may be used several times, and arrays are expanded into lists, so they can be used in `IN` clauses. For example:
+		*
+		* ```ts
+		* await sql.query("SELECT id, name FROM user WHERE (name = :name OR nickname = :name) AND status IN (:status)", { name: "Alice", status: [1, 2] });
+		* ```
+		*
+		* An exception is thrown if a named placeholder does not have a corresponding property in the object (`null` is an acceptable value, while `undefined` is not). Empty arrays are replaced with `NULL`.
+		*
 		* @param queryStr The statement to be executed.
-		* @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`.
+		* @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` .
 		*/
 	query<T>(queryStr: string, values?: any): Promise<T[]>;
 	/**
 		* Executes the statement given in `queryStr` and returns the first column of the first resulting row (if any).
 		*
 		* @param queryStr The statement to be executed.
-		* @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`.
+		* @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` (refer to `query()` for more information).
 		*/
 	scalar<T>(queryStr: string, values?: any): Promise<T | null>;
+	/**
+		* Executes the statement given in `queryStr`, which must not return rows (such as `INSERT`, `UPDATE` or `DELETE`), and returns the object produced by MySQL, containing properties such as `affectedRows`, `insertId`, `changedRows` and `warningStatus`.
+		*
+		* Unlike `query()` and `scalar()`, `execute()` uses a prepared statement (binary protocol), which is created only once per connection, and cached for later executions of the same `queryStr` (refer to `prepare()` for more information).
+		*
+		* The binary protocol sends all numbers as `DOUBLE` values, which MySQL 8.0.22 and later rejects as the arguments of `LIMIT` and `OFFSET`. In those clauses, provide the values as strings (such as `String(count)`) or write validated integers directly into `queryStr`.
+		*
+		* An exception is thrown if the statement returns rows.
+		*
+		* @param queryStr The statement to be executed.
+		* @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` (refer to `query()` for more information).
+		*/
+	execute(queryStr: string, values?: any): Promise<mysql.ResultSetHeader>;
+	/**
+		* Returns the warnings produced by the last statement, by executing `SHOW WARNINGS`.
+		*
+		* If `warningStatus` is `0`, no statements are executed and an empty array is returned. Executing `lastWarnings()` does not change `affectedRows`, `lastInsertId`, `changedRows`, `warningStatus` or `resultFields`.
+		*/
+	lastWarnings(): Promise<SqlWarning[]>;
+	/**
+		* Creates a prepared statement (binary protocol), which can be executed several times with different values, without sending and parsing `queryStr` again.
+		*
+		* Prepared statements are cached by the connection, which is kept open by the pool after `app.sql.connect()` finishes. Therefore, preparing the same `queryStr` again, even inside a later `app.sql.connect()`, reuses the existing statement whenever the same connection is used. The size of the cache of each connection is controlled by the option `maxPreparedStatements` of `config.sqlConfig`.
+		*
+		* The object returned by `prepare()` can only be used inside the callback of the `app.sql.connect()` that created it.
+		*
+		* The binary protocol sends all numbers as `DOUBLE` values, which MySQL 8.0.22 and later rejects as the arguments of `LIMIT` and `OFFSET`. In those clauses, provide the values as strings (such as `String(count)`) or write validated integers directly into `queryStr`.
+		*
+		* For example:
+		*
+		* ```ts
+		* const statement = await sql.prepare("INSERT INTO product (name, price) VALUES (:name, :price)");
+		* for (const product of products)
+		*     await statement.execute(product);
+		* ```
+		*
+		* @param queryStr The statement to be prepared, with ? placeholders or named placeholders (but not both).
+		*/
+	prepare(queryStr: string): Promise<SqlPreparedStatement>;
+	/**
+		* Executes several statements, in order, and returns one result for each statement.
+		*
+		* If the option `multipleStatements` of `config.sqlConfig` is `true`, all statements are sent to the server at once, in a single round trip (in which case, each statement must produce a single result, so `CALL` statements must not be used). Otherwise, each statement is executed using a prepared statement, just like `execute()`.
+		*
+		* The execution stops at the first statement that fails, and the promise is rejected. `batch()` does not create a transaction, so `beginTransaction()` should be called before `batch()` if the statements must be executed atomically.
+		*
+		* The objects returned by `toSql()` of the query builders, such as `select()` and `insert()`, can also be used as statements.
+		*
+		* @param statements Statements to be executed.
+		*/
+	batch(statements: (SqlBatchStatement | {
+		toSql(): SqlBatchStatement;
+	})[]): Promise<SqlBatchResult[]>;
+	/**
+		* Creates a `SELECT` statement, executed when awaited, which resolves to the resulting rows, just like `query()`.
+		*
+		* For example:
+		*
+		* ```ts
+		* const users = await sql.select<User>("user", ["id", "name"])
+		*     .where({ status: 1, name: (filter ? { like: filter + "%" } : undefined) })
+		*     .orderBy("name")
+		*     .limit(20, 40);
+		* ```
+		*
+		* @param table Name of the table.
+		* @param columns Optional list of columns (all columns are returned if no columns are provided).
+		*/
+	select<T>(table: string, columns?: string[] | null): SelectQuery<T>;
+	/**
+		* Creates an `INSERT` statement, executed when awaited, which resolves to the object returned by `query()` for statements that do not return rows (containing properties such as `affectedRows` and `insertId`).
+		*
+		* Each property of `rows` is a column. When several rows are provided, the columns missing from some of them receive their default values.
+		*
+		* @param table Name of the table.
+		* @param rows Row, or array of rows, to be inserted.
+		*/
+	insert(table: string, rows: any | any[]): InsertQuery;
+	/**
+		* Creates an `INSERT ... ON DUPLICATE KEY UPDATE` statement, executed when awaited, which resolves just like `insert()`.
+		*
+		* @param table Name of the table.
+		* @param rows Row, or array of rows, to be inserted or updated.
+		* @param updateColumns Optional list of columns updated when a row already exists (all columns of `rows` are updated if no columns are provided).
+		*/
+	upsert(table: string, rows: any | any[], updateColumns?: string[] | null): InsertQuery;
+	/**
+		* Creates an `UPDATE` statement, executed when awaited, which resolves just like `insert()`.
+		*
+		* `where()` must be called with at least one condition, to prevent accidental updates of all rows of the table (use `whereAll()` to actually update all rows).
+		*
+		* @param table Name of the table.
+		* @param row Object whose properties are the columns to be updated.
+		*/
+	update(table: string, row: any): UpdateQuery;
+	/**
+		* Creates a `DELETE` statement, executed when awaited, which resolves just like `insert()`.
+		*
+		* `where()` must be called with at least one condition, to prevent accidental deletions of all rows of the table (use `whereAll()` to actually delete all rows).
+		*
+		* @param table Name of the table.
+		*/
+	delete(table: string): DeleteQuery;
 	/**
 		* Begins a database transaction.
 		*
@@ -50,10 +256,29 @@ export declare class Sql implements SqlInterface {
 	private connection;
 	private pendingTransaction;
 	affectedRows: number;
+	lastInsertId: number;
+	changedRows: number;
+	warningStatus: number;
 	resultFields: mysql.FieldPacket[] | null;
 	static connect<T>(callback: (sql: Sql) => Promise<T>): Promise<T>;
+	private setResult;
+	/**
+		* Executes the statement using `connection.query()` (text protocol), or using `connection.execute()` (binary protocol), if `binary` is `true`.
+		*/
+	private run;
 	query<T>(queryStr: string, values?: any): Promise<T[]>;
 	scalar<T>(queryStr: string, values?: any): Promise<T | null>;
+	execute(queryStr: string, values?: any): Promise<mysql.ResultSetHeader>;
+	prepare(queryStr: string): Promise<SqlPreparedStatement>;
+	batch(statements: (SqlBatchStatement | {
+		toSql(): SqlBatchStatement;
+	})[]): Promise<SqlBatchResult[]>;
+	lastWarnings(): Promise<SqlWarning[]>;
+	select<T>(table: string, columns?: string[] | null): SelectQuery<T>;
+	insert(table: string, rows: any | any[]): InsertQuery;
+	upsert(table: string, rows: any | any[], updateColumns?: string[] | null): InsertQuery;
+	update(table: string, row: any): UpdateQuery;
+	delete(table: string): DeleteQuery;
 	beginTransaction(): Promise<void>;
 	commit(): Promise<void>;
 	rollback(): Promise<void>;
@@ -2,23 +2,190 @@
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.Sql = void 0;
 exports.init = init;
+exports.pendingCallbackCount = pendingCallbackCount;
+exports.poolStats = poolStats;
+exports.observeQueries = observeQueries;
+exports.end = end;
 const mysql = require("mysql2");
+const queryBuilder_1 = require("./queryBuilder");
 let pool;
+let pendingCallbacks = 0;
+let queryObserver = null;
 function init(poolConfig) {
 	if (!poolConfig)
 		throw new Error("Missing poolConfig");
 	if (!pool)
 		pool = mysql.createPool(poolConfig);
 }
+function pendingCallbackCount() {
+	return pendingCallbacks;
+}
+function poolStats() {
+	if (!pool)
+		return { total: 0, inUse: 0, queued: 0 };
+	// mysql2 does not expose these values publicly.
+	const p = pool, total = ((p._allConnections && p._allConnections.length) | 0);
+	return {
+		total,
+		inUse: total - ((p._freeConnections && p._freeConnections.length) | 0),
+		queued: ((p._connectionQueue && p._connectionQueue.length) | 0)
+	};
+}
+/**
+	* Sets the function called after each execution of `query()` or `scalar()`, used to collect metrics.
+	*/
+function observeQueries(observer) {
+	queryObserver = observer;
+}
+function queryDone(method, start, success) {
+	if (start && queryObserver) {
+		const duration = process.hrtime(start);
+		queryObserver(method, duration[0] + (duration[1] / 1e9), success);
+	}
+}
+function isNamedValues(values) {
+	return ((typeof values) === "object" && !Array.isArray(values) && !Buffer.isBuffer(values) && !(values instanceof Date));
+}
+/**
+	* Returns the named placeholders in `queryStr` (such as `:userId`), ignoring quoted strings, quoted identifiers and comments.
+	*/
+function findNamedPlaceholders(queryStr) {
+	const placeholders = [], length = queryStr.length;
+	let i = 0;
+	while (i < length) {
+		const c = queryStr.charCodeAt(i);
+		switch (c) {
+			case 0x22: // "
+			case 0x27: // '
+			case 0x60: // `
+				// Skip the quoted string/identifier (a backslash, or the quote itself
+				// repeated, escapes the quote).
+				for (i++; i < length; i++) {
+					const d = queryStr.charCodeAt(i);
+					if (d === 0x5C && c !== 0x60) {
+						i++;
+					}
+					else if (d === c) {
+						if (queryStr.charCodeAt(i + 1) !== c)
+							break;
+						i++;
+					}
+				}
+				i++;
+				continue;
+			case 0x23: // #
+				i = queryStr.indexOf("\n", i);
+				if (i < 0)
+					i = length;
+				continue;
+			case 0x2D: // -
+				if (queryStr.charCodeAt(i + 1) === 0x2D) {
+					i = queryStr.indexOf("\n", i);
+					if (i < 0)
+						i = length;
+					continue;
+				}
+				break;
+			case 0x2F: // /
+				if (queryStr.charCodeAt(i + 1) === 0x2A) {
+					i = queryStr.indexOf("*/", i + 2);
+					i = ((i < 0) ? length : (i + 2));
+					continue;
+				}
+				break;
+			case 0x3A: // :
+				// The placeholder must not be preceded by a letter, a digit or another
+				// colon (such as in "a:b" or "::").
+				if (i > 0 && /[\w:]/.test(queryStr.charAt(i - 1)))
+					break;
+				const match = /^[A-Za-z_]\w*/.exec(queryStr.substring(i + 1, i + 65));
+				if (!match)
+					break;
+				placeholders.push({ name: match[0], start: i, end: i + match[0].length + 1 });
+				i += match[0].length + 1;
+				continue;
+		}
+		i++;
+	}
+	return placeholders;
+}
+function namedValue(values, name) {
+	const value = values[name];
+	if (value === undefined)
+		throw new Error(`Missing value for the placeholder ":${name}"`);
+	return value;
+}
+/**
+	* Replaces the named placeholders in `queryStr` (such as `:userId`) with positional ? placeholders, returning the values in the order they must be provided.
+	*
+	* Arrays are expanded into one ? placeholder per element (or into `NULL`, if the array is empty), so that they can be used in `IN (:ids)`.
+	*/
+function compileNamedPlaceholders(queryStr, values) {
+	const placeholders = findNamedPlaceholders(queryStr), positionalValues = [];
+	let compiled = "", last = 0;
+	for (let i = 0; i < placeholders.length; i++) {
+		const placeholder = placeholders[i], value = namedValue(values, placeholder.name);
+		compiled += queryStr.substring(last, placeholder.start);
+		if (Array.isArray(value)) {
+			if (value.length) {
+				compiled += "?" + ", ?".repeat(value.length - 1);
+				positionalValues.push(...value);
+			}
+			else {
+				compiled += "NULL";
+			}
+		}
+		else {
+			compiled += "?";
+			positionalValues.push(value);
+		}
+		last = placeholder.end;
+	}
+	return { queryStr: compiled + queryStr.substring(last), values: positionalValues };
+}
+function firstColumn(results) {
+	if (results) {
+		const r = results[0];
+		if (r) {
+			for (let i in r)
+				return r[i];
+		}
+	}
+	return null;
+}
+function resultSetHeader(results) {
+	if (!results || Array.isArray(results))
+		throw new Error("execute() can only be used with statements that do not return rows");
+	return results;
+}
+async function end() {
+	if (!pool)
+		return;
+	const localPool = pool;
+	pool = null;
+	return new Promise(function (resolve, reject) {
+		localPool.end(function (error) {
+			if (error)
+				reject(error);
+			else
+				resolve();
+		});
+	});
+}
 class Sql {
 	constructor() {
 		// https://www.npmjs.com/package/mysql2
 		this.connection = null;
 		this.pendingTransaction = false;
 		this.affectedRows = 0;
+		this.lastInsertId = 0;
+		this.changedRows = 0;
+		this.warningStatus = 0;
 		this.resultFields = null;
 	}
 	static async connect(callback) {
+		if (!pool)
+			throw new Error("The connection pool has already been closed");
 		return new Promise(function (resolve, reject) {
 			pool.getConnection(function (error, connection) {
 				if (error) {
@@ -27,11 +194,14 @@ class Sql {
 				}
 				const sql = new Sql();
 				sql.connection = connection;
+				pendingCallbacks++;
 				function cleanUp() {
 					if (sql) {
 						sql.connection = null;
 						sql.resultFields = null;
+						sql.warningStatus = 0;
 					}
+					pendingCallbacks--;
 					connection.release();
 				}
 				try {
@@ -78,53 +248,227 @@ class Sql {
 			});
 		});
 	}
-	async query(queryStr, values) {
+	setResult(results, fields) {
+		// Statements that return rows do not have a ResultSetHeader.
+		const header = ((results && !Array.isArray(results)) ? results : null);
+		this.affectedRows = ((header && parseInt(header.affectedRows)) | 0);
+		this.lastInsertId = ((header && parseInt(header.insertId)) || 0);
+		this.changedRows = ((header && parseInt(header.changedRows)) | 0);
+		this.warningStatus = ((header && parseInt(header.warningStatus)) | 0);
+		this.resultFields = (fields || null);
+	}
+	/**
+		* Executes the statement using `connection.query()` (text protocol), or using `connection.execute()` (binary protocol), if `binary` is `true`.
+		*/
+	run(method, queryStr, values, binary) {
 		return new Promise((resolve, reject) => {
+			const start = (queryObserver ? process.hrtime() : null);
 			const callback = (error, results, fields) => {
+				queryDone(method, start, !error);
 				if (error) {
 					reject(error);
 					return;
 				}
-				this.affectedRows = parseInt(results.affectedRows) | 0;
-				this.resultFields = (fields || null);
+				this.setResult(results, fields);
 				resolve(results);
 			};
 			if (!this.connection)
 				throw new Error("Null connection");
-			if (values && values.length)
-				this.connection.query(queryStr, values, callback);
-			else
+			if (values !== undefined && values !== null && isNamedValues(values)) {
+				const compiled = compileNamedPlaceholders(queryStr, values);
+				queryStr = compiled.queryStr;
+				values = compiled.values;
+			}
+			if (binary) {
+				// connection.execute() prepares the statement only once, caching it in the
+				// connection, which is kept open by the pool after being released.
+				this.connection.execute(queryStr, ((values === undefined || values === null) ? [] : (Array.isArray(values) ? values : [values])), callback);
+			}
+			else if (values === undefined || values === null) {
 				this.connection.query(queryStr, callback);
+			}
+			else {
+				this.connection.query(queryStr, values, callback);
+			}
 		});
 	}
+	async query(queryStr, values) {
+		return (await this.run("query", queryStr, values, false));
+	}
 	async scalar(queryStr, values) {
-		return new Promise((resolve, reject) => {
-			const callback = (error, results, fields) => {
+		return firstColumn(await this.run("scalar", queryStr, values, false));
+	}
+	async execute(queryStr, values) {
+		return resultSetHeader(await this.run("execute", queryStr, values, true));
+	}
+	async prepare(queryStr) {
+		const placeholders = findNamedPlaceholders(queryStr);
+		let names = null;
+		if (placeholders.length) {
+			let compiled = "", last = 0;
+			names = new Array(placeholders.length);
+			for (let i = 0; i < placeholders.length; i++) {
+				compiled += queryStr.substring(last, placeholders[i].start) + "?";
+				last = placeholders[i].end;
+				names[i] = placeholders[i].name;
+			}
+			queryStr = compiled + queryStr.substring(last);
+		}
+		if (!this.connection)
+			throw new Error("Null connection");
+		const connection = this.connection;
+		let statement = await new Promise(function (resolve, reject) {
+			connection.prepare(queryStr, function (error, statement) {
+				if (error)
+					reject(error);
+				else
+					resolve(statement);
+			});
+		});
+		const run = (method, values) => {
+			return new Promise((resolve, reject) => {
+				// The statement belongs to the connection, which may be used by other
+				// callers after being released.
+				if (!statement || this.connection !== connection)
+					throw new Error("The prepared statement has been closed, or its connection has been released");
+				let parameters;
+				if (names) {
+					if (!values || !isNamedValues(values))
+						throw new Error("The prepared statement uses named placeholders, and its values must be provided as an object");
+					parameters = new Array(names.length);
+					for (let i = 0; i < names.length; i++) {
+						const value = namedValue(values, names[i]);
+						if (Array.isArray(value))
+							throw new Error(`Arrays cannot be used with prepared statements (placeholder ":${names[i]}")`);
+						parameters[i] = value;
+					}
+				}
+				else {
+					parameters = ((values === undefined || values === null) ? [] : (Array.isArray(values) ? values : [values]));
+				}
+				const start = (queryObserver ? process.hrtime() : null);
+				statement.execute(parameters, (error, results, fields) => {
+					queryDone(method, start, !error);
+					if (error) {
+						reject(error);
+						return;
+					}
+					this.setResult(results, fields);
+					resolve(results);
+				});
+			});
+		};
+		return {
+			query: async function (values) {
+				return (await run("query", values));
+			},
+			scalar: async function (values) {
+				return firstColumn(await run("scalar", values));
+			},
+			execute: async function (values) {
+				return resultSetHeader(await run("execute", values));
+			},
+			close: function () {
+				// The statement is not deallocated, as the connection's cache shares it
+				// with other handles (and execute() calls) using the same SQL.
+				statement = null;
+			}
+		};
+	}
+	async batch(statements) {
+		if (!this.connection)
+			throw new Error("Null connection");
+		const compiledStatements = new Array(statements.length);
+		for (let i = 0; i < statements.length; i++) {
+			const statement = statements[i];
+			compiledStatements[i] = (((typeof statement.toSql) === "function") ? statement.toSql() : statement);
+			if (!compiledStatements[i] || !compiledStatements[i].queryStr)
+				throw new Error(`Invalid statement at index ${i}`);
+		}
+		const batchResults = [];
+		if (!compiledStatements.length)
+			return batchResults;
+		const connection = this.connection;
+		if (!connection.config || !connection.config.multipleStatements) {
+			// Without multipleStatements, each statement requires its own round trip.
+			for (let i = 0; i < compiledStatements.length; i++) {
+				const results = await this.run("batch", compiledStatements[i].queryStr, compiledStatements[i].values, true);
+				batchResults.push({ results, affectedRows: this.affectedRows, lastInsertId: this.lastInsertId });
+			}
+			return batchResults;
+		}
+		// With multipleStatements, all statements are sent at once, in a single round trip.
+		let queryStr = "";
+		for (let i = 0; i < compiledStatements.length; i++) {
+			let statementStr = compiledStatements[i].queryStr, values = compiledStatements[i].values;
+			if (values !== undefined && values !== null) {
+				if (isNamedValues(values)) {
+					const compiled = compileNamedPlaceholders(statementStr, values);
+					statementStr = compiled.queryStr;
+					values = compiled.values;
+				}
+				statementStr = connection.format(statementStr, values);
+			}
+			// Trailing semicolons would produce empty statements, rejected by the server.
+			queryStr += (i ? ";\n" : "") + statementStr.replace(/[\s;]+$/, "");
+		}
+		let results = await this.run("batch", queryStr, null, false);
+		// mysql2 only returns an array of results when there are several statements.
+		if (compiledStatements.length === 1)
+			results = [results];
+		for (let i = 0; i < compiledStatements.length; i++) {
+			const header = ((results[i] && !Array.isArray(results[i])) ? results[i] : null);
+			batchResults.push({
+				results: results[i],
+				affectedRows: ((header && parseInt(header.affectedRows)) | 0),
+				lastInsertId: ((header && parseInt(header.insertId)) || 0)
+			});
+		}
+		// Keep the information about the last statement, just like the other methods
+		// (with several statements, resultFields contains one array of fields per
+		// statement at this point).
+		const fields = this.resultFields;
+		this.setResult(results[results.length - 1], ((fields && compiledStatements.length > 1) ? fields[fields.length - 1] : fields));
+		return batchResults;
+	}
+	async lastWarnings() {
+		if (!this.warningStatus)
+			return [];
+		if (!this.connection)
+			throw new Error("Null connection");
+		const connection = this.connection;
+		// connection.query() is used directly, instead of query(), so that the
+		// information about the last statement is preserved.
+		return new Promise(function (resolve, reject) {
+			connection.query("show warnings", function (error, results) {
 				if (error) {
 					reject(error);
 					return;
 				}
-				this.affectedRows = parseInt(results.affectedRows) | 0;
-				this.resultFields = (fields || null);
-				if (results) {
-					const r = results[0];
-					if (r) {
-						for (let i in r) {
-							resolve(r[i]);
-							return;
-						}
-					}
+				const warnings = [];
+				if (Array.isArray(results)) {
+					for (let i = 0; i < results.length; i++)
+						warnings.push({ level: results[i].Level, code: parseInt(results[i].Code) | 0, message: results[i].Message });
 				}
-				resolve(null);
-			};
-			if (!this.connection)
-				throw new Error("Null connection");
-			if (values && values.length)
-				this.connection.query(queryStr, values, callback);
-			else
-				this.connection.query(queryStr, callback);
+				resolve(warnings);
+			});
 		});
 	}
+	select(table, columns) {
+		return new queryBuilder_1.Select((queryStr, values) => this.query(queryStr, values), table, columns || null);
+	}
+	insert(table, rows) {
+		return new queryBuilder_1.Insert((queryStr, values) => this.query(queryStr, values), table, rows);
+	}
+	upsert(table, rows, updateColumns) {
+		return new queryBuilder_1.Insert((queryStr, values) => this.query(queryStr, values), table, rows, updateColumns || null);
+	}
+	update(table, row) {
+		return new queryBuilder_1.Update((queryStr, values) => this.query(queryStr, values), table, row);
+	}
+	delete(table) {
+		return new queryBuilder_1.Delete((queryStr, values) => this.query(queryStr, values), table);
+	}
 	async beginTransaction() {
 		if (this.pendingTransaction)
 			throw new Error("There is already an open transaction in this connection");
@@ -1,6 +1,9 @@
 import mysql = require("mysql2");
+import { DeleteQuery, InsertQuery, SelectQuery, UpdateQuery, Delete, Insert, Select, Update } from "./queryBuilder";
 
 let pool: mysql.Pool;
+let pendingCallbacks = 0;
+let queryObserver: ((method: string, seconds: number, success: boolean) => void) | null = null;
 
 export function init(poolConfig: mysql.PoolOptions): void {
 	if (!poolConfig)
@@ -10,22 +13,333 @@ export function init(poolConfig: mysql.PoolOptions): void {
 		pool = mysql.createPool(poolConfig);
 }
 
+export function pendingCallbackCount(): number {
+	return pendingCallbacks;
+}
+
+export interface PoolStats {
+	total: number;
+	inUse: number;
+	queued: number;
+}
+
+export function poolStats(): PoolStats {
+	if (!pool)
+		return { total: 0, inUse: 0, queued: 0 };
+
+	// mysql2 does not expose these values publicly.
+	const p = pool as any,
+		total = ((p._allConnections && p._allConnections.length) | 0);
+
+	return {
+		total,
+		inUse: total - ((p._freeConnections && p._freeConnections.length) | 0),
+		queued: ((p._connectionQueue && p._connectionQueue.length) | 0)
+	};
+}
+
+/**
+ * Sets the function called after each execution of `query()` or `scalar()`, used to collect metrics.
+ */
+export function observeQueries(observer: ((method: string, seconds: number, success: boolean) => void) | null): void {
+	queryObserver = observer;
+}
+
+function queryDone(method: string, start: [number, number] | null, success: boolean): void {
+	if (start && queryObserver) {
+		const duration = process.hrtime(start);
+		queryObserver(method, duration[0] + (duration[1] / 1e9), success);
+	}
+}
+
+function isNamedValues(values: any): boolean {
+	return ((typeof values) === "object" && !Array.isArray(values) && !Buffer.isBuffer(values) && !(values instanceof Date));
+}
+
+interface NamedPlaceholder {
+	name: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Returns the named placeholders in `queryStr` (such as `:userId`), ignoring quoted strings, quoted identifiers and comments.
+ */
+function findNamedPlaceholders(queryStr: string): NamedPlaceholder[] {
+	const placeholders: NamedPlaceholder[] = [],
+		length = queryStr.length;
+
+	let i = 0;
+
+	while (i < length) {
+		const c = queryStr.charCodeAt(i);
+
+		switch (c) {
+			case 0x22: // "
+			case 0x27: // '
+			case 0x60: // `
+				// Skip the quoted string/identifier (a backslash, or the quote itself
+				// repeated, escapes the quote).
+				for (i++; i < length; i++) {
+					const d = queryStr.charCodeAt(i);
+					if (d === 0x5C && c !== 0x60) {
+						i++;
+					} else if (d === c) {
+						if (queryStr.charCodeAt(i + 1) !== c)
+							break;
+						i++;
+					}
+				}
+				i++;
+				continue;
+
+			case 0x23: // #
+				i = queryStr.indexOf("\n", i);
+				if (i < 0)
+					i = length;
+				continue;
+
+			case 0x2D: // -
+				if (queryStr.charCodeAt(i + 1) === 0x2D) {
+					i = queryStr.indexOf("\n", i);
+					if (i < 0)
+						i = length;
+					continue;
+				}
+				break;
+
+			case 0x2F: // /
+				if (queryStr.charCodeAt(i + 1) === 0x2A) {
+					i = queryStr.indexOf("*/", i + 2);
+					i = ((i < 0) ? length : (i + 2));
+					continue;
+				}
+				break;
+
+			case 0x3A: // :
+				// The placeholder must not be preceded by a letter, a digit or another
+				// colon (such as in "a:b" or "::").
+				if (i > 0 && /[\w:]/.test(queryStr.charAt(i - 1)))
+					break;
+
+				const match = /^[A-Za-z_]\w*/.exec(queryStr.substring(i + 1, i + 65));
+				if (!match)
+					break;
+
+				placeholders.push({ name: match[0], start: i, end: i + match[0].length + 1 });
+
+				i += match[0].length + 1;
+				continue;
+		}
+
+		i++;
+	}
+
+	return placeholders;
+}
+
+function namedValue(values: any, name: string): any {
+	const value = values[name];
+
+	if (value === undefined)
+		throw new Error(`Missing value for the placeholder ":${name}"`);
+
+	return value;
+}
+
+/**
+ * Replaces the named placeholders in `queryStr` (such as `:userId`) with positional ? placeholders, returning the values in the order they must be provided.
+ * 
+ * Arrays are expanded into one ? placeholder per element (or into `NULL`, if the array is empty), so that they can be used in `IN (:ids)`.
+ */
+function compileNamedPlaceholders(queryStr: string, values: any): { queryStr: string, values: any[] } {
+	const placeholders = findNamedPlaceholders(queryStr),
+		positionalValues: any[] = [];
+
+	let compiled = "", last = 0;
+
+	for (let i = 0; i < placeholders.length; i++) {
+		const placeholder = placeholders[i],
+			value = namedValue(values, placeholder.name);
+
+		compiled += queryStr.substring(last, placeholder.start);
+
+		if (Array.isArray(value)) {
+			if (value.length) {
+				compiled += "?" + ", ?".repeat(value.length - 1);
+				positionalValues.push(...value);
+			} else {
+				compiled += "NULL";
+			}
+		} else {
+			compiled += "?";
+			positionalValues.push(value);
+		}
+
+		last = placeholder.end;
+	}
+
+	return { queryStr: compiled + queryStr.substring(last), values: positionalValues };
+}
+
+function firstColumn<T>(results: any): T | null {
+	if (results) {
+		const r = results[0];
+
+		if (r) {
+			for (let i in r)
+				return r[i];
+		}
+	}
+
+	return null;
+}
+
+function resultSetHeader(results: any): mysql.ResultSetHeader {
+	if (!results || Array.isArray(results))
+		throw new Error("execute() can only be used with statements that do not return rows");
+
+	return results as mysql.ResultSetHeader;
+}
+
+export async function end(): Promise<void> {
+	if (!pool)
+		return;
+
+	const localPool = pool;
+	pool = null as any;
+
+	return new Promise<void>(function (resolve, reject) {
+		localPool.end(function (error) {
+			if (error)
+				reject(error);
+			else
+				resolve();
+		});
+	});
+}
+
+export interface SqlWarning {
+	/**
+	 * Level of the warning, such as `"Warning"`, `"Note"` or `"Error"`.
+	 */
+	level: string;
+
+	/**
+	 * MySQL error code of the warning, such as `1265` (data truncated).
+	 */
+	code: number;
+
+	/**
+	 * Description of the warning.
+	 */
+	message: string;
+}
+
+export interface SqlPreparedStatement {
+	/**
+	 * Executes the prepared statement and returns the resulting rows (if any).
+	 * 
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+	 */
+	query<T>(values?: any): Promise<T[]>;
+
+	/**
+	 * Executes the prepared statement and returns the first column of the first resulting row (if any).
+	 * 
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+	 */
+	scalar<T>(values?: any): Promise<T | null>;
+
+	/**
+	 * Executes the prepared statement, which must not return rows, and returns the object produced by MySQL (refer to `app.Sql.execute()` for more information).
+	 * 
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders, or an object whose properties are used as the arguments of the named placeholders (arrays are not accepted as the values of named placeholders).
+	 */
+	execute(values?: any): Promise<mysql.ResultSetHeader>;
+
+	/**
+	 * Releases this handle, which can no longer be used after `close()` is called.
+	 * 
+	 * The prepared statement itself is not deallocated in the server, as it is shared, through the connection's cache, with other handles and `app.Sql.execute()` calls using the same SQL. The statements are automatically deallocated when the connection's cache is full (refer to the option `maxPreparedStatements` of `config.sqlConfig`), or when the connection is closed. Therefore, calling `close()` is optional.
+	 */
+	close(): void;
+}
+
+export interface SqlBatchStatement {
+	/**
+	 * The statement to be executed.
+	 */
+	queryStr: string;
+
+	/**
+	 * Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`.
+	 */
+	values?: any;
+}
+
+export interface SqlBatchResult {
+	/**
+	 * The resulting rows, for statements that return rows, or the object produced by MySQL, for statements that do not return rows.
+	 */
+	results: any;
+
+	/**
+	 * How many rows were affected by the statement.
+	 */
+	affectedRows: number;
+
+	/**
+	 * The value generated for the `AUTO_INCREMENT` column by the statement (`0` if the statement did not generate a value).
+	 */
+	lastInsertId: number;
+}
+
 export interface SqlInterface {
 	/**
-	 * How many rows were affected by the last execution of `query()` or `scalar()`.
+	 * How many rows were affected by the last execution of `query()`, `scalar()` or `execute()`.
 	 */
 	affectedRows: number;
 
 	/**
-	 * The filed information returned by the last execution of `query()` or `scalar()` (can be `null`).
+	 * The value generated for the `AUTO_INCREMENT` column by the last execution of `query()`, `scalar()` or `execute()` (`0` if the last statement did not generate a value, or if it returned rows).
+	 * 
+	 * This is the same value returned by `SELECT LAST_INSERT_ID()`, but without the additional round trip. When several rows are inserted by a single statement, `lastInsertId` contains the value generated for the first row.
+	 */
+	lastInsertId: number;
+
+	/**
+	 * How many rows were actually changed by the last `UPDATE` executed by `query()`, `scalar()` or `execute()`.
+	 * 
+	 * Unlike `affectedRows`, rows whose new values are the same as their current values are not counted.
+	 */
+	changedRows: number;
+
+	/**
+	 * How many warnings were produced by the last execution of `query()`, `scalar()` or `execute()` (`0` if the last statement returned rows).
+	 * 
+	 * Refer to `lastWarnings()` to obtain the actual warnings.
+	 */
+	warningStatus: number;
+
+	/**
+	 * The filed information returned by the last execution of `query()`, `scalar()` or `execute()` (can be `null`).
 	 */
 	resultFields: mysql.FieldPacket[] | null;
 
 	/**
 	 * Executes the statement given in `queryStr` and returns the resulting rows (if any).
 	 * 
+	 * Instead of ? placeholders, `queryStr` may contain named placeholders, with their values provided by the properties of an object. A name may be used several times, and arrays are expanded into lists, so they can be used in `IN` clauses. For example:
+	 * 
+	 * ```ts
+	 * await sql.query("SELECT id, name FROM user WHERE (name = :name OR nickname = :name) AND status IN (:status)", { name: "Alice", status: [1, 2] });
+	 * ```
+	 * 
+	 * An exception is thrown if a named placeholder does not have a corresponding property in the object (`null` is an acceptable value, while `undefined` is not). Empty arrays are replaced with `NULL`.
+	 * 
 	 * @param queryStr The statement to be executed.
-	 * @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`.
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` .
 	 */
 	query<T>(queryStr: string, values?: any): Promise<T[]>;
 
@@ -33,10 +347,120 @@ export interface SqlInterface {
 	 * Executes the statement given in `queryStr` and returns the first column of the first resulting row (if any).
 	 * 
 	 * @param queryStr The statement to be executed.
-	 * @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`.
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` (refer to `query()` for more information).
 	 */
 	scalar<T>(queryStr: string, values?: any): Promise<T | null>;
 
+	/**
+	 * Executes the statement given in `queryStr`, which must not return rows (such as `INSERT`, `UPDATE` or `DELETE`), and returns the object produced by MySQL, containing properties such as `affectedRows`, `insertId`, `changedRows` and `warningStatus`.
+	 * 
+	 * Unlike `query()` and `scalar()`, `execute()` uses a prepared statement (binary protocol), which is created only once per connection, and cached for later executions of the same `queryStr` (refer to `prepare()` for more information).
+	 * 
+	 * The binary protocol sends all numbers as `DOUBLE` values, which MySQL 8.0.22 and later rejects as the arguments of `LIMIT` and `OFFSET`. In those clauses, provide the values as strings (such as `String(count)`) or write validated integers directly into `queryStr`.
+	 * 
+	 * An exception is thrown if the statement returns rows.
+	 * 
+	 * @param queryStr The statement to be executed.
+	 * @param values Optional array of values to be used as the arguments of the ? placeholders used in `queryStr`, or an object whose properties are used as the arguments of the named placeholders used in `queryStr`, such as `:userId` (refer to `query()` for more information).
+	 */
+	execute(queryStr: string, values?: any): Promise<mysql.ResultSetHeader>;
+
+	/**
+	 * Returns the warnings produced by the last statement, by executing `SHOW WARNINGS`.
+	 * 
+	 * If `warningStatus` is `0`, no statements are executed and an empty array is returned. Executing `lastWarnings()` does not change `affectedRows`, `lastInsertId`, `changedRows`, `warningStatus` or `resultFields`.
+	 */
+	lastWarnings(): Promise<SqlWarning[]>;
+
+	/**
+	 * Creates a prepared statement (binary protocol), which can be executed several times with different values, without sending and parsing `queryStr` again.
+	 * 
+	 * Prepared statements are cached by the connection, which is kept open by the pool after `app.sql.connect()` finishes. Therefore, preparing the same `queryStr` again, even inside a later `app.sql.connect()`, reuses the existing statement whenever the same connection is used. The size of the cache of each connection is controlled by the option `maxPreparedStatements` of `config.sqlConfig`.
+	 * 
+	 * The object returned by `prepare()` can only be used inside the callback of the `app.sql.connect()` that created it.
+	 * 
+	 * The binary protocol sends all numbers as `DOUBLE` values, which MySQL 8.0.22 and later rejects as the arguments of `LIMIT` and `OFFSET`. In those clauses, provide the values as strings (such as `String(count)`) or write validated integers directly into `queryStr`.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * const statement = await sql.prepare("INSERT INTO product (name, price) VALUES (:name, :price)");
+	 * for (const product of products)
+	 *     await statement.execute(product);
+	 * ```
+	 * 
+	 * @param queryStr The statement to be prepared, with ? placeholders or named placeholders (but not both).
+	 */
+	prepare(queryStr: string): Promise<SqlPreparedStatement>;
+
+	/**
+	 * Executes several statements, in order, and returns one result for each statement.
+	 * 
+	 * If the option `multipleStatements` of `config.sqlConfig` is `true`, all statements are sent to the server at once, in a single round trip (in which case, each statement must produce a single result, so `CALL` statements must not be used). Otherwise, each statement is executed using a prepared statement, just like `execute()`.
+	 * 
+	 * The execution stops at the first statement that fails, and the promise is rejected. `batch()` does not create a transaction, so `beginTransaction()` should be called before `batch()` if the statements must be executed atomically.
+	 * 
+	 * The objects returned by `toSql()` of the query builders, such as `select()` and `insert()`, can also be used as statements.
+	 * 
+	 * @param statements Statements to be executed.
+	 */
+	batch(statements: (SqlBatchStatement | { toSql(): SqlBatchStatement })[]): Promise<SqlBatchResult[]>;
+
+	/**
+	 * Creates a `SELECT` statement, executed when awaited, which resolves to the resulting rows, just like `query()`.
+	 * 
+	 * For example:
+	 * 
+	 * ```ts
+	 * const users = await sql.select<User>("user", ["id", "name"])
+	 *     .where({ status: 1, name: (filter ? { like: filter + "%" } : undefined) })
+	 *     .orderBy("name")
+	 *     .limit(20, 40);
+	 * ```
+	 * 
+	 * @param table Name of the table.
+	 * @param columns Optional list of columns (all columns are returned if no columns are provided).
+	 */
+	select<T>(table: string, columns?: string[] | null): SelectQuery<T>;
+
+	/**
+	 * Creates an `INSERT` statement, executed when awaited, which resolves to the object returned by `query()` for statements that do not return rows (containing properties such as `affectedRows` and `insertId`).
+	 * 
+	 * Each property of `rows` is a column. When several rows are provided, the columns missing from some of them receive their default values.
+	 * 
+	 * @param table Name of the table.
+	 * @param rows Row, or array of rows, to be inserted.
+	 */
+	insert(table: string, rows: any | any[]): InsertQuery;
+
+	/**
+	 * Creates an `INSERT ... ON DUPLICATE KEY UPDATE` statement, executed when awaited, which resolves just like `insert()`.
+	 * 
+	 * @param table Name of the table.
+	 * @param rows Row, or array of rows, to be inserted or updated.
+	 * @param updateColumns Optional list of columns updated when a row already exists (all columns of `rows` are updated if no columns are provided).
+	 */
+	upsert(table: string, rows: any | any[], updateColumns?: string[] | null): InsertQuery;
+
+	/**
+	 * Creates an `UPDATE` statement, executed when awaited, which resolves just like `insert()`.
+	 * 
+	 * `where()` must be called with at least one condition, to prevent accidental updates of all rows of the table (use `whereAll()` to actually update all rows).
+	 * 
+	 * @param table Name of the table.
+	 * @param row Object whose properties are the columns to be updated.
+	 */
+	update(table: string, row: any): UpdateQuery;
+
+	/**
+	 * Creates a `DELETE` statement, executed when awaited, which resolves just like `insert()`.
+	 * 
+	 * `where()` must be called with at least one condition, to prevent accidental deletions of all rows of the table (use `whereAll()` to actually delete all rows).
+	 * 
+	 * @param table Name of the table.
+	 */
+	delete(table: string): DeleteQuery;
+
 	/**
 	 * Begins a database transaction.
 	 * 
@@ -69,9 +493,15 @@ export class Sql implements SqlInterface {
 	private connection: mysql.PoolConnection | null = null;
 	private pendingTransaction = false;
 	public affectedRows = 0;
+	public lastInsertId = 0;
+	public changedRows = 0;
+	public warningStatus = 0;
 	public resultFields: mysql.FieldPacket[] | null = null;
 
 	public static async connect<T>(callback: (sql: Sql) => Promise<T>): Promise<T> {
+		if (!pool)
+			throw new Error("The connection pool has already been closed");
+
 		return new Promise<T>(function (resolve, reject) {
 			pool.getConnection(function (error, connection) {
 				if (error) {
@@ -82,11 +512,15 @@ export class Sql implements SqlInterface {
 				const sql = new Sql();
 				sql.connection = connection;
 
+				pendingCallbacks++;
+
 				function cleanUp() {
 					if (sql) {
 						sql.connection = null;
 						sql.resultFields = null;
+						sql.warningStatus = 0;
 					}
+					pendingCallbacks--;
 					connection.release();
 				}
 
@@ -134,65 +568,287 @@ export class Sql implements SqlInterface {
 		});
 	}
 
-	public async query<T>(queryStr: string, values?: any): Promise<T[]> {
-		return new Promise<T[]>((resolve, reject) => {
+	private setResult(results: any, fields: mysql.FieldPacket[] | null | undefined): void {
+		// Statements that return rows do not have a ResultSetHeader.
+		const header = ((results && !Array.isArray(results)) ? results : null);
+
+		this.affectedRows = ((header && parseInt(header.affectedRows)) | 0);
+		this.lastInsertId = ((header && parseInt(header.insertId)) || 0);
+		this.changedRows = ((header && parseInt(header.changedRows)) | 0);
+		this.warningStatus = ((header && parseInt(header.warningStatus)) | 0);
+		this.resultFields = (fields || null);
+	}
+
+	/**
+	 * Executes the statement using `connection.query()` (text protocol), or using `connection.execute()` (binary protocol), if `binary` is `true`.
+	 */
+	private run(method: string, queryStr: string, values: any, binary: boolean): Promise<any> {
+		return new Promise<any>((resolve, reject) => {
+			const start = (queryObserver ? process.hrtime() : null);
+
 			const callback = (error: mysql.QueryError | null, results?: any, fields?: mysql.FieldPacket[]) => {
+				queryDone(method, start, !error);
+
 				if (error) {
 					reject(error);
 					return;
 				}
 
-				this.affectedRows = parseInt(results.affectedRows) | 0;
-				this.resultFields = (fields || null);
+				this.setResult(results, fields);
 
-				resolve(results as T[]);
+				resolve(results);
 			};
 
 			if (!this.connection)
 				throw new Error("Null connection");
 
-			if (values && values.length)
-				this.connection.query(queryStr, values, callback);
-			else
+			if (values !== undefined && values !== null && isNamedValues(values)) {
+				const compiled = compileNamedPlaceholders(queryStr, values);
+				queryStr = compiled.queryStr;
+				values = compiled.values;
+			}
+
+			if (binary) {
+				// connection.execute() prepares the statement only once, caching it in the
+				// connection, which is kept open by the pool after being released.
+				this.connection.execute(queryStr, ((values === undefined || values === null) ? [] : (Array.isArray(values) ? values : [values])), callback as any);
+			} else if (values === undefined || values === null) {
 				this.connection.query(queryStr, callback);
+			} else {
+				this.connection.query(queryStr, values, callback);
+			}
 		});
 	}
 
+	public async query<T>(queryStr: string, values?: any): Promise<T[]> {
+		return (await this.run("query", queryStr, values, false)) as T[];
+	}
+
 	public async scalar<T>(queryStr: string, values?: any): Promise<T | null> {
-		return new Promise<T | null>((resolve, reject) => {
-			const callback = (error: mysql.QueryError | null, results?: any, fields?: mysql.FieldPacket[]) => {
-				if (error) {
+		return firstColumn<T>(await this.run("scalar", queryStr, values, false));
+	}
+
+	public async execute(queryStr: string, values?: any): Promise<mysql.ResultSetHeader> {
+		return resultSetHeader(await this.run("execute", queryStr, values, true));
+	}
+
+	public async prepare(queryStr: string): Promise<SqlPreparedStatement> {
+		const placeholders = findNamedPlaceholders(queryStr);
+
+		let names: string[] | null = null;
+
+		if (placeholders.length) {
+			let compiled = "", last = 0;
+
+			names = new Array(placeholders.length);
+
+			for (let i = 0; i < placeholders.length; i++) {
+				compiled += queryStr.substring(last, placeholders[i].start) + "?";
+				last = placeholders[i].end;
+				names[i] = placeholders[i].name;
+			}
+
+			queryStr = compiled + queryStr.substring(last);
+		}
+
+		if (!this.connection)
+			throw new Error("Null connection");
+
+		const connection = this.connection;
+
+		let statement = await new Promise<any>(function (resolve, reject) {
+			connection.prepare(queryStr, function (error: mysql.QueryError | null, statement: any) {
+				if (error)
 					reject(error);
-					return;
+				else
+					resolve(statement);
+			});
+		});
+
+		const run = (method: string, values: any): Promise<any> => {
+			return new Promise<any>((resolve, reject) => {
+				// The statement belongs to the connection, which may be used by other
+				// callers after being released.
+				if (!statement || this.connection !== connection)
+					throw new Error("The prepared statement has been closed, or its connection has been released");
+
+				let parameters: any[];
+
+				if (names) {
+					if (!values || !isNamedValues(values))
+						throw new Error("The prepared statement uses named placeholders, and its values must be provided as an object");
+
+					parameters = new Array(names.length);
+					for (let i = 0; i < names.length; i++) {
+						const value = namedValue(values, names[i]);
+						if (Array.isArray(value))
+							throw new Error(`Arrays cannot be used with prepared statements (placeholder ":${names[i]}")`);
+						parameters[i] = value;
+					}
+				} else {
+					parameters = ((values === undefined || values === null) ? [] : (Array.isArray(values) ? values : [values]));
 				}
 
-				this.affectedRows = parseInt(results.affectedRows) | 0;
-				this.resultFields = (fields || null);
+				const start = (queryObserver ? process.hrtime() : null);
 
-				if (results) {
-					const r = results[0];
+				statement.execute(parameters, (error: mysql.QueryError | null, results?: any, fields?: mysql.FieldPacket[]) => {
+					queryDone(method, start, !error);
 
-					if (r) {
-						for (let i in r) {
-							resolve(r[i]);
-							return;
-						}
+					if (error) {
+						reject(error);
+						return;
 					}
+
+					this.setResult(results, fields);
+
+					resolve(results);
+				});
+			});
+		};
+
+		return {
+			query: async function <T>(values?: any): Promise<T[]> {
+				return (await run("query", values)) as T[];
+			},
+
+			scalar: async function <T>(values?: any): Promise<T | null> {
+				return firstColumn<T>(await run("scalar", values));
+			},
+
+			execute: async function (values?: any): Promise<mysql.ResultSetHeader> {
+				return resultSetHeader(await run("execute", values));
+			},
+
+			close: function (): void {
+				// The statement is not deallocated, as the connection's cache shares it
+				// with other handles (and execute() calls) using the same SQL.
+				statement = null;
+			}
+		};
+	}
+
+	public async batch(statements: (SqlBatchStatement | { toSql(): SqlBatchStatement })[]): Promise<SqlBatchResult[]> {
+		if (!this.connection)
+			throw new Error("Null connection");
+
+		const compiledStatements: SqlBatchStatement[] = new Array(statements.length);
+
+		for (let i = 0; i < statements.length; i++) {
+			const statement = statements[i] as any;
+			compiledStatements[i] = (((typeof statement.toSql) === "function") ? statement.toSql() : statement);
+			if (!compiledStatements[i] || !compiledStatements[i].queryStr)
+				throw new Error(`Invalid statement at index ${i}`);
+		}
+
+		const batchResults: SqlBatchResult[] = [];
+
+		if (!compiledStatements.length)
+			return batchResults;
+
+		const connection = this.connection;
+
+		if (!(connection as any).config || !(connection as any).config.multipleStatements) {
+			// Without multipleStatements, each statement requires its own round trip.
+			for (let i = 0; i < compiledStatements.length; i++) {
+				const results = await this.run("batch", compiledStatements[i].queryStr, compiledStatements[i].values, true);
+				batchResults.push({ results, affectedRows: this.affectedRows, lastInsertId: this.lastInsertId });
+			}
+			return batchResults;
+		}
+
+		// With multipleStatements, all statements are sent at once, in a single round trip.
+		let queryStr = "";
+
+		for (let i = 0; i < compiledStatements.length; i++) {
+			let statementStr = compiledStatements[i].queryStr,
+				values = compiledStatements[i].values;
+
+			if (values !== undefined && values !== null) {
+				if (isNamedValues(values)) {
+					const compiled = compileNamedPlaceholders(statementStr, values);
+					statementStr = compiled.queryStr;
+					values = compiled.values;
 				}
+				statementStr = connection.format(statementStr, values);
+			}
 
-				resolve(null);
-			};
+			// Trailing semicolons would produce empty statements, rejected by the server.
+			queryStr += (i ? ";\n" : "") + statementStr.replace(/[\s;]+$/, "");
+		}
 
-			if (!this.connection)
-				throw new Error("Null connection");
+		let results = await this.run("batch", queryStr, null, false);
 
-			if (values && values.length)
-				this.connection.query(queryStr, values, callback);
-			else
-				this.connection.query(queryStr, callback);
+		// mysql2 only returns an array of results when there are several statements.
+		if (compiledStatements.length === 1)
+			results = [results];
+
+		for (let i = 0; i < compiledStatements.length; i++) {
+			const header = ((results[i] && !Array.isArray(results[i])) ? results[i] : null);
+			batchResults.push({
+				results: results[i],
+				affectedRows: ((header && parseInt(header.affectedRows)) | 0),
+				lastInsertId: ((header && parseInt(header.insertId)) || 0)
+			});
+		}
+
+		// Keep the information about the last statement, just like the other methods
+		// (with several statements, resultFields contains one array of fields per
+		// statement at this point).
+		const fields = this.resultFields as any;
+		this.setResult(results[results.length - 1], ((fields && compiledStatements.length > 1) ? fields[fields.length - 1] : fields));
+
+		return batchResults;
+	}
+
+	public async lastWarnings(): Promise<SqlWarning[]> {
+		if (!this.warningStatus)
+			return [];
+
+		if (!this.connection)
+			throw new Error("Null connection");
+
+		const connection = this.connection;
+
+		// connection.query() is used directly, instead of query(), so that the
+		// information about the last statement is preserved.
+		return new Promise<SqlWarning[]>(function (resolve, reject) {
+			connection.query("show warnings", function (error: mysql.QueryError | null, results?: any) {
+				if (error) {
+					reject(error);
+					return;
+				}
+
+				const warnings: SqlWarning[] = [];
+				if (Array.isArray(results)) {
+					for (let i = 0; i < results.length; i++)
+						warnings.push({ level: results[i].Level, code: parseInt(results[i].Code) | 0, message: results[i].Message });
+				}
+
+				resolve(warnings);
+			});
 		});
 	}
 
+	public select<T>(table: string, columns?: string[] | null): SelectQuery<T> {
+		return new Select<T>((queryStr, values) => this.query<T>(queryStr, values), table, columns || null);
+	}
+
+	public insert(table: string, rows: any | any[]): InsertQuery {
+		return new Insert((queryStr, values) => this.query(queryStr, values), table, rows);
+	}
+
+	public upsert(table: string, rows: any | any[], updateColumns?: string[] | null): InsertQuery {
+		return new Insert((queryStr, values) => this.query(queryStr, values), table, rows, updateColumns || null);
+	}
+
+	public update(table: string, row: any): UpdateQuery {
+		return new Update((queryStr, values) => this.query(queryStr, values), table, row);
+	}
+
+	public delete(table: string): DeleteQuery {
+		return new Delete((queryStr, values) => this.query(queryStr, values), table);
+	}
+
 	public async beginTransaction(): Promise<void> {
 		if (this.pendingTransaction)
 			throw new Error("There is already an open transaction in this connection");
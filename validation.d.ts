@@ -0,0 +1,55 @@
+﻿export type SchemaFieldType = "string" | "number" | "int" | "boolean" | "object" | "array" | "any";
+export interface SchemaField {
+	/**
+		* Type of the field.
+		*
+		* Since query strings and urlencoded bodies only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted from strings (`"true"`, `"false"`, `"1"` and `"0"` are accepted as booleans).
+		*
+		* Fields with type `"array"` also accept a single value, which is converted into an array with one element.
+		*/
+	type: SchemaFieldType;
+	/**
+		* Indicates whether the field must be present. `undefined`, `null` and empty strings are considered missing values.
+		*/
+	required?: boolean | null;
+	/**
+		* Minimum value for fields with types `"number"` and `"int"`, minimum length for fields with type `"string"` or minimum amount of elements for fields with type `"array"`.
+		*/
+	min?: number | null;
+	/**
+		* Maximum value for fields with types `"number"` and `"int"`, maximum length for fields with type `"string"` or maximum amount of elements for fields with type `"array"`.
+		*/
+	max?: number | null;
+	/**
+		* List of acceptable values for the field (compared after the value has been converted into `type`).
+		*/
+	enum?: any[] | null;
+	/**
+		* Schema of the properties of fields with type `"object"`.
+		*/
+	properties?: Schema | null;
+	/**
+		* Schema of the elements of fields with type `"array"`.
+		*/
+	items?: SchemaField | null;
+}
+export interface Schema {
+	[fieldName: string]: SchemaField;
+}
+export interface ValidationFieldError {
+	/**
+		* Full path of the offending field, such as `name`, `address.zip` or `items[2].price`.
+		*/
+	field: string;
+	/**
+		* Description of the problem found in the field.
+		*/
+	message: string;
+}
+export declare function checkSchema(schema: Schema, field: string): void;
+/**
+	* Validates `obj` against `schema`, converting the values of its fields as necessary, and returns all the errors found.
+	*
+	* `obj` is changed in place, so that after a successful validation all of its fields contain values of the expected types.
+	*/
+export declare function validate(schema: Schema, obj: any): ValidationFieldError[];
@@ -0,0 +1,137 @@
+﻿"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.checkSchema = checkSchema;
+exports.validate = validate;
+const validTypes = {
+	string: true,
+	number: true,
+	int: true,
+	boolean: true,
+	object: true,
+	array: true,
+	any: true
+};
+function childField(field, name) {
+	return (field ? (field + "." + name) : name);
+}
+function checkField(schemaField, field) {
+	if (!schemaField || (typeof schemaField) !== "object")
+		throw new Error(`Invalid schema for field "${field}"`);
+	if (!validTypes[schemaField.type])
+		throw new Error(`Invalid type "${schemaField.type}" in schema for field "${field}"`);
+	if (schemaField.enum && !Array.isArray(schemaField.enum))
+		throw new Error(`Invalid enum in schema for field "${field}"`);
+	if (schemaField.properties)
+		checkSchema(schemaField.properties, field);
+	if (schemaField.items)
+		checkField(schemaField.items, field + "[]");
+}
+function checkSchema(schema, field) {
+	if (!schema || (typeof schema) !== "object" || Array.isArray(schema))
+		throw new Error(`Invalid schema${field ? (` for field "${field}"`) : ""}`);
+	for (let name in schema)
+		checkField(schema[name], childField(field, name));
+}
+function validateField(schemaField, value, field, errors) {
+	if (value === undefined || value === null || value === "") {
+		if (schemaField.required)
+			errors.push({ field, message: "is required" });
+		// Empty strings are kept only when the field is actually a string.
+		return ((value === "" && schemaField.type !== "string" && schemaField.type !== "any") ? undefined : value);
+	}
+	const min = schemaField.min, max = schemaField.max;
+	switch (schemaField.type) {
+		case "string":
+			if ((typeof value) !== "string") {
+				errors.push({ field, message: "must be a string" });
+				return value;
+			}
+			if ((min || min === 0) && value.length < min)
+				errors.push({ field, message: `must have at least ${min} characters` });
+			if ((max || max === 0) && value.length > max)
+				errors.push({ field, message: `must have at most ${max} characters` });
+			break;
+		case "number":
+		case "int":
+			if ((typeof value) === "string") {
+				const str = value.trim();
+				value = (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(str) ? parseFloat(str) : NaN);
+			}
+			if ((typeof value) !== "number" || !isFinite(value)) {
+				errors.push({ field, message: "must be a number" });
+				return value;
+			}
+			if (schemaField.type === "int" && !Number.isSafeInteger(value)) {
+				errors.push({ field, message: "must be an integer" });
+				return value;
+			}
+			if ((min || min === 0) && value < min)
+				errors.push({ field, message: `must be greater than or equal to ${min}` });
+			if ((max || max === 0) && value > max)
+				errors.push({ field, message: `must be less than or equal to ${max}` });
+			break;
+		case "boolean":
+			if ((typeof value) === "string") {
+				switch (value.toLowerCase()) {
+					case "true":
+					case "1":
+						value = true;
+						break;
+					case "false":
+					case "0":
+						value = false;
+						break;
+				}
+			}
+			if ((typeof value) !== "boolean") {
+				errors.push({ field, message: "must be a boolean" });
+				return value;
+			}
+			break;
+		case "object":
+			if ((typeof value) !== "object" || Array.isArray(value)) {
+				errors.push({ field, message: "must be an object" });
+				return value;
+			}
+			if (schemaField.properties)
+				validateObject(schemaField.properties, value, field, errors);
+			break;
+		case "array":
+			if (!Array.isArray(value))
+				value = [value];
+			if ((min || min === 0) && value.length < min)
+				errors.push({ field, message: `must have at least ${min} elements` });
+			if ((max || max === 0) && value.length > max)
+				errors.push({ field, message: `must have at most ${max} elements` });
+			if (schemaField.items) {
+				for (let i = 0; i < value.length; i++)
+					value[i] = validateField(schemaField.items, value[i], `${field}[${i}]`, errors);
+			}
+			break;
+	}
+	if (schemaField.enum && schemaField.enum.indexOf(value) < 0)
+		errors.push({ field, message: "must be one of the following values: " + schemaField.enum.join(", ") });
+	return value;
+}
+function validateObject(schema, obj, field, errors) {
+	for (let name in schema) {
+		const value = validateField(schema[name], obj[name], childField(field, name), errors);
+		if (value === undefined)
+			delete obj[name];
+		else
+			obj[name] = value;
+	}
+}
+/**
+	* Validates `obj` against `schema`, converting the values of its fields as necessary, and returns all the errors found.
+	*
+	* `obj` is changed in place, so that after a successful validation all of its fields contain values of the expected types.
+	*/
+function validate(schema, obj) {
+	const errors = [];
+	if (!obj || (typeof obj) !== "object" || Array.isArray(obj))
+		errors.push({ field: "", message: "must be an object" });
+	else
+		validateObject(schema, obj, "", errors);
+	return errors;
+}
@@ -0,0 +1,214 @@
+export type SchemaFieldType = "string" | "number" | "int" | "boolean" | "object" | "array" | "any";
+
+export interface SchemaField {
+	/**
+	 * Type of the field.
+	 * 
+	 * Since query strings and urlencoded bodies only contain strings, values of fields with types `"number"`, `"int"` and `"boolean"` are automatically converted from strings (`"true"`, `"false"`, `"1"` and `"0"` are accepted as booleans).
+	 * 
+	 * Fields with type `"array"` also accept a single value, which is converted into an array with one element.
+	 */
+	type: SchemaFieldType;
+
+	/**
+	 * Indicates whether the field must be present. `undefined`, `null` and empty strings are considered missing values.
+	 */
+	required?: boolean | null;
+
+	/**
+	 * Minimum value for fields with types `"number"` and `"int"`, minimum length for fields with type `"string"` or minimum amount of elements for fields with type `"array"`.
+	 */
+	min?: number | null;
+
+	/**
+	 * Maximum value for fields with types `"number"` and `"int"`, maximum length for fields with type `"string"` or maximum amount of elements for fields with type `"array"`.
+	 */
+	max?: number | null;
+
+	/**
+	 * List of acceptable values for the field (compared after the value has been converted into `type`).
+	 */
+	enum?: any[] | null;
+
+	/**
+	 * Schema of the properties of fields with type `"object"`.
+	 */
+	properties?: Schema | null;
+
+	/**
+	 * Schema of the elements of fields with type `"array"`.
+	 */
+	items?: SchemaField | null;
+}
+
+export interface Schema {
+	[fieldName: string]: SchemaField;
+}
+
+export interface ValidationFieldError {
+	/**
+	 * Full path of the offending field, such as `name`, `address.zip` or `items[2].price`.
+	 */
+	field: string;
+
+	/**
+	 * Description of the problem found in the field.
+	 */
+	message: string;
+}
+
+const validTypes: { [type: string]: boolean } = {
+	string: true,
+	number: true,
+	int: true,
+	boolean: true,
+	object: true,
+	array: true,
+	any: true
+};
+
+function childField(field: string, name: string): string {
+	return (field ? (field + "." + name) : name);
+}
+
+function checkField(schemaField: SchemaField, field: string): void {
+	if (!schemaField || (typeof schemaField) !== "object")
+		throw new Error(`Invalid schema for field "${field}"`);
+
+	if (!validTypes[schemaField.type])
+		throw new Error(`Invalid type "${schemaField.type}" in schema for field "${field}"`);
+
+	if (schemaField.enum && !Array.isArray(schemaField.enum))
+		throw new Error(`Invalid enum in schema for field "${field}"`);
+
+	if (schemaField.properties)
+		checkSchema(schemaField.properties, field);
+
+	if (schemaField.items)
+		checkField(schemaField.items, field + "[]");
+}
+
+export function checkSchema(schema: Schema, field: string): void {
+	if (!schema || (typeof schema) !== "object" || Array.isArray(schema))
+		throw new Error(`Invalid schema${field ? (` for field "${field}"`) : ""}`);
+
+	for (let name in schema)
+		checkField(schema[name], childField(field, name));
+}
+
+function validateField(schemaField: SchemaField, value: any, field: string, errors: ValidationFieldError[]): any {
+	if (value === undefined || value === null || value === "") {
+		if (schemaField.required)
+			errors.push({ field, message: "is required" });
+		// Empty strings are kept only when the field is actually a string.
+		return ((value === "" && schemaField.type !== "string" && schemaField.type !== "any") ? undefined : value);
+	}
+
+	const min = schemaField.min,
+		max = schemaField.max;
+
+	switch (schemaField.type) {
+		case "string":
+			if ((typeof value) !== "string") {
+				errors.push({ field, message: "must be a string" });
+				return value;
+			}
+			if ((min || min === 0) && value.length < min)
+				errors.push({ field, message: `must have at least ${min} characters` });
+			if ((max || max === 0) && value.length > max)
+				errors.push({ field, message: `must have at most ${max} characters` });
+			break;
+
+		case "number":
+		case "int":
+			if ((typeof value) === "string") {
+				const str = value.trim();
+				value = (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(str) ? parseFloat(str) : NaN);
+			}
+			if ((typeof value) !== "number" || !isFinite(value)) {
+				errors.push({ field, message: "must be a number" });
+				return value;
+			}
+			if (schemaField.type === "int" && !Number.isSafeInteger(value)) {
+				errors.push({ field, message: "must be an integer" });
+				return value;
+			}
+			if ((min || min === 0) && value < min)
+				errors.push({ field, message: `must be greater than or equal to ${min}` });
+			if ((max || max === 0) && value > max)
+				errors.push({ field, message: `must be less than or equal to ${max}` });
+			break;
+
+		case "boolean":
+			if ((typeof value) === "string") {
+				switch (value.toLowerCase()) {
+					case "true":
+					case "1":
+						value = true;
+						break;
+					case "false":
+					case "0":
+						value = false;
+						break;
+				}
+			}
+			if ((typeof value) !== "boolean") {
+				errors.push({ field, message: "must be a boolean" });
+				return value;
+			}
+			break;
+
+		case "object":
+			if ((typeof value) !== "object" || Array.isArray(value)) {
+				errors.push({ field, message: "must be an object" });
+				return value;
+			}
+			if (schemaField.properties)
+				validateObject(schemaField.properties, value, field, errors);
+			break;
+
+		case "array":
+			if (!Array.isArray(value))
+				value = [value];
+			if ((min || min === 0) && value.length < min)
+				errors.push({ field, message: `must have at least ${min} elements` });
+			if ((max || max === 0) && value.length > max)
+				errors.push({ field, message: `must have at most ${max} elements` });
+			if (schemaField.items) {
+				for (let i = 0; i < value.length; i++)
+					value[i] = validateField(schemaField.items, value[i], `${field}[${i}]`, errors);
+			}
+			break;
+	}
+
+	if (schemaField.enum && schemaField.enum.indexOf(value) < 0)
+		errors.push({ field, message: "must be one of the following values: " + schemaField.enum.join(", ") });
+
+	return value;
+}
+
+function validateObject(schema: Schema, obj: any, field: string, errors: ValidationFieldError[]): void {
+	for (let name in schema) {
+		const value = validateField(schema[name], obj[name], childField(field, name), errors);
+		if (value === undefined)
+			delete obj[name];
+		else
+			obj[name] = value;
+	}
+}
+
+/**
+ * Validates `obj` against `schema`, converting the values of its fields as necessary, and returns all the errors found.
+ * 
+ * `obj` is changed in place, so that after a successful validation all of its fields contain values of the expected types.
+ */
+export function validate(schema: Schema, obj: any): ValidationFieldError[] {
+	const errors: ValidationFieldError[] = [];
+
+	if (!obj || (typeof obj) !== "object" || Array.isArray(obj))
+		errors.push({ field: "", message: "must be an object" });
+	else
+		validateObject(schema, obj, "", errors);
+
+	return errors;
+}